@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LocationPickerDialog } from '@/components/map/LocationPickerDialog';
+import { bookingPin, pinsDiffer, requestBookingChange } from '@/lib/booking-changes';
+import { RoutePoint } from '@/lib/trip-stops';
+import { Booking, GeocodedPlace } from '@/types';
+import { MapPin, X } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface BookingChangeDialogProps {
+  booking: Booking | null;
+  onOpenChange: (open: boolean) => void;
+  routePoints: RoutePoint[];
+  onChanged: () => void;
+}
+
+export const BookingChangeDialog: React.FC<BookingChangeDialogProps> = ({
+  booking,
+  onOpenChange,
+  routePoints,
+  onChanged
+}) => {
+  const [seats, setSeats] = useState(1);
+  const [fromStop, setFromStop] = useState(0);
+  const [message, setMessage] = useState('');
+  const [pins, setPins] = useState<Record<'pickup' | 'dropoff', GeocodedPlace | null>>({ pickup: null, dropoff: null });
+  const [pinPicker, setPinPicker] = useState<'pickup' | 'dropoff' | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (booking) {
+      setSeats(booking.seats_requested);
+      setFromStop(booking.from_stop ?? 0);
+      setMessage(booking.message || '');
+      setPins({ pickup: bookingPin(booking, 'pickup'), dropoff: bookingPin(booking, 'dropoff') });
+    }
+  }, [booking]);
+
+  if (!booking) return null;
+
+  const toStop = booking.to_stop ?? routePoints.length - 1;
+  const hasStops = routePoints.length > 2;
+  const pinsMoved = pinsDiffer(pins.pickup, bookingPin(booking, 'pickup'))
+    || pinsDiffer(pins.dropoff, bookingPin(booking, 'dropoff'));
+  const needsApproval = booking.status === 'accepted' && (seats > booking.seats_requested || pinsMoved);
+
+  const pinStartPlace = (kind: 'pickup' | 'dropoff'): GeocodedPlace | null => {
+    const point = routePoints[kind === 'pickup' ? fromStop : toStop];
+    return point?.lat != null && point.lng != null
+      ? { name: point.name, lat: Number(point.lat), lng: Number(point.lng) }
+      : null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const status = await requestBookingChange({
+        bookingId: booking.id,
+        seats,
+        fromStop,
+        message,
+        pickup: pins.pickup,
+        dropoff: pins.dropoff
+      });
+      toast.success(status === 'pending' ? 'Change sent to the driver for approval' : 'Booking updated');
+      onChanged();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error.message || 'Failed to change booking');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={!!booking} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Change booking</DialogTitle>
+            <DialogDescription>
+              Fewer seats and other changes apply straight away. Extra seats or moved pins on an
+              accepted booking need the driver's approval.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="booking-change-seats">Seats</Label>
+              <Input
+                id="booking-change-seats"
+                type="number"
+                min="1"
+                max="8"
+                value={seats}
+                onChange={(e) => setSeats(parseInt(e.target.value) || 1)}
+              />
+            </div>
+
+            {hasStops && (
+              <div className="space-y-2">
+                <Label>Get On At</Label>
+                <Select value={fromStop.toString()} onValueChange={(value) => setFromStop(parseInt(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {routePoints.slice(0, toStop).map((point, index) => (
+                      <SelectItem key={index} value={index.toString()}>{point.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Pickup and drop-off points (optional)</Label>
+              {(['pickup', 'dropoff'] as const).map((kind) => (
+                <div key={kind} className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="flex-1 justify-start min-w-0"
+                    onClick={() => setPinPicker(kind)}
+                  >
+                    <MapPin className="h-4 w-4 mr-2 shrink-0" />
+                    <span className="truncate">
+                      {pins[kind]?.name || (kind === 'pickup' ? 'Drop a pickup pin' : 'Drop a drop-off pin')}
+                    </span>
+                  </Button>
+                  {pins[kind] && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setPins(prev => ({ ...prev, [kind]: null }))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="booking-change-message">Message to driver</Label>
+              <Textarea
+                id="booking-change-message"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={3}
+              />
+            </div>
+
+            {needsApproval && (
+              <p className="text-sm text-muted-foreground">
+                You keep your current {booking.seats_requested} seat{booking.seats_requested !== 1 ? 's' : ''} and
+                pins until the driver approves.
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving} className="flex-1">
+                {saving ? 'Saving...' : needsApproval ? 'Ask Driver' : 'Save Changes'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <LocationPickerDialog
+        open={pinPicker !== null}
+        onOpenChange={(open) => !open && setPinPicker(null)}
+        title={pinPicker === 'dropoff' ? 'Choose your drop-off point' : 'Choose your pickup point'}
+        initialPlace={pinPicker ? pins[pinPicker] ?? pinStartPlace(pinPicker) : null}
+        onConfirm={(place) => {
+          if (pinPicker) setPins(prev => ({ ...prev, [pinPicker]: place }));
+        }}
+      />
+    </>
+  );
+};
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  BOOKING_CHANGE_STATUS_LABELS,
+  BookingChangeWithPassenger,
+  describeBookingChange,
+  fetchBookingChanges,
+  respondToBookingChange,
+  withdrawBookingChange
+} from '@/lib/booking-changes';
+import { RoutePoint } from '@/lib/trip-stops';
+import { History } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface BookingChangeHistoryProps {
+  tripId: string;
+  routePoints: RoutePoint[];
+  isDriver: boolean;
+  // Pending changes can only be answered before the trip starts
+  editable: boolean;
+  onChanged: () => void;
+}
+
+// Shared by both sides; passengers only get their own changes back
+export const BookingChangeHistory: React.FC<BookingChangeHistoryProps> = ({
+  tripId,
+  routePoints,
+  isDriver,
+  editable,
+  onChanged
+}) => {
+  const [changes, setChanges] = useState<BookingChangeWithPassenger[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadChanges = async () => {
+    try {
+      setChanges(await fetchBookingChanges(tripId));
+    } catch (error) {
+      console.warn('Failed to load booking changes:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadChanges();
+
+    const channel = supabase
+      .channel(`booking-changes-${tripId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'booking_changes',
+          filter: `trip_id=eq.${tripId}`
+        },
+        () => {
+          loadChanges();
+          onChanged();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [tripId]);
+
+  const runAction = async (changeId: string, action: () => Promise<void>, successMessage: string) => {
+    setBusyId(changeId);
+    try {
+      await action();
+      toast.success(successMessage);
+      loadChanges();
+      onChanged();
+    } catch (error) {
+      toast.error(error.message || 'Action failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Booking Changes
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {changes.map((change) => (
+            <div key={change.id} className="p-3 rounded-lg border border-border text-sm space-y-2">
+              <div className="flex justify-between items-start gap-2">
+                <div>
+                  {isDriver && (
+                    <p className="font-medium">{change.profiles?.full_name || 'Passenger'}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(change.created_at).toLocaleString([], {
+                      day: 'numeric',
+                      month: 'short',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                  </p>
+                </div>
+                <Badge variant={change.status === 'pending' ? 'default' : 'secondary'}>
+                  {BOOKING_CHANGE_STATUS_LABELS[change.status]}
+                </Badge>
+              </div>
+              <ul className="text-muted-foreground">
+                {describeBookingChange(change, routePoints).map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+              {change.status === 'pending' && editable && (
+                isDriver ? (
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-1"
+                      disabled={busyId === change.id}
+                      onClick={() => runAction(change.id, () => respondToBookingChange(change.id, false), 'Change declined')}
+                    >
+                      Decline
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="success"
+                      className="flex-1"
+                      disabled={busyId === change.id}
+                      onClick={() => runAction(change.id, () => respondToBookingChange(change.id, true), 'Change approved')}
+                    >
+                      Approve
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={busyId === change.id}
+                    onClick={() => runAction(change.id, () => withdrawBookingChange(change.id), 'Change withdrawn')}
+                  >
+                    Withdraw
+                  </Button>
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { MockCheckoutDialog } from '@/components/bookings/MockCheckoutDialog';
+import {
+  CheckoutOutcome,
+  CheckoutSession,
+  completeMockCheckout,
+  confirmPayment,
+  describePayment,
+  fetchBookingPayment,
+  needsPayment,
+  openRazorpayCheckout,
+  startPayment
+} from '@/lib/payments';
+import { formatINR } from '@/lib/utils';
+import { Payment } from '@/types';
+import { CreditCard } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface BookingPaymentProps {
+  bookingId: string;
+  amount: number;
+  // Accepted bookings on trips that have not finished can still be paid
+  canPay: boolean;
+  // Shown on the gateway's checkout
+  description: string;
+  className?: string;
+}
+
+// The passenger's side of paying for a booking: a pay button until the money
+// is held, then where it stands as the booking is settled
+export const BookingPayment: React.FC<BookingPaymentProps> = ({
+  bookingId,
+  amount,
+  canPay,
+  description,
+  className
+}) => {
+  const { profile } = useAuth();
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [paying, setPaying] = useState(false);
+  const [mockSession, setMockSession] = useState<CheckoutSession | null>(null);
+
+  useEffect(() => {
+    const load = () => fetchBookingPayment(bookingId)
+      .then(setPayment)
+      .catch((error) => console.warn('Failed to load payment:', error))
+      .finally(() => setLoaded(true));
+
+    load();
+
+    // Settlement happens in the background, so follow it live
+    const channel = supabase
+      .channel(`payment-${bookingId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'payments',
+          filter: `booking_id=eq.${bookingId}`
+        },
+        load
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [bookingId]);
+
+  const finish = async (session: CheckoutSession, outcome: CheckoutOutcome) => {
+    try {
+      const status = await confirmPayment(session, outcome);
+      if (status === 'authorized' || status === 'captured') {
+        toast.success(`${formatINR(session.amount)} paid. You're only charged once the trip ends.`);
+      } else if ('failed' in outcome) {
+        toast.error('Payment not completed');
+      }
+      setPayment(await fetchBookingPayment(bookingId));
+    } catch (error) {
+      toast.error(error.message || 'Could not confirm the payment');
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  const pay = async () => {
+    setPaying(true);
+    try {
+      const session = await startPayment(bookingId);
+      if (session.provider === 'mock') {
+        setMockSession(session);
+        return;
+      }
+      const outcome = await openRazorpayCheckout(session, {
+        description,
+        prefill: { name: profile?.full_name, email: profile?.email, contact: profile?.phone }
+      });
+      await finish(session, outcome);
+    } catch (error) {
+      toast.error(error.message || 'Could not start the payment');
+      setPaying(false);
+    }
+  };
+
+  if (!loaded || amount <= 0) return null;
+
+  const unpaid = needsPayment(payment);
+  if (unpaid && !canPay) return null;
+
+  return (
+    <div className={`flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50 ${className || ''}`}>
+      <div className="flex items-center gap-2 text-sm">
+        <CreditCard className="h-4 w-4 text-primary" />
+        <span>
+          {unpaid
+            ? payment?.status === 'failed'
+              ? describePayment(payment)
+              : 'Pay now; the money is held and only charged once the trip ends'
+            : describePayment(payment)}
+        </span>
+      </div>
+      {unpaid && (
+        <Button size="sm" onClick={pay} disabled={paying}>
+          {paying ? 'Opening...' : `Pay ${formatINR(amount)}`}
+        </Button>
+      )}
+
+      <MockCheckoutDialog
+        session={mockSession}
+        onResult={(approved) => {
+          const session = mockSession;
+          setMockSession(null);
+          if (session) finish(session, completeMockCheckout(session, approved));
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { CheckoutSession } from '@/lib/payments';
+import { formatINR } from '@/lib/utils';
+
+interface MockCheckoutDialogProps {
+  // The checkout being paid, or null when closed
+  session: CheckoutSession | null;
+  onResult: (approved: boolean) => void;
+}
+
+// Stands in for the gateway's checkout when payments run on the local mock
+export const MockCheckoutDialog: React.FC<MockCheckoutDialogProps> = ({ session, onResult }) => (
+  <Dialog open={!!session} onOpenChange={(open) => !open && onResult(false)}>
+    <DialogContent className="sm:max-w-sm">
+      <DialogHeader>
+        <DialogTitle>Test payment</DialogTitle>
+        <DialogDescription>
+          Payments are running on the local mock gateway. No real money moves.
+        </DialogDescription>
+      </DialogHeader>
+
+      {session && (
+        <div className="space-y-4">
+          <div className="p-4 rounded-lg bg-muted/50 text-center">
+            <p className="text-sm text-muted-foreground">Amount</p>
+            <p className="text-2xl font-bold">{formatINR(session.amount)}</p>
+            <p className="text-xs text-muted-foreground mt-1 font-mono">{session.orderId}</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onResult(false)} className="flex-1">
+              Decline
+            </Button>
+            <Button variant="success" onClick={() => onResult(true)} className="flex-1">
+              Pay
+            </Button>
+          </div>
+        </div>
+      )}
+    </DialogContent>
+  </Dialog>
+);
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchPickupCode } from '@/lib/trip-lifecycle';
+import { KeyRound } from 'lucide-react';
+
+interface PickupCodeProps {
+  bookingId: string;
+  onPickedUp: () => void;
+  className?: string;
+}
+
+// The passenger's side of a verified pickup: the code they read out to the driver
+export const PickupCode: React.FC<PickupCodeProps> = ({ bookingId, onPickedUp, className }) => {
+  const [code, setCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPickupCode(bookingId)
+      .then(setCode)
+      .catch((error) => console.warn('Failed to load pickup code:', error));
+
+    const channel = supabase
+      .channel(`pickup-${bookingId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'bookings',
+          filter: `id=eq.${bookingId}`
+        },
+        (payload) => {
+          if (payload.new.picked_up_at) {
+            setCode(null);
+            onPickedUp();
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [bookingId]);
+
+  if (!code) return null;
+
+  return (
+    <div className={`flex items-center justify-between gap-4 p-3 rounded-lg bg-primary/10 ${className || ''}`}>
+      <div className="flex items-center gap-2 text-sm">
+        <KeyRound className="h-4 w-4 text-primary" />
+        <span>Pickup code: tell your driver when you get in</span>
+      </div>
+      <span className="font-mono text-2xl font-bold tracking-[0.3em] text-primary">{code}</span>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { markPassengerPickedUp } from '@/lib/trip-lifecycle';
+import { toast } from 'sonner';
+
+interface PickupCodeDialogProps {
+  // The booking being picked up, or null when closed
+  bookingId: string | null;
+  passengerName: string;
+  onOpenChange: (open: boolean) => void;
+  onPickedUp: () => void;
+}
+
+export const PickupCodeDialog: React.FC<PickupCodeDialogProps> = ({
+  bookingId,
+  passengerName,
+  onOpenChange,
+  onPickedUp
+}) => {
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setCode('');
+  }, [bookingId]);
+
+  const verify = async () => {
+    if (!bookingId) return;
+    setBusy(true);
+    try {
+      await markPassengerPickedUp(bookingId, code);
+      toast.success(`${passengerName} is on board`);
+      onPickedUp();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error.message || 'Could not verify the code');
+      setCode('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!bookingId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Pick up {passengerName}</DialogTitle>
+          <DialogDescription>
+            Ask the passenger for the 4-digit pickup code shown on their booking.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex justify-center">
+            <InputOTP maxLength={4} value={code} onChange={setCode} pattern={REGEXP_ONLY_DIGITS}>
+              <InputOTPGroup>
+                {[0, 1, 2, 3].map((index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Cancel
+            </Button>
+            <Button variant="success" onClick={verify} disabled={busy || code.length < 4} className="flex-1">
+              {busy ? 'Checking...' : 'Confirm Pickup'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { startConversation } from '@/lib/messaging';
 import { Phone, MessageCircle, Send } from 'lucide-react';
 import { Profile } from '@/types';
 
@@ -12,30 +14,51 @@ interface ContactModalProps {
   onClose: () => void;
   contactPerson: Profile;
   userRole: 'driver' | 'passenger';
+  tripId: string;
+  // Required when a driver contacts one of their passengers
+  passengerId?: string;
 }
 
 export const ContactModal: React.FC<ContactModalProps> = ({
   isOpen,
   onClose,
   contactPerson,
-  userRole
+  userRole,
+  tripId,
+  passengerId
 }) => {
   const [message, setMessage] = useState('');
-  const [subject, setSubject] = useState('');
+  const [sending, setSending] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
 
-  const handleSendMessage = () => {
-    if (!message.trim()) return;
-    
-    // In a real app, this would send the message through your backend
-    toast({
-      title: "Message Sent",
-      description: `Your message has been sent to ${contactPerson.full_name}`,
-    });
-    
-    setMessage('');
-    setSubject('');
-    onClose();
+  const handleSendMessage = async () => {
+    if (!message.trim() || !user) return;
+
+    setSending(true);
+    try {
+      const conversationId = await startConversation(tripId, userRole === 'driver' ? passengerId : undefined);
+      const { error } = await supabase
+        .from('messages')
+        .insert({ conversation_id: conversationId, sender_id: user.id, body: message.trim() });
+      if (error) throw error;
+
+      toast({
+        title: "Message Sent",
+        description: `Your message has been sent to ${contactPerson.full_name}`,
+      });
+
+      setMessage('');
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Message Not Sent",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
   };
 
   const handlePhoneCall = () => {
@@ -80,15 +103,6 @@ export const ContactModal: React.FC<ContactModalProps> = ({
           </div>
 
           <div className="space-y-3">
-            <div>
-              <label className="text-sm font-medium">Subject</label>
-              <Input
-                placeholder="Trip inquiry..."
-                value={subject}
-                onChange={(e) => setSubject(e.target.value)}
-              />
-            </div>
-            
             <div>
               <label className="text-sm font-medium">Message</label>
               <Textarea
@@ -96,6 +110,7 @@ export const ContactModal: React.FC<ContactModalProps> = ({
                 value={message}
                 onChange={(e) => setMessage(e.target.value)}
                 rows={4}
+                maxLength={2000}
               />
             </div>
           </div>
@@ -106,11 +121,11 @@ export const ContactModal: React.FC<ContactModalProps> = ({
             </Button>
             <Button 
               onClick={handleSendMessage}
-              disabled={!message.trim()}
+              disabled={!message.trim() || sending}
               className="flex-1 flex items-center gap-2"
             >
               <Send className="w-4 h-4" />
-              Send Message
+              {sending ? 'Sending...' : 'Send Message'}
             </Button>
           </div>
         </div>
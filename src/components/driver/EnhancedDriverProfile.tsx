@@ -1,19 +1,21 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { 
   Star, 
-  MapPin, 
   Calendar, 
   Car, 
-  Shield, 
+  Clock,
   MessageCircle,
   Phone,
-  Award
+  Award,
+  XCircle
 } from 'lucide-react';
-import { Profile } from '@/types';
+import { DriverStats, Profile } from '@/types';
+import { fetchDriverStats, formatRate, formatResponseTime, formatTenure } from '@/lib/driver-stats';
+import { RatingBadge } from '@/components/reviews/RatingBadge';
+import { useProfileRatings } from '@/hooks/use-profile-ratings';
 
 interface EnhancedDriverProfileProps {
   driver: Profile;
@@ -26,15 +28,31 @@ export const EnhancedDriverProfile: React.FC<EnhancedDriverProfileProps> = ({
   onContact,
   showContactButton = true
 }) => {
-  // Mock data for demo - in real app this would come from database
-  const driverStats = {
-    rating: 4.8,
-    totalTrips: 245,
-    yearsExperience: 3,
-    verified: true,
-    carModel: "Toyota Camry 2020",
-    completionRate: 98
-  };
+  const rating = useProfileRatings([driver.user_id])[driver.user_id];
+
+  const [stats, setStats] = useState<DriverStats | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchDriverStats(driver.user_id)
+      .then((result) => {
+        if (!cancelled) setStats(result);
+      })
+      .catch((error) => console.warn('Failed to load driver stats:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [driver.user_id]);
+
+  const statTiles = [
+    { icon: Car, label: 'Completed Trips', value: String(stats?.completed_trips ?? 0) },
+    { icon: Award, label: 'Acceptance', value: formatRate(stats?.acceptance_rate) },
+    { icon: XCircle, label: 'Cancellations', value: formatRate(stats?.cancellation_rate) },
+    { icon: Clock, label: 'Response Time', value: formatResponseTime(stats?.median_response_minutes) },
+    { icon: Calendar, label: 'Driving For', value: formatTenure(stats?.driving_since) },
+    { icon: Star, label: 'Reviews', value: String(rating?.driver_review_count ?? 0) }
+  ];
 
   return (
     <Card className="w-full">
@@ -51,20 +69,13 @@ export const EnhancedDriverProfile: React.FC<EnhancedDriverProfileProps> = ({
             <div>
               <CardTitle className="flex items-center gap-2">
                 {driver.full_name}
-                {driverStats.verified && (
-                  <Badge variant="secondary" className="flex items-center gap-1">
-                    <Shield className="w-3 h-3" />
-                    Verified
-                  </Badge>
-                )}
               </CardTitle>
               
               <div className="flex items-center gap-2 mt-1">
-                <div className="flex items-center gap-1">
-                  <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
-                  <span className="font-medium">{driverStats.rating}</span>
-                  <span className="text-muted-foreground">({driverStats.totalTrips} trips)</span>
-                </div>
+                <RatingBadge
+                  average={rating?.driver_average_score}
+                  count={rating?.driver_review_count}
+                />
               </div>
             </div>
           </div>
@@ -85,38 +96,16 @@ export const EnhancedDriverProfile: React.FC<EnhancedDriverProfileProps> = ({
       </CardHeader>
       
       <CardContent>
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
-          <div className="text-center p-3 bg-secondary/50 rounded-lg">
-            <div className="flex items-center justify-center mb-1">
-              <Car className="w-4 h-4 text-primary" />
-            </div>
-            <div className="text-sm font-medium">{driverStats.carModel}</div>
-            <div className="text-xs text-muted-foreground">Vehicle</div>
-          </div>
-          
-          <div className="text-center p-3 bg-secondary/50 rounded-lg">
-            <div className="flex items-center justify-center mb-1">
-              <Calendar className="w-4 h-4 text-primary" />
-            </div>
-            <div className="text-sm font-medium">{driverStats.yearsExperience} Years</div>
-            <div className="text-xs text-muted-foreground">Experience</div>
-          </div>
-          
-          <div className="text-center p-3 bg-secondary/50 rounded-lg">
-            <div className="flex items-center justify-center mb-1">
-              <Award className="w-4 h-4 text-primary" />
-            </div>
-            <div className="text-sm font-medium">{driverStats.completionRate}%</div>
-            <div className="text-xs text-muted-foreground">Completion</div>
-          </div>
-          
-          <div className="text-center p-3 bg-secondary/50 rounded-lg">
-            <div className="flex items-center justify-center mb-1">
-              <MapPin className="w-4 h-4 text-primary" />
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-4">
+          {statTiles.map(({ icon: Icon, label, value }) => (
+            <div key={label} className="text-center p-3 bg-secondary/50 rounded-lg">
+              <div className="flex items-center justify-center mb-1">
+                <Icon className="w-4 h-4 text-primary" />
+              </div>
+              <div className="text-sm font-medium">{value}</div>
+              <div className="text-xs text-muted-foreground">{label}</div>
             </div>
-            <div className="text-sm font-medium">{driverStats.totalTrips}</div>
-            <div className="text-xs text-muted-foreground">Total Trips</div>
-          </div>
+          ))}
         </div>
 
         {driver.phone && (
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { fetchInstantBookSettings, saveInstantBookSettings } from '@/lib/instant-book';
+import { Zap } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface InstantBookSettingsProps {
+  driverId: string;
+}
+
+const RATING_THRESHOLDS = ['3', '3.5', '4', '4.5'];
+
+export const InstantBookSettings: React.FC<InstantBookSettingsProps> = ({ driverId }) => {
+  const [enabled, setEnabled] = useState(false);
+  const [minRating, setMinRating] = useState('any');
+  const [requireVerifiedPhone, setRequireVerifiedPhone] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchInstantBookSettings(driverId)
+      .then((settings) => {
+        if (!settings) return;
+        setEnabled(settings.enabled);
+        setMinRating(settings.min_passenger_rating != null ? String(settings.min_passenger_rating) : 'any');
+        setRequireVerifiedPhone(settings.require_verified_phone);
+      })
+      .catch((error) => toast.error(error.message || 'Failed to load instant booking settings'))
+      .finally(() => setLoading(false));
+  }, [driverId]);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await saveInstantBookSettings({
+        driver_id: driverId,
+        enabled,
+        min_passenger_rating: minRating === 'any' ? null : Number(minRating),
+        require_verified_phone: requireVerifiedPhone
+      });
+      toast.success('Instant booking settings saved');
+    } catch (error) {
+      toast.error(error.message || 'Failed to save instant booking settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Zap className="h-5 w-5" />
+          Instant Booking
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Requests from passengers who meet your conditions are accepted straight away and you're
+          notified. Individual trips can override this when you post them.
+        </p>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="instant-book-enabled">Instant booking on my trips</Label>
+          <Switch
+            id="instant-book-enabled"
+            checked={enabled}
+            onCheckedChange={setEnabled}
+            disabled={loading}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label>Minimum passenger rating</Label>
+          <Select value={minRating} onValueChange={setMinRating} disabled={loading}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Anyone</SelectItem>
+              {RATING_THRESHOLDS.map((threshold) => (
+                <SelectItem key={threshold} value={threshold}>{threshold}★ and up</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {minRating !== 'any' && (
+          <p className="text-xs text-muted-foreground">
+            Passengers with no ratings yet will still need your approval
+          </p>
+        )}
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="instant-book-phone">Only passengers with a verified phone</Label>
+          <Switch
+            id="instant-book-phone"
+            checked={requireVerifiedPhone}
+            onCheckedChange={setRequireVerifiedPhone}
+            disabled={loading}
+          />
+        </div>
+
+        <Button onClick={save} disabled={loading || saving} className="w-full">
+          {saving ? 'Saving...' : 'Save Instant Booking Settings'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,83 @@
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { BatteryLow, CloudOff, Navigation } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useLocationPublisher } from '@/hooks/use-location-publisher';
+
+export const LocationSharingIndicator = () => {
+  const { sharing, tripId, lowPower, queued, lastPublishedAt, error, stop } = useLocationPublisher();
+
+  // Sharing can end on its own, e.g. when location permission is revoked
+  useEffect(() => {
+    if (error) toast.error(error);
+  }, [error]);
+
+  if (!sharing) return null;
+
+  // One fix is normally in flight; more than that means writes are failing
+  const backlog = queued > 1;
+
+  const handleStop = async () => {
+    await stop();
+    toast.success('Location sharing stopped');
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-success">
+          <span className="relative mr-2 flex h-2 w-2">
+            <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-success opacity-75" />
+            <span className="relative inline-flex h-2 w-2 rounded-full bg-success" />
+          </span>
+          Sharing
+          {backlog && <CloudOff className="h-4 w-4 ml-2 text-warning" />}
+          {lowPower && <BatteryLow className="h-4 w-4 ml-2 text-muted-foreground" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>
+          <div className="flex flex-col gap-1">
+            <span className="flex items-center gap-2">
+              <Navigation className="h-4 w-4" />
+              Sharing your location
+            </span>
+            <span className="text-xs font-normal text-muted-foreground">
+              {lastPublishedAt
+                ? `Last sent ${new Date(lastPublishedAt).toLocaleTimeString()}`
+                : 'Waiting for a GPS fix'}
+            </span>
+            {backlog && (
+              <span className="text-xs font-normal text-muted-foreground">
+                {queued} updates waiting for a connection
+              </span>
+            )}
+            {lowPower && (
+              <span className="text-xs font-normal text-muted-foreground">
+                Battery saver: updating less often
+              </span>
+            )}
+          </div>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {tripId && (
+          <DropdownMenuItem asChild>
+            <Link to={`/trip/${tripId}`}>View trip</Link>
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onClick={handleStop}>
+          Stop sharing
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -1,7 +1,9 @@
 import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
-import { Car, User, LogOut, MapPin, Search } from 'lucide-react';
+import { useUnreadMessages } from '@/hooks/use-unread-messages';
+import { LocationSharingIndicator } from '@/components/layout/LocationSharingIndicator';
+import { Car, User, LogOut, MapPin, Search, MessageCircle } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -14,6 +16,7 @@ import {
 export const Navbar = () => {
   const { user, profile, signOut } = useAuth();
   const navigate = useNavigate();
+  const unreadMessages = useUnreadMessages();
 
   const handleSignOut = async () => {
     await signOut();
@@ -34,6 +37,8 @@ export const Navbar = () => {
           <div className="flex items-center space-x-4">
             {user ? (
               <>
+                <LocationSharingIndicator />
+
                 <Link to="/map">
                   <Button variant="ghost" size="sm">
                     <MapPin className="h-4 w-4 mr-2" />
@@ -48,6 +53,18 @@ export const Navbar = () => {
                   </Button>
                 </Link>
                 
+                <Link to="/messages">
+                  <Button variant="ghost" size="sm" className="relative">
+                    <MessageCircle className="h-4 w-4 mr-2" />
+                    Messages
+                    {unreadMessages > 0 && (
+                      <span className="ml-2 rounded-full bg-destructive px-1.5 text-xs font-semibold text-destructive-foreground">
+                        {unreadMessages > 99 ? '99+' : unreadMessages}
+                      </span>
+                    )}
+                  </Button>
+                </Link>
+                
                 {profile?.role === 'driver' && (
                   <Link to="/create-trip">
                     <Button variant="hero" size="sm">
@@ -1,15 +1,17 @@
 import { useEffect, useRef, useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, Polyline, Circle } from 'react-leaflet';
-import { Icon, divIcon } from 'leaflet';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, Circle, useMapEvents } from 'react-leaflet';
+import { Icon, divIcon, Map as LeafletMap } from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import { DriverLocation, PassengerLocation, Trip, Profile } from '@/types';
+import { DriverLocation, PassengerLocation, Trip, TripStop, Profile, MapViewport, RideRequest } from '@/types';
 import { Car, MapPin, Clock, Users, UserCheck, Navigation } from 'lucide-react';
 import { formatINR } from '@/lib/utils';
-import { useAuth } from '@/contexts/AuthContext';
+import { describeWindow } from '@/lib/ride-requests';
+import { PickupPlan } from '@/lib/pickup-route';
 
 // Fix for default markers in React Leaflet
 delete (Icon.Default.prototype as any)._getIconUrl;
@@ -80,6 +82,67 @@ const destinationIcon = divIcon({
   iconAnchor: [14, 14],
 });
 
+const createStopIcon = (position: number) => divIcon({
+  html: `<div style="
+    background: white;
+    width: 24px;
+    height: 24px;
+    border-radius: 50%;
+    border: 3px solid #1e40af;
+    box-shadow: 0 2px 8px rgba(0,0,0,0.4);
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    color: #1e40af;
+    font-size: 12px;
+    font-weight: bold;
+  ">${position}</div>`,
+  className: 'custom-div-icon',
+  iconSize: [24, 24],
+  iconAnchor: [12, 12],
+});
+
+// A passenger's pin on the driver's pickup route, numbered in driving order
+const createPassengerPinIcon = (order: number, kind: 'pickup' | 'dropoff') => divIcon({
+  html: `<div style="
+    background: ${kind === 'pickup' ? '#059669' : '#dc2626'};
+    width: 26px;
+    height: 26px;
+    border-radius: 6px;
+    border: 3px solid white;
+    box-shadow: 0 2px 8px rgba(0,0,0,0.4);
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    color: white;
+    font-size: 12px;
+    font-weight: bold;
+  ">${order}</div>`,
+  className: 'custom-div-icon',
+  iconSize: [26, 26],
+  iconAnchor: [13, 13],
+});
+
+// Open ride request, placed at the passenger's pickup point
+const rideRequestIcon = divIcon({
+  html: `<div style="
+    background: #7c3aed;
+    width: 32px;
+    height: 32px;
+    border-radius: 50%;
+    border: 3px solid white;
+    box-shadow: 0 2px 8px rgba(0,0,0,0.4);
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    color: white;
+    font-size: 16px;
+  ">✋</div>`,
+  className: 'custom-div-icon',
+  iconSize: [32, 32],
+  iconAnchor: [16, 16],
+});
+
 // Passenger (current user) bike icon
 const passengerIcon = divIcon({
   html: `<div style="
@@ -100,12 +163,60 @@ const passengerIcon = divIcon({
   iconAnchor: [20, 20],
 });
 
+// Position tables hold one row per user, so realtime events can be applied in
+// place instead of refetching
+const applyLocationChange = <T extends { id: string }>(
+  locations: T[],
+  payload: RealtimePostgresChangesPayload<T>
+): T[] => {
+  if (payload.eventType === 'DELETE') {
+    return locations.filter(loc => loc.id !== payload.old.id);
+  }
+  const others = locations.filter(loc => loc.id !== payload.new.id);
+  return [...others, payload.new];
+};
+
+const reportViewport = (map: LeafletMap, onChange: (viewport: MapViewport) => void) => {
+  const bounds = map.getBounds();
+  const center = map.getCenter();
+  onChange({
+    south: bounds.getSouth(),
+    west: bounds.getWest(),
+    north: bounds.getNorth(),
+    east: bounds.getEast(),
+    center: [center.lat, center.lng]
+  });
+};
+
+// Reports the visible area on mount and whenever the map settles after a pan or zoom
+const ViewportWatcher = ({ onChange }: { onChange: (viewport: MapViewport) => void }) => {
+  const map = useMapEvents({
+    moveend: () => reportViewport(map, onChange)
+  });
+
+  useEffect(() => {
+    reportViewport(map, onChange);
+  }, [map, onChange]);
+
+  return null;
+};
+
 interface EnhancedMapComponentProps {
   center?: [number, number];
   zoom?: number;
   selectedTrip?: Trip | null;
+  // Intermediate stops of selectedTrip, in order; the route passes through each
+  stops?: TripStop[];
   showDrivers?: boolean;
+  // Trips already loaded by the page; when omitted the map loads every open trip
+  trips?: Trip[];
+  // Open ride requests to pin at their pickup points
+  rideRequests?: RideRequest[];
+  // Driver's route through their passengers' pins; replaces the plain trip route
+  pickupPlan?: PickupPlan | null;
   onDriverClick?: (driver: DriverLocation) => void;
+  onRideRequestClick?: (request: RideRequest) => void;
+  onViewportChange?: (viewport: MapViewport) => void;
   className?: string;
 }
 
@@ -113,25 +224,32 @@ export const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({
   center = [28.6139, 77.2090], // Default to Delhi, India
   zoom = 13,
   selectedTrip,
+  stops,
   showDrivers = true,
+  trips: providedTrips,
+  rideRequests,
+  pickupPlan,
   onDriverClick,
+  onRideRequestClick,
+  onViewportChange,
   className = "h-[500px] w-full rounded-lg"
 }) => {
-  const { user } = useAuth();
   const [driverLocations, setDriverLocations] = useState<DriverLocation[]>([]);
   const [passengerLocations, setPassengerLocations] = useState<PassengerLocation[]>([]);
-  const [trips, setTrips] = useState<Trip[]>([]);
+  const [loadedTrips, setLoadedTrips] = useState<Trip[]>([]);
+  const trips = providedTrips ?? loadedTrips;
   const [drivers, setDrivers] = useState<Profile[]>([]);
   const [userPosition, setUserPosition] = useState<[number, number] | null>(null);
   const [mapCenter, setMapCenter] = useState<[number, number]>(center);
   const [mapZoom, setMapZoom] = useState<number>(zoom);
   const mapRef = useRef<any>(null);
+  const centeredOnUser = useRef(false);
 
   useEffect(() => {
     if (showDrivers) {
       fetchDriverLocations();
       fetchPassengerLocations();
-      fetchActiveTrips();
+      if (!providedTrips) fetchActiveTrips();
       fetchDriverProfiles();
       
       // Set up real-time subscriptions for locations
@@ -139,7 +257,8 @@ export const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({
         .channel('driver_locations')
         .on('postgres_changes', 
           { event: '*', schema: 'public', table: 'driver_locations' },
-          () => fetchDriverLocations()
+          (payload: RealtimePostgresChangesPayload<DriverLocation>) =>
+            setDriverLocations(prev => applyLocationChange(prev, payload))
         )
         .subscribe();
 
@@ -147,7 +266,8 @@ export const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({
         .channel('passenger_locations')
         .on('postgres_changes', 
           { event: '*', schema: 'public', table: 'passenger_locations' },
-          () => fetchPassengerLocations()
+          (payload: RealtimePostgresChangesPayload<PassengerLocation>) =>
+            setPassengerLocations(prev => applyLocationChange(prev, payload))
         )
         .subscribe();
 
@@ -163,14 +283,9 @@ export const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({
     if (!('geolocation' in navigator)) return;
 
     const watchId = navigator.geolocation.watchPosition(
-      async (pos) => {
-        const newPosition: [number, number] = [pos.coords.latitude, pos.coords.longitude];
-        setUserPosition(newPosition);
-        
-        // Update user's location in database if they're in an active trip
-        if (selectedTrip && user) {
-          await updateUserLocation(newPosition, selectedTrip.id);
-        }
+      (pos) => {
+        // Display only; publishing is left to the shared location publisher
+        setUserPosition([pos.coords.latitude, pos.coords.longitude]);
       },
       (err) => {
         console.warn('Geolocation error:', err);
@@ -181,7 +296,7 @@ export const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({
     return () => {
       navigator.geolocation.clearWatch(watchId);
     };
-  }, [user, selectedTrip]);
+  }, []);
 
   // Set map center and zoom based on context
   useEffect(() => {
@@ -206,9 +321,10 @@ export const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({
             console.warn('Map bounds error:', e);
           }
         }, 100);
-      } else if (userPosition && !selectedTrip) {
-        // For live map, center on user location
+      } else if (userPosition && !selectedTrip && !centeredOnUser.current) {
+        // For live map, center on user location once so panning isn't undone
         mapRef.current.setView(userPosition, 15);
+        centeredOnUser.current = true;
       }
     } catch (e) {
       console.warn('Map update error:', e);
@@ -219,39 +335,29 @@ export const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({
     try {
       const { data } = await supabase
         .from('passenger_locations')
-        .select('*')
-        .order('updated_at', { ascending: false });
+        .select('*');
       
       if (data) {
-        // Remove duplicates - keep only the latest location for each passenger
-        const latestLocations = data.reduce((acc: PassengerLocation[], current) => {
-          const existing = acc.find(loc => loc.passenger_id === current.passenger_id);
-          if (!existing || new Date(current.updated_at) > new Date(existing.updated_at)) {
-            if (existing) {
-              const index = acc.indexOf(existing);
-              acc[index] = current;
-            } else {
-              acc.push(current);
-            }
-          }
-          return acc;
-        }, []);
-        
-        setPassengerLocations(latestLocations);
+        setPassengerLocations(data);
       }
     } catch (error) {
       console.error('Error fetching passenger locations:', error);
     }
   };
 
-  const fetchDirectionsRoute = async (trip: Trip) => {
+  const fetchDirectionsRoute = async (trip: Trip, tripStops: TripStop[] = []) => {
     if (!trip.start_location || !trip.destination) return [];
     
     try {
+      const hasCoords = trip.start_lat != null && trip.start_lng != null && trip.dest_lat != null && trip.dest_lng != null;
       const { data, error } = await supabase.functions.invoke('mapbox-directions', {
         body: {
           fromName: trip.start_location,
           toName: trip.destination,
+          // Prefer the geocoded coordinates saved with the trip over re-geocoding the names
+          fromCoord: hasCoords ? [Number(trip.start_lng), Number(trip.start_lat)] : undefined,
+          toCoord: hasCoords ? [Number(trip.dest_lng), Number(trip.dest_lat)] : undefined,
+          waypoints: tripStops.map(stop => [Number(stop.lng), Number(stop.lat)]),
           country: 'IN' // Focus on India
         }
       });
@@ -263,9 +369,13 @@ export const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({
       }
     } catch (error) {
       console.warn('Failed to get route from Mapbox:', error);
-      // Fallback to simple straight line
+      // Fallback to straight lines through every stop
       if (trip.start_lat && trip.start_lng && trip.dest_lat && trip.dest_lng) {
-        return [[trip.start_lat, trip.start_lng], [trip.dest_lat, trip.dest_lng]];
+        return [
+          [trip.start_lat, trip.start_lng],
+          ...tripStops.map(stop => [Number(stop.lat), Number(stop.lng)]),
+          [trip.dest_lat, trip.dest_lng]
+        ];
       }
     }
     return [];
@@ -275,65 +385,16 @@ export const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({
     try {
       const { data, error } = await supabase
         .from('driver_locations')
-        .select('*')
-        .order('updated_at', { ascending: false });
+        .select('*');
       
       if (!error && data) {
-        // Get latest location for each driver
-        const latestLocations = data.reduce((acc: DriverLocation[], location) => {
-          if (!acc.find(l => l.driver_id === location.driver_id)) {
-            acc.push(location);
-          }
-          return acc;
-        }, []);
-        setDriverLocations(latestLocations);
+        setDriverLocations(data);
       }
     } catch (error) {
       console.error('Error fetching driver locations:', error);
     }
   };
 
-  const updateUserLocation = async (position: [number, number], tripId?: string) => {
-    if (!user) return;
-
-    try {
-      // Check if user is a driver or passenger for this trip
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('role')
-        .eq('user_id', user.id)
-        .single();
-
-      if (profile?.role === 'driver') {
-        // Update driver location
-        const { error: dlError } = await supabase
-          .from('driver_locations')
-          .insert({
-            driver_id: user.id,
-            trip_id: tripId,
-            latitude: position[0],
-            longitude: position[1],
-            updated_at: new Date().toISOString()
-          });
-        if (dlError) throw dlError;
-      } else {
-        // Update passenger location
-        const { error: plError } = await supabase
-          .from('passenger_locations')
-          .insert({
-            passenger_id: user.id,
-            trip_id: tripId,
-            latitude: position[0],
-            longitude: position[1],
-            updated_at: new Date().toISOString()
-          });
-        if (plError) throw plError;
-      }
-    } catch (error) {
-      console.error('Error updating location:', error);
-    }
-  };
-
   const fetchActiveTrips = async () => {
     try {
       const { data, error } = await supabase
@@ -342,7 +403,7 @@ export const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({
         .in('status', ['scheduled', 'active']);
       
       if (!error && data) {
-        setTrips(data);
+        setLoadedTrips(data);
       }
     } catch (error) {
       console.error('Error fetching trips:', error);
@@ -385,15 +446,25 @@ export const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({
 
   // Fetch route when selectedTrip changes
   useEffect(() => {
-    if (selectedTrip) {
-      fetchDirectionsRoute(selectedTrip).then(setRouteCoordinates);
-    } else {
+    if (!selectedTrip) {
       setRouteCoordinates([]);
+      return;
     }
-  }, [selectedTrip]);
+    // Stops usually arrive after the trip; ignore the route they replace
+    let stale = false;
+    fetchDirectionsRoute(selectedTrip, stops).then(coords => {
+      if (!stale) setRouteCoordinates(coords);
+    });
+    return () => {
+      stale = true;
+    };
+  }, [selectedTrip, stops]);
 
   // Create route line for selected trip
   const getRouteCoordinates = (trip: Trip): [number, number][] => {
+    if (pickupPlan) {
+      return pickupPlan.coordinates.map(([lng, lat]) => [lat, lng] as [number, number]);
+    }
     // Use fetched route if available, otherwise fallback to simple line
     if (routeCoordinates.length > 0) return routeCoordinates;
     
@@ -401,6 +472,7 @@ export const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({
     if (trip.start_lat && trip.start_lng) {
       coords.push([trip.start_lat, trip.start_lng]);
     }
+    stops?.forEach(stop => coords.push([Number(stop.lat), Number(stop.lng)]));
     if (trip.dest_lat && trip.dest_lng) {
       coords.push([trip.dest_lat, trip.dest_lng]);
     }
@@ -420,6 +492,8 @@ export const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
         />
+
+        {onViewportChange && <ViewportWatcher onChange={onViewportChange} />}
         
         {/* Driver locations */}
         {showDrivers && driverLocations.map((location) => {
@@ -507,6 +581,42 @@ export const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({
           </Marker>
         ))}
 
+        {/* Open ride requests */}
+        {rideRequests?.map((request) => (
+          <Marker
+            key={request.id}
+            position={[Number(request.start_lat), Number(request.start_lng)]}
+            icon={rideRequestIcon}
+          >
+            <Popup className="custom-popup">
+              <Card className="border-0 shadow-none">
+                <CardContent className="p-3 min-w-[200px] space-y-2">
+                  <div className="font-semibold">Ride request</div>
+                  <div className="space-y-1 text-sm">
+                    <div className="flex items-center gap-2">
+                      <MapPin className="w-3 h-3" />
+                      <span>{request.start_location} → {request.destination}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Clock className="w-3 h-3" />
+                      <span>{describeWindow(request)}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Users className="w-3 h-3" />
+                      <span>{request.seats} seat{request.seats !== 1 ? 's' : ''}</span>
+                    </div>
+                  </div>
+                  {onRideRequestClick && (
+                    <Button size="sm" className="w-full" onClick={() => onRideRequestClick(request)}>
+                      Make Offer
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            </Popup>
+          </Marker>
+        ))}
+
         {/* Current passenger location - only show if not in trip details view */}
         {userPosition && !selectedTrip && (
           <Marker position={userPosition} icon={passengerIcon}>
@@ -537,6 +647,42 @@ export const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({
               </Marker>
             )}
 
+            {/* Intermediate stops */}
+            {stops?.map((stop) => (
+              <Marker
+                key={stop.id}
+                position={[Number(stop.lat), Number(stop.lng)]}
+                icon={createStopIcon(stop.position)}
+              >
+                <Popup>
+                  <div className="text-center">
+                    <div className="font-semibold text-blue-800">Stop {stop.position}</div>
+                    <div className="text-sm">{stop.name}</div>
+                  </div>
+                </Popup>
+              </Marker>
+            ))}
+
+            {/* Passengers' pickup and drop-off pins, in driving order */}
+            {pickupPlan?.stops
+              .filter(stop => stop.kind !== 'stop')
+              .map((stop, index) => (
+                <Marker
+                  key={`${stop.bookingId}-${stop.kind}`}
+                  position={[stop.lat, stop.lng]}
+                  icon={createPassengerPinIcon(index + 1, stop.kind as 'pickup' | 'dropoff')}
+                >
+                  <Popup>
+                    <div className="text-center">
+                      <div className="font-semibold">
+                        {index + 1}. {stop.kind === 'pickup' ? 'Pick up' : 'Drop off'} {stop.passengerName || 'passenger'}
+                      </div>
+                      <div className="text-sm">{stop.name}</div>
+                    </div>
+                  </Popup>
+                </Marker>
+              ))}
+
             {/* Destination marker */}
             {selectedTrip.dest_lat && selectedTrip.dest_lng && (
               <Marker
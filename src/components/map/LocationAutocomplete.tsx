@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { LocationPickerDialog } from '@/components/map/LocationPickerDialog';
+import { GeocodedPlace } from '@/types';
+import { searchPlaces } from '@/lib/geocoding';
+import { cn } from '@/lib/utils';
+import { MapPin, Crosshair, CheckCircle2 } from 'lucide-react';
+
+interface LocationAutocompleteProps {
+  id?: string;
+  value: string;
+  place: GeocodedPlace | null;
+  onTextChange: (text: string) => void;
+  onPlaceChange: (place: GeocodedPlace) => void;
+  placeholder?: string;
+  pickerTitle?: string;
+  required?: boolean;
+  className?: string;
+}
+
+export const LocationAutocomplete: React.FC<LocationAutocompleteProps> = ({
+  id,
+  value,
+  place,
+  onTextChange,
+  onPlaceChange,
+  placeholder,
+  pickerTitle,
+  required,
+  className
+}) => {
+  const [suggestions, setSuggestions] = useState<GeocodedPlace[]>([]);
+  const [focused, setFocused] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  // Debounced autocomplete; skipped once the text matches a confirmed place
+  useEffect(() => {
+    if (!focused || value.trim().length < 3 || place?.name === value) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const results = await searchPlaces(value);
+        if (!cancelled) setSuggestions(results);
+      } catch (error) {
+        console.warn('Autocomplete failed:', error);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [value, focused, place]);
+
+  const selectPlace = (selected: GeocodedPlace) => {
+    onPlaceChange(selected);
+    setSuggestions([]);
+  };
+
+  return (
+    <div className={cn('relative', className)}>
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <MapPin className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+          <Input
+            id={id}
+            placeholder={placeholder}
+            value={value}
+            onChange={(e) => onTextChange(e.target.value)}
+            onFocus={() => setFocused(true)}
+            // Delay so a click on a suggestion lands before the list closes
+            onBlur={() => setTimeout(() => setFocused(false), 150)}
+            className="pl-10 pr-9"
+            autoComplete="off"
+            required={required}
+          />
+          {place && (
+            <CheckCircle2
+              className="absolute right-3 top-3 h-4 w-4 text-success"
+              aria-label="Location confirmed"
+            />
+          )}
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => setPickerOpen(true)}
+          title="Pick on map"
+        >
+          <Crosshair className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {focused && (suggestions.length > 0 || searching) && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border border-border bg-popover shadow-medium">
+          {searching && suggestions.length === 0 ? (
+            <div className="px-3 py-2 text-sm text-muted-foreground">Searching...</div>
+          ) : (
+            suggestions.map((suggestion) => (
+              <button
+                key={`${suggestion.lat},${suggestion.lng}`}
+                type="button"
+                className="flex w-full items-start gap-2 px-3 py-2 text-left text-sm hover:bg-accent"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectPlace(suggestion)}
+              >
+                <MapPin className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                <div>
+                  <div className="font-medium">{suggestion.name}</div>
+                  {suggestion.placeName && (
+                    <div className="text-xs text-muted-foreground">{suggestion.placeName}</div>
+                  )}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      <LocationPickerDialog
+        open={pickerOpen}
+        onOpenChange={setPickerOpen}
+        title={pickerTitle}
+        initialPlace={place}
+        onConfirm={selectPlace}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { MapContainer, TileLayer, Marker, useMapEvents } from 'react-leaflet';
+import { divIcon } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { GeocodedPlace } from '@/types';
+import { reverseGeocode } from '@/lib/geocoding';
+import { MapPin } from 'lucide-react';
+
+const pinIcon = divIcon({
+  html: `<div style="
+    background: #1e40af;
+    width: 32px;
+    height: 32px;
+    border-radius: 50%;
+    border: 3px solid white;
+    box-shadow: 0 2px 8px rgba(0,0,0,0.4);
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    color: white;
+    font-size: 16px;
+  ">📍</div>`,
+  className: 'custom-div-icon',
+  iconSize: [32, 32],
+  iconAnchor: [16, 16],
+});
+
+const DEFAULT_CENTER: [number, number] = [20.5937, 78.9629]; // India
+
+interface LocationPickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title?: string;
+  initialPlace?: GeocodedPlace | null;
+  onConfirm: (place: GeocodedPlace) => void;
+}
+
+const ClickToMove = ({ onMove }: { onMove: (position: [number, number]) => void }) => {
+  useMapEvents({
+    click: (e) => onMove([e.latlng.lat, e.latlng.lng])
+  });
+  return null;
+};
+
+export const LocationPickerDialog: React.FC<LocationPickerDialogProps> = ({
+  open,
+  onOpenChange,
+  title = 'Confirm location',
+  initialPlace,
+  onConfirm
+}) => {
+  const [position, setPosition] = useState<[number, number] | null>(null);
+  const [confirming, setConfirming] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    if (initialPlace) {
+      setPosition([initialPlace.lat, initialPlace.lng]);
+    } else if (navigator.geolocation) {
+      navigator.geolocation.getCurrentPosition(
+        (pos) => setPosition([pos.coords.latitude, pos.coords.longitude]),
+        () => setPosition(DEFAULT_CENTER),
+        { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+      );
+    } else {
+      setPosition(DEFAULT_CENTER);
+    }
+  }, [open, initialPlace]);
+
+  const handleConfirm = async () => {
+    if (!position) return;
+    setConfirming(true);
+
+    let place: GeocodedPlace = {
+      name: initialPlace?.name || `${position[0].toFixed(5)}, ${position[1].toFixed(5)}`,
+      lat: position[0],
+      lng: position[1]
+    };
+    try {
+      const match = await reverseGeocode(position[0], position[1]);
+      if (match) {
+        // Keep the pin's exact coordinates, only borrow the label
+        place = { ...place, name: match.name, placeName: match.placeName };
+      }
+    } catch (error) {
+      console.warn('Reverse geocoding failed:', error);
+    }
+
+    setConfirming(false);
+    onConfirm(place);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MapPin className="w-5 h-5" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>
+            Click the map or drag the pin to the exact spot.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="h-[400px] w-full rounded-lg overflow-hidden">
+          {position ? (
+            <MapContainer center={position} zoom={15} className="h-full w-full">
+              <TileLayer
+                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+              />
+              <ClickToMove onMove={setPosition} />
+              <Marker
+                position={position}
+                icon={pinIcon}
+                draggable
+                eventHandlers={{
+                  dragend: (e) => {
+                    const { lat, lng } = e.target.getLatLng();
+                    setPosition([lat, lng]);
+                  }
+                }}
+              />
+            </MapContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!position || confirming} className="flex-1">
+            {confirming ? 'Confirming...' : 'Use this location'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
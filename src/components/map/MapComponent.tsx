@@ -117,25 +117,10 @@ export const MapComponent: React.FC<MapComponentProps> = ({
   const fetchDriverLocations = async () => {
     const { data } = await supabase
       .from('driver_locations')
-      .select('*')
-      .order('updated_at', { ascending: false });
+      .select('*');
     
     if (data) {
-      // Remove duplicates - keep only the latest location for each driver
-      const latestLocations = data.reduce((acc: DriverLocation[], current) => {
-        const existing = acc.find(loc => loc.driver_id === current.driver_id);
-        if (!existing || new Date(current.updated_at) > new Date(existing.updated_at)) {
-          if (existing) {
-            const index = acc.indexOf(existing);
-            acc[index] = current;
-          } else {
-            acc.push(current);
-          }
-        }
-        return acc;
-      }, []);
-      
-      setDriverLocations(latestLocations);
+      setDriverLocations(data);
     }
   };
 
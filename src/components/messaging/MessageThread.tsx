@@ -0,0 +1,212 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Message } from '@/types';
+import { cn } from '@/lib/utils';
+import { MapPin, MessageCircle, Send } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface MessageThreadProps {
+  conversationId: string;
+  className?: string;
+}
+
+interface ConversationDetails {
+  id: string;
+  trip_id: string;
+  driver_id: string;
+  passenger_id: string;
+  trips: { start_location: string; destination: string; departure_time: string } | null;
+  driver: { full_name: string } | null;
+  passenger: { full_name: string } | null;
+}
+
+export const MessageThread: React.FC<MessageThreadProps> = ({ conversationId, className }) => {
+  const { user } = useAuth();
+  const [conversation, setConversation] = useState<ConversationDetails | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const fetchThread = async () => {
+      setLoading(true);
+      const [{ data: conversationData }, { data: messageData }] = await Promise.all([
+        supabase
+          .from('conversations')
+          .select(`
+            id,
+            trip_id,
+            driver_id,
+            passenger_id,
+            trips(start_location, destination, departure_time),
+            driver:profiles!conversations_driver_id_fkey(full_name),
+            passenger:profiles!conversations_passenger_id_fkey(full_name)
+          `)
+          .eq('id', conversationId)
+          .single(),
+        supabase
+          .from('messages')
+          .select('*')
+          .eq('conversation_id', conversationId)
+          .order('created_at', { ascending: true })
+      ]);
+
+      setConversation(conversationData as ConversationDetails | null);
+      setMessages(messageData || []);
+      setLoading(false);
+      supabase.rpc('mark_conversation_read', { p_conversation_id: conversationId });
+    };
+
+    fetchThread();
+
+    const channel = supabase
+      .channel(`messages-${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`
+        },
+        (payload) => {
+          const incoming = payload.new as Message;
+          setMessages(prev => prev.some(m => m.id === incoming.id) ? prev : [...prev, incoming]);
+          supabase.rpc('mark_conversation_read', { p_conversation_id: conversationId });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body || !user) return;
+
+    setSending(true);
+    const { data, error } = await supabase
+      .from('messages')
+      .insert({ conversation_id: conversationId, sender_id: user.id, body })
+      .select()
+      .single();
+
+    if (error) {
+      toast.error(error.message || 'Failed to send message');
+    } else {
+      setDraft('');
+      setMessages(prev => prev.some(m => m.id === data.id) ? prev : [...prev, data]);
+    }
+    setSending(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const otherParty = conversation
+    ? (user?.id === conversation.driver_id ? conversation.passenger : conversation.driver)
+    : null;
+
+  if (loading) {
+    return (
+      <Card className={className}>
+        <CardContent className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!conversation) {
+    return (
+      <Card className={className}>
+        <CardContent className="text-center py-12">
+          <MessageCircle className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
+          <p className="text-muted-foreground">Conversation not found</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className={cn('flex flex-col', className)}>
+      <CardHeader className="border-b border-border">
+        <CardTitle className="flex items-center gap-2">
+          <MessageCircle className="h-5 w-5" />
+          {otherParty?.full_name || 'Conversation'}
+        </CardTitle>
+        {conversation.trips && (
+          <Link
+            to={`/trip/${conversation.trip_id}`}
+            className="flex items-center gap-2 text-sm text-muted-foreground hover:text-primary"
+          >
+            <MapPin className="h-3 w-3" />
+            {conversation.trips.start_location} → {conversation.trips.destination}
+            {' · '}
+            {new Date(conversation.trips.departure_time).toLocaleString()}
+          </Link>
+        )}
+      </CardHeader>
+
+      <CardContent className="flex-1 overflow-y-auto space-y-3 p-4 min-h-[300px] max-h-[500px]">
+        {messages.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-8">
+            No messages yet. Say hello!
+          </p>
+        ) : (
+          messages.map((message) => {
+            const mine = message.sender_id === user?.id;
+            return (
+              <div key={message.id} className={cn('flex', mine ? 'justify-end' : 'justify-start')}>
+                <div
+                  className={cn(
+                    'max-w-[75%] rounded-lg px-3 py-2 text-sm',
+                    mine ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                  )}
+                >
+                  <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                  <p className={cn('text-[10px] mt-1', mine ? 'text-primary-foreground/70' : 'text-muted-foreground')}>
+                    {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </CardContent>
+
+      <div className="border-t border-border p-4 flex gap-2">
+        <Textarea
+          placeholder="Type your message..."
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+          maxLength={2000}
+          className="resize-none"
+        />
+        <Button onClick={handleSend} disabled={sending || !draft.trim()} className="self-end">
+          <Send className="h-4 w-4" />
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { confirmPhoneCode, normalizePhone, sendPhoneCode } from '@/lib/phone-verification';
+import { toast } from 'sonner';
+
+interface PhoneVerificationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  phone: string;
+  onVerified: () => void;
+}
+
+export const PhoneVerificationDialog: React.FC<PhoneVerificationDialogProps> = ({
+  open,
+  onOpenChange,
+  phone,
+  onVerified
+}) => {
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setCodeSent(false);
+      setCode('');
+    }
+  }, [open]);
+
+  const sendCode = async () => {
+    setBusy(true);
+    try {
+      await sendPhoneCode(phone);
+      setCodeSent(true);
+      toast.success('Code sent');
+    } catch (error) {
+      toast.error(error.message || 'Could not send the code');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const verify = async () => {
+    setBusy(true);
+    try {
+      await confirmPhoneCode(phone, code);
+      toast.success('Phone number verified');
+      onVerified();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error.message || 'Invalid code');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Verify your phone</DialogTitle>
+          <DialogDescription>
+            {codeSent
+              ? `Enter the 6-digit code sent to ${normalizePhone(phone)}`
+              : `We'll text a one-time code to ${normalizePhone(phone)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {codeSent ? (
+          <div className="space-y-4">
+            <div className="flex justify-center">
+              <InputOTP maxLength={6} value={code} onChange={setCode}>
+                <InputOTPGroup>
+                  {[0, 1, 2, 3, 4, 5].map((index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={sendCode} disabled={busy} className="flex-1">
+                Resend
+              </Button>
+              <Button onClick={verify} disabled={busy || code.length < 6} className="flex-1">
+                {busy ? 'Verifying...' : 'Verify'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Cancel
+            </Button>
+            <Button onClick={sendCode} disabled={busy} className="flex-1">
+              {busy ? 'Sending...' : 'Send Code'}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,22 @@
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface RatingBadgeProps {
+  average?: number | null;
+  count?: number | null;
+  className?: string;
+}
+
+export const RatingBadge: React.FC<RatingBadgeProps> = ({ average, count, className }) => {
+  if (!count || average == null) {
+    return <span className={cn('text-sm text-muted-foreground', className)}>No reviews yet</span>;
+  }
+
+  return (
+    <span className={cn('inline-flex items-center gap-1 text-sm', className)}>
+      <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
+      <span className="font-medium">{Number(average).toFixed(1)}</span>
+      <span className="text-muted-foreground">({count} review{count !== 1 ? 's' : ''})</span>
+    </span>
+  );
+};
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { REVIEW_TAGS } from '@/lib/reviews';
+import { cn } from '@/lib/utils';
+import { UserRole } from '@/types';
+import { Star } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tripId: string;
+  revieweeId: string;
+  revieweeName: string;
+  revieweeRole: UserRole;
+  onSubmitted?: () => void;
+}
+
+export const ReviewDialog: React.FC<ReviewDialogProps> = ({
+  open,
+  onOpenChange,
+  tripId,
+  revieweeId,
+  revieweeName,
+  revieweeRole,
+  onSubmitted
+}) => {
+  const { user } = useAuth();
+  const [score, setScore] = useState(0);
+  const [hovered, setHovered] = useState(0);
+  const [tags, setTags] = useState<string[]>([]);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setScore(0);
+      setTags([]);
+      setComment('');
+    }
+  }, [open]);
+
+  const toggleTag = (tag: string) => {
+    setTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const handleSubmit = async () => {
+    if (!user || score === 0) return;
+
+    setSubmitting(true);
+    // The database checks that both people travelled together on a completed trip
+    const { error } = await supabase
+      .from('reviews')
+      .insert({
+        trip_id: tripId,
+        reviewer_id: user.id,
+        reviewee_id: revieweeId,
+        score,
+        tags,
+        comment: comment.trim() || null
+      });
+    setSubmitting(false);
+
+    if (error) {
+      toast.error(error.code === '23505' ? 'You have already reviewed this trip' : error.message || 'Failed to submit review');
+      return;
+    }
+
+    toast.success('Thanks for your review!');
+    onOpenChange(false);
+    onSubmitted?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Rate {revieweeName}</DialogTitle>
+          <DialogDescription>
+            How was your trip with your {revieweeRole}?
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="flex justify-center gap-1" onMouseLeave={() => setHovered(0)}>
+            {[1, 2, 3, 4, 5].map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setScore(value)}
+                onMouseEnter={() => setHovered(value)}
+                aria-label={`${value} star${value > 1 ? 's' : ''}`}
+              >
+                <Star
+                  className={cn(
+                    'h-8 w-8 transition-colors',
+                    value <= (hovered || score) ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'
+                  )}
+                />
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>What stood out?</Label>
+            <div className="flex flex-wrap gap-2">
+              {REVIEW_TAGS[revieweeRole].map((tag) => (
+                <Badge
+                  key={tag}
+                  variant={tags.includes(tag) ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => toggleTag(tag)}
+                >
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">Comment (optional)</Label>
+            <Textarea
+              id="review-comment"
+              placeholder="Share a few words about the trip..."
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+              maxLength={1000}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={score === 0 || submitting} className="flex-1">
+              {submitting ? 'Submitting...' : 'Submit Review'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
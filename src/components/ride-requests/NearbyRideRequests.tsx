@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { NEARBY_RADIUS_OPTIONS_KM } from '@/lib/nearby-trips';
+import {
+  NearbyRideRequestDetails,
+  RideOfferWithRequest,
+  describeWindow,
+  fetchMyRideOffers,
+  fetchNearbyRideRequests,
+  withdrawRideOffer
+} from '@/lib/ride-requests';
+import { formatDistance } from '@/lib/trip-routes';
+import { formatINR } from '@/lib/utils';
+import { RideRequest } from '@/types';
+import { Clock, Hand, MapPin, Send, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { RideOfferDialog } from '@/components/ride-requests/RideOfferDialog';
+
+interface NearbyRideRequestsProps {
+  driverId: string;
+  // Called when a passenger accepts one of the driver's offers
+  onTripCreated?: () => void;
+}
+
+const OFFER_STATUS_LABELS: Record<RideOfferWithRequest['status'], string> = {
+  pending: 'Waiting',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  withdrawn: 'Withdrawn',
+  expired: 'Expired'
+};
+
+export const NearbyRideRequests: React.FC<NearbyRideRequestsProps> = ({ driverId, onTripCreated }) => {
+  const [position, setPosition] = useState<[number, number] | null>(null);
+  const [locationError, setLocationError] = useState(false);
+  const [radiusKm, setRadiusKm] = useState(10);
+  const [requests, setRequests] = useState<NearbyRideRequestDetails[]>([]);
+  const [offers, setOffers] = useState<RideOfferWithRequest[]>([]);
+  const [offering, setOffering] = useState<RideRequest | null>(null);
+
+  useEffect(() => {
+    if (!navigator.geolocation) {
+      setLocationError(true);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (pos) => setPosition([pos.coords.latitude, pos.coords.longitude]),
+      () => setLocationError(true),
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 60000 }
+    );
+  }, []);
+
+  const loadRequests = async () => {
+    if (!position) return;
+    try {
+      setRequests(await fetchNearbyRideRequests({ center: position, radiusKm }));
+    } catch (error) {
+      console.warn('Failed to load ride requests:', error);
+    }
+  };
+
+  const loadOffers = async () => {
+    try {
+      setOffers(await fetchMyRideOffers(driverId));
+    } catch (error) {
+      toast.error(error.message || 'Failed to load your offers');
+    }
+  };
+
+  useEffect(() => {
+    loadRequests();
+  }, [position, radiusKm]);
+
+  useEffect(() => {
+    loadOffers();
+
+    // Accepted offers notify the driver
+    const channel = supabase
+      .channel(`ride-offers-${driverId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${driverId}`
+        },
+        (payload) => {
+          if (payload.new.type !== 'ride_offer_accepted') return;
+          toast.success(payload.new.title);
+          loadOffers();
+          onTripCreated?.();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [driverId]);
+
+  const withdraw = async (offer: RideOfferWithRequest) => {
+    try {
+      await withdrawRideOffer(offer.id);
+      toast.success('Offer withdrawn');
+      loadOffers();
+    } catch (error) {
+      toast.error(error.message || 'Failed to withdraw offer');
+    }
+  };
+
+  const pendingRequestIds = new Set(offers.filter(o => o.status === 'pending').map(o => o.request_id));
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-6 mb-8">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <Hand className="h-5 w-5" />
+              Ride Requests Nearby
+            </CardTitle>
+            <Select value={String(radiusKm)} onValueChange={(value) => setRadiusKm(Number(value))}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {NEARBY_RADIUS_OPTIONS_KM.map(km => (
+                  <SelectItem key={km} value={String(km)}>Within {km} km</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {locationError ? (
+            <p className="text-sm text-muted-foreground">
+              Allow location access to see passengers looking for a ride near you, or browse them on the{' '}
+              <Link to="/map" className="text-primary underline">live map</Link>.
+            </p>
+          ) : requests.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No open ride requests near you right now</p>
+          ) : (
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              {requests.map((request) => (
+                <div key={request.id} className="flex items-center gap-4 p-3 rounded-lg border border-border">
+                  <div className="flex-1 min-w-0 text-sm space-y-1">
+                    <div className="flex items-center gap-2">
+                      <MapPin className="h-4 w-4 text-muted-foreground shrink-0" />
+                      <span className="font-medium truncate">{request.start_location} → {request.destination}</span>
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        {describeWindow(request)}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Users className="h-3 w-3" />
+                        {request.seats}
+                      </span>
+                      {request.max_price_per_seat != null && (
+                        <span>Up to {formatINR(Number(request.max_price_per_seat))}</span>
+                      )}
+                      <span>{formatDistance(request.distance_meters)} away</span>
+                    </div>
+                    {request.profiles?.full_name && (
+                      <p className="text-muted-foreground">{request.profiles.full_name}</p>
+                    )}
+                  </div>
+                  {pendingRequestIds.has(request.id) ? (
+                    <Badge variant="secondary">Offer sent</Badge>
+                  ) : (
+                    <Button size="sm" onClick={() => setOffering(request)}>
+                      <Send className="h-3 w-3 mr-1" />
+                      Offer
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Send className="h-5 w-5" />
+            My Offers
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {offers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Offers you make on passengers' ride requests show up here
+            </p>
+          ) : (
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              {offers.map((offer) => (
+                <div key={offer.id} className="flex items-center gap-4 p-3 rounded-lg border border-border">
+                  <div className="flex-1 min-w-0 text-sm">
+                    <p className="font-medium truncate">
+                      {offer.ride_requests
+                        ? `${offer.ride_requests.start_location} → ${offer.ride_requests.destination}`
+                        : 'Ride request'}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {new Date(offer.departure_time).toLocaleString([], {
+                        weekday: 'short',
+                        day: 'numeric',
+                        month: 'short',
+                        hour: '2-digit',
+                        minute: '2-digit'
+                      })}
+                      {' · '}
+                      {offer.price_per_seat != null ? `${formatINR(Number(offer.price_per_seat))}/seat` : 'Free'}
+                    </p>
+                  </div>
+                  <Badge variant={offer.status === 'accepted' ? 'default' : 'secondary'}>
+                    {OFFER_STATUS_LABELS[offer.status]}
+                  </Badge>
+                  {offer.status === 'pending' && (
+                    <Button size="sm" variant="ghost" onClick={() => withdraw(offer)}>
+                      Withdraw
+                    </Button>
+                  )}
+                  {offer.status === 'accepted' && offer.trip_id && (
+                    <Link to={`/trip/${offer.trip_id}`}>
+                      <Button size="sm" variant="outline">View Trip</Button>
+                    </Link>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <RideOfferDialog
+        request={offering}
+        onOpenChange={(open) => !open && setOffering(null)}
+        onSubmitted={loadOffers}
+      />
+    </div>
+  );
+};
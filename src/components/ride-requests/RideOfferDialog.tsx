@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { describeWindow, makeRideOffer } from '@/lib/ride-requests';
+import { describeVehicle, fetchVehicles } from '@/lib/vehicles';
+import { formatINR } from '@/lib/utils';
+import { RideRequest, Vehicle } from '@/types';
+import { toast } from 'sonner';
+
+interface RideOfferDialogProps {
+  request: RideRequest | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted?: () => void;
+}
+
+// <input type="datetime-local"> wants local time without a zone
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const RideOfferDialog: React.FC<RideOfferDialogProps> = ({
+  request,
+  onOpenChange,
+  onSubmitted
+}) => {
+  const { user } = useAuth();
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [vehicleId, setVehicleId] = useState('');
+  const [departure, setDeparture] = useState('');
+  const [seatsOffered, setSeatsOffered] = useState(1);
+  const [price, setPrice] = useState('');
+  const [message, setMessage] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchVehicles(user.id)
+      .then((result) => {
+        setVehicles(result);
+        if (result.length === 1) setVehicleId(result[0].id);
+      })
+      .catch((error) => toast.error(error.message || 'Failed to load vehicles'));
+  }, [user]);
+
+  useEffect(() => {
+    if (request) {
+      setDeparture(toLocalInput(request.window_start));
+      setSeatsOffered(request.seats);
+      setPrice(request.max_price_per_seat != null ? String(request.max_price_per_seat) : '');
+      setMessage('');
+    }
+  }, [request]);
+
+  const vehicle = vehicles.find(v => v.id === vehicleId) || null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !request || !vehicle) return;
+
+    setSaving(true);
+    try {
+      await makeRideOffer({
+        request_id: request.id,
+        driver_id: user.id,
+        vehicle_id: vehicle.id,
+        departure_time: new Date(departure).toISOString(),
+        seats_offered: seatsOffered,
+        price_per_seat: price === '' ? null : Number(price),
+        message: message || null
+      });
+      toast.success('Offer sent. You will be notified if the passenger accepts.');
+      onOpenChange(false);
+      onSubmitted?.();
+    } catch (error) {
+      toast.error(error.message || 'Failed to send offer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Offer a ride</DialogTitle>
+          <DialogDescription>
+            {request && `${request.start_location} → ${request.destination} · ${describeWindow(request)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {request && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {request.message && (
+              <p className="text-sm text-muted-foreground">"{request.message}"</p>
+            )}
+
+            <div className="space-y-2">
+              <Label>Vehicle *</Label>
+              <Select value={vehicleId} onValueChange={setVehicleId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a vehicle" />
+                </SelectTrigger>
+                <SelectContent>
+                  {vehicles.map((v) => (
+                    <SelectItem key={v.id} value={v.id}>
+                      {describeVehicle(v)} · {v.plate} ({v.seat_capacity} seats)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ride-offer-departure">Departure *</Label>
+              <Input
+                id="ride-offer-departure"
+                type="datetime-local"
+                min={toLocalInput(request.window_start)}
+                max={toLocalInput(request.window_end)}
+                value={departure}
+                onChange={(e) => setDeparture(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ride-offer-seats">Seats in trip *</Label>
+                <Input
+                  id="ride-offer-seats"
+                  type="number"
+                  min={request.seats}
+                  max={vehicle?.seat_capacity ?? 8}
+                  value={seatsOffered}
+                  onChange={(e) => setSeatsOffered(parseInt(e.target.value) || request.seats)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ride-offer-price">Price per seat</Label>
+                <Input
+                  id="ride-offer-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Free"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              The passenger needs {request.seats} seat{request.seats !== 1 ? 's' : ''}
+              {request.max_price_per_seat != null && ` and budgets ${formatINR(Number(request.max_price_per_seat))} per seat`}.
+              Any extra seats stay open for others to book.
+            </p>
+
+            <div className="space-y-2">
+              <Label htmlFor="ride-offer-message">Message (optional)</Label>
+              <Textarea
+                id="ride-offer-message"
+                placeholder="Where you can pick them up, your route..."
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={3}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving || !vehicle} className="flex-1">
+                {saving ? 'Sending...' : 'Send Offer'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,231 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { LocationAutocomplete } from '@/components/map/LocationAutocomplete';
+import { useAuth } from '@/contexts/AuthContext';
+import { geocodeFirst } from '@/lib/geocoding';
+import { createRideRequest } from '@/lib/ride-requests';
+import { GeocodedPlace } from '@/types';
+import { toast } from 'sonner';
+
+interface RideRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: () => void;
+}
+
+export const RideRequestDialog: React.FC<RideRequestDialogProps> = ({
+  open,
+  onOpenChange,
+  onCreated
+}) => {
+  const { user } = useAuth();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [fromPlace, setFromPlace] = useState<GeocodedPlace | null>(null);
+  const [toPlace, setToPlace] = useState<GeocodedPlace | null>(null);
+  const [date, setDate] = useState('');
+  const [earliest, setEarliest] = useState('');
+  const [latest, setLatest] = useState('');
+  const [seats, setSeats] = useState(1);
+  const [maxPrice, setMaxPrice] = useState('');
+  const [message, setMessage] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const today = new Date().toLocaleDateString('en-CA');
+
+  useEffect(() => {
+    if (open) {
+      setDate(prev => prev || today);
+    }
+  }, [open, today]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const windowStart = new Date(`${date}T${earliest}`);
+    const windowEnd = new Date(`${date}T${latest}`);
+    if (windowEnd <= windowStart) {
+      toast.error('The latest departure must be after the earliest');
+      return;
+    }
+    if (windowEnd <= new Date()) {
+      toast.error('The departure window must end in the future');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const [start, dest] = await Promise.all([
+        fromPlace ?? geocodeFirst(from),
+        toPlace ?? geocodeFirst(to)
+      ]);
+      if (!start || !dest) {
+        toast.error(`Could not find "${!start ? from : to}". Pick it on the map instead.`);
+        return;
+      }
+
+      await createRideRequest({
+        passenger_id: user.id,
+        start_location: from,
+        destination: to,
+        start_lat: start.lat,
+        start_lng: start.lng,
+        dest_lat: dest.lat,
+        dest_lng: dest.lng,
+        window_start: windowStart.toISOString(),
+        window_end: windowEnd.toISOString(),
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        seats,
+        max_price_per_seat: maxPrice === '' ? null : Number(maxPrice),
+        message: message || null
+      });
+      toast.success('Ride request posted. Drivers nearby can now make offers.');
+      onOpenChange(false);
+      onCreated();
+    } catch (error) {
+      toast.error(error.message || 'Failed to post ride request');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Request a ride</DialogTitle>
+          <DialogDescription>
+            Tell drivers where and when you want to go. You choose which offer to accept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="ride-request-from">From *</Label>
+            <LocationAutocomplete
+              id="ride-request-from"
+              placeholder="Pickup location"
+              pickerTitle="Confirm pickup location"
+              value={from}
+              place={fromPlace}
+              onTextChange={(text) => {
+                setFrom(text);
+                setFromPlace(null);
+              }}
+              onPlaceChange={(place) => {
+                setFrom(place.name);
+                setFromPlace(place);
+              }}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ride-request-to">To *</Label>
+            <LocationAutocomplete
+              id="ride-request-to"
+              placeholder="Destination"
+              pickerTitle="Confirm destination"
+              value={to}
+              place={toPlace}
+              onTextChange={(text) => {
+                setTo(text);
+                setToPlace(null);
+              }}
+              onPlaceChange={(place) => {
+                setTo(place.name);
+                setToPlace(place);
+              }}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ride-request-date">Date *</Label>
+              <Input
+                id="ride-request-date"
+                type="date"
+                min={today}
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ride-request-earliest">Earliest *</Label>
+              <Input
+                id="ride-request-earliest"
+                type="time"
+                value={earliest}
+                onChange={(e) => setEarliest(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ride-request-latest">Latest *</Label>
+              <Input
+                id="ride-request-latest"
+                type="time"
+                value={latest}
+                onChange={(e) => setLatest(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ride-request-seats">Seats *</Label>
+              <Input
+                id="ride-request-seats"
+                type="number"
+                min="1"
+                max="8"
+                value={seats}
+                onChange={(e) => setSeats(parseInt(e.target.value) || 1)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ride-request-price">Budget per seat</Label>
+              <Input
+                id="ride-request-price"
+                type="number"
+                min="0"
+                placeholder="Any"
+                value={maxPrice}
+                onChange={(e) => setMaxPrice(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ride-request-message">Message (optional)</Label>
+            <Textarea
+              id="ride-request-message"
+              placeholder="Luggage, pickup details, anything drivers should know..."
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving} className="flex-1">
+              {saving ? 'Posting...' : 'Post Request'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
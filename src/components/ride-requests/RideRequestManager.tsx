@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  RideOfferWithDriver,
+  RideRequestWithOffers,
+  acceptRideOffer,
+  cancelRideRequest,
+  declineRideOffer,
+  describeWindow,
+  fetchMyRideRequests
+} from '@/lib/ride-requests';
+import { describeVehicle } from '@/lib/vehicles';
+import { formatINR } from '@/lib/utils';
+import { Clock, Hand, MapPin, Plus, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { RideRequestDialog } from '@/components/ride-requests/RideRequestDialog';
+
+interface RideRequestManagerProps {
+  passengerId: string;
+}
+
+const REQUEST_STATUS_LABELS: Record<RideRequestWithOffers['status'], string> = {
+  open: 'Open',
+  matched: 'Matched',
+  cancelled: 'Cancelled',
+  expired: 'Expired'
+};
+
+export const RideRequestManager: React.FC<RideRequestManagerProps> = ({ passengerId }) => {
+  const navigate = useNavigate();
+  const [requests, setRequests] = useState<RideRequestWithOffers[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadRequests = async () => {
+    try {
+      setRequests(await fetchMyRideRequests(passengerId));
+    } catch (error) {
+      toast.error(error.message || 'Failed to load ride requests');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRequests();
+
+    // Each new offer also drops a notification for the passenger
+    const channel = supabase
+      .channel(`ride-requests-${passengerId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${passengerId}`
+        },
+        () => loadRequests()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [passengerId]);
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (error) {
+      toast.error(error.message || 'Action failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const acceptOffer = (offer: RideOfferWithDriver) => runAction(offer.id, async () => {
+    const tripId = await acceptRideOffer(offer.id);
+    toast.success('Offer accepted. Your ride is booked!');
+    navigate(`/trip/${tripId}`);
+  });
+
+  const declineOffer = (offer: RideOfferWithDriver) => runAction(offer.id, async () => {
+    await declineRideOffer(offer.id);
+    await loadRequests();
+  });
+
+  const cancelRequest = (request: RideRequestWithOffers) => runAction(request.id, async () => {
+    await cancelRideRequest(request.id);
+    toast.success('Ride request cancelled');
+    await loadRequests();
+  });
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center gap-2">
+            <Hand className="h-5 w-5" />
+            Ride Requests
+          </CardTitle>
+          <Button size="sm" onClick={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Request a Ride
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Can't find a trip that suits you? Post the ride you want and let drivers make offers.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {requests.map((request) => {
+              const pendingOffers = request.ride_offers.filter(offer => offer.status === 'pending');
+
+              return (
+                <div key={request.id} className="p-4 rounded-lg border border-border space-y-3">
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-2 text-sm">
+                        <MapPin className="h-4 w-4 text-muted-foreground shrink-0" />
+                        <span className="font-medium truncate">{request.start_location} → {request.destination}</span>
+                      </div>
+                      <div className="flex flex-wrap gap-x-4 text-sm text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          {describeWindow(request)}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Users className="h-3 w-3" />
+                          {request.seats} seat{request.seats !== 1 ? 's' : ''}
+                        </span>
+                        {request.max_price_per_seat != null && (
+                          <span>Up to {formatINR(Number(request.max_price_per_seat))}/seat</span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant={request.status === 'open' ? 'default' : 'secondary'}>
+                        {REQUEST_STATUS_LABELS[request.status]}
+                      </Badge>
+                      {request.status === 'open' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={busyId === request.id}
+                          onClick={() => cancelRequest(request)}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                      {request.status === 'matched' && request.trip_id && (
+                        <Button size="sm" variant="outline" onClick={() => navigate(`/trip/${request.trip_id}`)}>
+                          View Trip
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {request.status === 'open' && (
+                    pendingOffers.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No offers yet</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {pendingOffers.map((offer) => (
+                          <div key={offer.id} className="flex items-center gap-4 p-3 rounded-md bg-muted/30">
+                            <div className="flex-1 min-w-0 text-sm">
+                              <p className="font-medium">
+                                {offer.profiles?.full_name || 'Driver'}
+                                {offer.vehicle && (
+                                  <span className="font-normal text-muted-foreground"> · {describeVehicle(offer.vehicle)}</span>
+                                )}
+                              </p>
+                              <p className="text-muted-foreground">
+                                Leaves {new Date(offer.departure_time).toLocaleString([], {
+                                  weekday: 'short',
+                                  hour: '2-digit',
+                                  minute: '2-digit'
+                                })}
+                                {' · '}
+                                {offer.price_per_seat != null ? `${formatINR(Number(offer.price_per_seat))}/seat` : 'Free'}
+                              </p>
+                              {offer.message && <p className="text-muted-foreground">"{offer.message}"</p>}
+                            </div>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={busyId === offer.id}
+                              onClick={() => declineOffer(offer)}
+                            >
+                              Decline
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="success"
+                              disabled={busyId === offer.id}
+                              onClick={() => acceptOffer(offer)}
+                            >
+                              Accept
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <RideRequestDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onCreated={loadRequests}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '@/contexts/AuthContext';
+import { createSavedSearch, defaultSavedSearchName } from '@/lib/saved-searches';
+import { TripSearchFilters } from '@/lib/trip-search';
+import { toast } from 'sonner';
+
+interface SaveSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: TripSearchFilters;
+}
+
+export const SaveSearchDialog: React.FC<SaveSearchDialogProps> = ({
+  open,
+  onOpenChange,
+  filters
+}) => {
+  const { user } = useAuth();
+  const [name, setName] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [emailAlerts, setEmailAlerts] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultSavedSearchName(filters));
+      setDateFrom(filters.date);
+      setDateTo(filters.date);
+      setMaxPrice(filters.maxPrice != null ? String(filters.maxPrice) : '');
+      setEmailAlerts(true);
+    }
+  }, [open, filters]);
+
+  const handleSave = async () => {
+    if (!user || !name.trim()) return;
+
+    setSaving(true);
+    try {
+      await createSavedSearch(user.id, filters, {
+        name,
+        dateFrom,
+        dateTo,
+        maxPrice: maxPrice === '' ? null : Number(maxPrice),
+        emailAlerts
+      });
+      toast.success("Search saved. We'll let you know when a matching trip is posted.");
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error.message || 'Failed to save search');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save this search</DialogTitle>
+          <DialogDescription>
+            Get notified when a driver posts a trip on this route.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-from">From date</Label>
+              <Input
+                id="saved-search-from"
+                type="date"
+                value={dateFrom}
+                min={new Date().toISOString().split('T')[0]}
+                onChange={(e) => setDateFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-to">To date</Label>
+              <Input
+                id="saved-search-to"
+                type="date"
+                value={dateTo}
+                min={dateFrom || new Date().toISOString().split('T')[0]}
+                onChange={(e) => setDateTo(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Leave the dates empty to hear about every trip on this route.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-price">Max price per seat</Label>
+            <Input
+              id="saved-search-price"
+              type="number"
+              min="0"
+              placeholder="Any"
+              value={maxPrice}
+              onChange={(e) => setMaxPrice(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="saved-search-email">Also send me an email</Label>
+            <Switch
+              id="saved-search-email"
+              checked={emailAlerts}
+              onCheckedChange={setEmailAlerts}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !name.trim()} className="flex-1">
+              {saving ? 'Saving...' : 'Save Search'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,225 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  deleteSavedSearch,
+  fetchSavedSearches,
+  savedSearchToParams,
+  setSavedSearchEmailAlerts
+} from '@/lib/saved-searches';
+import { fetchNotifications, markNotificationsRead } from '@/lib/notifications';
+import { formatINR } from '@/lib/utils';
+import { AppNotification, SavedSearch } from '@/types';
+import { Bell, Bookmark, Search, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface SavedSearchManagerProps {
+  passengerId: string;
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00`).toLocaleDateString([], { day: 'numeric', month: 'short' });
+
+const describeDates = (search: SavedSearch) => {
+  if (search.date_from && search.date_to) {
+    return search.date_from === search.date_to
+      ? formatDate(search.date_from)
+      : `${formatDate(search.date_from)} – ${formatDate(search.date_to)}`;
+  }
+  if (search.date_from) return `From ${formatDate(search.date_from)}`;
+  if (search.date_to) return `Until ${formatDate(search.date_to)}`;
+  return 'Any date';
+};
+
+const isExpired = (search: SavedSearch) =>
+  !!search.date_to && search.date_to < new Date().toLocaleDateString('en-CA');
+
+export const SavedSearchManager: React.FC<SavedSearchManagerProps> = ({ passengerId }) => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [alerts, setAlerts] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadSearches = async () => {
+    try {
+      setSearches(await fetchSavedSearches(passengerId));
+    } catch (error) {
+      toast.error(error.message || 'Failed to load saved searches');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadAlerts = async () => {
+    try {
+      setAlerts(await fetchNotifications(passengerId));
+    } catch (error) {
+      console.warn('Failed to load trip alerts:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadSearches();
+    loadAlerts();
+
+    const channel = supabase
+      .channel(`notifications-${passengerId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${passengerId}`
+        },
+        () => {
+          loadAlerts();
+          loadSearches();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [passengerId]);
+
+  const toggleEmailAlerts = async (search: SavedSearch, enabled: boolean) => {
+    try {
+      await setSavedSearchEmailAlerts(search.id, enabled);
+      setSearches(prev => prev.map(s => s.id === search.id ? { ...s, email_alerts: enabled } : s));
+    } catch (error) {
+      toast.error(error.message || 'Failed to update saved search');
+    }
+  };
+
+  const removeSearch = async (search: SavedSearch) => {
+    try {
+      await deleteSavedSearch(search.id);
+      toast.success('Saved search removed');
+      setSearches(prev => prev.filter(s => s.id !== search.id));
+    } catch (error) {
+      toast.error(error.message || 'Failed to remove saved search');
+    }
+  };
+
+  const markRead = async (ids: string[]) => {
+    try {
+      await markNotificationsRead(ids);
+      const readAt = new Date().toISOString();
+      setAlerts(prev => prev.map(a => ids.includes(a.id) ? { ...a, read_at: readAt } : a));
+    } catch (error) {
+      console.warn('Failed to mark alerts read:', error);
+    }
+  };
+
+  const unread = alerts.filter(alert => !alert.read_at);
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-6 mb-8">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bookmark className="h-5 w-5" />
+            Saved Searches
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>
+            </div>
+          ) : searches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Save a search from the Find Rides page to get alerted when a matching trip is posted
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {searches.map((search) => (
+                <div key={search.id} className="flex items-center gap-4 p-3 rounded-lg border border-border">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{search.name}</p>
+                      {isExpired(search) && <Badge variant="secondary">Expired</Badge>}
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 text-sm text-muted-foreground">
+                      <span>{describeDates(search)}</span>
+                      {search.max_price != null && <span>Up to {formatINR(search.max_price)}</span>}
+                      {search.last_matched_at && (
+                        <span>Last match {new Date(search.last_matched_at).toLocaleDateString()}</span>
+                      )}
+                    </div>
+                    <label className="flex items-center gap-2 text-sm mt-2">
+                      <Switch
+                        checked={search.email_alerts}
+                        onCheckedChange={(checked) => toggleEmailAlerts(search, checked)}
+                      />
+                      Email alerts
+                    </label>
+                  </div>
+                  <Link to={`/search?${savedSearchToParams(search).toString()}`}>
+                    <Button size="sm" variant="outline">
+                      <Search className="h-3 w-3" />
+                    </Button>
+                  </Link>
+                  <Button size="sm" variant="destructive" onClick={() => removeSearch(search)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle className="flex items-center gap-2">
+              <Bell className="h-5 w-5" />
+              Trip Alerts
+              {unread.length > 0 && <Badge>{unread.length} new</Badge>}
+            </CardTitle>
+            {unread.length > 0 && (
+              <Button size="sm" variant="ghost" onClick={() => markRead(unread.map(alert => alert.id))}>
+                Mark all read
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {alerts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No matching trips yet
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {alerts.map((alert) => (
+                <div
+                  key={alert.id}
+                  className={`flex items-start gap-3 p-3 rounded-lg border ${alert.read_at ? 'border-border' : 'border-primary/40 bg-primary/5'}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium">{alert.title}</p>
+                    {alert.body && <p className="text-sm text-muted-foreground">{alert.body}</p>}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {new Date(alert.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  {alert.trip_id && (
+                    <Link to={`/trip/${alert.trip_id}`} onClick={() => !alert.read_at && markRead([alert.id])}>
+                      <Button size="sm" variant="outline">View Trip</Button>
+                    </Link>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
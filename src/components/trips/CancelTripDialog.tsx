@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useCancellationPolicies } from '@/hooks/use-cancellation-policies';
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  cancelTrip,
+  describeCancellationPolicy,
+  isLateCancellation
+} from '@/lib/cancellation';
+import { Trip } from '@/types';
+import { AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface CancelTripDialogProps {
+  trip: Trip | null;
+  // Accepted passengers who will be told
+  passengerCount: number;
+  onOpenChange: (open: boolean) => void;
+  onCancelled?: () => void;
+}
+
+export const CancelTripDialog: React.FC<CancelTripDialogProps> = ({
+  trip,
+  passengerCount,
+  onOpenChange,
+  onCancelled
+}) => {
+  const policies = useCancellationPolicies();
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (trip) setReason('');
+  }, [trip]);
+
+  const policy = trip ? policies[trip.cancellation_policy || DEFAULT_CANCELLATION_POLICY] : undefined;
+  const late = !!trip && passengerCount > 0 && isLateCancellation(trip.departure_time, policy);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trip) return;
+
+    setSaving(true);
+    try {
+      await cancelTrip(trip.id, reason);
+      toast.success('Trip cancelled. Your passengers have been notified.');
+      onCancelled?.();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error.message || 'Failed to cancel trip');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!trip} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cancel this trip?</DialogTitle>
+          <DialogDescription>
+            {passengerCount} passenger{passengerCount !== 1 ? 's have' : ' has'} a confirmed seat.
+            The trip is cancelled rather than deleted, and everyone who booked is sent your reason.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={submit} className="space-y-4">
+          {policy && (
+            <p className="text-sm text-muted-foreground">
+              {policy.name} policy: {describeCancellationPolicy(policy).toLowerCase()}
+            </p>
+          )}
+          {late && (
+            <div className="flex gap-2 p-3 rounded-lg bg-destructive/10 text-sm">
+              <AlertTriangle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+              <span>The free cancellation window has passed. This will count as a late cancellation on your profile.</span>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="cancel-reason">Reason</Label>
+            <Textarea
+              id="cancel-reason"
+              placeholder="Let your passengers know what happened..."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              rows={3}
+              required
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Keep Trip
+            </Button>
+            <Button type="submit" variant="destructive" disabled={saving || !reason.trim()} className="flex-1">
+              {saving ? 'Cancelling...' : 'Cancel Trip'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { fetchFareEstimate, isAboveFareCap } from '@/lib/fares';
+import { formatINR } from '@/lib/utils';
+import { FareEstimate } from '@/types';
+import { Calculator } from 'lucide-react';
+
+interface FareBreakdownProps {
+  tripId: string;
+  pricePerSeat?: number | null;
+}
+
+// How the driver's price compares with the trip's cost share
+export const FareBreakdown: React.FC<FareBreakdownProps> = ({ tripId, pricePerSeat }) => {
+  const [estimate, setEstimate] = useState<FareEstimate | null>(null);
+
+  useEffect(() => {
+    fetchFareEstimate(tripId)
+      .then(setEstimate)
+      .catch((error) => console.warn('Failed to load fare estimate:', error));
+  }, [tripId]);
+
+  if (!estimate) return null;
+
+  const price = pricePerSeat != null ? Number(pricePerSeat) : null;
+  const rows: [string, number][] = [
+    [`Fuel for ${estimate.distance_km} km`, estimate.fuel_cost],
+    ['Vehicle upkeep', estimate.upkeep_cost],
+    [`Time on the road (about ${estimate.duration_minutes} min)`, estimate.time_cost],
+    ['Tolls', estimate.toll_cost]
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="h-5 w-5" />
+          Fare Breakdown
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="space-y-1">
+          {rows.filter(([, amount]) => amount > 0).map(([label, amount]) => (
+            <div key={label} className="flex justify-between gap-2 text-muted-foreground">
+              <span>{label}</span>
+              <span>{formatINR(amount)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between gap-2 font-medium border-t border-border pt-1">
+            <span>Trip running cost</span>
+            <span>{formatINR(estimate.trip_cost)}</span>
+          </div>
+          <div className="flex justify-between gap-2 text-muted-foreground">
+            <span>Shared by {estimate.people_sharing} people, driver included</span>
+            <span>{formatINR(estimate.cost_per_seat)} each</span>
+          </div>
+        </div>
+        <p className="text-muted-foreground">
+          Suggested price {formatINR(estimate.suggested_min)}–{formatINR(estimate.suggested_max)} per seat
+          {price != null && (
+            <>
+              {' '}· the driver asks <span className="font-medium text-foreground">{formatINR(price)}</span>
+              {price > estimate.suggested_max && !isAboveFareCap(price, estimate) && ', a little above the range'}
+              {isAboveFareCap(price, estimate) && ', well above the running cost'}
+            </>
+          )}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
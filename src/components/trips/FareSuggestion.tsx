@@ -0,0 +1,50 @@
+import { Button } from '@/components/ui/button';
+import { isAboveFareCap } from '@/lib/fares';
+import { formatINR } from '@/lib/utils';
+import { FareEstimate } from '@/types';
+import { AlertTriangle, Calculator } from 'lucide-react';
+
+interface FareSuggestionProps {
+  estimate: FareEstimate | null;
+  price: number | null;
+  onUse: (price: number) => void;
+}
+
+export const FareSuggestion: React.FC<FareSuggestionProps> = ({ estimate, price, onUse }) => {
+  if (!estimate) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Pick both ends of the route on the map and a vehicle to get a suggested price
+      </p>
+    );
+  }
+
+  const midpoint = Math.round((estimate.suggested_min + estimate.suggested_max) / 2 / 5) * 5;
+
+  return (
+    <div className="space-y-2 p-3 rounded-lg bg-muted/30 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 font-medium">
+          <Calculator className="h-4 w-4 text-primary" />
+          Suggested {formatINR(estimate.suggested_min)}–{formatINR(estimate.suggested_max)} per seat
+        </span>
+        <Button type="button" size="sm" variant="outline" onClick={() => onUse(midpoint)}>
+          Use {formatINR(midpoint)}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {estimate.distance_km} km, about {estimate.duration_minutes} min · running cost{' '}
+        {formatINR(estimate.trip_cost)} shared by {estimate.people_sharing} people including you
+      </p>
+      {price != null && isAboveFareCap(price, estimate) && (
+        <div className="flex gap-2 p-2 rounded bg-destructive/10 text-xs">
+          <AlertTriangle className="h-4 w-4 text-destructive shrink-0" />
+          <span>
+            Above {formatINR(estimate.price_cap)} per seat this looks like profit rather than cost sharing.
+            Passengers see the breakdown, so a fair price books faster.
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
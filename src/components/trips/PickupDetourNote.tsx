@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { PickupDetour, formatDetour, hasPins, measureBookingDetour } from '@/lib/pickup-route';
+import { Booking } from '@/types';
+import { Route } from 'lucide-react';
+
+interface PickupDetourNoteProps {
+  booking: Booking;
+}
+
+// What taking this request would add to the driver's pickup route
+export const PickupDetourNote: React.FC<PickupDetourNoteProps> = ({ booking }) => {
+  const [detour, setDetour] = useState<PickupDetour | null>(null);
+
+  useEffect(() => {
+    if (!hasPins(booking)) return;
+
+    let cancelled = false;
+    measureBookingDetour(booking)
+      .then((result) => {
+        if (!cancelled) setDetour(result);
+      })
+      .catch((error) => console.warn('Failed to measure detour:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.id]);
+
+  if (!detour) return null;
+
+  return (
+    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+      <Route className="h-3 w-3" />
+      Detour: {formatDetour(detour)}
+    </span>
+  );
+};
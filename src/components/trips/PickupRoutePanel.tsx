@@ -0,0 +1,60 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { PickupPlan } from '@/lib/pickup-route';
+import { formatDistance } from '@/lib/trip-routes';
+import { Route } from 'lucide-react';
+
+interface PickupRoutePanelProps {
+  plan: PickupPlan;
+  startName: string;
+  destinationName: string;
+}
+
+export const PickupRoutePanel: React.FC<PickupRoutePanelProps> = ({ plan, startName, destinationName }) => {
+  let pinNumber = 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Route className="h-5 w-5" />
+          Pickup Route
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground mb-4">
+          Suggested order for your accepted passengers' pickup and drop-off points ·{' '}
+          {formatDistance(plan.distance)}, about {Math.round(plan.duration / 60)} min
+        </p>
+        <ol className="space-y-2 text-sm">
+          <li className="text-muted-foreground">Start · {startName}</li>
+          {plan.stops.map((stop, index) => {
+            if (stop.kind === 'stop') {
+              return (
+                <li key={`stop-${index}`} className="text-muted-foreground">Stop · {stop.name}</li>
+              );
+            }
+            pinNumber += 1;
+            return (
+              <li key={`${stop.bookingId}-${stop.kind}`} className="flex gap-2">
+                <span
+                  className={`inline-flex h-5 w-5 shrink-0 items-center justify-center rounded text-xs font-bold text-white ${
+                    stop.kind === 'pickup' ? 'bg-green-600' : 'bg-red-600'
+                  }`}
+                >
+                  {pinNumber}
+                </span>
+                <span>
+                  <span className="font-medium">
+                    {stop.kind === 'pickup' ? 'Pick up' : 'Drop off'} {stop.passengerName || 'passenger'}
+                  </span>
+                  <span className="text-muted-foreground"> · {stop.name}</span>
+                </span>
+              </li>
+            );
+          })}
+          <li className="text-muted-foreground">Destination · {destinationName}</li>
+        </ol>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { cancelTripSeries, describeDays, fetchTripSeries, formatSeriesTime } from '@/lib/trip-series';
+import { formatINR } from '@/lib/utils';
+import { TripSeries } from '@/types';
+import { MapPin, Repeat, Settings, Users } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface TripSeriesManagerProps {
+  driverId: string;
+  onChanged?: () => void;
+}
+
+export const TripSeriesManager: React.FC<TripSeriesManagerProps> = ({ driverId, onChanged }) => {
+  const [seriesList, setSeriesList] = useState<TripSeries[]>([]);
+  const [cancelling, setCancelling] = useState<TripSeries | null>(null);
+
+  const loadSeries = async () => {
+    try {
+      setSeriesList(await fetchTripSeries(driverId));
+    } catch (error) {
+      toast.error(error.message || 'Failed to load recurring trips');
+    }
+  };
+
+  useEffect(() => {
+    loadSeries();
+  }, [driverId]);
+
+  const confirmCancel = async () => {
+    if (!cancelling) return;
+    try {
+      await cancelTripSeries(cancelling.id);
+      toast.success('Recurring trip cancelled');
+      loadSeries();
+      onChanged?.();
+    } catch (error) {
+      toast.error(error.message || 'Failed to cancel recurring trip');
+    } finally {
+      setCancelling(null);
+    }
+  };
+
+  // Nothing to manage until the driver sets up a commute
+  if (seriesList.length === 0) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Repeat className="h-5 w-5" />
+          Recurring Trips
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {seriesList.map((series) => (
+            <div key={series.id} className="flex flex-wrap items-center gap-4 p-3 rounded-lg border border-border">
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <MapPin className="h-4 w-4 text-muted-foreground" />
+                  <span className="truncate">{series.start_location} → {series.destination}</span>
+                </div>
+                <div className="flex flex-wrap gap-x-3 text-sm text-muted-foreground">
+                  <span>{describeDays(series.days_of_week)} at {formatSeriesTime(series.departure_time)}</span>
+                  <span>Until {new Date(`${series.ends_on}T00:00`).toLocaleDateString()}</span>
+                  <span className="flex items-center gap-1">
+                    <Users className="h-3 w-3" />
+                    {series.available_seats} seats
+                  </span>
+                  {series.price_per_seat != null && <span>{formatINR(Number(series.price_per_seat))}</span>}
+                  {series.skip_dates.length > 0 && (
+                    <span>{series.skip_dates.length} date{series.skip_dates.length !== 1 ? 's' : ''} skipped</span>
+                  )}
+                </div>
+              </div>
+              <Link to={`/create-trip?series=${series.id}`}>
+                <Button size="sm" variant="outline">
+                  <Settings className="h-3 w-3 mr-1" />
+                  Edit Series
+                </Button>
+              </Link>
+              <Button size="sm" variant="destructive" onClick={() => setCancelling(series)}>
+                Cancel Series
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <AlertDialog open={!!cancelling} onOpenChange={(open) => !open && setCancelling(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this recurring trip?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every upcoming date is cancelled, including bookings passengers have already made.
+              Trips that have started or finished are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep it</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmCancel}>Cancel Series</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
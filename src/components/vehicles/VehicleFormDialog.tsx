@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { DEFAULT_SEAT_CAPACITY, VEHICLE_TYPE_LABELS, uploadVehiclePhoto } from '@/lib/vehicles';
+import { Vehicle, VehicleType } from '@/types';
+import { Car } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface VehicleFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicle?: Vehicle | null;
+  onSaved: () => void;
+}
+
+const emptyForm = {
+  make: '',
+  model: '',
+  colour: '',
+  plate: '',
+  vehicleType: 'car' as VehicleType,
+  seatCapacity: DEFAULT_SEAT_CAPACITY.car
+};
+
+export const VehicleFormDialog: React.FC<VehicleFormDialogProps> = ({
+  open,
+  onOpenChange,
+  vehicle,
+  onSaved
+}) => {
+  const { user } = useAuth();
+  const [formData, setFormData] = useState(emptyForm);
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPhoto(null);
+    setFormData(vehicle ? {
+      make: vehicle.make,
+      model: vehicle.model,
+      colour: vehicle.colour || '',
+      plate: vehicle.plate,
+      vehicleType: vehicle.vehicle_type,
+      seatCapacity: vehicle.seat_capacity
+    } : emptyForm);
+  }, [open, vehicle]);
+
+  const handleTypeChange = (value: VehicleType) => {
+    setFormData(prev => ({ ...prev, vehicleType: value, seatCapacity: DEFAULT_SEAT_CAPACITY[value] }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const photoUrl = photo ? await uploadVehiclePhoto(user.id, photo) : vehicle?.photo_url || null;
+      const vehicleData = {
+        driver_id: user.id,
+        make: formData.make.trim(),
+        model: formData.model.trim(),
+        colour: formData.colour.trim() || null,
+        plate: formData.plate.trim().toUpperCase(),
+        vehicle_type: formData.vehicleType,
+        seat_capacity: formData.seatCapacity,
+        photo_url: photoUrl
+      };
+
+      const { error } = vehicle
+        ? await supabase.from('vehicles').update(vehicleData).eq('id', vehicle.id)
+        : await supabase.from('vehicles').insert([vehicleData]);
+      if (error) throw error;
+
+      toast.success(vehicle ? 'Vehicle updated' : 'Vehicle added');
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast.error(error.code === '23505' ? 'You already registered this plate' : error.message || 'Failed to save vehicle');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Car className="w-5 h-5" />
+            {vehicle ? 'Edit Vehicle' : 'Add Vehicle'}
+          </DialogTitle>
+          <DialogDescription>
+            Passengers see these details so they can find you at pickup.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="vehicle-make">Make *</Label>
+              <Input
+                id="vehicle-make"
+                placeholder="Maruti Suzuki"
+                value={formData.make}
+                onChange={(e) => setFormData(prev => ({ ...prev, make: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vehicle-model">Model *</Label>
+              <Input
+                id="vehicle-model"
+                placeholder="Swift"
+                value={formData.model}
+                onChange={(e) => setFormData(prev => ({ ...prev, model: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vehicle-colour">Colour</Label>
+              <Input
+                id="vehicle-colour"
+                placeholder="White"
+                value={formData.colour}
+                onChange={(e) => setFormData(prev => ({ ...prev, colour: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vehicle-plate">Number Plate *</Label>
+              <Input
+                id="vehicle-plate"
+                placeholder="KA 01 AB 1234"
+                value={formData.plate}
+                onChange={(e) => setFormData(prev => ({ ...prev, plate: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type *</Label>
+              <Select value={formData.vehicleType} onValueChange={(value) => handleTypeChange(value as VehicleType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(VEHICLE_TYPE_LABELS) as VehicleType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{VEHICLE_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vehicle-seats">Passenger Seats *</Label>
+              <Input
+                id="vehicle-seats"
+                type="number"
+                min="1"
+                max="12"
+                value={formData.seatCapacity}
+                onChange={(e) => setFormData(prev => ({ ...prev, seatCapacity: parseInt(e.target.value) || 1 }))}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vehicle-photo">Photo</Label>
+            {vehicle?.photo_url && !photo && (
+              <img src={vehicle.photo_url} alt="Current vehicle" className="h-24 rounded-md object-cover" />
+            )}
+            <Input
+              id="vehicle-photo"
+              type="file"
+              accept="image/*"
+              onChange={(e) => setPhoto(e.target.files?.[0] || null)}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving} className="flex-1">
+              {saving ? 'Saving...' : 'Save Vehicle'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { VehicleFormDialog } from '@/components/vehicles/VehicleFormDialog';
+import { supabase } from '@/integrations/supabase/client';
+import { VEHICLE_TYPE_LABELS, describeVehicle, fetchVehicles } from '@/lib/vehicles';
+import { Vehicle } from '@/types';
+import { Car, Plus, Settings, Trash2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface VehicleManagerProps {
+  driverId: string;
+}
+
+export const VehicleManager: React.FC<VehicleManagerProps> = ({ driverId }) => {
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Vehicle | null>(null);
+
+  const loadVehicles = async () => {
+    try {
+      setVehicles(await fetchVehicles(driverId));
+    } catch (error) {
+      toast.error(error.message || 'Failed to load vehicles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadVehicles();
+  }, [driverId]);
+
+  const openDialog = (vehicle: Vehicle | null) => {
+    setEditing(vehicle);
+    setDialogOpen(true);
+  };
+
+  // Trips keep running without a vehicle reference if theirs is removed
+  const deleteVehicle = async (vehicle: Vehicle) => {
+    const { error } = await supabase
+      .from('vehicles')
+      .delete()
+      .eq('id', vehicle.id);
+
+    if (error) {
+      toast.error(error.message || 'Failed to delete vehicle');
+    } else {
+      toast.success('Vehicle removed');
+      loadVehicles();
+    }
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center gap-2">
+            <Car className="h-5 w-5" />
+            My Vehicles
+          </CardTitle>
+          <Button size="sm" variant="outline" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Vehicle
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : vehicles.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Add a vehicle before offering trips
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {vehicles.map((vehicle) => (
+              <div key={vehicle.id} className="flex items-center gap-4 p-3 rounded-lg border border-border">
+                {vehicle.photo_url ? (
+                  <img src={vehicle.photo_url} alt={describeVehicle(vehicle)} className="w-16 h-16 rounded-md object-cover" />
+                ) : (
+                  <div className="w-16 h-16 rounded-md bg-primary/10 flex items-center justify-center">
+                    <Car className="h-6 w-6 text-primary" />
+                  </div>
+                )}
+                <div className="flex-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{describeVehicle(vehicle)}</p>
+                    <Badge variant="secondary">{VEHICLE_TYPE_LABELS[vehicle.vehicle_type]}</Badge>
+                  </div>
+                  <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                    <span className="font-mono">{vehicle.plate}</span>
+                    <span className="flex items-center gap-1">
+                      <Users className="h-3 w-3" />
+                      {vehicle.seat_capacity} seat{vehicle.seat_capacity !== 1 ? 's' : ''}
+                    </span>
+                  </div>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => openDialog(vehicle)}>
+                  <Settings className="h-3 w-3" />
+                </Button>
+                <Button size="sm" variant="destructive" onClick={() => deleteVehicle(vehicle)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <VehicleFormDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        vehicle={editing}
+        onSaved={loadVehicles}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { RoutePoint } from '@/lib/trip-stops';
+import { WAITLIST_STATUS_LABELS, WaitlistEntryWithPassenger, fetchTripWaitlist } from '@/lib/waitlist';
+import { Hourglass } from 'lucide-react';
+
+interface TripWaitlistPanelProps {
+  tripId: string;
+  routePoints: RoutePoint[];
+}
+
+// Read-only for the driver: seats are offered to the queue automatically
+export const TripWaitlistPanel: React.FC<TripWaitlistPanelProps> = ({ tripId, routePoints }) => {
+  const [entries, setEntries] = useState<WaitlistEntryWithPassenger[]>([]);
+
+  const loadEntries = async () => {
+    try {
+      setEntries(await fetchTripWaitlist(tripId));
+    } catch (error) {
+      console.warn('Failed to load waitlist:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+
+    const channel = supabase
+      .channel(`trip-waitlist-${tripId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'trip_waitlist',
+          filter: `trip_id=eq.${tripId}`
+        },
+        () => loadEntries()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [tripId]);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const hasStops = routePoints.length > 2;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hourglass className="h-5 w-5" />
+          Waitlist ({entries.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground mb-4">
+          When seats free up they are held for the first passenger in line for 30 minutes.
+        </p>
+        <div className="space-y-3">
+          {entries.map((entry, index) => (
+            <div key={entry.id} className="flex items-center gap-4 p-3 rounded-lg border border-border">
+              <span className="text-sm font-medium text-muted-foreground w-6">#{index + 1}</span>
+              <div className="flex-1 min-w-0 text-sm">
+                <p className="font-medium">{entry.profiles?.full_name || 'Passenger'}</p>
+                <p className="text-muted-foreground">
+                  {entry.seats_requested} seat{entry.seats_requested !== 1 ? 's' : ''}
+                  {hasStops && ` · ${routePoints[entry.from_stop]?.name} → ${routePoints[entry.to_stop]?.name}`}
+                  {entry.status === 'offered' && entry.offer_expires_at && (
+                    ` · held until ${new Date(entry.offer_expires_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                  )}
+                </p>
+              </div>
+              <Badge variant={entry.status === 'offered' ? 'default' : 'secondary'}>
+                {WAITLIST_STATUS_LABELS[entry.status]}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,242 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { RoutePoint } from '@/lib/trip-stops';
+import {
+  claimWaitlistOffer,
+  declineWaitlistOffer,
+  fetchMyWaitlistEntry,
+  fetchWaitlistPosition,
+  joinWaitlist,
+  leaveWaitlist
+} from '@/lib/waitlist';
+import { Trip, WaitlistEntry } from '@/types';
+import { Hourglass } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface WaitlistCardProps {
+  trip: Trip;
+  passengerId: string;
+  routePoints: RoutePoint[];
+  // True when the trip has no seats left for a new booking
+  full: boolean;
+  onBooked: () => void;
+}
+
+export const WaitlistCard: React.FC<WaitlistCardProps> = ({
+  trip,
+  passengerId,
+  routePoints,
+  full,
+  onBooked
+}) => {
+  const [entry, setEntry] = useState<WaitlistEntry | null>(null);
+  const [position, setPosition] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [seats, setSeats] = useState(1);
+  const [fromStop, setFromStop] = useState(0);
+  const [toStop, setToStop] = useState<number | null>(null);
+
+  const lastStop = routePoints.length - 1;
+  const hasStops = routePoints.length > 2;
+
+  const loadEntry = async () => {
+    try {
+      const current = await fetchMyWaitlistEntry(trip.id, passengerId);
+      setEntry(current);
+      setPosition(current?.status === 'waiting' ? await fetchWaitlistPosition(current.id) : null);
+    } catch (error) {
+      console.warn('Failed to load waitlist:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntry();
+
+    // Offers are made by the database, so listen for them
+    const channel = supabase
+      .channel(`waitlist-${trip.id}-${passengerId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'trip_waitlist',
+          filter: `passenger_id=eq.${passengerId}`
+        },
+        () => loadEntry()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [trip.id, passengerId]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      toast.error(error.message || 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const join = () => runAction(async () => {
+    await joinWaitlist({
+      trip_id: trip.id,
+      passenger_id: passengerId,
+      seats_requested: seats,
+      from_stop: fromStop,
+      to_stop: toStop ?? lastStop
+    });
+    toast.success("You're on the waitlist. We'll hold seats for you if any free up.");
+    await loadEntry();
+  });
+
+  const leave = (current: WaitlistEntry) => runAction(async () => {
+    await leaveWaitlist(current.id);
+    toast.success('You left the waitlist');
+    await loadEntry();
+  });
+
+  const decline = (current: WaitlistEntry) => runAction(async () => {
+    await declineWaitlistOffer(current.id);
+    toast.success('Seats passed on to the next passenger');
+    await loadEntry();
+  });
+
+  const claim = (current: WaitlistEntry) => runAction(async () => {
+    await claimWaitlistOffer(current.id);
+    toast.success('Seats booked!');
+    setEntry(null);
+    onBooked();
+  });
+
+  if (loading || (!entry && !full)) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hourglass className="h-5 w-5" />
+          Waitlist
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entry?.status === 'offered' ? (
+          <>
+            <div className="p-3 rounded-lg bg-success/10 text-sm">
+              <p className="font-medium">
+                {entry.seats_requested} seat{entry.seats_requested !== 1 ? 's are' : ' is'} held for you
+              </p>
+              {entry.offer_expires_at && (
+                <p className="text-muted-foreground">
+                  Claim before {new Date(entry.offer_expires_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} or
+                  they go to the next person in line
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" disabled={busy} onClick={() => decline(entry)}>
+                Pass
+              </Button>
+              <Button variant="hero" className="flex-1" disabled={busy} onClick={() => claim(entry)}>
+                Claim Seats
+              </Button>
+            </div>
+          </>
+        ) : entry ? (
+          <>
+            <p className="text-sm">
+              {position != null ? (
+                <span className="font-medium">You're #{position} in line</span>
+              ) : (
+                <span className="font-medium">You're in line</span>
+              )}
+              {' '}for {entry.seats_requested} seat{entry.seats_requested !== 1 ? 's' : ''}
+              {hasStops && ` from ${routePoints[entry.from_stop]?.name} to ${routePoints[entry.to_stop]?.name}`}.
+            </p>
+            <p className="text-sm text-muted-foreground">
+              If seats free up you'll be notified and they'll be held for you for a short while.
+            </p>
+            <Button variant="outline" className="w-full" disabled={busy} onClick={() => leave(entry)}>
+              Leave Waitlist
+            </Button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              This trip is full. Join the waitlist and you'll be offered seats in turn if any free up.
+            </p>
+            {hasStops && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label>Get On At</Label>
+                  <Select
+                    value={fromStop.toString()}
+                    onValueChange={(value) => {
+                      const stop = parseInt(value);
+                      setFromStop(stop);
+                      if (toStop != null && toStop <= stop) setToStop(null);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {routePoints.slice(0, -1).map((point, index) => (
+                        <SelectItem key={index} value={index.toString()}>{point.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Get Off At</Label>
+                  <Select
+                    value={(toStop ?? lastStop).toString()}
+                    onValueChange={(value) => setToStop(parseInt(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {routePoints.map((point, index) => index > fromStop && (
+                        <SelectItem key={index} value={index.toString()}>{point.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="waitlist-seats">Seats needed</Label>
+              <Input
+                id="waitlist-seats"
+                type="number"
+                min="1"
+                max="8"
+                value={seats}
+                onChange={(e) => setSeats(parseInt(e.target.value) || 1)}
+              />
+            </div>
+            <Button className="w-full" disabled={busy} onClick={join}>
+              Join Waitlist
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
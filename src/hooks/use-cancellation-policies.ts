@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { fetchCancellationPolicies } from '@/lib/cancellation';
+import { CancellationPolicy } from '@/types';
+
+// Keyed by id so trips can look up their policy directly
+export function useCancellationPolicies() {
+  const [policies, setPolicies] = useState<Record<string, CancellationPolicy>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCancellationPolicies()
+      .then((result) => {
+        if (!cancelled) setPolicies(Object.fromEntries(result.map(policy => [policy.id, policy])));
+      })
+      .catch((error) => console.warn('Failed to load cancellation policies:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return policies;
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { estimateFare, fetchFareRates } from '@/lib/fares';
+import { fetchDrivingRoute } from '@/lib/trip-routes';
+import { DrivingRoute, FareEstimate, FareRate, GeocodedPlace, VehicleType } from '@/types';
+
+// Suggested fare for a trip being drafted. Null until both ends are placed
+// on the map and a vehicle is chosen.
+export function useFareEstimate(options: {
+  start: GeocodedPlace | null;
+  destination: GeocodedPlace | null;
+  via: GeocodedPlace[];
+  vehicleType: VehicleType | null;
+  seats: number;
+  tollCost: number;
+}): FareEstimate | null {
+  const { start, destination, via, vehicleType, seats, tollCost } = options;
+  const [rates, setRates] = useState<Partial<Record<VehicleType, FareRate>> | null>(null);
+  const [route, setRoute] = useState<DrivingRoute | null>(null);
+  // Stable dependency so callers can pass freshly built places each render
+  const routeKey = start && destination
+    ? [start, ...via, destination].map(place => `${place.lat},${place.lng}`).join(';')
+    : '';
+
+  useEffect(() => {
+    fetchFareRates()
+      .then(setRates)
+      .catch((error) => console.warn('Failed to load fare rates:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!start || !destination) {
+      setRoute(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchDrivingRoute(start, destination, via)
+      .then((result) => {
+        if (!cancelled) setRoute(result);
+      })
+      .catch((error) => console.warn('Failed to route fare estimate:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [routeKey]);
+
+  const rate = vehicleType && rates ? rates[vehicleType] ?? null : null;
+  if (!route || !rate) return null;
+  return estimateFare({ route, rate, seats, tollCost });
+}
@@ -0,0 +1,22 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  getLocationPublisherState,
+  startLocationPublisher,
+  stopLocationPublisher,
+  subscribeLocationPublisher
+} from '@/lib/location-publisher';
+
+export function useLocationPublisher() {
+  const { user, profile } = useAuth();
+  const state = useSyncExternalStore(subscribeLocationPublisher, getLocationPublisherState);
+
+  const start = useCallback(async (tripId?: string | null) => {
+    if (!user || !profile) {
+      throw new Error('Please sign in to share location');
+    }
+    await startLocationPublisher({ userId: user.id, role: profile.role, tripId });
+  }, [user, profile]);
+
+  return { ...state, start, stop: stopLocationPublisher };
+}
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { PickupDetour, PickupPlan, hasPins, measureDetour, planPickupRoute } from '@/lib/pickup-route';
+import { Booking, Trip, TripStop } from '@/types';
+
+type PinnedBooking = Booking & { profiles?: { full_name: string } | null };
+
+// The driver's pickup route through every accepted passenger's pins, and what
+// each pinned pending request would add to it
+export function usePickupPlan(trip: Trip | null, stops: TripStop[], bookings: PinnedBooking[]) {
+  const [plan, setPlan] = useState<PickupPlan | null>(null);
+  const [detours, setDetours] = useState<Record<string, PickupDetour>>({});
+  const accepted = bookings.filter(b => b.status === 'accepted');
+  const pending = bookings.filter(b => b.status === 'pending' && hasPins(b));
+  // Stable dependency so callers can pass a freshly built array each render
+  const key = [
+    trip?.id,
+    stops.map(s => s.id).join(','),
+    accepted.map(b => b.id).join(','),
+    pending.map(b => b.id).join(',')
+  ].join('|');
+
+  useEffect(() => {
+    if (!trip || !accepted.concat(pending).some(hasPins)) {
+      setPlan(null);
+      setDetours({});
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      const basePlan = await planPickupRoute(trip, stops, accepted);
+      if (cancelled || !basePlan) return;
+      setPlan(basePlan);
+
+      const results: Record<string, PickupDetour> = {};
+      for (const booking of pending) {
+        const detour = await measureDetour(trip, stops, basePlan, accepted, booking);
+        if (detour) results[booking.id] = detour;
+      }
+      if (!cancelled) setDetours(results);
+    };
+    load().catch((error) => console.warn('Failed to plan pickups:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return { plan, detours };
+}
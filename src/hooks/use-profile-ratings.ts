@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { fetchProfileRatings } from '@/lib/reviews';
+import { ProfileRating } from '@/types';
+
+export function useProfileRatings(userIds: string[]) {
+  const [ratings, setRatings] = useState<Record<string, ProfileRating>>({});
+  // Stable dependency so callers can pass a freshly built array each render
+  const key = Array.from(new Set(userIds.filter(Boolean))).sort().join(',');
+
+  useEffect(() => {
+    if (!key) {
+      setRatings({});
+      return;
+    }
+
+    let cancelled = false;
+    fetchProfileRatings(key.split(','))
+      .then((result) => {
+        if (!cancelled) setRatings(result);
+      })
+      .catch((error) => console.warn('Failed to load ratings:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return ratings;
+}
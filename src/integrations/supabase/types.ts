@@ -14,34 +14,223 @@ export type Database = {
   }
   public: {
     Tables: {
+      booking_changes: {
+        Row: {
+          booking_id: string
+          created_at: string
+          id: string
+          new_dropoff_lat: number | null
+          new_dropoff_lng: number | null
+          new_dropoff_name: string | null
+          new_from_stop: number
+          new_message: string | null
+          new_pickup_lat: number | null
+          new_pickup_lng: number | null
+          new_pickup_name: string | null
+          new_seats: number
+          old_dropoff_lat: number | null
+          old_dropoff_lng: number | null
+          old_dropoff_name: string | null
+          old_from_stop: number
+          old_message: string | null
+          old_pickup_lat: number | null
+          old_pickup_lng: number | null
+          old_pickup_name: string | null
+          old_seats: number
+          passenger_id: string
+          responded_at: string | null
+          status: string
+          trip_id: string
+          updated_at: string
+        }
+        Insert: {
+          booking_id: string
+          created_at?: string
+          id?: string
+          new_dropoff_lat?: number | null
+          new_dropoff_lng?: number | null
+          new_dropoff_name?: string | null
+          new_from_stop: number
+          new_message?: string | null
+          new_pickup_lat?: number | null
+          new_pickup_lng?: number | null
+          new_pickup_name?: string | null
+          new_seats: number
+          old_dropoff_lat?: number | null
+          old_dropoff_lng?: number | null
+          old_dropoff_name?: string | null
+          old_from_stop: number
+          old_message?: string | null
+          old_pickup_lat?: number | null
+          old_pickup_lng?: number | null
+          old_pickup_name?: string | null
+          old_seats: number
+          passenger_id: string
+          responded_at?: string | null
+          status: string
+          trip_id: string
+          updated_at?: string
+        }
+        Update: {
+          booking_id?: string
+          created_at?: string
+          id?: string
+          new_dropoff_lat?: number | null
+          new_dropoff_lng?: number | null
+          new_dropoff_name?: string | null
+          new_from_stop?: number
+          new_message?: string | null
+          new_pickup_lat?: number | null
+          new_pickup_lng?: number | null
+          new_pickup_name?: string | null
+          new_seats?: number
+          old_dropoff_lat?: number | null
+          old_dropoff_lng?: number | null
+          old_dropoff_name?: string | null
+          old_from_stop?: number
+          old_message?: string | null
+          old_pickup_lat?: number | null
+          old_pickup_lng?: number | null
+          old_pickup_name?: string | null
+          old_seats?: number
+          passenger_id?: string
+          responded_at?: string | null
+          status?: string
+          trip_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_changes_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_changes_passenger_id_fkey"
+            columns: ["passenger_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "booking_changes_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_pickup_codes: {
+        Row: {
+          booking_id: string
+          code: string
+          created_at: string
+          failed_attempts: number
+          last_failed_at: string | null
+        }
+        Insert: {
+          booking_id: string
+          code: string
+          created_at?: string
+          failed_attempts?: number
+          last_failed_at?: string | null
+        }
+        Update: {
+          booking_id?: string
+          code?: string
+          created_at?: string
+          failed_attempts?: number
+          last_failed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_pickup_codes_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bookings: {
         Row: {
+          cancelled_at: string | null
+          completed_at: string | null
           created_at: string
+          dropoff_lat: number | null
+          dropoff_lng: number | null
+          dropoff_name: string | null
+          fare_per_seat: number | null
+          from_stop: number
           id: string
+          instant_booked: boolean
+          late_cancellation: boolean
           message: string | null
+          no_show_at: string | null
           passenger_id: string
+          picked_up_at: string | null
+          pickup_lat: number | null
+          pickup_lng: number | null
+          pickup_name: string | null
+          responded_at: string | null
           seats_requested: number
           status: Database["public"]["Enums"]["booking_status"]
+          to_stop: number | null
           trip_id: string
           updated_at: string
         }
         Insert: {
+          cancelled_at?: string | null
+          completed_at?: string | null
           created_at?: string
+          dropoff_lat?: number | null
+          dropoff_lng?: number | null
+          dropoff_name?: string | null
+          fare_per_seat?: number | null
+          from_stop?: number
           id?: string
+          instant_booked?: boolean
+          late_cancellation?: boolean
           message?: string | null
+          no_show_at?: string | null
           passenger_id: string
+          picked_up_at?: string | null
+          pickup_lat?: number | null
+          pickup_lng?: number | null
+          pickup_name?: string | null
+          responded_at?: string | null
           seats_requested?: number
           status?: Database["public"]["Enums"]["booking_status"]
+          to_stop?: number | null
           trip_id: string
           updated_at?: string
         }
         Update: {
+          cancelled_at?: string | null
+          completed_at?: string | null
           created_at?: string
+          dropoff_lat?: number | null
+          dropoff_lng?: number | null
+          dropoff_name?: string | null
+          fare_per_seat?: number | null
+          from_stop?: number
           id?: string
+          instant_booked?: boolean
+          late_cancellation?: boolean
           message?: string | null
+          no_show_at?: string | null
           passenger_id?: string
+          picked_up_at?: string | null
+          pickup_lat?: number | null
+          pickup_lng?: number | null
+          pickup_name?: string | null
+          responded_at?: string | null
           seats_requested?: number
           status?: Database["public"]["Enums"]["booking_status"]
+          to_stop?: number | null
           trip_id?: string
           updated_at?: string
         }
@@ -62,47 +251,91 @@ export type Database = {
           },
         ]
       }
-      driver_locations: {
+      cancellation_policies: {
+        Row: {
+          created_at: string
+          free_cancellation_hours: number
+          id: string
+          late_refund_percent: number
+          name: string
+          position: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          free_cancellation_hours: number
+          id: string
+          late_refund_percent?: number
+          name: string
+          position?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          free_cancellation_hours?: number
+          id?: string
+          late_refund_percent?: number
+          name?: string
+          position?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      conversations: {
         Row: {
+          booking_id: string | null
+          created_at: string
           driver_id: string
-          heading: number | null
           id: string
-          latitude: number
-          longitude: number
-          speed: number | null
-          trip_id: string | null
+          last_message_at: string | null
+          passenger_id: string
+          trip_id: string
           updated_at: string
         }
         Insert: {
+          booking_id?: string | null
+          created_at?: string
           driver_id: string
-          heading?: number | null
           id?: string
-          latitude: number
-          longitude: number
-          speed?: number | null
-          trip_id?: string | null
+          last_message_at?: string | null
+          passenger_id: string
+          trip_id: string
           updated_at?: string
         }
         Update: {
+          booking_id?: string | null
+          created_at?: string
           driver_id?: string
-          heading?: number | null
           id?: string
-          latitude?: number
-          longitude?: number
-          speed?: number | null
-          trip_id?: string | null
+          last_message_at?: string | null
+          passenger_id?: string
+          trip_id?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "driver_locations_driver_id_fkey"
+            foreignKeyName: "conversations_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_driver_id_fkey"
             columns: ["driver_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["user_id"]
           },
           {
-            foreignKeyName: "driver_locations_trip_id_fkey"
+            foreignKeyName: "conversations_passenger_id_fkey"
+            columns: ["passenger_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "conversations_trip_id_fkey"
             columns: ["trip_id"]
             isOneToOne: false
             referencedRelation: "trips"
@@ -110,148 +343,1548 @@ export type Database = {
           },
         ]
       }
-      passenger_locations: {
+      driver_locations: {
         Row: {
+          driver_id: string
           heading: number | null
           id: string
           latitude: number
           longitude: number
-          passenger_id: string
+          recorded_at: string
           speed: number | null
           trip_id: string | null
           updated_at: string
         }
         Insert: {
+          driver_id: string
           heading?: number | null
           id?: string
           latitude: number
           longitude: number
-          passenger_id: string
+          recorded_at?: string
           speed?: number | null
           trip_id?: string | null
           updated_at?: string
         }
         Update: {
+          driver_id?: string
           heading?: number | null
           id?: string
           latitude?: number
           longitude?: number
-          passenger_id?: string
+          recorded_at?: string
           speed?: number | null
           trip_id?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "driver_locations_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "driver_locations_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      profiles: {
+      fare_rates: {
         Row: {
-          avatar_url: string | null
+          cost_per_minute: number
           created_at: string
-          email: string
-          full_name: string
-          id: string
-          phone: string | null
-          role: Database["public"]["Enums"]["user_role"]
+          fuel_cost_per_km: number
+          max_markup: number
+          range_spread: number
           updated_at: string
-          user_id: string
+          upkeep_cost_per_km: number
+          vehicle_type: Database["public"]["Enums"]["vehicle_type"]
         }
         Insert: {
-          avatar_url?: string | null
+          cost_per_minute?: number
           created_at?: string
-          email: string
-          full_name: string
-          id?: string
-          phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
+          fuel_cost_per_km: number
+          max_markup?: number
+          range_spread?: number
           updated_at?: string
-          user_id: string
+          upkeep_cost_per_km: number
+          vehicle_type: Database["public"]["Enums"]["vehicle_type"]
         }
         Update: {
-          avatar_url?: string | null
+          cost_per_minute?: number
           created_at?: string
-          email?: string
-          full_name?: string
-          id?: string
-          phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
+          fuel_cost_per_km?: number
+          max_markup?: number
+          range_spread?: number
           updated_at?: string
-          user_id?: string
+          upkeep_cost_per_km?: number
+          vehicle_type?: Database["public"]["Enums"]["vehicle_type"]
         }
         Relationships: []
       }
-      trips: {
+      instant_book_settings: {
         Row: {
-          available_seats: number
           created_at: string
-          departure_time: string
-          description: string | null
-          dest_lat: number | null
-          dest_lng: number | null
-          destination: string
           driver_id: string
-          id: string
-          price_per_seat: number | null
-          start_lat: number | null
-          start_lng: number | null
-          start_location: string
-          status: Database["public"]["Enums"]["trip_status"]
+          enabled: boolean
+          min_passenger_rating: number | null
+          require_verified_phone: boolean
           updated_at: string
         }
         Insert: {
-          available_seats: number
           created_at?: string
-          departure_time: string
-          description?: string | null
-          dest_lat?: number | null
-          dest_lng?: number | null
-          destination: string
           driver_id: string
-          id?: string
-          price_per_seat?: number | null
-          start_lat?: number | null
-          start_lng?: number | null
-          start_location: string
-          status?: Database["public"]["Enums"]["trip_status"]
+          enabled?: boolean
+          min_passenger_rating?: number | null
+          require_verified_phone?: boolean
           updated_at?: string
         }
         Update: {
-          available_seats?: number
           created_at?: string
-          departure_time?: string
-          description?: string | null
-          dest_lat?: number | null
-          dest_lng?: number | null
-          destination?: string
           driver_id?: string
-          id?: string
-          price_per_seat?: number | null
-          start_lat?: number | null
-          start_lng?: number | null
-          start_location?: string
-          status?: Database["public"]["Enums"]["trip_status"]
+          enabled?: boolean
+          min_passenger_rating?: number | null
+          require_verified_phone?: boolean
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "trips_driver_id_fkey"
+            foreignKeyName: "instant_book_settings_driver_id_fkey"
             columns: ["driver_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      location_breadcrumbs: {
+        Row: {
+          heading: number | null
+          id: number
+          latitude: number
+          longitude: number
+          recorded_at: string
+          speed: number | null
+          trip_id: string
+          user_id: string
+        }
+        Insert: {
+          heading?: number | null
+          id?: number
+          latitude: number
+          longitude: number
+          recorded_at?: string
+          speed?: number | null
+          trip_id: string
+          user_id: string
+        }
+        Update: {
+          heading?: number | null
+          id?: number
+          latitude?: number
+          longitude?: number
+          recorded_at?: string
+          speed?: number | null
+          trip_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_breadcrumbs_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          body: string
+          conversation_id: string
+          created_at: string
+          id: string
+          read_at: string | null
+          sender_id: string
+        }
+        Insert: {
+          body: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          sender_id: string
+        }
+        Update: {
+          body?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_sender_id_fkey"
+            columns: ["sender_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["user_id"]
           },
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      [_ in never]: never
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          emailed_at: string | null
+          id: string
+          read_at: string | null
+          saved_search_id: string | null
+          send_email: boolean
+          title: string
+          trip_id: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          emailed_at?: string | null
+          id?: string
+          read_at?: string | null
+          saved_search_id?: string | null
+          send_email?: boolean
+          title: string
+          trip_id?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          emailed_at?: string | null
+          id?: string
+          read_at?: string | null
+          saved_search_id?: string | null
+          send_email?: boolean
+          title?: string
+          trip_id?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_saved_search_id_fkey"
+            columns: ["saved_search_id"]
+            isOneToOne: false
+            referencedRelation: "saved_searches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      passenger_locations: {
+        Row: {
+          heading: number | null
+          id: string
+          latitude: number
+          longitude: number
+          passenger_id: string
+          recorded_at: string
+          speed: number | null
+          trip_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          heading?: number | null
+          id?: string
+          latitude: number
+          longitude: number
+          passenger_id: string
+          recorded_at?: string
+          speed?: number | null
+          trip_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          heading?: number | null
+          id?: string
+          latitude?: number
+          longitude?: number
+          passenger_id?: string
+          recorded_at?: string
+          speed?: number | null
+          trip_id?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payments: {
+        Row: {
+          amount: number
+          booking_id: string | null
+          captured_amount: number
+          created_at: string
+          currency: string
+          due_amount: number | null
+          failure_reason: string | null
+          id: string
+          passenger_id: string
+          provider: string
+          provider_order_id: string | null
+          provider_payment_id: string | null
+          refunded_amount: number
+          settled_at: string | null
+          settling_at: string | null
+          status: Database["public"]["Enums"]["payment_status"]
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          booking_id?: string | null
+          captured_amount?: number
+          created_at?: string
+          currency?: string
+          due_amount?: number | null
+          failure_reason?: string | null
+          id?: string
+          passenger_id: string
+          provider: string
+          provider_order_id?: string | null
+          provider_payment_id?: string | null
+          refunded_amount?: number
+          settled_at?: string | null
+          settling_at?: string | null
+          status?: Database["public"]["Enums"]["payment_status"]
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string | null
+          captured_amount?: number
+          created_at?: string
+          currency?: string
+          due_amount?: number | null
+          failure_reason?: string | null
+          id?: string
+          passenger_id?: string
+          provider?: string
+          provider_order_id?: string | null
+          provider_payment_id?: string | null
+          refunded_amount?: number
+          settled_at?: string | null
+          settling_at?: string | null
+          status?: Database["public"]["Enums"]["payment_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+          late_cancellations: number
+          phone: string | null
+          phone_verified_at: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          email: string
+          full_name: string
+          id?: string
+          late_cancellations?: number
+          phone?: string | null
+          phone_verified_at?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          email?: string
+          full_name?: string
+          id?: string
+          late_cancellations?: number
+          phone?: string | null
+          phone_verified_at?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      reviews: {
+        Row: {
+          comment: string | null
+          created_at: string
+          id: string
+          reviewee_id: string
+          reviewee_role: Database["public"]["Enums"]["user_role"]
+          reviewer_id: string
+          score: number
+          tags: string[]
+          trip_id: string | null
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          reviewee_id: string
+          reviewee_role?: Database["public"]["Enums"]["user_role"]
+          reviewer_id: string
+          score: number
+          tags?: string[]
+          trip_id?: string | null
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          reviewee_id?: string
+          reviewee_role?: Database["public"]["Enums"]["user_role"]
+          reviewer_id?: string
+          score?: number
+          tags?: string[]
+          trip_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_reviewee_id_fkey"
+            columns: ["reviewee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "reviews_reviewer_id_fkey"
+            columns: ["reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "reviews_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ride_offers: {
+        Row: {
+          created_at: string
+          departure_time: string
+          driver_id: string
+          id: string
+          message: string | null
+          price_per_seat: number | null
+          request_id: string
+          seats_offered: number
+          status: string
+          trip_id: string | null
+          updated_at: string
+          vehicle_id: string
+        }
+        Insert: {
+          created_at?: string
+          departure_time: string
+          driver_id: string
+          id?: string
+          message?: string | null
+          price_per_seat?: number | null
+          request_id: string
+          seats_offered: number
+          status?: string
+          trip_id?: string | null
+          updated_at?: string
+          vehicle_id: string
+        }
+        Update: {
+          created_at?: string
+          departure_time?: string
+          driver_id?: string
+          id?: string
+          message?: string | null
+          price_per_seat?: number | null
+          request_id?: string
+          seats_offered?: number
+          status?: string
+          trip_id?: string | null
+          updated_at?: string
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_offers_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "ride_offers_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "ride_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ride_offers_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ride_offers_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ride_requests: {
+        Row: {
+          created_at: string
+          dest_lat: number
+          dest_lng: number
+          destination: string
+          id: string
+          max_price_per_seat: number | null
+          message: string | null
+          passenger_id: string
+          seats: number
+          start_lat: number
+          start_lng: number
+          start_location: string
+          status: string
+          timezone: string
+          trip_id: string | null
+          updated_at: string
+          window_end: string
+          window_start: string
+        }
+        Insert: {
+          created_at?: string
+          dest_lat: number
+          dest_lng: number
+          destination: string
+          id?: string
+          max_price_per_seat?: number | null
+          message?: string | null
+          passenger_id: string
+          seats?: number
+          start_lat: number
+          start_lng: number
+          start_location: string
+          status?: string
+          timezone?: string
+          trip_id?: string | null
+          updated_at?: string
+          window_end: string
+          window_start: string
+        }
+        Update: {
+          created_at?: string
+          dest_lat?: number
+          dest_lng?: number
+          destination?: string
+          id?: string
+          max_price_per_seat?: number | null
+          message?: string | null
+          passenger_id?: string
+          seats?: number
+          start_lat?: number
+          start_lng?: number
+          start_location?: string
+          status?: string
+          timezone?: string
+          trip_id?: string | null
+          updated_at?: string
+          window_end?: string
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_requests_passenger_id_fkey"
+            columns: ["passenger_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "ride_requests_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_searches: {
+        Row: {
+          created_at: string
+          date_from: string | null
+          date_to: string | null
+          dest_lat: number | null
+          dest_lng: number | null
+          email_alerts: boolean
+          from_text: string | null
+          id: string
+          last_matched_at: string | null
+          max_detour_meters: number
+          max_price: number | null
+          name: string
+          origin_lat: number | null
+          origin_lng: number | null
+          passenger_id: string
+          timezone: string
+          to_text: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          date_from?: string | null
+          date_to?: string | null
+          dest_lat?: number | null
+          dest_lng?: number | null
+          email_alerts?: boolean
+          from_text?: string | null
+          id?: string
+          last_matched_at?: string | null
+          max_detour_meters?: number
+          max_price?: number | null
+          name: string
+          origin_lat?: number | null
+          origin_lng?: number | null
+          passenger_id: string
+          timezone?: string
+          to_text?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          date_from?: string | null
+          date_to?: string | null
+          dest_lat?: number | null
+          dest_lng?: number | null
+          email_alerts?: boolean
+          from_text?: string | null
+          id?: string
+          last_matched_at?: string | null
+          max_detour_meters?: number
+          max_price?: number | null
+          name?: string
+          origin_lat?: number | null
+          origin_lng?: number | null
+          passenger_id?: string
+          timezone?: string
+          to_text?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_searches_passenger_id_fkey"
+            columns: ["passenger_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      trip_fare_estimates: {
+        Row: {
+          cost_per_seat: number
+          created_at: string
+          distance_km: number
+          duration_minutes: number
+          fuel_cost: number
+          people_sharing: number
+          price_cap: number
+          suggested_max: number
+          suggested_min: number
+          time_cost: number
+          toll_cost: number
+          trip_cost: number
+          trip_id: string
+          updated_at: string
+          upkeep_cost: number
+        }
+        Insert: {
+          cost_per_seat: number
+          created_at?: string
+          distance_km: number
+          duration_minutes: number
+          fuel_cost: number
+          people_sharing: number
+          price_cap: number
+          suggested_max: number
+          suggested_min: number
+          time_cost: number
+          toll_cost?: number
+          trip_cost: number
+          trip_id: string
+          updated_at?: string
+          upkeep_cost: number
+        }
+        Update: {
+          cost_per_seat?: number
+          created_at?: string
+          distance_km?: number
+          duration_minutes?: number
+          fuel_cost?: number
+          people_sharing?: number
+          price_cap?: number
+          suggested_max?: number
+          suggested_min?: number
+          time_cost?: number
+          toll_cost?: number
+          trip_cost?: number
+          trip_id?: string
+          updated_at?: string
+          upkeep_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_fare_estimates_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: true
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_routes: {
+        Row: {
+          distance_meters: number | null
+          duration_seconds: number | null
+          geom: unknown
+          source: string
+          trip_id: string
+          updated_at: string
+        }
+        Insert: {
+          distance_meters?: number | null
+          duration_seconds?: number | null
+          geom: unknown
+          source?: string
+          trip_id: string
+          updated_at?: string
+        }
+        Update: {
+          distance_meters?: number | null
+          duration_seconds?: number | null
+          geom?: unknown
+          source?: string
+          trip_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_routes_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: true
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_series: {
+        Row: {
+          available_seats: number
+          cancelled_at: string | null
+          created_at: string
+          days_of_week: number[]
+          departure_time: string
+          description: string | null
+          dest_lat: number | null
+          dest_lng: number | null
+          destination: string
+          driver_id: string
+          ends_on: string
+          id: string
+          price_per_seat: number | null
+          skip_dates: string[]
+          start_lat: number | null
+          start_lng: number | null
+          start_location: string
+          starts_on: string
+          status: string
+          timezone: string
+          updated_at: string
+          vehicle_id: string | null
+        }
+        Insert: {
+          available_seats: number
+          cancelled_at?: string | null
+          created_at?: string
+          days_of_week: number[]
+          departure_time: string
+          description?: string | null
+          dest_lat?: number | null
+          dest_lng?: number | null
+          destination: string
+          driver_id: string
+          ends_on: string
+          id?: string
+          price_per_seat?: number | null
+          skip_dates?: string[]
+          start_lat?: number | null
+          start_lng?: number | null
+          start_location: string
+          starts_on: string
+          status?: string
+          timezone?: string
+          updated_at?: string
+          vehicle_id?: string | null
+        }
+        Update: {
+          available_seats?: number
+          cancelled_at?: string | null
+          created_at?: string
+          days_of_week?: number[]
+          departure_time?: string
+          description?: string | null
+          dest_lat?: number | null
+          dest_lng?: number | null
+          destination?: string
+          driver_id?: string
+          ends_on?: string
+          id?: string
+          price_per_seat?: number | null
+          skip_dates?: string[]
+          start_lat?: number | null
+          start_lng?: number | null
+          start_location?: string
+          starts_on?: string
+          status?: string
+          timezone?: string
+          updated_at?: string
+          vehicle_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_series_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "trip_series_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_stops: {
+        Row: {
+          created_at: string
+          fare_from_start: number
+          id: string
+          lat: number
+          lng: number
+          name: string
+          position: number
+          trip_id: string
+        }
+        Insert: {
+          created_at?: string
+          fare_from_start?: number
+          id?: string
+          lat: number
+          lng: number
+          name: string
+          position: number
+          trip_id: string
+        }
+        Update: {
+          created_at?: string
+          fare_from_start?: number
+          id?: string
+          lat?: number
+          lng?: number
+          name?: string
+          position?: number
+          trip_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_stops_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_waitlist: {
+        Row: {
+          booking_id: string | null
+          created_at: string
+          from_stop: number
+          id: string
+          offer_expires_at: string | null
+          offered_at: string | null
+          passenger_id: string
+          seats_requested: number
+          status: string
+          to_stop: number | null
+          trip_id: string
+          updated_at: string
+        }
+        Insert: {
+          booking_id?: string | null
+          created_at?: string
+          from_stop?: number
+          id?: string
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          passenger_id: string
+          seats_requested?: number
+          status?: string
+          to_stop?: number | null
+          trip_id: string
+          updated_at?: string
+        }
+        Update: {
+          booking_id?: string | null
+          created_at?: string
+          from_stop?: number
+          id?: string
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          passenger_id?: string
+          seats_requested?: number
+          status?: string
+          to_stop?: number | null
+          trip_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_waitlist_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trip_waitlist_passenger_id_fkey"
+            columns: ["passenger_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "trip_waitlist_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trips: {
+        Row: {
+          available_seats: number
+          cancellation_policy: string
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          completed_at: string | null
+          created_at: string
+          departure_time: string
+          description: string | null
+          dest_lat: number | null
+          dest_lng: number | null
+          destination: string
+          driver_id: string
+          id: string
+          instant_book: boolean | null
+          late_cancellation: boolean
+          price_per_seat: number | null
+          series_date: string | null
+          series_detached: boolean
+          series_id: string | null
+          start_lat: number | null
+          start_lng: number | null
+          start_location: string
+          started_at: string | null
+          status: Database["public"]["Enums"]["trip_status"]
+          updated_at: string
+          vehicle_id: string | null
+        }
+        Insert: {
+          available_seats: number
+          cancellation_policy?: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          departure_time: string
+          description?: string | null
+          dest_lat?: number | null
+          dest_lng?: number | null
+          destination: string
+          driver_id: string
+          id?: string
+          instant_book?: boolean | null
+          late_cancellation?: boolean
+          price_per_seat?: number | null
+          series_date?: string | null
+          series_detached?: boolean
+          series_id?: string | null
+          start_lat?: number | null
+          start_lng?: number | null
+          start_location: string
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["trip_status"]
+          updated_at?: string
+          vehicle_id?: string | null
+        }
+        Update: {
+          available_seats?: number
+          cancellation_policy?: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          departure_time?: string
+          description?: string | null
+          dest_lat?: number | null
+          dest_lng?: number | null
+          destination?: string
+          driver_id?: string
+          id?: string
+          instant_book?: boolean | null
+          late_cancellation?: boolean
+          price_per_seat?: number | null
+          series_date?: string | null
+          series_detached?: boolean
+          series_id?: string | null
+          start_lat?: number | null
+          start_lng?: number | null
+          start_location?: string
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["trip_status"]
+          updated_at?: string
+          vehicle_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trips_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "trips_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trips_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "trip_series"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trips_cancellation_policy_fkey"
+            columns: ["cancellation_policy"]
+            isOneToOne: false
+            referencedRelation: "cancellation_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vehicles: {
+        Row: {
+          colour: string | null
+          created_at: string
+          driver_id: string
+          id: string
+          make: string
+          model: string
+          photo_url: string | null
+          plate: string
+          seat_capacity: number
+          updated_at: string
+          vehicle_type: Database["public"]["Enums"]["vehicle_type"]
+        }
+        Insert: {
+          colour?: string | null
+          created_at?: string
+          driver_id: string
+          id?: string
+          make: string
+          model: string
+          photo_url?: string | null
+          plate: string
+          seat_capacity: number
+          updated_at?: string
+          vehicle_type?: Database["public"]["Enums"]["vehicle_type"]
+        }
+        Update: {
+          colour?: string | null
+          created_at?: string
+          driver_id?: string
+          id?: string
+          make?: string
+          model?: string
+          photo_url?: string | null
+          plate?: string
+          seat_capacity?: number
+          updated_at?: string
+          vehicle_type?: Database["public"]["Enums"]["vehicle_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicles_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      profile_ratings: {
+        Row: {
+          average_score: number | null
+          driver_average_score: number | null
+          driver_review_count: number | null
+          passenger_average_score: number | null
+          passenger_review_count: number | null
+          review_count: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      accept_ride_offer: {
+        Args: { p_offer_id: string }
+        Returns: string
+      }
+      can_review: {
+        Args: {
+          p_reviewee_id: string
+          p_reviewer_id: string
+          p_trip_id: string
+        }
+        Returns: boolean
+      }
+      cancel_trip: {
+        Args: { p_reason: string; p_trip_id: string }
+        Returns: undefined
+      }
+      cancellation_is_late: {
+        Args: { p_trip_id: string }
+        Returns: boolean
+      }
+      claim_payment_settlements: {
+        Args: { p_limit?: number }
+        Returns: {
+          amount: number
+          booking_id: string | null
+          captured_amount: number
+          created_at: string
+          currency: string
+          due_amount: number | null
+          failure_reason: string | null
+          id: string
+          passenger_id: string
+          provider: string
+          provider_order_id: string | null
+          provider_payment_id: string | null
+          refunded_amount: number
+          settled_at: string | null
+          settling_at: string | null
+          status: Database["public"]["Enums"]["payment_status"]
+          updated_at: string
+        }[]
+      }
+      claim_waitlist_offer: {
+        Args: { p_entry_id: string }
+        Returns: string
+      }
+      driver_stats: {
+        Args: { p_driver_id: string }
+        Returns: {
+          acceptance_rate: number
+          cancellation_rate: number
+          cancelled_trips: number
+          completed_trips: number
+          driving_since: string
+          median_response_minutes: number
+          requests_received: number
+        }[]
+      }
+      expire_ride_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      expire_stale_trips: {
+        Args: { p_complete_after?: unknown; p_location_retention?: unknown }
+        Returns: Json
+      }
+      expire_waitlist_offers: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      generate_series_trips: {
+        Args: { p_days_ahead?: number; p_series_id?: string }
+        Returns: number
+      }
+      geo_point: {
+        Args: { p_lat: number; p_lng: number }
+        Returns: unknown
+      }
+      instant_book_applies: {
+        Args: { p_passenger_id: string; p_trip_id: string }
+        Returns: boolean
+      }
+      is_system_change: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_trip_passenger: {
+        Args: { p_trip_id: string }
+        Returns: boolean
+      }
+      mark_conversation_read: {
+        Args: { p_conversation_id: string }
+        Returns: undefined
+      }
+      mark_passenger_no_show: {
+        Args: { p_booking_id: string }
+        Returns: undefined
+      }
+      mark_passenger_picked_up: {
+        Args: { p_booking_id: string; p_code: string }
+        Returns: boolean
+      }
+      nearby_ride_requests: {
+        Args: {
+          p_east?: number
+          p_lat: number
+          p_limit?: number
+          p_lng: number
+          p_north?: number
+          p_radius_meters?: number
+          p_south?: number
+          p_west?: number
+        }
+        Returns: {
+          distance_meters: number
+          request_id: string
+        }[]
+      }
+      nearby_trips: {
+        Args: {
+          p_east?: number
+          p_lat: number
+          p_limit?: number
+          p_lng: number
+          p_north?: number
+          p_radius_meters?: number
+          p_south?: number
+          p_west?: number
+        }
+        Returns: {
+          distance_meters: number
+          trip_id: string
+        }[]
+      }
+      offer_waitlist_seats: {
+        Args: { p_trip_id: string }
+        Returns: undefined
+      }
+      open_booking_payment: {
+        Args: {
+          p_booking_id: string
+          p_passenger_id: string
+          p_provider: string
+        }
+        Returns: {
+          amount: number
+          booking_id: string | null
+          captured_amount: number
+          created_at: string
+          currency: string
+          due_amount: number | null
+          failure_reason: string | null
+          id: string
+          passenger_id: string
+          provider: string
+          provider_order_id: string | null
+          provider_payment_id: string | null
+          refunded_amount: number
+          settled_at: string | null
+          settling_at: string | null
+          status: Database["public"]["Enums"]["payment_status"]
+          updated_at: string
+        }
+      }
+      record_payment_event: {
+        Args: {
+          p_amount?: number
+          p_event: string
+          p_order_id: string
+          p_provider: string
+          p_provider_payment_id?: string
+          p_reason?: string
+        }
+        Returns: Database["public"]["Enums"]["payment_status"]
+      }
+      record_payment_settlement: {
+        Args: {
+          p_captured_amount: number
+          p_error?: string
+          p_payment_id: string
+          p_refunded_amount: number
+          p_status: Database["public"]["Enums"]["payment_status"]
+        }
+        Returns: undefined
+      }
+      request_booking_change: {
+        Args: {
+          p_booking_id: string
+          p_dropoff_lat?: number
+          p_dropoff_lng?: number
+          p_dropoff_name?: string
+          p_from_stop: number
+          p_message: string
+          p_pickup_lat?: number
+          p_pickup_lng?: number
+          p_pickup_name?: string
+          p_seats: number
+        }
+        Returns: string
+      }
+      respond_to_booking_change: {
+        Args: { p_approve: boolean; p_change_id: string }
+        Returns: undefined
+      }
+      save_trip_fare_estimate: {
+        Args: { p_toll_cost?: number; p_trip_id: string }
+        Returns: {
+          cost_per_seat: number
+          created_at: string
+          distance_km: number
+          duration_minutes: number
+          fuel_cost: number
+          people_sharing: number
+          price_cap: number
+          suggested_max: number
+          suggested_min: number
+          time_cost: number
+          toll_cost: number
+          trip_cost: number
+          trip_id: string
+          updated_at: string
+          upkeep_cost: number
+        }
+      }
+      save_trip_route: {
+        Args: {
+          p_coordinates: Json
+          p_distance_meters?: number
+          p_duration_seconds?: number
+          p_trip_id: string
+        }
+        Returns: undefined
+      }
+      saved_search_matches_trip: {
+        Args: {
+          s: Database["public"]["Tables"]["saved_searches"]["Row"]
+          t: Database["public"]["Tables"]["trips"]["Row"]
+        }
+        Returns: boolean
+      }
+      search_trips: {
+        Args: {
+          p_after_departure?: string
+          p_after_id?: string
+          p_after_value?: number
+          p_departs_after?: string
+          p_departs_before?: string
+          p_dest_lat?: number
+          p_dest_lng?: number
+          p_from_text?: string
+          p_include_full?: boolean
+          p_limit?: number
+          p_max_detour_meters?: number
+          p_max_price?: number
+          p_min_driver_rating?: number
+          p_min_seats?: number
+          p_origin_lat?: number
+          p_origin_lng?: number
+          p_sort?: string
+          p_time_from?: string
+          p_time_to?: string
+          p_timezone?: string
+          p_to_text?: string
+          p_vehicle_types?: Database["public"]["Enums"]["vehicle_type"][]
+        }
+        Returns: {
+          departure_time: string
+          driver_rating: number
+          dropoff_distance_meters: number
+          dropoff_lat: number
+          dropoff_lng: number
+          pickup_distance_meters: number
+          pickup_lat: number
+          pickup_lng: number
+          sort_value: number
+          trip_id: string
+        }[]
+      }
+      search_trips_along_route: {
+        Args: {
+          p_departs_after?: string
+          p_departs_before?: string
+          p_dest_lat: number
+          p_dest_lng: number
+          p_max_detour_meters?: number
+          p_origin_lat: number
+          p_origin_lng: number
+        }
+        Returns: {
+          dropoff_distance_meters: number
+          dropoff_lat: number
+          dropoff_lng: number
+          pickup_distance_meters: number
+          pickup_lat: number
+          pickup_lng: number
+          trip_id: string
+        }[]
+      }
+      set_trip_stops: {
+        Args: { p_stops: Json; p_trip_id: string }
+        Returns: undefined
+      }
+      start_conversation: {
+        Args: { p_passenger_id?: string; p_trip_id: string }
+        Returns: string
+      }
+      sync_phone_verification: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      transition_trip: {
+        Args: {
+          p_status: Database["public"]["Enums"]["trip_status"]
+          p_trip_id: string
+        }
+        Returns: undefined
+      }
+      trip_leg_holds: {
+        Args: { p_exclude_booking?: string; p_trip_id: string }
+        Returns: {
+          leg: number
+          seats_held: number
+        }[]
+      }
+      trip_leg_seats: {
+        Args: { p_trip_id: string }
+        Returns: {
+          leg: number
+          seats_free: number
+        }[]
+      }
+      trip_segment_fare: {
+        Args: { p_from_stop: number; p_to_stop: number; p_trip_id: string }
+        Returns: number
+      }
+      trip_series_runs_on: {
+        Args: {
+          p_date: string
+          s: Database["public"]["Tables"]["trip_series"]["Row"]
+        }
+        Returns: boolean
+      }
+      unread_message_count: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      waitlist_position: {
+        Args: { p_entry_id: string }
+        Returns: number
+      }
+      withdraw_booking_change: {
+        Args: { p_change_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
-      booking_status: "pending" | "accepted" | "rejected" | "cancelled"
+      booking_status:
+        | "pending"
+        | "accepted"
+        | "rejected"
+        | "cancelled"
+        | "no_show"
+      payment_status:
+        | "created"
+        | "authorized"
+        | "captured"
+        | "refunded"
+        | "voided"
+        | "failed"
       trip_status: "scheduled" | "active" | "completed" | "cancelled"
       user_role: "driver" | "passenger"
+      vehicle_type: "bike" | "car" | "auto"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -379,9 +2012,24 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      booking_status: ["pending", "accepted", "rejected", "cancelled"],
+      booking_status: [
+        "pending",
+        "accepted",
+        "rejected",
+        "cancelled",
+        "no_show",
+      ],
+      payment_status: [
+        "created",
+        "authorized",
+        "captured",
+        "refunded",
+        "voided",
+        "failed",
+      ],
       trip_status: ["scheduled", "active", "completed", "cancelled"],
       user_role: ["driver", "passenger"],
+      vehicle_type: ["bike", "car", "auto"],
     },
   },
 } as const
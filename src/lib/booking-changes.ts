@@ -0,0 +1,104 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Booking, BookingChange, BookingChangeStatus, GeocodedPlace } from '@/types';
+import { RoutePoint } from '@/lib/trip-stops';
+
+export type BookingChangeWithPassenger = BookingChange & {
+  profiles: { full_name: string } | null;
+};
+
+export const BOOKING_CHANGE_STATUS_LABELS: Record<BookingChangeStatus, string> = {
+  applied: 'Changed',
+  pending: 'Awaiting driver',
+  approved: 'Approved',
+  declined: 'Declined',
+  withdrawn: 'Withdrawn'
+};
+
+// Every change on a trip, newest first. Passengers only see their own.
+export async function fetchBookingChanges(tripId: string): Promise<BookingChangeWithPassenger[]> {
+  const { data, error } = await supabase
+    .from('booking_changes')
+    .select('*, profiles:passenger_id (full_name)')
+    .eq('trip_id', tripId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as unknown as BookingChangeWithPassenger[];
+}
+
+// A booking's pin as a place, or null when it has none
+export function bookingPin(booking: Booking, kind: 'pickup' | 'dropoff'): GeocodedPlace | null {
+  const lat = booking[`${kind}_lat`];
+  const lng = booking[`${kind}_lng`];
+  return lat != null && lng != null
+    ? { name: booking[`${kind}_name`] || '', lat: Number(lat), lng: Number(lng) }
+    : null;
+}
+
+export function pinsDiffer(a: GeocodedPlace | null, b: GeocodedPlace | null): boolean {
+  if (!a || !b) return a !== b;
+  return a.name.trim() !== b.name.trim() || a.lat.toFixed(6) !== b.lat.toFixed(6) || a.lng.toFixed(6) !== b.lng.toFixed(6);
+}
+
+// Resolves to 'pending' when the driver has to approve the change first.
+// Pins are sent as they should end up; null removes one.
+export async function requestBookingChange(change: {
+  bookingId: string;
+  seats: number;
+  fromStop: number;
+  message: string;
+  pickup: GeocodedPlace | null;
+  dropoff: GeocodedPlace | null;
+}): Promise<'applied' | 'pending'> {
+  const { data, error } = await supabase.rpc('request_booking_change', {
+    p_booking_id: change.bookingId,
+    p_seats: change.seats,
+    p_from_stop: change.fromStop,
+    p_message: change.message,
+    p_pickup_name: change.pickup?.name,
+    p_pickup_lat: change.pickup?.lat,
+    p_pickup_lng: change.pickup?.lng,
+    p_dropoff_name: change.dropoff?.name,
+    p_dropoff_lat: change.dropoff?.lat,
+    p_dropoff_lng: change.dropoff?.lng
+  });
+  if (error) throw error;
+  return data as 'applied' | 'pending';
+}
+
+export async function respondToBookingChange(changeId: string, approve: boolean) {
+  const { error } = await supabase.rpc('respond_to_booking_change', {
+    p_change_id: changeId,
+    p_approve: approve
+  });
+  if (error) throw error;
+}
+
+export async function withdrawBookingChange(changeId: string) {
+  const { error } = await supabase.rpc('withdraw_booking_change', { p_change_id: changeId });
+  if (error) throw error;
+}
+
+// One line per field that changed, e.g. "Seats: 1 → 2"
+export function describeBookingChange(change: BookingChange, routePoints: RoutePoint[]): string[] {
+  const lines: string[] = [];
+  if (change.new_seats !== change.old_seats) {
+    lines.push(`Seats: ${change.old_seats} → ${change.new_seats}`);
+  }
+  if (change.new_from_stop !== change.old_from_stop) {
+    lines.push(`Pickup: ${routePoints[change.old_from_stop]?.name} → ${routePoints[change.new_from_stop]?.name}`);
+  }
+  for (const [kind, label] of [['pickup', 'Pickup point'], ['dropoff', 'Drop-off point']] as const) {
+    const oldName = change[`old_${kind}_name`];
+    const newName = change[`new_${kind}_name`];
+    const moved = change[`old_${kind}_lat`] !== change[`new_${kind}_lat`]
+      || change[`old_${kind}_lng`] !== change[`new_${kind}_lng`];
+    if (moved || oldName !== newName) {
+      lines.push(`${label}: ${oldName || 'none'} → ${newName || 'removed'}`);
+    }
+  }
+  if ((change.new_message || '') !== (change.old_message || '')) {
+    lines.push(change.new_message ? `Message: "${change.new_message}"` : 'Message removed');
+  }
+  return lines;
+}
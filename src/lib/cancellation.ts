@@ -0,0 +1,52 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Booking, CancellationPolicy } from '@/types';
+
+export const DEFAULT_CANCELLATION_POLICY = 'moderate';
+
+export async function fetchCancellationPolicies(): Promise<CancellationPolicy[]> {
+  const { data, error } = await supabase
+    .from('cancellation_policies')
+    .select('*')
+    .order('position');
+
+  if (error) throw error;
+  return (data || []) as CancellationPolicy[];
+}
+
+// Last moment a booking or the trip itself can be cancelled without penalty
+export function freeCancellationDeadline(departureTime: string, policy: CancellationPolicy): Date {
+  return new Date(new Date(departureTime).getTime() - policy.free_cancellation_hours * 60 * 60 * 1000);
+}
+
+export function isLateCancellation(departureTime: string, policy: CancellationPolicy | undefined): boolean {
+  return !!policy && Date.now() > freeCancellationDeadline(departureTime, policy).getTime();
+}
+
+export function describeCancellationPolicy(policy: CancellationPolicy): string {
+  const hours = policy.free_cancellation_hours;
+  return `Free cancellation until ${hours} hour${hours !== 1 ? 's' : ''} before departure`;
+}
+
+// What paid passengers get back when they cancel after the free window
+export function describeLateRefund(policy: CancellationPolicy): string {
+  return `${policy.late_refund_percent}% refund after that`;
+}
+
+// Drivers give a reason, which every passenger on the trip is sent
+export async function cancelTrip(tripId: string, reason: string) {
+  const { error } = await supabase.rpc('cancel_trip', { p_trip_id: tripId, p_reason: reason });
+  if (error) throw error;
+}
+
+// The database decides whether this was late and returns the flagged booking
+export async function cancelBooking(bookingId: string): Promise<Booking> {
+  const { data, error } = await supabase
+    .from('bookings')
+    .update({ status: 'cancelled' })
+    .eq('id', bookingId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Booking;
+}
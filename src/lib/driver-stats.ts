@@ -0,0 +1,34 @@
+import { supabase } from '@/integrations/supabase/client';
+import { DriverStats } from '@/types';
+
+export async function fetchDriverStats(driverId: string): Promise<DriverStats | null> {
+  const { data, error } = await supabase
+    .rpc('driver_stats', { p_driver_id: driverId })
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as DriverStats | null;
+}
+
+export function formatRate(rate?: number | null): string {
+  if (rate == null) return '—';
+  return `${Math.round(Number(rate) * 100)}%`;
+}
+
+export function formatResponseTime(minutes?: number | null): string {
+  if (minutes == null) return '—';
+  const value = Number(minutes);
+  if (value < 1) return '< 1 min';
+  if (value < 60) return `${Math.round(value)} min`;
+  if (value < 60 * 24) return `${Math.round(value / 60)} hr`;
+  return `${Math.round(value / (60 * 24))} days`;
+}
+
+export function formatTenure(since?: string | null): string {
+  if (!since) return '—';
+  const months = Math.floor((Date.now() - new Date(since).getTime()) / (1000 * 60 * 60 * 24 * 30.44));
+  if (months < 1) return 'New';
+  if (months < 12) return `${months} month${months !== 1 ? 's' : ''}`;
+  const years = Math.floor(months / 12);
+  return `${years} year${years !== 1 ? 's' : ''}`;
+}
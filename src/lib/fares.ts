@@ -0,0 +1,73 @@
+import { supabase } from '@/integrations/supabase/client';
+import { DrivingRoute, FareEstimate, FareRate, VehicleType } from '@/types';
+
+export async function fetchFareRates(): Promise<Partial<Record<VehicleType, FareRate>>> {
+  const { data, error } = await supabase.from('fare_rates').select('*');
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(rate => [rate.vehicle_type, rate]));
+}
+
+const roundTo = (amount: number, step: number) => Math.round(amount / step) * step;
+
+// Cost sharing, not a taxi fare: the trip's running cost is split between
+// every seat offered and the driver's own
+export function estimateFare(options: {
+  route: Pick<DrivingRoute, 'distance' | 'duration'>;
+  rate: FareRate;
+  seats: number;
+  tollCost?: number;
+}): FareEstimate {
+  const { route, rate, seats } = options;
+  const distanceKm = route.distance / 1000;
+  const durationMinutes = Math.round(route.duration / 60);
+  const fuelCost = distanceKm * Number(rate.fuel_cost_per_km);
+  const upkeepCost = distanceKm * Number(rate.upkeep_cost_per_km);
+  const timeCost = durationMinutes * Number(rate.cost_per_minute);
+  const tollCost = options.tollCost || 0;
+  const tripCost = fuelCost + upkeepCost + timeCost + tollCost;
+  const peopleSharing = Math.max(seats, 1) + 1;
+  const costPerSeat = tripCost / peopleSharing;
+  const spread = Number(rate.range_spread);
+
+  return {
+    distance_km: Math.round(distanceKm * 10) / 10,
+    duration_minutes: durationMinutes,
+    fuel_cost: Math.round(fuelCost),
+    upkeep_cost: Math.round(upkeepCost),
+    time_cost: Math.round(timeCost),
+    toll_cost: tollCost,
+    trip_cost: Math.round(tripCost),
+    people_sharing: peopleSharing,
+    cost_per_seat: Math.round(costPerSeat),
+    // Whole ₹5 steps read better than exact shares
+    suggested_min: Math.max(roundTo(costPerSeat * (1 - spread), 5), 5),
+    suggested_max: Math.max(roundTo(costPerSeat * (1 + spread), 5), 5),
+    price_cap: Math.max(Math.ceil((costPerSeat * Number(rate.max_markup)) / 5) * 5, 5)
+  };
+}
+
+export function isAboveFareCap(price: number, estimate: FareEstimate): boolean {
+  return price > estimate.price_cap;
+}
+
+export async function fetchFareEstimate(tripId: string): Promise<FareEstimate | null> {
+  const { data, error } = await supabase
+    .from('trip_fare_estimates')
+    .select('*')
+    .eq('trip_id', tripId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as FareEstimate | null;
+}
+
+// The breakdown is worked out by the database from the trip's saved route,
+// so only the tolls the driver entered are sent
+export async function saveFareEstimate(tripId: string, tollCost: number): Promise<FareEstimate> {
+  const { data, error } = await supabase.rpc('save_trip_fare_estimate', {
+    p_trip_id: tripId,
+    p_toll_cost: tollCost
+  });
+  if (error) throw error;
+  return data as FareEstimate;
+}
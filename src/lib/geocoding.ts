@@ -0,0 +1,41 @@
+import { supabase } from '@/integrations/supabase/client';
+import { GeocodedPlace } from '@/types';
+
+// Geocoding goes through the mapbox-geocode edge function so the Mapbox token
+// never reaches the browser. Results are biased towards India like the
+// directions lookups in EnhancedMapComponent.
+const DEFAULT_COUNTRY = 'IN';
+
+export async function searchPlaces(
+  query: string,
+  options: { limit?: number; proximity?: [number, number] } = {}
+): Promise<GeocodedPlace[]> {
+  if (!query.trim()) return [];
+
+  const { data, error } = await supabase.functions.invoke('mapbox-geocode', {
+    body: {
+      query,
+      country: DEFAULT_COUNTRY,
+      limit: options.limit ?? 5,
+      // proximity is [lat, lng] here, Mapbox wants [lng, lat]
+      proximity: options.proximity ? [options.proximity[1], options.proximity[0]] : undefined
+    }
+  });
+
+  if (error) throw error;
+  return (data?.results || []) as GeocodedPlace[];
+}
+
+export async function geocodeFirst(query: string): Promise<GeocodedPlace | null> {
+  const results = await searchPlaces(query, { limit: 1 });
+  return results[0] || null;
+}
+
+export async function reverseGeocode(lat: number, lng: number): Promise<GeocodedPlace | null> {
+  const { data, error } = await supabase.functions.invoke('mapbox-geocode', {
+    body: { lat, lng }
+  });
+
+  if (error) throw error;
+  return (data?.results?.[0] as GeocodedPlace) || null;
+}
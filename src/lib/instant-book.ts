@@ -0,0 +1,33 @@
+import { supabase } from '@/integrations/supabase/client';
+import { InstantBookSettings } from '@/types';
+
+export async function fetchInstantBookSettings(driverId: string): Promise<InstantBookSettings | null> {
+  const { data, error } = await supabase
+    .from('instant_book_settings')
+    .select('*')
+    .eq('driver_id', driverId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as InstantBookSettings | null;
+}
+
+export async function saveInstantBookSettings(settings: {
+  driver_id: string;
+  enabled: boolean;
+  min_passenger_rating: number | null;
+  require_verified_phone: boolean;
+}) {
+  const { error } = await supabase.from('instant_book_settings').upsert(settings);
+  if (error) throw error;
+}
+
+// Whether a request from this passenger would be accepted without waiting for the driver
+export async function instantBookApplies(tripId: string, passengerId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('instant_book_applies', {
+    p_trip_id: tripId,
+    p_passenger_id: passengerId
+  });
+  if (error) throw error;
+  return !!data;
+}
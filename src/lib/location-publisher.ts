@@ -0,0 +1,274 @@
+import { supabase } from '@/integrations/supabase/client';
+import { UserRole } from '@/types';
+
+// One location publisher for the whole app. It lives outside React so sharing
+// keeps running while the user moves between pages, and every screen that
+// shows or toggles sharing reads the same state.
+
+export interface LocationPublisherState {
+  sharing: boolean;
+  tripId: string | null;
+  lowPower: boolean;
+  queued: number;
+  lastPublishedAt: string | null;
+  error: string | null;
+}
+
+interface PublisherSession {
+  userId: string;
+  role: UserRole;
+  tripId: string | null;
+}
+
+interface PendingFix {
+  latitude: number;
+  longitude: number;
+  heading: number | null;
+  speed: number | null;
+  recordedAt: number;
+}
+
+interface ThrottleProfile {
+  minDistanceMeters: number;
+  minIntervalMs: number;
+  // Publish even when standing still so the marker doesn't look abandoned
+  maxIntervalMs: number;
+  highAccuracy: boolean;
+}
+
+// Battery API isn't in the DOM typings and only exists in Chromium browsers
+interface BatteryManager extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+const NORMAL: ThrottleProfile = {
+  minDistanceMeters: 25,
+  minIntervalMs: 5_000,
+  maxIntervalMs: 30_000,
+  highAccuracy: true
+};
+
+const LOW_POWER: ThrottleProfile = {
+  minDistanceMeters: 100,
+  minIntervalMs: 15_000,
+  maxIntervalMs: 120_000,
+  highAccuracy: false
+};
+
+const LOW_BATTERY_LEVEL = 0.2;
+const MAX_QUEUED_FIXES = 100;
+
+let state: LocationPublisherState = {
+  sharing: false,
+  tripId: null,
+  lowPower: false,
+  queued: 0,
+  lastPublishedAt: null,
+  error: null
+};
+
+const listeners = new Set<() => void>();
+let session: PublisherSession | null = null;
+let watchId: number | null = null;
+let battery: BatteryManager | null = null;
+let lastFix: PendingFix | null = null;
+let queue: PendingFix[] = [];
+let flushing = false;
+
+function setState(updates: Partial<LocationPublisherState>) {
+  state = { ...state, ...updates };
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeLocationPublisher(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getLocationPublisherState() {
+  return state;
+}
+
+function distanceInMeters(a: PendingFix, b: PendingFix) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6_371_000 * Math.asin(Math.sqrt(h));
+}
+
+function currentProfile() {
+  return state.lowPower ? LOW_POWER : NORMAL;
+}
+
+function shouldPublish(fix: PendingFix) {
+  if (!lastFix) return true;
+  const profile = currentProfile();
+  const elapsed = fix.recordedAt - lastFix.recordedAt;
+  if (elapsed < profile.minIntervalMs) return false;
+  return elapsed >= profile.maxIntervalMs || distanceInMeters(lastFix, fix) >= profile.minDistanceMeters;
+}
+
+async function writeFix(current: PublisherSession, fix: PendingFix) {
+  const position = {
+    trip_id: current.tripId,
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    heading: fix.heading,
+    speed: fix.speed,
+    recorded_at: new Date(fix.recordedAt).toISOString()
+  };
+
+  const { error } = current.role === 'driver'
+    ? await supabase
+        .from('driver_locations')
+        .upsert({ driver_id: current.userId, ...position }, { onConflict: 'driver_id' })
+    : await supabase
+        .from('passenger_locations')
+        .upsert({ passenger_id: current.userId, ...position }, { onConflict: 'passenger_id' });
+  if (error) throw error;
+}
+
+// Sends queued fixes oldest first. Anything that fails stays queued for the
+// next fix or for when the browser comes back online.
+async function flushQueue() {
+  if (flushing || !session || !navigator.onLine) return;
+  flushing = true;
+  try {
+    while (queue.length > 0 && session) {
+      await writeFix(session, queue[0]);
+      queue = queue.slice(1);
+      setState({ queued: queue.length, lastPublishedAt: new Date().toISOString() });
+    }
+  } catch (err) {
+    console.error('Failed to publish location, keeping it queued:', err);
+  } finally {
+    flushing = false;
+  }
+}
+
+function handlePosition(position: GeolocationPosition) {
+  const fix: PendingFix = {
+    latitude: position.coords.latitude,
+    longitude: position.coords.longitude,
+    heading: position.coords.heading,
+    speed: position.coords.speed,
+    recordedAt: position.timestamp
+  };
+  if (!shouldPublish(fix)) return;
+
+  lastFix = fix;
+  queue = [...queue, fix].slice(-MAX_QUEUED_FIXES);
+  setState({ queued: queue.length });
+  flushQueue();
+}
+
+function handlePositionError(err: GeolocationPositionError) {
+  console.error('Geolocation error:', err);
+  // Timeouts and lost signal recover by themselves; a revoked permission doesn't
+  if (err.code === err.PERMISSION_DENIED) {
+    stopLocationPublisher().then(() => setState({ error: 'Location permission was denied' }));
+  }
+}
+
+function watchPosition() {
+  if (watchId !== null) {
+    navigator.geolocation.clearWatch(watchId);
+  }
+  const profile = currentProfile();
+  watchId = navigator.geolocation.watchPosition(handlePosition, handlePositionError, {
+    enableHighAccuracy: profile.highAccuracy,
+    timeout: 20_000,
+    maximumAge: profile.minIntervalMs
+  });
+}
+
+function handleBatteryChange() {
+  if (!battery) return;
+  const lowPower = !battery.charging && battery.level <= LOW_BATTERY_LEVEL;
+  if (lowPower === state.lowPower) return;
+  setState({ lowPower });
+  // Accuracy is fixed per watch, so switch modes by watching again
+  if (state.sharing) watchPosition();
+}
+
+async function watchBattery() {
+  const nav = navigator as Navigator & { getBattery?: () => Promise<BatteryManager> };
+  if (!nav.getBattery) return;
+  try {
+    battery = await nav.getBattery();
+    battery.addEventListener('levelchange', handleBatteryChange);
+    battery.addEventListener('chargingchange', handleBatteryChange);
+    handleBatteryChange();
+  } catch {
+    battery = null;
+  }
+}
+
+function unwatchBattery() {
+  if (!battery) return;
+  battery.removeEventListener('levelchange', handleBatteryChange);
+  battery.removeEventListener('chargingchange', handleBatteryChange);
+  battery = null;
+}
+
+function handleOnline() {
+  flushQueue();
+}
+
+/**
+ * Starts sharing, or moves an active share onto another trip. Throws when the
+ * browser can't provide locations.
+ */
+export async function startLocationPublisher(options: {
+  userId: string;
+  role: UserRole;
+  tripId?: string | null;
+}) {
+  if (!navigator.geolocation) {
+    throw new Error('Geolocation is not supported by this browser');
+  }
+  if (!window.isSecureContext) {
+    throw new Error('Location sharing requires HTTPS. Please use a secure connection.');
+  }
+
+  const tripId = options.tripId ?? null;
+  const alreadySharing = session?.userId === options.userId && watchId !== null;
+  session = { userId: options.userId, role: options.role, tripId };
+  setState({ sharing: true, tripId, error: null });
+
+  // The next fix is published regardless of throttling, tagged with the new trip
+  lastFix = null;
+  if (alreadySharing) return;
+
+  queue = [];
+  window.addEventListener('online', handleOnline);
+  await watchBattery();
+  watchPosition();
+}
+
+/** Stops sharing and removes the user's live position from the map. */
+export async function stopLocationPublisher() {
+  if (watchId !== null) {
+    navigator.geolocation.clearWatch(watchId);
+    watchId = null;
+  }
+  unwatchBattery();
+  window.removeEventListener('online', handleOnline);
+
+  const current = session;
+  session = null;
+  lastFix = null;
+  queue = [];
+  setState({ sharing: false, tripId: null, queued: 0, lowPower: false });
+
+  if (!current) return;
+  const { error } = current.role === 'driver'
+    ? await supabase.from('driver_locations').delete().eq('driver_id', current.userId)
+    : await supabase.from('passenger_locations').delete().eq('passenger_id', current.userId);
+  if (error) console.error('Failed to clear location:', error);
+}
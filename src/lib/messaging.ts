@@ -0,0 +1,13 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Returns the conversation id for a trip, creating it on first use. Drivers
+// must name the passenger; passengers always talk to the trip's driver.
+export async function startConversation(tripId: string, passengerId?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('start_conversation', {
+    p_trip_id: tripId,
+    p_passenger_id: passengerId
+  });
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,31 @@
+import { supabase } from '@/integrations/supabase/client';
+import { MapViewport, NearbyTrip } from '@/types';
+
+export const NEARBY_RADIUS_OPTIONS_KM = [5, 10, 25, 50];
+
+// Either a radius around `center` or the visible map area; distances are
+// always measured from `center`
+export async function fetchNearbyTrips(
+  options:
+    | { center: [number, number]; radiusKm: number }
+    | { viewport: MapViewport }
+): Promise<NearbyTrip[]> {
+  const params = 'viewport' in options
+    ? {
+        p_lat: options.viewport.center[0],
+        p_lng: options.viewport.center[1],
+        p_south: options.viewport.south,
+        p_west: options.viewport.west,
+        p_north: options.viewport.north,
+        p_east: options.viewport.east
+      }
+    : {
+        p_lat: options.center[0],
+        p_lng: options.center[1],
+        p_radius_meters: options.radiusKm * 1000
+      };
+
+  const { data, error } = await supabase.rpc('nearby_trips', params);
+  if (error) throw error;
+  return (data || []) as NearbyTrip[];
+}
@@ -0,0 +1,140 @@
+import { supabase } from '@/integrations/supabase/client';
+import { formatINR } from '@/lib/utils';
+import { Payment, PaymentProviderName, PaymentStatus } from '@/types';
+
+// What create-payment hands back to open the gateway's checkout
+export interface CheckoutSession {
+  paymentId: string;
+  provider: PaymentProviderName;
+  orderId: string;
+  amount: number;
+  currency: string;
+  checkout: Record<string, string>;
+}
+
+export type CheckoutOutcome =
+  | { providerPaymentId: string; signature: string }
+  | { failed: true; reason: string };
+
+// The edge function's own message beats the generic non-2xx error
+async function invokePaymentFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data as T;
+}
+
+// The latest attempt; earlier unpaid ones are voided when a new one starts
+export async function fetchBookingPayment(bookingId: string): Promise<Payment | null> {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as Payment | null;
+}
+
+export async function startPayment(bookingId: string): Promise<CheckoutSession> {
+  return invokePaymentFunction<CheckoutSession>('create-payment', { bookingId });
+}
+
+export async function confirmPayment(session: CheckoutSession, outcome: CheckoutOutcome): Promise<PaymentStatus> {
+  const { status } = await invokePaymentFunction<{ status: PaymentStatus }>('confirm-payment', {
+    paymentId: session.paymentId,
+    ...outcome
+  });
+  return status;
+}
+
+// The local gateway signs its payment up front, so the test checkout only
+// has to hand it back
+export function completeMockCheckout(session: CheckoutSession, approved: boolean): CheckoutOutcome {
+  return approved
+    ? { providerPaymentId: session.checkout.paymentId, signature: session.checkout.signature }
+    : { failed: true, reason: 'Declined in the test checkout' };
+}
+
+interface RazorpayCheckout {
+  open(): void;
+}
+
+type RazorpayConstructor = new (options: Record<string, unknown>) => RazorpayCheckout;
+
+let razorpayScript: Promise<RazorpayConstructor> | null = null;
+
+function loadRazorpay(): Promise<RazorpayConstructor> {
+  razorpayScript ??= new Promise((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = 'https://checkout.razorpay.com/v1/checkout.js';
+    script.onload = () => resolve((window as unknown as { Razorpay: RazorpayConstructor }).Razorpay);
+    script.onerror = () => {
+      razorpayScript = null;
+      reject(new Error('Could not load the payment page'));
+    };
+    document.body.appendChild(script);
+  });
+  return razorpayScript;
+}
+
+// Razorpay's checkout takes UPI, cards and netbanking, and keeps itself open
+// to retry a failed attempt; closing it counts as giving up
+export async function openRazorpayCheckout(
+  session: CheckoutSession,
+  options: { description: string; prefill?: { name?: string; email?: string; contact?: string } }
+): Promise<CheckoutOutcome> {
+  const Razorpay = await loadRazorpay();
+
+  return new Promise(resolve => {
+    new Razorpay({
+      key: session.checkout.keyId,
+      order_id: session.orderId,
+      amount: Math.round(session.amount * 100),
+      currency: session.currency,
+      name: 'TripConnect',
+      description: options.description,
+      prefill: options.prefill,
+      handler: (response: { razorpay_payment_id: string; razorpay_signature: string }) => {
+        resolve({ providerPaymentId: response.razorpay_payment_id, signature: response.razorpay_signature });
+      },
+      modal: {
+        ondismiss: () => resolve({ failed: true, reason: 'Checkout was closed' })
+      }
+    }).open();
+  });
+}
+
+// Needs paying when there is no attempt yet or the last one went nowhere
+export function needsPayment(payment: Payment | null): boolean {
+  return !payment || payment.status === 'created' || payment.status === 'failed'
+    || (payment.status === 'voided' && !payment.provider_payment_id);
+}
+
+export function describePayment(payment: Payment): string {
+  const kept = Number(payment.captured_amount) - Number(payment.refunded_amount);
+  switch (payment.status) {
+    case 'authorized':
+      return payment.due_amount != null
+        ? `${formatINR(payment.amount)} paid, settling now`
+        : `${formatINR(payment.amount)} paid, charged when the trip ends`;
+    case 'captured':
+      return `Charged ${formatINR(payment.captured_amount)}`;
+    case 'refunded':
+      return kept > 0
+        ? `Charged ${formatINR(kept)}, ${formatINR(payment.refunded_amount)} refunded`
+        : `${formatINR(payment.refunded_amount)} refunded`;
+    case 'voided':
+      return payment.provider_payment_id
+        ? `Hold of ${formatINR(payment.amount)} released, nothing charged`
+        : 'Payment not completed';
+    case 'failed':
+      return payment.failure_reason ? `Payment failed: ${payment.failure_reason}` : 'Payment failed';
+    default:
+      return 'Waiting for payment';
+  }
+}
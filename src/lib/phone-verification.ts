@@ -0,0 +1,31 @@
+import { supabase } from '@/integrations/supabase/client';
+
+const DEFAULT_COUNTRY_CODE = '+91';
+
+// Auth expects E.164; bare ten-digit numbers are taken to be Indian
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/[^\d+]/g, '');
+  if (digits.startsWith('+')) return digits;
+  if (digits.length === 10) return `${DEFAULT_COUNTRY_CODE}${digits}`;
+  return `+${digits}`;
+}
+
+// Texts a one-time code to the number
+export async function sendPhoneCode(phone: string) {
+  const { error } = await supabase.auth.updateUser({ phone: normalizePhone(phone) });
+  if (error) throw error;
+}
+
+// Confirms the code with Auth, then marks the number verified on the profile
+export async function confirmPhoneCode(phone: string, token: string) {
+  const { error } = await supabase.auth.verifyOtp({
+    phone: normalizePhone(phone),
+    token,
+    type: 'phone_change'
+  });
+  if (error) throw error;
+
+  const { data, error: syncError } = await supabase.rpc('sync_phone_verification');
+  if (syncError) throw syncError;
+  if (!data) throw new Error('Phone number could not be verified');
+}
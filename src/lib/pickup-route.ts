@@ -0,0 +1,171 @@
+import { supabase } from '@/integrations/supabase/client';
+import { fetchDrivingRoute, formatDistance } from '@/lib/trip-routes';
+import { fetchTripStops } from '@/lib/trip-stops';
+import { Booking, Trip, TripStop } from '@/types';
+
+type LatLng = { lat: number; lng: number };
+
+type PinnedBooking = Booking & { profiles?: { full_name: string } | null };
+
+export interface PickupRouteStop extends LatLng {
+  kind: 'stop' | 'pickup' | 'dropoff';
+  name: string;
+  bookingId?: string;
+  passengerName?: string;
+}
+
+export interface PickupPlan {
+  // Everything driven through between the start and the destination, in order
+  stops: PickupRouteStop[];
+  coordinates: [number, number][]; // [lng, lat]
+  distance: number; // meters
+  duration: number; // seconds
+}
+
+export interface PickupDetour {
+  distance: number;
+  duration: number;
+}
+
+export function hasPins(booking: Booking): boolean {
+  return booking.pickup_lat != null || booking.dropoff_lat != null;
+}
+
+function straightLine(a: LatLng, b: LatLng) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6_371_000 * Math.asin(Math.sqrt(h));
+}
+
+// Extra distance from visiting point between a and b
+const insertionCost = (a: LatLng, b: LatLng, point: LatLng) =>
+  straightLine(a, point) + straightLine(point, b) - straightLine(a, b);
+
+// Cheapest insertion: each passenger's pins go wherever they add the least
+// straight-line distance, pickup before drop-off and inside the part of the
+// route they booked. Plenty for the handful of passengers one car carries.
+export function orderPickupStops(trip: Trip, tripStops: TripStop[], bookings: PinnedBooking[]): PickupRouteStop[] {
+  type RouteNode = PickupRouteStop & { routeIndex?: number };
+  const lastStop = tripStops.length + 1;
+  const sequence: RouteNode[] = [
+    { kind: 'stop', name: trip.start_location, lat: Number(trip.start_lat), lng: Number(trip.start_lng), routeIndex: 0 },
+    ...tripStops.map((stop, i) => ({
+      kind: 'stop' as const,
+      name: stop.name,
+      lat: Number(stop.lat),
+      lng: Number(stop.lng),
+      routeIndex: i + 1
+    })),
+    { kind: 'stop', name: trip.destination, lat: Number(trip.dest_lat), lng: Number(trip.dest_lng), routeIndex: lastStop }
+  ];
+
+  const ordered = [...bookings].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  for (const booking of ordered) {
+    const passengerName = booking.profiles?.full_name;
+    const pickup: RouteNode | null = booking.pickup_lat != null ? {
+      kind: 'pickup',
+      name: booking.pickup_name || 'Pickup',
+      lat: Number(booking.pickup_lat),
+      lng: Number(booking.pickup_lng),
+      bookingId: booking.id,
+      passengerName
+    } : null;
+    const dropoff: RouteNode | null = booking.dropoff_lat != null ? {
+      kind: 'dropoff',
+      name: booking.dropoff_name || 'Drop-off',
+      lat: Number(booking.dropoff_lat),
+      lng: Number(booking.dropoff_lng),
+      bookingId: booking.id,
+      passengerName
+    } : null;
+    const point = pickup ?? dropoff;
+    if (!point) continue;
+
+    // Pins are inserted before sequence[k] for first < k <= last
+    const first = sequence.findIndex(node => node.routeIndex === (booking.from_stop ?? 0));
+    const last = sequence.findIndex(node => node.routeIndex === (booking.to_stop ?? lastStop));
+
+    let best = { cost: Infinity, pickupAt: -1, dropoffAt: -1 };
+    for (let i = first + 1; i <= last; i++) {
+      if (pickup && dropoff) {
+        for (let j = i; j <= last; j++) {
+          const cost = j === i
+            ? straightLine(sequence[i - 1], pickup) + straightLine(pickup, dropoff)
+              + straightLine(dropoff, sequence[i]) - straightLine(sequence[i - 1], sequence[i])
+            : insertionCost(sequence[i - 1], sequence[i], pickup) + insertionCost(sequence[j - 1], sequence[j], dropoff);
+          if (cost < best.cost) best = { cost, pickupAt: i, dropoffAt: j };
+        }
+      } else {
+        const cost = insertionCost(sequence[i - 1], sequence[i], point);
+        if (cost < best.cost) best = { cost, pickupAt: i, dropoffAt: i };
+      }
+    }
+    if (best.pickupAt < 0) continue;
+
+    // Drop-off first so the pickup's index is still valid
+    if (dropoff) sequence.splice(best.dropoffAt, 0, dropoff);
+    if (pickup) sequence.splice(best.pickupAt, 0, pickup);
+  }
+
+  return sequence.slice(1, -1);
+}
+
+// Null when the trip was saved without coordinates
+export async function planPickupRoute(
+  trip: Trip,
+  tripStops: TripStop[],
+  bookings: PinnedBooking[]
+): Promise<PickupPlan | null> {
+  if (trip.start_lat == null || trip.start_lng == null || trip.dest_lat == null || trip.dest_lng == null) {
+    return null;
+  }
+
+  const stops = orderPickupStops(trip, tripStops, bookings);
+  const route = await fetchDrivingRoute(
+    { lat: Number(trip.start_lat), lng: Number(trip.start_lng) },
+    { lat: Number(trip.dest_lat), lng: Number(trip.dest_lng) },
+    stops
+  );
+  return { stops, coordinates: route.coordinates, distance: route.distance, duration: route.duration };
+}
+
+// How much longer the planned route gets if the driver takes this request too
+export async function measureDetour(
+  trip: Trip,
+  tripStops: TripStop[],
+  basePlan: PickupPlan,
+  accepted: PinnedBooking[],
+  candidate: PinnedBooking
+): Promise<PickupDetour | null> {
+  const withCandidate = await planPickupRoute(trip, tripStops, [...accepted, candidate]);
+  if (!withCandidate) return null;
+  return {
+    distance: Math.max(withCandidate.distance - basePlan.distance, 0),
+    duration: Math.max(withCandidate.duration - basePlan.duration, 0)
+  };
+}
+
+// For pages that only have the request in hand, like the driver dashboard
+export async function measureBookingDetour(booking: Booking): Promise<PickupDetour | null> {
+  const [{ data: trip, error: tripError }, { data: accepted, error: bookingsError }, tripStops] = await Promise.all([
+    supabase.from('trips').select('*').eq('id', booking.trip_id).single(),
+    supabase.from('bookings').select('*').eq('trip_id', booking.trip_id).eq('status', 'accepted'),
+    fetchTripStops(booking.trip_id)
+  ]);
+  if (tripError) throw tripError;
+  if (bookingsError) throw bookingsError;
+
+  const basePlan = await planPickupRoute(trip as Trip, tripStops, (accepted || []) as Booking[]);
+  if (!basePlan) return null;
+  return measureDetour(trip as Trip, tripStops, basePlan, (accepted || []) as Booking[], booking);
+}
+
+export function formatDetour(detour: PickupDetour): string {
+  const minutes = Math.round(detour.duration / 60);
+  if (detour.distance < 50 && minutes === 0) return 'No detour';
+  return `+${formatDistance(detour.distance)}, +${minutes} min`;
+}
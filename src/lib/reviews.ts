@@ -0,0 +1,36 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ProfileRating, UserRole } from '@/types';
+
+export const REVIEW_TAGS: Record<UserRole, string[]> = {
+  driver: ['Punctual', 'Safe driving', 'Clean vehicle', 'Friendly', 'Smooth pickup', 'Knows the route'],
+  passenger: ['Punctual', 'Polite', 'Respectful', 'Good communication', 'Ready at pickup', 'Tidy']
+};
+
+// Aggregates are computed by the profile_ratings view; users without
+// reviews are simply missing from the result
+export async function fetchProfileRatings(userIds: string[]): Promise<Record<string, ProfileRating>> {
+  const ids = Array.from(new Set(userIds.filter(Boolean)));
+  if (ids.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('profile_ratings')
+    .select('*')
+    .in('user_id', ids);
+
+  if (error) throw error;
+  return (data || []).reduce((acc: Record<string, ProfileRating>, row) => {
+    acc[row.user_id] = row as ProfileRating;
+    return acc;
+  }, {});
+}
+
+// Review keys the current user has already written, as `${tripId}:${revieweeId}`
+export async function fetchMyReviewKeys(reviewerId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('reviews')
+    .select('trip_id, reviewee_id')
+    .eq('reviewer_id', reviewerId);
+
+  if (error) throw error;
+  return new Set((data || []).map(r => `${r.trip_id}:${r.reviewee_id}`));
+}
@@ -0,0 +1,163 @@
+import { supabase } from '@/integrations/supabase/client';
+import { MapViewport, NearbyRideRequest, RideOffer, RideRequest, Vehicle } from '@/types';
+
+export interface RideRequestInput {
+  passenger_id: string;
+  start_location: string;
+  destination: string;
+  start_lat: number;
+  start_lng: number;
+  dest_lat: number;
+  dest_lng: number;
+  window_start: string;
+  window_end: string;
+  timezone: string;
+  seats: number;
+  max_price_per_seat: number | null;
+  message: string | null;
+}
+
+export interface RideOfferInput {
+  request_id: string;
+  driver_id: string;
+  vehicle_id: string;
+  departure_time: string;
+  seats_offered: number;
+  price_per_seat: number | null;
+  message: string | null;
+}
+
+export type RideOfferWithDriver = RideOffer & {
+  profiles: { full_name: string } | null;
+  vehicle: Pick<Vehicle, 'make' | 'model' | 'colour' | 'vehicle_type'> | null;
+};
+
+export type RideRequestWithOffers = RideRequest & { ride_offers: RideOfferWithDriver[] };
+
+export type NearbyRideRequestDetails = RideRequest & {
+  distance_meters: number;
+  profiles: { full_name: string } | null;
+};
+
+export type RideOfferWithRequest = RideOffer & { ride_requests: RideRequest | null };
+
+// "Mon 14 Oct, 08:00 – 09:30"
+export function describeWindow(request: Pick<RideRequest, 'window_start' | 'window_end'>): string {
+  const start = new Date(request.window_start);
+  const end = new Date(request.window_end);
+  const time = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const day = start.toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
+  return start.toDateString() === end.toDateString()
+    ? `${day}, ${time(start)} – ${time(end)}`
+    : `${day}, ${time(start)} – ${end.toLocaleDateString([], { weekday: 'short' })} ${time(end)}`;
+}
+
+export async function fetchMyRideRequests(passengerId: string, limit = 20): Promise<RideRequestWithOffers[]> {
+  const { data, error } = await supabase
+    .from('ride_requests')
+    .select(`
+      *,
+      ride_offers (
+        *,
+        profiles:driver_id (full_name),
+        vehicle:vehicle_id (make, model, colour, vehicle_type)
+      )
+    `)
+    .eq('passenger_id', passengerId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as unknown as RideRequestWithOffers[];
+}
+
+export async function createRideRequest(request: RideRequestInput) {
+  const { error } = await supabase.from('ride_requests').insert(request);
+  if (error) throw error;
+}
+
+export async function cancelRideRequest(requestId: string) {
+  const { error } = await supabase
+    .from('ride_requests')
+    .update({ status: 'cancelled' })
+    .eq('id', requestId);
+  if (error) throw error;
+}
+
+// Creates the trip and the passenger's accepted booking; returns the trip id
+export async function acceptRideOffer(offerId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('accept_ride_offer', { p_offer_id: offerId });
+  if (error) throw error;
+  return data;
+}
+
+export async function declineRideOffer(offerId: string) {
+  const { error } = await supabase
+    .from('ride_offers')
+    .update({ status: 'declined' })
+    .eq('id', offerId);
+  if (error) throw error;
+}
+
+// Same area options as fetchNearbyTrips
+export async function fetchNearbyRideRequests(
+  options:
+    | { center: [number, number]; radiusKm: number }
+    | { viewport: MapViewport }
+): Promise<NearbyRideRequestDetails[]> {
+  const params = 'viewport' in options
+    ? {
+        p_lat: options.viewport.center[0],
+        p_lng: options.viewport.center[1],
+        p_south: options.viewport.south,
+        p_west: options.viewport.west,
+        p_north: options.viewport.north,
+        p_east: options.viewport.east
+      }
+    : {
+        p_lat: options.center[0],
+        p_lng: options.center[1],
+        p_radius_meters: options.radiusKm * 1000
+      };
+
+  const { data: nearby, error: nearbyError } = await supabase.rpc('nearby_ride_requests', params);
+  if (nearbyError) throw nearbyError;
+  const matches = (nearby || []) as NearbyRideRequest[];
+  if (matches.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('ride_requests')
+    .select('*, profiles:passenger_id (full_name)')
+    .in('id', matches.map(match => match.request_id));
+  if (error) throw error;
+
+  const distances = Object.fromEntries(matches.map(match => [match.request_id, match.distance_meters]));
+  return ((data || []) as unknown as NearbyRideRequestDetails[])
+    .map(request => ({ ...request, distance_meters: distances[request.id] }))
+    .sort((a, b) => a.distance_meters - b.distance_meters);
+}
+
+export async function fetchMyRideOffers(driverId: string, limit = 20): Promise<RideOfferWithRequest[]> {
+  const { data, error } = await supabase
+    .from('ride_offers')
+    .select('*, ride_requests (*)')
+    .eq('driver_id', driverId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as RideOfferWithRequest[];
+}
+
+export async function makeRideOffer(offer: RideOfferInput) {
+  const { error } = await supabase.from('ride_offers').insert(offer);
+  if (error) throw error;
+}
+
+export async function withdrawRideOffer(offerId: string) {
+  const { error } = await supabase
+    .from('ride_offers')
+    .update({ status: 'withdrawn' })
+    .eq('id', offerId);
+  if (error) throw error;
+}
@@ -0,0 +1,101 @@
+import { supabase } from '@/integrations/supabase/client';
+import { SavedSearch } from '@/types';
+import { EMPTY_FILTERS, TripSearchFilters, filtersToParams } from '@/lib/trip-search';
+
+export interface SavedSearchOptions {
+  name: string;
+  dateFrom: string;
+  dateTo: string;
+  maxPrice: number | null;
+  emailAlerts: boolean;
+}
+
+export function defaultSavedSearchName(filters: TripSearchFilters): string {
+  const from = filters.fromPlace?.name || filters.from;
+  const to = filters.toPlace?.name || filters.to;
+  if (from && to) return `${from} → ${to}`;
+  return from ? `From ${from}` : `To ${to}`;
+}
+
+export async function fetchSavedSearches(passengerId: string): Promise<SavedSearch[]> {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select('*')
+    .eq('passenger_id', passengerId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as SavedSearch[];
+}
+
+// Saves the route part of a search; time-of-day, seat and vehicle filters
+// are left out so alerts don't miss trips over details the rider can adjust.
+export async function createSavedSearch(
+  passengerId: string,
+  filters: TripSearchFilters,
+  options: SavedSearchOptions
+) {
+  const { error } = await supabase
+    .from('saved_searches')
+    .insert({
+      passenger_id: passengerId,
+      name: options.name.trim(),
+      from_text: filters.from || null,
+      to_text: filters.to || null,
+      origin_lat: filters.fromPlace?.lat ?? null,
+      origin_lng: filters.fromPlace?.lng ?? null,
+      dest_lat: filters.toPlace?.lat ?? null,
+      dest_lng: filters.toPlace?.lng ?? null,
+      max_detour_meters: filters.detour,
+      date_from: options.dateFrom || null,
+      date_to: options.dateTo || null,
+      max_price: options.maxPrice,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      email_alerts: options.emailAlerts
+    });
+  if (error) throw error;
+}
+
+export async function setSavedSearchEmailAlerts(id: string, emailAlerts: boolean) {
+  const { error } = await supabase
+    .from('saved_searches')
+    .update({ email_alerts: emailAlerts })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+export async function deleteSavedSearch(id: string) {
+  const { error } = await supabase
+    .from('saved_searches')
+    .delete()
+    .eq('id', id);
+  if (error) throw error;
+}
+
+// Opens a saved search on /search. A range can't be expressed there, so only a
+// single-day search keeps its date.
+export function savedSearchToParams(search: SavedSearch): URLSearchParams {
+  return filtersToParams({
+    ...EMPTY_FILTERS,
+    from: search.from_text || '',
+    to: search.to_text || '',
+    fromPlace: search.origin_lat != null && search.origin_lng != null
+      ? { name: search.from_text || '', lat: search.origin_lat, lng: search.origin_lng }
+      : null,
+    toPlace: search.dest_lat != null && search.dest_lng != null
+      ? { name: search.to_text || '', lat: search.dest_lat, lng: search.dest_lng }
+      : null,
+    detour: search.max_detour_meters,
+    date: search.date_from && search.date_from === search.date_to ? search.date_from : '',
+    maxPrice: search.max_price
+  });
+}
+
+// Matches are recorded by a trigger when the trip is inserted; this asks the
+// edge function to email the passengers who opted in
+export async function sendSavedSearchAlerts(tripId: string) {
+  const { error } = await supabase.functions.invoke('send-saved-search-alerts', {
+    body: { tripId }
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,31 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Trip } from '@/types';
+
+// The database validates every move; these helpers just surface its errors
+export async function transitionTrip(tripId: string, status: Trip['status']) {
+  const { error } = await supabase.rpc('transition_trip', { p_trip_id: tripId, p_status: status });
+  if (error) throw error;
+}
+
+// Needs the 4-digit code the passenger sees on their booking
+export async function markPassengerPickedUp(bookingId: string, code: string) {
+  const { data, error } = await supabase.rpc('mark_passenger_picked_up', { p_booking_id: bookingId, p_code: code });
+  if (error) throw error;
+  if (!data) throw new Error("That code doesn't match. Ask the passenger to check their booking.");
+}
+
+// Only the passenger can read their code; null once they are on board
+export async function fetchPickupCode(bookingId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('booking_pickup_codes')
+    .select('code')
+    .eq('booking_id', bookingId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.code ?? null;
+}
+
+export async function markPassengerNoShow(bookingId: string) {
+  const { error } = await supabase.rpc('mark_passenger_no_show', { p_booking_id: bookingId });
+  if (error) throw error;
+}
@@ -0,0 +1,58 @@
+import { supabase } from '@/integrations/supabase/client';
+import { DrivingRoute, RouteMatch } from '@/types';
+
+type LatLng = { lat: number; lng: number };
+
+export const DEFAULT_MAX_DETOUR_METERS = 2000;
+
+// via lists intermediate stops, driven through in order
+export async function fetchDrivingRoute(from: LatLng, to: LatLng, via: LatLng[] = []): Promise<DrivingRoute> {
+  const { data, error } = await supabase.functions.invoke('mapbox-directions', {
+    body: {
+      fromCoord: [from.lng, from.lat],
+      toCoord: [to.lng, to.lat],
+      waypoints: via.map(stop => [stop.lng, stop.lat])
+    }
+  });
+
+  if (error) throw error;
+  if (!data?.coordinates) throw new Error(data?.error || 'No route found');
+  return data as DrivingRoute;
+}
+
+// Replaces the straight-line placeholder the database keeps for every trip
+export async function saveTripRoute(tripId: string, route: DrivingRoute) {
+  const { error } = await supabase.rpc('save_trip_route', {
+    p_trip_id: tripId,
+    p_coordinates: route.coordinates,
+    p_distance_meters: route.distance,
+    p_duration_seconds: route.duration
+  });
+  if (error) throw error;
+}
+
+export async function searchTripsAlongRoute(options: {
+  origin: LatLng;
+  destination: LatLng;
+  maxDetourMeters?: number;
+  departsAfter?: Date;
+  departsBefore?: Date;
+}): Promise<RouteMatch[]> {
+  const { data, error } = await supabase.rpc('search_trips_along_route', {
+    p_origin_lat: options.origin.lat,
+    p_origin_lng: options.origin.lng,
+    p_dest_lat: options.destination.lat,
+    p_dest_lng: options.destination.lng,
+    p_max_detour_meters: options.maxDetourMeters ?? DEFAULT_MAX_DETOUR_METERS,
+    p_departs_after: options.departsAfter?.toISOString(),
+    p_departs_before: options.departsBefore?.toISOString()
+  });
+
+  if (error) throw error;
+  return (data || []) as RouteMatch[];
+}
+
+export function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters / 10) * 10} m`;
+  return `${(meters / 1000).toFixed(1)} km`;
+}
@@ -0,0 +1,165 @@
+import { supabase } from '@/integrations/supabase/client';
+import { GeocodedPlace, TripSearchResult, VehicleType } from '@/types';
+import { DEFAULT_MAX_DETOUR_METERS } from '@/lib/trip-routes';
+
+export type TripSort = 'soonest' | 'cheapest' | 'closest' | 'best_rated';
+
+export const TRIP_SORT_LABELS: Record<TripSort, string> = {
+  soonest: 'Soonest',
+  cheapest: 'Cheapest',
+  closest: 'Closest pickup',
+  best_rated: 'Best rated'
+};
+
+export const PAGE_SIZE = 20;
+
+export interface TripSearchFilters {
+  from: string;
+  to: string;
+  fromPlace: GeocodedPlace | null;
+  toPlace: GeocodedPlace | null;
+  date: string;
+  detour: number;
+  timeFrom: string;
+  timeTo: string;
+  maxPrice: number | null;
+  minSeats: number;
+  vehicleTypes: VehicleType[];
+  minRating: number | null;
+  // Also list full trips, which passengers can join the waitlist for
+  includeFull: boolean;
+  sort: TripSort;
+}
+
+export const EMPTY_FILTERS: TripSearchFilters = {
+  from: '',
+  to: '',
+  fromPlace: null,
+  toPlace: null,
+  date: '',
+  detour: DEFAULT_MAX_DETOUR_METERS,
+  timeFrom: '',
+  timeTo: '',
+  maxPrice: null,
+  minSeats: 1,
+  vehicleTypes: [],
+  minRating: null,
+  includeFull: false,
+  sort: 'soonest'
+};
+
+const VEHICLE_TYPES: VehicleType[] = ['bike', 'car', 'auto'];
+
+const numberParam = (params: URLSearchParams, key: string): number | null => {
+  const raw = params.get(key);
+  if (!raw) return null;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+};
+
+const placeFromParams = (params: URLSearchParams, prefix: 'from' | 'to'): GeocodedPlace | null => {
+  const name = params.get(prefix);
+  const lat = numberParam(params, `${prefix}Lat`);
+  const lng = numberParam(params, `${prefix}Lng`);
+  if (!name || lat == null || lng == null) return null;
+  return { name, lat, lng };
+};
+
+// The URL is the source of truth for a search so any result page can be shared
+export function filtersFromParams(params: URLSearchParams): TripSearchFilters {
+  const sort = params.get('sort') as TripSort | null;
+  return {
+    from: params.get('from') || '',
+    to: params.get('to') || '',
+    fromPlace: placeFromParams(params, 'from'),
+    toPlace: placeFromParams(params, 'to'),
+    date: params.get('date') || '',
+    detour: numberParam(params, 'detour') ?? DEFAULT_MAX_DETOUR_METERS,
+    timeFrom: params.get('after') || '',
+    timeTo: params.get('before') || '',
+    maxPrice: numberParam(params, 'maxPrice'),
+    minSeats: Math.max(numberParam(params, 'seats') ?? 1, 1),
+    vehicleTypes: (params.get('vehicle') || '')
+      .split(',')
+      .filter((type): type is VehicleType => VEHICLE_TYPES.includes(type as VehicleType)),
+    minRating: numberParam(params, 'rating'),
+    includeFull: params.get('full') === '1',
+    sort: sort && sort in TRIP_SORT_LABELS ? sort : 'soonest'
+  };
+}
+
+export function filtersToParams(filters: TripSearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.fromPlace) {
+    params.set('fromLat', String(filters.fromPlace.lat));
+    params.set('fromLng', String(filters.fromPlace.lng));
+  }
+  if (filters.toPlace) {
+    params.set('toLat', String(filters.toPlace.lat));
+    params.set('toLng', String(filters.toPlace.lng));
+  }
+  if (filters.fromPlace && filters.toPlace && filters.detour !== DEFAULT_MAX_DETOUR_METERS) {
+    params.set('detour', String(filters.detour));
+  }
+  if (filters.date) params.set('date', filters.date);
+  if (filters.timeFrom) params.set('after', filters.timeFrom);
+  if (filters.timeTo) params.set('before', filters.timeTo);
+  if (filters.maxPrice != null) params.set('maxPrice', String(filters.maxPrice));
+  if (filters.minSeats > 1) params.set('seats', String(filters.minSeats));
+  if (filters.vehicleTypes.length > 0) params.set('vehicle', filters.vehicleTypes.join(','));
+  if (filters.minRating != null) params.set('rating', String(filters.minRating));
+  if (filters.includeFull) params.set('full', '1');
+  if (filters.sort !== 'soonest') params.set('sort', filters.sort);
+  return params;
+}
+
+// Cursors are opaque to callers: the last row's sort key, departure and id
+const encodeCursor = (row: TripSearchResult) =>
+  btoa(JSON.stringify([row.sort_value, row.departure_time, row.trip_id]));
+
+const decodeCursor = (cursor: string) => {
+  const [value, departure, id] = JSON.parse(atob(cursor)) as [number, string, string];
+  return { p_after_value: value, p_after_departure: departure, p_after_id: id };
+};
+
+export async function searchTrips(
+  filters: TripSearchFilters,
+  cursor: string | null = null
+): Promise<{ results: TripSearchResult[]; nextCursor: string | null }> {
+  const dayStart = filters.date ? new Date(`${filters.date}T00:00`) : null;
+  const dayEnd = dayStart ? new Date(dayStart.getTime() + 24 * 60 * 60 * 1000) : null;
+
+  const { data, error } = await supabase.rpc('search_trips', {
+    p_from_text: filters.from || undefined,
+    p_to_text: filters.to || undefined,
+    p_origin_lat: filters.fromPlace?.lat,
+    p_origin_lng: filters.fromPlace?.lng,
+    p_dest_lat: filters.toPlace?.lat,
+    p_dest_lng: filters.toPlace?.lng,
+    p_max_detour_meters: filters.detour,
+    p_departs_after: dayStart?.toISOString(),
+    p_departs_before: dayEnd?.toISOString(),
+    p_time_from: filters.timeFrom || undefined,
+    p_time_to: filters.timeTo || undefined,
+    p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    p_max_price: filters.maxPrice ?? undefined,
+    p_min_seats: filters.minSeats,
+    p_vehicle_types: filters.vehicleTypes.length > 0 ? filters.vehicleTypes : undefined,
+    p_min_driver_rating: filters.minRating ?? undefined,
+    p_sort: filters.sort,
+    p_include_full: filters.includeFull,
+    // One extra row tells us whether another page exists
+    p_limit: PAGE_SIZE + 1,
+    ...(cursor ? decodeCursor(cursor) : {})
+  });
+
+  if (error) throw error;
+  const rows = (data || []) as TripSearchResult[];
+  const results = rows.slice(0, PAGE_SIZE);
+  return {
+    results,
+    nextCursor: rows.length > PAGE_SIZE ? encodeCursor(results[results.length - 1]) : null
+  };
+}
@@ -0,0 +1,112 @@
+import { supabase } from '@/integrations/supabase/client';
+import { TripSeries } from '@/types';
+
+// Indexed like Date.getDay() and Postgres extract(dow): 0 is Sunday
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Monday-first for pickers and summaries
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+
+export interface TripSeriesInput {
+  driver_id: string;
+  start_location: string;
+  destination: string;
+  start_lat: number;
+  start_lng: number;
+  dest_lat: number;
+  dest_lng: number;
+  departure_time: string;
+  timezone: string;
+  days_of_week: number[];
+  starts_on: string;
+  ends_on: string;
+  skip_dates: string[];
+  available_seats: number;
+  price_per_seat: number | null;
+  description: string | null;
+  vehicle_id: string;
+}
+
+export function describeDays(days: number[]): string {
+  const set = new Set(days);
+  if (set.size === 7) return 'Every day';
+  if (set.size === 5 && WEEKDAYS.every(day => set.has(day))) return 'Weekdays';
+  if (set.size === 2 && set.has(0) && set.has(6)) return 'Weekends';
+  return WEEKDAY_ORDER.filter(day => set.has(day)).map(day => WEEKDAY_LABELS[day]).join(', ');
+}
+
+export function formatSeriesTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export async function fetchTripSeries(driverId: string): Promise<TripSeries[]> {
+  const { data, error } = await supabase
+    .from('trip_series')
+    .select('*')
+    .eq('driver_id', driverId)
+    .eq('status', 'active')
+    .gte('ends_on', new Date().toLocaleDateString('en-CA'))
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as TripSeries[];
+}
+
+export async function fetchTripSeriesById(seriesId: string): Promise<TripSeries> {
+  const { data, error } = await supabase
+    .from('trip_series')
+    .select('*')
+    .eq('id', seriesId)
+    .single();
+
+  if (error) throw error;
+  return data as TripSeries;
+}
+
+// The database generates the occurrences as soon as the series is saved
+export async function createTripSeries(series: TripSeriesInput): Promise<string> {
+  const { data, error } = await supabase
+    .from('trip_series')
+    .insert(series)
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+// Rewrites upcoming occurrences, except ones edited on their own
+export async function updateTripSeries(seriesId: string, series: TripSeriesInput) {
+  const { error } = await supabase
+    .from('trip_series')
+    .update(series)
+    .eq('id', seriesId);
+  if (error) throw error;
+}
+
+// Cancels every upcoming occurrence along with its bookings
+export async function cancelTripSeries(seriesId: string) {
+  const { error } = await supabase
+    .from('trip_series')
+    .update({ status: 'cancelled' })
+    .eq('id', seriesId);
+  if (error) throw error;
+}
+
+// Occurrences still following the series
+export async function fetchUpcomingSeriesTripIds(seriesId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('trips')
+    .select('id')
+    .eq('series_id', seriesId)
+    .eq('status', 'scheduled')
+    .eq('series_detached', false)
+    .gt('departure_time', new Date().toISOString())
+    .order('departure_time', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(trip => trip.id);
+}
@@ -0,0 +1,66 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Trip, TripStop } from '@/types';
+
+export const MAX_TRIP_STOPS = 10;
+
+export interface TripStopInput {
+  name: string;
+  lat: number;
+  lng: number;
+  fare_from_start: number;
+}
+
+export interface RoutePoint {
+  name: string;
+  lat?: number;
+  lng?: number;
+}
+
+export async function fetchTripStops(tripId: string): Promise<TripStop[]> {
+  const { data, error } = await supabase
+    .from('trip_stops')
+    .select('*')
+    .eq('trip_id', tripId)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as TripStop[];
+}
+
+// Replaces every stop; the database refuses once passengers have booked
+export async function setTripStops(tripId: string, stops: TripStopInput[]) {
+  const { error } = await supabase.rpc('set_trip_stops', {
+    p_trip_id: tripId,
+    p_stops: stops.map(stop => ({ ...stop }))
+  });
+  if (error) throw error;
+}
+
+// Seats free on each leg, where leg i runs from route point i to i + 1
+export async function fetchTripLegSeats(tripId: string): Promise<number[]> {
+  const { data, error } = await supabase.rpc('trip_leg_seats', { p_trip_id: tripId });
+  if (error) throw error;
+  return (data || []).map(row => row.seats_free);
+}
+
+// Start, every stop in order, then the destination; booking stop numbers
+// index into this list
+export function tripRoutePoints(trip: Trip, stops: TripStop[]): RoutePoint[] {
+  return [
+    { name: trip.start_location, lat: trip.start_lat, lng: trip.start_lng },
+    ...stops.map(stop => ({ name: stop.name, lat: Number(stop.lat), lng: Number(stop.lng) })),
+    { name: trip.destination, lat: trip.dest_lat, lng: trip.dest_lng }
+  ];
+}
+
+export function segmentSeatsFree(legSeats: number[], fromStop: number, toStop: number): number {
+  const legs = legSeats.slice(fromStop, toStop);
+  return legs.length > 0 ? Math.min(...legs) : 0;
+}
+
+// Price per seat between two route points; null for a free trip
+export function segmentFare(trip: Trip, stops: TripStop[], fromStop: number, toStop: number): number | null {
+  if (trip.price_per_seat == null) return null;
+  const fares = [0, ...stops.map(stop => Number(stop.fare_from_start)), Number(trip.price_per_seat)];
+  return Math.max((fares[toStop] ?? 0) - (fares[fromStop] ?? 0), 0);
+}
@@ -0,0 +1,45 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Vehicle, VehicleType } from '@/types';
+
+export const VEHICLE_TYPE_LABELS: Record<VehicleType, string> = {
+  bike: 'Bike',
+  car: 'Car',
+  auto: 'Auto-rickshaw'
+};
+
+// Passenger seats, excluding the driver
+export const DEFAULT_SEAT_CAPACITY: Record<VehicleType, number> = {
+  bike: 1,
+  car: 4,
+  auto: 3
+};
+
+const PHOTO_BUCKET = 'vehicle-photos';
+
+export async function fetchVehicles(driverId: string): Promise<Vehicle[]> {
+  const { data, error } = await supabase
+    .from('vehicles')
+    .select('*')
+    .eq('driver_id', driverId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as Vehicle[];
+}
+
+// Photos live under the driver's own folder, which storage policies require
+export async function uploadVehiclePhoto(driverId: string, file: File): Promise<string> {
+  const extension = file.name.split('.').pop() || 'jpg';
+  const path = `${driverId}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+  if (error) throw error;
+
+  return supabase.storage.from(PHOTO_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+export function describeVehicle(vehicle: Pick<Vehicle, 'make' | 'model' | 'colour'>): string {
+  return [vehicle.colour, vehicle.make, vehicle.model].filter(Boolean).join(' ');
+}
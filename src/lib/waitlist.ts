@@ -0,0 +1,84 @@
+import { supabase } from '@/integrations/supabase/client';
+import { WaitlistEntry, WaitlistStatus } from '@/types';
+
+export type WaitlistEntryWithPassenger = WaitlistEntry & {
+  profiles: { full_name: string } | null;
+};
+
+export const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  waiting: 'Waiting',
+  offered: 'Seat offered',
+  booked: 'Booked',
+  declined: 'Passed',
+  expired: 'Expired',
+  left: 'Left'
+};
+
+// The passenger's place in line on a trip, if they are still in it
+export async function fetchMyWaitlistEntry(tripId: string, passengerId: string): Promise<WaitlistEntry | null> {
+  const { data, error } = await supabase
+    .from('trip_waitlist')
+    .select('*')
+    .eq('trip_id', tripId)
+    .eq('passenger_id', passengerId)
+    .in('status', ['waiting', 'offered'])
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as WaitlistEntry | null;
+}
+
+// Everyone still in line for a trip, in queue order; drivers only
+export async function fetchTripWaitlist(tripId: string): Promise<WaitlistEntryWithPassenger[]> {
+  const { data, error } = await supabase
+    .from('trip_waitlist')
+    .select('*, profiles:passenger_id (full_name)')
+    .eq('trip_id', tripId)
+    .in('status', ['waiting', 'offered'])
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as unknown as WaitlistEntryWithPassenger[];
+}
+
+export async function fetchWaitlistPosition(entryId: string): Promise<number | null> {
+  const { data, error } = await supabase.rpc('waitlist_position', { p_entry_id: entryId });
+  if (error) throw error;
+  return data;
+}
+
+// The database refuses while the seats can still be booked directly
+export async function joinWaitlist(entry: {
+  trip_id: string;
+  passenger_id: string;
+  seats_requested: number;
+  from_stop: number;
+  to_stop: number;
+}) {
+  const { error } = await supabase.from('trip_waitlist').insert(entry);
+  if (error) throw error;
+}
+
+export async function leaveWaitlist(entryId: string) {
+  const { error } = await supabase
+    .from('trip_waitlist')
+    .update({ status: 'left' })
+    .eq('id', entryId);
+  if (error) throw error;
+}
+
+// Passes the held seats on to the next person in line
+export async function declineWaitlistOffer(entryId: string) {
+  const { error } = await supabase
+    .from('trip_waitlist')
+    .update({ status: 'declined' })
+    .eq('id', entryId);
+  if (error) throw error;
+}
+
+// Books the held seats; returns the new booking's id
+export async function claimWaitlistOffer(entryId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('claim_waitlist_offer', { p_entry_id: entryId });
+  if (error) throw error;
+  return data;
+}
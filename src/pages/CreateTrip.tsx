@@ -1,22 +1,63 @@
 import { useState, useEffect } from 'react';
-import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { LocationAutocomplete } from '@/components/map/LocationAutocomplete';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
+import { GeocodedPlace, Vehicle } from '@/types';
 import { 
   MapPin, 
   Clock, 
   Users, 
   IndianRupee,
   Car,
-  Calendar
+  Calendar,
+  Repeat,
+  Plus,
+  ArrowUp,
+  ArrowDown,
+  X
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatINR } from '@/lib/utils';
+import { geocodeFirst } from '@/lib/geocoding';
+import { fetchDrivingRoute, saveTripRoute } from '@/lib/trip-routes';
+import { sendSavedSearchAlerts } from '@/lib/saved-searches';
+import { MAX_TRIP_STOPS, fetchTripStops, setTripStops } from '@/lib/trip-stops';
+import { VEHICLE_TYPE_LABELS, describeVehicle, fetchVehicles } from '@/lib/vehicles';
+import {
+  TripSeriesInput,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  WEEKDAY_ORDER,
+  createTripSeries,
+  describeDays,
+  fetchTripSeriesById,
+  fetchUpcomingSeriesTripIds,
+  updateTripSeries
+} from '@/lib/trip-series';
+import { DEFAULT_CANCELLATION_POLICY, describeCancellationPolicy, describeLateRefund } from '@/lib/cancellation';
+import { useCancellationPolicies } from '@/hooks/use-cancellation-policies';
+import { useFareEstimate } from '@/hooks/use-fare-estimate';
+import { fetchFareEstimate, saveFareEstimate } from '@/lib/fares';
+import { FareSuggestion } from '@/components/trips/FareSuggestion';
+
+interface StopDraft {
+  key: string;
+  name: string;
+  place: GeocodedPlace | null;
+  // Price per seat from the starting point to this stop
+  fare: string;
+}
+
+const newStopDraft = (): StopDraft => ({ key: crypto.randomUUID(), name: '', place: null, fare: '' });
 
 export default function CreateTrip() {
   const { profile } = useAuth();
@@ -24,6 +65,8 @@ export default function CreateTrip() {
   const [searchParams] = useSearchParams();
   const editId = searchParams.get('edit');
   const isEditing = !!editId;
+  const seriesId = searchParams.get('series');
+  const isEditingSeries = !!seriesId;
   const [loading, setLoading] = useState(false);
   
   const [formData, setFormData] = useState({
@@ -33,7 +76,55 @@ export default function CreateTrip() {
     departureTime: '',
     availableSeats: 1,
     pricePerSeat: '',
-    description: ''
+    description: '',
+    vehicleId: ''
+  });
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  // Confirmed coordinates for each end of the route. Cleared whenever the
+  // text is edited so a changed address is always geocoded again.
+  const [startPlace, setStartPlace] = useState<GeocodedPlace | null>(null);
+  const [destinationPlace, setDestinationPlace] = useState<GeocodedPlace | null>(null);
+  // Recurrence, for new trips and whole-series edits
+  const [repeat, setRepeat] = useState(isEditingSeries);
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>(WEEKDAYS);
+  const [endsOn, setEndsOn] = useState('');
+  const [skipDates, setSkipDates] = useState<string[]>([]);
+  const [skipDateInput, setSkipDateInput] = useState('');
+  // Set when editing a single date of a series
+  const [occurrenceDate, setOccurrenceDate] = useState<string | null>(null);
+  // Intermediate stops, in driving order
+  const [stops, setStops] = useState<StopDraft[]>([]);
+  // 'default' follows the driver's instant booking setting
+  const [instantBook, setInstantBook] = useState<'default' | 'on' | 'off'>('default');
+  const [cancellationPolicy, setCancellationPolicy] = useState(DEFAULT_CANCELLATION_POLICY);
+  // Accepted passengers booked under the current policy, so it stays
+  const [policyLocked, setPolicyLocked] = useState(false);
+  const policies = useCancellationPolicies();
+  // Tolls for the whole drive, split like the running cost
+  const [tollCost, setTollCost] = useState('');
+
+  useEffect(() => {
+    if (!profile) return;
+    fetchVehicles(profile.user_id)
+      .then((result) => {
+        setVehicles(result);
+        // Preselect when there is only one choice
+        if (result.length === 1) {
+          setFormData(prev => prev.vehicleId ? prev : { ...prev, vehicleId: result[0].id });
+        }
+      })
+      .catch((error) => toast.error(error.message || 'Failed to load vehicles'));
+  }, [profile]);
+
+  const selectedVehicle = vehicles.find(v => v.id === formData.vehicleId) || null;
+  const maxSeats = selectedVehicle?.seat_capacity ?? 8;
+  const fareEstimate = useFareEstimate({
+    start: startPlace,
+    destination: destinationPlace,
+    via: stops.flatMap(stop => stop.place ? [stop.place] : []),
+    vehicleType: selectedVehicle?.vehicle_type ?? null,
+    seats: formData.availableSeats || 1,
+    tollCost: parseFloat(tollCost) || 0
   });
 
   // Prefill when editing
@@ -49,6 +140,10 @@ export default function CreateTrip() {
       if (data.driver_id !== profile.user_id) {
         return toast.error('You can only edit your own trips');
       }
+      if (data.status !== 'scheduled') {
+        toast.error('Only scheduled trips can be edited');
+        return navigate('/driver-dashboard');
+      }
       const dt = new Date(data.departure_time);
       setFormData({
         startLocation: data.start_location || '',
@@ -57,11 +152,85 @@ export default function CreateTrip() {
         departureTime: dt.toTimeString().slice(0,5),
         availableSeats: data.available_seats || 1,
         pricePerSeat: data.price_per_seat?.toString() || '',
-        description: data.description || ''
+        description: data.description || '',
+        vehicleId: data.vehicle_id || ''
       });
+      setOccurrenceDate(data.series_id ? data.series_date : null);
+      setInstantBook(data.instant_book == null ? 'default' : data.instant_book ? 'on' : 'off');
+      setCancellationPolicy(data.cancellation_policy || DEFAULT_CANCELLATION_POLICY);
+      supabase
+        .from('bookings')
+        .select('id', { count: 'exact', head: true })
+        .eq('trip_id', data.id)
+        .eq('status', 'accepted')
+        .then(({ count }) => setPolicyLocked(!!count));
+      fetchFareEstimate(data.id)
+        .then((estimate) => setTollCost(estimate?.toll_cost ? String(estimate.toll_cost) : ''))
+        .catch((estimateError) => console.warn('Failed to load fare estimate:', estimateError));
+      if (data.start_lat != null && data.start_lng != null) {
+        setStartPlace({ name: data.start_location, lat: Number(data.start_lat), lng: Number(data.start_lng) });
+      }
+      if (data.dest_lat != null && data.dest_lng != null) {
+        setDestinationPlace({ name: data.destination, lat: Number(data.dest_lat), lng: Number(data.dest_lng) });
+      }
+      try {
+        const tripStops = await fetchTripStops(data.id);
+        setStops(tripStops.map(stop => ({
+          key: stop.id,
+          name: stop.name,
+          place: { name: stop.name, lat: Number(stop.lat), lng: Number(stop.lng) },
+          fare: data.price_per_seat != null ? stop.fare_from_start.toString() : ''
+        })));
+      } catch (error) {
+        toast.error(error.message || 'Failed to load stops');
+      }
     };
     loadTrip();
-  }, [isEditing, editId, profile]);
+  }, [isEditing, editId, profile, navigate]);
+
+  useEffect(() => {
+    const loadSeries = async () => {
+      if (!seriesId || !profile) return;
+      try {
+        const series = await fetchTripSeriesById(seriesId);
+        if (series.driver_id !== profile.user_id || series.status !== 'active') {
+          toast.error('This series can no longer be edited');
+          return navigate('/driver-dashboard');
+        }
+        // Earlier dates have already run; the series carries on from today
+        const firstDate = new Date().toLocaleDateString('en-CA');
+        setFormData({
+          startLocation: series.start_location,
+          destination: series.destination,
+          departureDate: series.starts_on > firstDate ? series.starts_on : firstDate,
+          departureTime: series.departure_time.slice(0, 5),
+          availableSeats: series.available_seats,
+          pricePerSeat: series.price_per_seat?.toString() || '',
+          description: series.description || '',
+          vehicleId: series.vehicle_id || ''
+        });
+        setDaysOfWeek(series.days_of_week);
+        setEndsOn(series.ends_on);
+        setSkipDates(series.skip_dates.filter(date => date >= firstDate));
+        if (series.start_lat != null && series.start_lng != null) {
+          setStartPlace({ name: series.start_location, lat: Number(series.start_lat), lng: Number(series.start_lng) });
+        }
+        if (series.dest_lat != null && series.dest_lng != null) {
+          setDestinationPlace({ name: series.destination, lat: Number(series.dest_lat), lng: Number(series.dest_lng) });
+        }
+      } catch (error) {
+        toast.error(error.message || 'Failed to load trip series');
+      }
+    };
+    loadSeries();
+  }, [seriesId, profile, navigate]);
+
+  // Falls back to the top geocoding match when the driver typed an address
+  // without picking a suggestion or confirming a pin
+  const resolvePlace = async (text: string, place: GeocodedPlace | null) => {
+    if (place) return place;
+    return geocodeFirst(text);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -71,45 +240,139 @@ export default function CreateTrip() {
       return;
     }
 
+    if (!selectedVehicle) {
+      toast.error('Choose the vehicle you are driving');
+      return;
+    }
+
+    if (formData.availableSeats > selectedVehicle.seat_capacity) {
+      toast.error(`Your ${describeVehicle(selectedVehicle)} only has ${selectedVehicle.seat_capacity} seat${selectedVehicle.seat_capacity !== 1 ? 's' : ''}`);
+      return;
+    }
+
+    const price = formData.pricePerSeat ? parseFloat(formData.pricePerSeat) : null;
+    const stopFares = stops.map(stop => price != null && stop.fare ? parseFloat(stop.fare) : 0);
+    if (!repeat && price != null && stopFares.some((fare, i) => fare > price || fare < (stopFares[i - 1] ?? 0))) {
+      toast.error('Stop prices must rise along the route and stay within the full price per seat');
+      return;
+    }
+
+    if (repeat) {
+      if (daysOfWeek.length === 0) {
+        toast.error('Choose at least one day for the trip to repeat on');
+        return;
+      }
+      if (!endsOn || endsOn < formData.departureDate) {
+        toast.error('The last date must be on or after the first one');
+        return;
+      }
+    }
+
     setLoading(true);
 
     try {
       // Combine date and time
       const departureDateTime = new Date(`${formData.departureDate}T${formData.departureTime}`);
       
-      // Check if the date/time is in the future
-      if (departureDateTime <= new Date()) {
+      // Check if the date/time is in the future; a series simply starts on its next run
+      if (!repeat && departureDateTime <= new Date()) {
         toast.error('Departure time must be in the future');
         setLoading(false);
         return;
       }
 
+      const [start, dest] = await Promise.all([
+        resolvePlace(formData.startLocation, startPlace),
+        resolvePlace(formData.destination, destinationPlace)
+      ]);
+
+      if (!start || !dest) {
+        toast.error(`Could not find "${!start ? formData.startLocation : formData.destination}". Pick it on the map instead.`);
+        setLoading(false);
+        return;
+      }
+      setStartPlace(start);
+      setDestinationPlace(dest);
+
+      if (repeat) {
+        await saveSeries(start, dest);
+        return;
+      }
+
+      const stopPlaces = await Promise.all(stops.map(stop => resolvePlace(stop.name, stop.place)));
+      const missingStop = stops.find((_, i) => !stopPlaces[i]);
+      if (missingStop) {
+        toast.error(`Could not find "${missingStop.name}". Pick it on the map instead.`);
+        setLoading(false);
+        return;
+      }
+      const via = stopPlaces as GeocodedPlace[];
+      setStops(prev => prev.map((stop, i) => ({ ...stop, place: via[i] })));
+
       const tripData = {
         driver_id: profile.user_id,
         start_location: formData.startLocation,
         destination: formData.destination,
+        start_lat: start.lat,
+        start_lng: start.lng,
+        dest_lat: dest.lat,
+        dest_lng: dest.lng,
         departure_time: departureDateTime.toISOString(),
         available_seats: formData.availableSeats,
         price_per_seat: formData.pricePerSeat ? parseFloat(formData.pricePerSeat) : null,
         description: formData.description || null,
-        status: 'scheduled' as const
+        vehicle_id: selectedVehicle.id,
+        instant_book: instantBook === 'default' ? null : instantBook === 'on',
+        cancellation_policy: cancellationPolicy
       };
 
+      let tripId = editId;
       if (isEditing) {
         const { error } = await supabase
           .from('trips')
           .update(tripData)
           .eq('id', editId);
         if (error) throw error;
-        toast.success('Trip updated successfully!');
       } else {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from('trips')
-          .insert([tripData]);
+          .insert([tripData])
+          .select('id')
+          .single();
         if (error) throw error;
-        toast.success('Trip created successfully!');
+        tripId = data.id;
+
+        // Email passengers whose saved searches matched (non-blocking)
+        sendSavedSearchAlerts(tripId).catch((alertError) => {
+          console.warn('Saved search alerts error', alertError);
+        });
+      }
+
+      await setTripStops(tripId, stops.map((stop, i) => ({
+        name: stop.name,
+        lat: via[i].lat,
+        lng: via[i].lng,
+        fare_from_start: stopFares[i]
+      })));
+
+      // Search falls back to a straight line between the endpoints if this fails
+      try {
+        await saveTripRoute(tripId, await fetchDrivingRoute(start, dest, via));
+      } catch (routeError) {
+        console.warn('Could not save driving route:', routeError);
+      }
+
+      // Passengers see the breakdown the price was set against
+      if (fareEstimate) {
+        try {
+          await saveFareEstimate(tripId, parseFloat(tollCost) || 0);
+        } catch (estimateError) {
+          console.warn('Could not save fare estimate:', estimateError);
+        }
       }
 
+      toast.success(isEditing ? 'Trip updated successfully!' : 'Trip created successfully!');
+
       navigate('/driver-dashboard');
     } catch (error: any) {
       toast.error(error.message || (isEditing ? 'Failed to update trip' : 'Failed to create trip'));
@@ -118,10 +381,106 @@ export default function CreateTrip() {
     }
   };
 
+  // The database generates the dates; every upcoming one gets the driving route
+  const saveSeries = async (start: GeocodedPlace, dest: GeocodedPlace) => {
+    if (!profile || !selectedVehicle) return;
+
+    const series: TripSeriesInput = {
+      driver_id: profile.user_id,
+      start_location: formData.startLocation,
+      destination: formData.destination,
+      start_lat: start.lat,
+      start_lng: start.lng,
+      dest_lat: dest.lat,
+      dest_lng: dest.lng,
+      departure_time: formData.departureTime,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      days_of_week: daysOfWeek,
+      starts_on: formData.departureDate,
+      ends_on: endsOn,
+      skip_dates: skipDates,
+      available_seats: formData.availableSeats,
+      price_per_seat: formData.pricePerSeat ? parseFloat(formData.pricePerSeat) : null,
+      description: formData.description || null,
+      vehicle_id: selectedVehicle.id
+    };
+
+    let id = seriesId;
+    if (id) {
+      await updateTripSeries(id, series);
+    } else {
+      id = await createTripSeries(series);
+    }
+
+    const tripIds = await fetchUpcomingSeriesTripIds(id);
+    try {
+      const route = await fetchDrivingRoute(start, dest);
+      await Promise.all(tripIds.map(tripId => saveTripRoute(tripId, route)));
+    } catch (routeError) {
+      console.warn('Could not save driving route:', routeError);
+    }
+
+    if (!isEditingSeries) {
+      tripIds.forEach(tripId => {
+        sendSavedSearchAlerts(tripId).catch((alertError) => {
+          console.warn('Saved search alerts error', alertError);
+        });
+      });
+    }
+
+    toast.success(isEditingSeries
+      ? 'Series updated for all upcoming dates'
+      : `Recurring trip created: ${tripIds.length} upcoming trip${tripIds.length !== 1 ? 's' : ''} posted`);
+    navigate('/driver-dashboard');
+  };
+
+  const toggleDay = (day: number) => {
+    setDaysOfWeek(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+  };
+
+  const updateStop = (key: string, changes: Partial<StopDraft>) => {
+    setStops(prev => prev.map(stop => stop.key === key ? { ...stop, ...changes } : stop));
+  };
+
+  const moveStop = (index: number, offset: number) => {
+    setStops(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const addSkipDate = () => {
+    if (!skipDateInput) return;
+    setSkipDates(prev => prev.includes(skipDateInput) ? prev : [...prev, skipDateInput].sort());
+    setSkipDateInput('');
+  };
+
   const handleInputChange = (field: string, value: string | number) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleVehicleChange = (vehicleId: string) => {
+    const vehicle = vehicles.find(v => v.id === vehicleId);
+    setFormData(prev => ({
+      ...prev,
+      vehicleId,
+      availableSeats: vehicle ? Math.min(prev.availableSeats, vehicle.seat_capacity) : prev.availableSeats
+    }));
+  };
+
+  const handleLocationText = (field: 'startLocation' | 'destination', text: string) => {
+    handleInputChange(field, text);
+    if (field === 'startLocation') setStartPlace(null);
+    else setDestinationPlace(null);
+  };
+
+  const handleLocationPlace = (field: 'startLocation' | 'destination', place: GeocodedPlace) => {
+    handleInputChange(field, place.name);
+    if (field === 'startLocation') setStartPlace(place);
+    else setDestinationPlace(place);
+  };
+
   // Set minimum date to today
   const today = new Date().toISOString().split('T')[0];
   
@@ -135,10 +494,22 @@ export default function CreateTrip() {
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-2xl mx-auto">
           <div className="mb-8">
-            <h1 className="text-3xl font-bold mb-2">{isEditing ? 'Edit Trip' : 'Create New Trip'}</h1>
+            <h1 className="text-3xl font-bold mb-2">
+              {isEditingSeries ? 'Edit Recurring Trip' : isEditing ? 'Edit Trip' : 'Create New Trip'}
+            </h1>
             <p className="text-muted-foreground">
-              {isEditing ? 'Update your trip details' : 'Share your journey and connect with passengers traveling your route'}
+              {isEditingSeries
+                ? 'Changes apply to every upcoming date you haven\'t edited separately'
+                : isEditing
+                  ? 'Update your trip details'
+                  : 'Share your journey and connect with passengers traveling your route'}
             </p>
+            {occurrenceDate && (
+              <p className="text-sm text-muted-foreground mt-2">
+                This trip is part of a recurring series. Changes here only apply to{' '}
+                {new Date(`${occurrenceDate}T00:00`).toLocaleDateString()}.
+              </p>
+            )}
           </div>
 
           <Card className="shadow-medium">
@@ -154,39 +525,128 @@ export default function CreateTrip() {
                 <div className="grid md:grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="startLocation">Starting Point *</Label>
-                    <div className="relative">
-                      <MapPin className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                      <Input
-                        id="startLocation"
-                        placeholder="Enter starting location"
-                        value={formData.startLocation}
-                        onChange={(e) => handleInputChange('startLocation', e.target.value)}
-                        className="pl-10"
-                        required
-                      />
-                    </div>
+                    <LocationAutocomplete
+                      id="startLocation"
+                      placeholder="Enter starting location"
+                      pickerTitle="Confirm starting point"
+                      value={formData.startLocation}
+                      place={startPlace}
+                      onTextChange={(text) => handleLocationText('startLocation', text)}
+                      onPlaceChange={(place) => handleLocationPlace('startLocation', place)}
+                      required
+                    />
                   </div>
 
                   <div className="space-y-2">
                     <Label htmlFor="destination">Destination *</Label>
-                    <div className="relative">
-                      <MapPin className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                      <Input
-                        id="destination"
-                        placeholder="Enter destination"
-                        value={formData.destination}
-                        onChange={(e) => handleInputChange('destination', e.target.value)}
-                        className="pl-10"
-                        required
-                      />
-                    </div>
+                    <LocationAutocomplete
+                      id="destination"
+                      placeholder="Enter destination"
+                      pickerTitle="Confirm destination"
+                      value={formData.destination}
+                      place={destinationPlace}
+                      onTextChange={(text) => handleLocationText('destination', text)}
+                      onPlaceChange={(place) => handleLocationPlace('destination', place)}
+                      required
+                    />
                   </div>
                 </div>
 
+                {/* Intermediate stops; recurring trips run start to finish only */}
+                {!repeat && (
+                  <div className="space-y-3">
+                    {stops.length > 0 && (
+                      <div className="flex justify-between text-sm">
+                        <Label>Stops Along the Way</Label>
+                        {formData.pricePerSeat && (
+                          <span className="text-muted-foreground">Price from start</span>
+                        )}
+                      </div>
+                    )}
+                    {stops.map((stop, index) => (
+                      <div key={stop.key} className="flex items-center gap-2">
+                        <Badge variant="secondary" className="shrink-0">{index + 1}</Badge>
+                        <div className="flex-1">
+                          <LocationAutocomplete
+                            id={`stop-${stop.key}`}
+                            placeholder="Enter stop"
+                            pickerTitle={`Confirm stop ${index + 1}`}
+                            value={stop.name}
+                            place={stop.place}
+                            onTextChange={(text) => updateStop(stop.key, { name: text, place: null })}
+                            onPlaceChange={(place) => updateStop(stop.key, { name: place.name, place })}
+                            required
+                          />
+                        </div>
+                        {formData.pricePerSeat && (
+                          <div className="relative w-28 shrink-0">
+                            <IndianRupee className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                            <Input
+                              type="number"
+                              min="0"
+                              max={formData.pricePerSeat}
+                              step="0.01"
+                              placeholder="0"
+                              aria-label={`Price to stop ${index + 1}`}
+                              value={stop.fare}
+                              onChange={(e) => updateStop(stop.key, { fare: e.target.value })}
+                              className="pl-9"
+                            />
+                          </div>
+                        )}
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="ghost"
+                          disabled={index === 0}
+                          onClick={() => moveStop(index, -1)}
+                          aria-label="Move stop up"
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="ghost"
+                          disabled={index === stops.length - 1}
+                          onClick={() => moveStop(index, 1)}
+                          aria-label="Move stop down"
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => setStops(prev => prev.filter(s => s.key !== stop.key))}
+                          aria-label="Remove stop"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={stops.length >= MAX_TRIP_STOPS}
+                      onClick={() => setStops(prev => [...prev, newStopDraft()])}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Stop
+                    </Button>
+                    {stops.length > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        Passengers can book any part of the route; seats free up again after each stop
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {/* Date and Time */}
                 <div className="grid md:grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="departureDate">Departure Date *</Label>
+                    <Label htmlFor="departureDate">{repeat ? 'First Date *' : 'Departure Date *'}</Label>
                     <div className="relative">
                       <Calendar className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                       <Input
@@ -218,6 +678,123 @@ export default function CreateTrip() {
                   </div>
                 </div>
 
+                {/* Recurrence */}
+                {!isEditing && (
+                  <div className="space-y-4 rounded-lg border border-border p-4">
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <Label htmlFor="repeat" className="flex items-center gap-2">
+                          <Repeat className="h-4 w-4" />
+                          Recurring commute
+                        </Label>
+                        <p className="text-sm text-muted-foreground">
+                          Offer this trip every week on the days you choose
+                        </p>
+                      </div>
+                      <Switch
+                        id="repeat"
+                        checked={repeat}
+                        onCheckedChange={setRepeat}
+                        disabled={isEditingSeries}
+                      />
+                    </div>
+
+                    {repeat && (
+                      <>
+                        <div className="space-y-2">
+                          <Label>Repeats on *</Label>
+                          <div className="flex flex-wrap gap-2">
+                            {WEEKDAY_ORDER.map(day => (
+                              <Button
+                                key={day}
+                                type="button"
+                                size="sm"
+                                variant={daysOfWeek.includes(day) ? 'default' : 'outline'}
+                                onClick={() => toggleDay(day)}
+                              >
+                                {WEEKDAY_LABELS[day]}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
+
+                        <div className="grid md:grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="endsOn">Last Date *</Label>
+                            <Input
+                              id="endsOn"
+                              type="date"
+                              min={formData.departureDate || today}
+                              value={endsOn}
+                              onChange={(e) => setEndsOn(e.target.value)}
+                              required
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="skipDate">Skip Dates</Label>
+                            <div className="flex gap-2">
+                              <Input
+                                id="skipDate"
+                                type="date"
+                                min={formData.departureDate || today}
+                                max={endsOn || undefined}
+                                value={skipDateInput}
+                                onChange={(e) => setSkipDateInput(e.target.value)}
+                              />
+                              <Button type="button" variant="outline" onClick={addSkipDate} disabled={!skipDateInput}>
+                                Add
+                              </Button>
+                            </div>
+                          </div>
+                        </div>
+
+                        {skipDates.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {skipDates.map(date => (
+                              <Badge key={date} variant="secondary" className="gap-1">
+                                {new Date(`${date}T00:00`).toLocaleDateString()}
+                                <button
+                                  type="button"
+                                  onClick={() => setSkipDates(prev => prev.filter(d => d !== date))}
+                                  aria-label={`Don't skip ${date}`}
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {/* Vehicle */}
+                <div className="space-y-2">
+                  <Label>Vehicle *</Label>
+                  {vehicles.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      You have no vehicles yet.{' '}
+                      <Link to="/profile" className="text-primary underline">Add one in your profile</Link>
+                      {' '}before offering a trip.
+                    </p>
+                  ) : (
+                    <Select value={formData.vehicleId} onValueChange={handleVehicleChange}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a vehicle" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {vehicles.map((vehicle) => (
+                          <SelectItem key={vehicle.id} value={vehicle.id}>
+                            {describeVehicle(vehicle)} · {vehicle.plate} ({VEHICLE_TYPE_LABELS[vehicle.vehicle_type]}, {vehicle.seat_capacity} seats)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+
                 {/* Seats and Price */}
                 <div className="grid md:grid-cols-2 gap-4">
                   <div className="space-y-2">
@@ -228,7 +805,7 @@ export default function CreateTrip() {
                         id="availableSeats"
                         type="number"
                         min="1"
-                        max="8"
+                        max={maxSeats}
                         value={formData.availableSeats}
                         onChange={(e) => handleInputChange('availableSeats', parseInt(e.target.value))}
                         className="pl-10"
@@ -255,6 +832,75 @@ export default function CreateTrip() {
                   </div>
                 </div>
 
+                {/* Fare suggestion from the route's running cost */}
+                <div className="space-y-2">
+                  <Label htmlFor="tollCost">Tolls on the route (optional)</Label>
+                  <div className="relative">
+                    <IndianRupee className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="tollCost"
+                      type="number"
+                      min="0"
+                      step="1"
+                      placeholder="0"
+                      value={tollCost}
+                      onChange={(e) => setTollCost(e.target.value)}
+                      className="pl-10"
+                    />
+                  </div>
+                  <FareSuggestion
+                    estimate={fareEstimate}
+                    price={formData.pricePerSeat ? parseFloat(formData.pricePerSeat) : null}
+                    onUse={(price) => handleInputChange('pricePerSeat', String(price))}
+                  />
+                </div>
+
+                {/* Instant booking; series dates follow the driver's default */}
+                {!repeat && (
+                  <div className="space-y-2">
+                    <Label>Instant Booking</Label>
+                    <Select value={instantBook} onValueChange={(value: 'default' | 'on' | 'off') => setInstantBook(value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Use my profile setting</SelectItem>
+                        <SelectItem value="on">On for this trip</SelectItem>
+                        <SelectItem value="off">Off, I'll approve every request</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Passengers who meet the conditions in your{' '}
+                      <Link to="/profile" className="text-primary underline">profile</Link>
+                      {' '}are accepted straight away
+                    </p>
+                  </div>
+                )}
+
+                {/* Cancellation policy; series dates use the default */}
+                {!repeat && (
+                  <div className="space-y-2">
+                    <Label>Cancellation Policy</Label>
+                    <Select value={cancellationPolicy} onValueChange={setCancellationPolicy} disabled={policyLocked}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(policies).map((policy) => (
+                          <SelectItem key={policy.id} value={policy.id}>
+                            {policy.name}: {describeCancellationPolicy(policy).toLowerCase()}, {describeLateRefund(policy)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      {policyLocked && 'Passengers have booked under this policy, so it can no longer change. '}
+                      Cancelling after the free window, by you or a confirmed passenger, counts as a late cancellation.
+                      Passengers you cancel on are always refunded in full.
+                    </p>
+                  </div>
+                )}
+
                 {/* Description */}
                 <div className="space-y-2">
                   <Label htmlFor="description">Description (optional)</Label>
@@ -275,10 +921,24 @@ export default function CreateTrip() {
                       <div className="flex items-center gap-2">
                         <MapPin className="h-4 w-4 text-primary" />
                         <span>
-                          {formData.startLocation || 'Starting point'} → {formData.destination || 'Destination'}
+                          {[
+                            formData.startLocation || 'Starting point',
+                            ...(repeat ? [] : stops.map(stop => stop.name || 'Stop')),
+                            formData.destination || 'Destination'
+                          ].join(' → ')}
                         </span>
                       </div>
                       
+                      {repeat && daysOfWeek.length > 0 && (
+                        <div className="flex items-center gap-2">
+                          <Repeat className="h-4 w-4 text-primary" />
+                          <span>
+                            {describeDays(daysOfWeek)}
+                            {endsOn && ` until ${new Date(`${endsOn}T00:00`).toLocaleDateString()}`}
+                          </span>
+                        </div>
+                      )}
+
                       {formData.departureDate && formData.departureTime && (
                         <div className="flex items-center gap-2">
                           <Clock className="h-4 w-4 text-primary" />
@@ -292,6 +952,13 @@ export default function CreateTrip() {
                         </div>
                       )}
                       
+                      {selectedVehicle && (
+                        <div className="flex items-center gap-2">
+                          <Car className="h-4 w-4 text-primary" />
+                          <span>{describeVehicle(selectedVehicle)} · {selectedVehicle.plate}</span>
+                        </div>
+                      )}
+
                       <div className="flex items-center gap-2">
                         <Users className="h-4 w-4 text-primary" />
                         <span>{formData.availableSeats} seat{formData.availableSeats !== 1 ? 's' : ''} available</span>
@@ -320,10 +987,14 @@ export default function CreateTrip() {
                   <Button
                     type="submit"
                     variant="hero"
-                    disabled={loading}
+                    disabled={loading || vehicles.length === 0}
                     className="flex-1"
                   >
-                    {loading ? (isEditing ? 'Updating...' : 'Creating Trip...') : (isEditing ? 'Update Trip' : 'Create Trip')}
+                    {loading
+                      ? (isEditing || isEditingSeries ? 'Updating...' : 'Creating Trip...')
+                      : isEditingSeries
+                        ? 'Update Series'
+                        : isEditing ? 'Update Trip' : repeat ? 'Create Recurring Trip' : 'Create Trip'}
                   </Button>
                 </div>
               </form>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,40 +14,94 @@ import {
   Users, 
   Navigation,
   Settings,
-  MessageSquare
+  MessageSquare,
+  Star,
+  Play,
+  CheckCircle,
+  Repeat,
+  Zap
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatINR } from '@/lib/utils';
+import { startConversation } from '@/lib/messaging';
+import { fetchMyReviewKeys } from '@/lib/reviews';
+import { transitionTrip } from '@/lib/trip-lifecycle';
+import { RatingBadge } from '@/components/reviews/RatingBadge';
+import { ReviewDialog } from '@/components/reviews/ReviewDialog';
+import { TripSeriesManager } from '@/components/trips/TripSeriesManager';
+import { PickupDetourNote } from '@/components/trips/PickupDetourNote';
+import { CancelTripDialog } from '@/components/trips/CancelTripDialog';
+import { NearbyRideRequests } from '@/components/ride-requests/NearbyRideRequests';
+import { useProfileRatings } from '@/hooks/use-profile-ratings';
+import { useLocationPublisher } from '@/hooks/use-location-publisher';
+
+const TRIP_STATUS_MESSAGES = {
+  active: 'Trip started',
+  completed: 'Trip completed',
+  cancelled: 'Trip cancelled for this date'
+};
 
 export default function DriverDashboard() {
   const { profile, user } = useAuth();
+  const navigate = useNavigate();
   const [trips, setTrips] = useState<Trip[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
-  const [isSharing, setIsSharing] = useState(false);
+  const locationPublisher = useLocationPublisher();
   const [updatingBookingId, setUpdatingBookingId] = useState<string | null>(null);
+  const [updatingTripId, setUpdatingTripId] = useState<string | null>(null);
+  const [reviewedKeys, setReviewedKeys] = useState<Set<string>>(new Set());
+  const [reviewTarget, setReviewTarget] = useState<{ tripId: string; passengerId: string; name: string } | null>(null);
+  const [cancellingTrip, setCancellingTrip] = useState<Trip | null>(null);
+  const ratings = useProfileRatings(bookings.map(b => b.passenger_id));
 
   useEffect(() => {
     if (profile) {
       fetchTrips();
       fetchBookings();
+      fetchReviewedKeys();
     }
   }, [profile]);
 
-  const fetchTrips = async () => {
+  // Instant bookings are accepted by the database; the driver only hears about them
+  useEffect(() => {
+    if (!profile) return;
+
+    const channel = supabase
+      .channel(`instant-bookings-${profile.user_id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${profile.user_id}`
+        },
+        (payload) => {
+          if (payload.new.type !== 'booking_instant') return;
+          toast.success(payload.new.title);
+          fetchBookings();
+          fetchTrips();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile?.user_id]);
+
+  const fetchReviewedKeys = async () => {
     if (!profile) return;
-    
     try {
-      // Auto-update trips whose departure time has passed
-      await supabase
-        .from('trips')
-        .update({ status: 'active' })
-        .lte('departure_time', new Date().toISOString())
-        .eq('driver_id', profile.user_id)
-        .eq('status', 'scheduled');
-    } catch (e) {
-      console.warn('Auto-update trips status failed', e);
+      setReviewedKeys(await fetchMyReviewKeys(profile.user_id));
+    } catch (error) {
+      console.warn('Failed to load reviews:', error);
     }
+  };
+
+  const fetchTrips = async () => {
+    if (!profile) return;
     
     const { data } = await supabase
       .from('trips')
@@ -88,74 +142,24 @@ export default function DriverDashboard() {
     }
   };
 
-  const startLocationSharing = async () => {
-    if (!navigator.geolocation) {
-      toast.error('Geolocation is not supported by this browser');
-      return;
-    }
-    if (!window.isSecureContext) {
-      toast.error('Location sharing requires HTTPS. Please use a secure connection.');
-      return;
-    }
-    if (!user?.id) {
-      toast.error('Please sign in as a driver to share location');
-      return;
-    }
-
-    setIsSharing(true);
-    
-    const updateLocation = async (position: GeolocationPosition) => {
-      const { latitude, longitude } = position.coords;
-      try {
-        const { error } = await supabase
-          .from('driver_locations')
-          .insert({
-            driver_id: user?.id,
-            latitude,
-            longitude,
-            heading: position.coords.heading,
-            speed: position.coords.speed,
-          });
-        if (error) throw error;
-      } catch (err) {
-        console.error('Failed to update location:', err);
-        toast.error('Failed to update location');
-        setIsSharing(false);
-      }
-    };
-
-    const watchId = navigator.geolocation.watchPosition(
-      updateLocation,
-      (error) => {
-        console.error('Geolocation error:', error);
-        toast.error('Failed to get location');
-        setIsSharing(false);
-      },
-      {
-        enableHighAccuracy: true,
-        timeout: 10000,
-        maximumAge: 1000
+  const toggleLocationSharing = async () => {
+    try {
+      if (locationPublisher.sharing) {
+        await locationPublisher.stop();
+        toast.success('Location sharing stopped');
+      } else {
+        await locationPublisher.start();
+        toast.success('Location sharing started');
       }
-    );
-
-    toast.success('Location sharing started');
-    
-    // Store watch ID to stop later if needed
-    (window as any).locationWatchId = watchId;
-  };
-
-  const stopLocationSharing = () => {
-    if ((window as any).locationWatchId) {
-      navigator.geolocation.clearWatch((window as any).locationWatchId);
-      delete (window as any).locationWatchId;
+    } catch (error) {
+      toast.error(error.message || 'Could not share location');
     }
-    setIsSharing(false);
-    toast.success('Location sharing stopped');
   };
 
   const updateBookingStatus = async (bookingId: string, status: 'accepted' | 'rejected') => {
     try {
       setUpdatingBookingId(bookingId);
+      // Seats are reserved/released by the database; it rejects accepts that would overbook
       const { error } = await supabase
         .from('bookings')
         .update({ status })
@@ -177,22 +181,55 @@ export default function DriverDashboard() {
       });
       
       fetchBookings();
+      fetchTrips();
     } catch (e) {
       console.error('Booking update error:', e);
-      toast.error('Failed to update booking');
+      toast.error(e.message || 'Failed to update booking');
     } finally {
       setUpdatingBookingId(null);
     }
   };
 
-  const deleteTrip = async (tripId: string) => {
+  const changeTripStatus = async (tripId: string, status: 'active' | 'completed' | 'cancelled') => {
+    try {
+      setUpdatingTripId(tripId);
+      await transitionTrip(tripId, status);
+      toast.success(TRIP_STATUS_MESSAGES[status]);
+      fetchTrips();
+      fetchBookings();
+    } catch (e) {
+      toast.error(e.message || 'Failed to update trip');
+    } finally {
+      setUpdatingTripId(null);
+    }
+  };
+
+  const openConversation = async (tripId: string, passengerId: string) => {
+    try {
+      const conversationId = await startConversation(tripId, passengerId);
+      navigate(`/messages/${conversationId}`);
+    } catch (error) {
+      toast.error(error.message || 'Could not open conversation');
+    }
+  };
+
+  const acceptedPassengers = (tripId: string) =>
+    bookings.filter(b => b.trip_id === tripId && b.status === 'accepted').length;
+
+  const deleteTrip = async (trip: Trip) => {
+    // Booked trips are cancelled with a reason instead, see CancelTripDialog
+    if (trip.status === 'scheduled' && acceptedPassengers(trip.id) > 0) {
+      setCancellingTrip(trip);
+      return;
+    }
+
     const { error } = await supabase
       .from('trips')
       .delete()
-      .eq('id', tripId);
+      .eq('id', trip.id);
     
     if (error) {
-      toast.error('Failed to delete trip');
+      toast.error(error.message || 'Failed to delete trip');
     } else {
       toast.success('Trip deleted successfully');
       fetchTrips();
@@ -207,13 +244,6 @@ export default function DriverDashboard() {
     };
   };
 
-  const deriveTripStatus = (trip: Trip): Trip['status'] => {
-    if (trip.status === 'completed' || trip.status === 'cancelled') return trip.status;
-    const now = new Date();
-    const dep = new Date(trip.departure_time);
-    return dep <= now ? 'active' : 'scheduled';
-  };
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'active':
@@ -263,11 +293,11 @@ export default function DriverDashboard() {
           
           <div className="flex gap-3">
             <Button
-              variant={isSharing ? "destructive" : "success"}
-              onClick={isSharing ? stopLocationSharing : startLocationSharing}
+              variant={locationPublisher.sharing ? "destructive" : "success"}
+              onClick={toggleLocationSharing}
             >
               <Navigation className="h-4 w-4 mr-2" />
-              {isSharing ? 'Stop Sharing' : 'Share Location'}
+              {locationPublisher.sharing ? 'Stop Sharing' : 'Share Location'}
             </Button>
             
             <div className="flex gap-2">
@@ -303,7 +333,7 @@ export default function DriverDashboard() {
                 <div>
                   <p className="text-sm text-muted-foreground">Active Trips</p>
                   <p className="text-2xl font-bold text-primary">
-                    {trips.filter(t => deriveTripStatus(t) === 'active').length}
+                    {trips.filter(t => t.status === 'active').length}
                   </p>
                 </div>
                 <Car className="h-8 w-8 text-primary" />
@@ -338,6 +368,26 @@ export default function DriverDashboard() {
           </Card>
         </div>
 
+        {profile && (
+          <NearbyRideRequests
+            driverId={profile.user_id}
+            onTripCreated={() => {
+              fetchTrips();
+              fetchBookings();
+            }}
+          />
+        )}
+
+        {profile && (
+          <TripSeriesManager
+            driverId={profile.user_id}
+            onChanged={() => {
+              fetchTrips();
+              fetchBookings();
+            }}
+          />
+        )}
+
         <div className="grid lg:grid-cols-2 gap-6">
           {/* My Trips */}
           <Card>
@@ -360,15 +410,22 @@ export default function DriverDashboard() {
                 ) : (
                   trips.map((trip) => {
                     const { date, time } = formatDateTime(trip.departure_time);
-                    const computedStatus = deriveTripStatus(trip);
                     
                     return (
                       <Card key={trip.id} className="border-border">
                         <CardContent className="p-4">
                           <div className="flex justify-between items-start mb-3">
-                            <Badge className={getStatusColor(computedStatus)}>
-                              {computedStatus}
-                            </Badge>
+                            <div className="flex gap-2">
+                              <Badge className={getStatusColor(trip.status)}>
+                                {trip.status}
+                              </Badge>
+                              {trip.series_id && (
+                                <Badge variant="outline">
+                                  <Repeat className="h-3 w-3 mr-1" />
+                                  {trip.series_detached ? 'Edited date' : 'Repeats'}
+                                </Badge>
+                              )}
+                            </div>
                             {trip.price_per_seat != null && (
                                <div className="flex items-center text-sm font-medium text-primary">
                                  {formatINR(Number(trip.price_per_seat))}
@@ -396,13 +453,52 @@ export default function DriverDashboard() {
                             </div>
                           </div>
 
+                          {trip.status === 'scheduled' && (
+                            <Button
+                              size="sm"
+                              variant="success"
+                              className="w-full mt-3"
+                              onClick={() => changeTripStatus(trip.id, 'active')}
+                              disabled={updatingTripId === trip.id}
+                            >
+                              <Play className="h-3 w-3 mr-1" />
+                              Start Trip
+                            </Button>
+                          )}
+                          {trip.status === 'active' && (
+                            <Button
+                              size="sm"
+                              variant="success"
+                              className="w-full mt-3"
+                              onClick={() => changeTripStatus(trip.id, 'completed')}
+                              disabled={updatingTripId === trip.id}
+                            >
+                              <CheckCircle className="h-3 w-3 mr-1" />
+                              Complete Trip
+                            </Button>
+                          )}
+
                           <div className="flex gap-2 mt-3">
-                            <Link to={`/create-trip?edit=${trip.id}`} className="flex-1">
-                              <Button size="sm" variant="outline" className="w-full">
-                                <Settings className="h-3 w-3 mr-1" />
-                                Edit
+                            {trip.status === 'scheduled' && (
+                              <Link to={`/create-trip?edit=${trip.id}`} className="flex-1">
+                                <Button size="sm" variant="outline" className="w-full">
+                                  <Settings className="h-3 w-3 mr-1" />
+                                  {trip.series_id ? 'Edit Date' : 'Edit'}
+                                </Button>
+                              </Link>
+                            )}
+                            {trip.status === 'scheduled' && trip.series_id && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => acceptedPassengers(trip.id) > 0
+                                  ? setCancellingTrip(trip)
+                                  : changeTripStatus(trip.id, 'cancelled')}
+                                disabled={updatingTripId === trip.id}
+                              >
+                                Cancel Date
                               </Button>
-                            </Link>
+                            )}
                             <Link to={`/trip/${trip.id}`} className="flex-1">
                               <Button size="sm" className="w-full">
                                 View Details
@@ -411,9 +507,9 @@ export default function DriverDashboard() {
                             <Button 
                               size="sm" 
                               variant="destructive"
-                              onClick={() => deleteTrip(trip.id)}
+                              onClick={() => deleteTrip(trip)}
                             >
-                              Delete
+                              {trip.status === 'scheduled' && acceptedPassengers(trip.id) > 0 ? 'Cancel' : 'Delete'}
                             </Button>
                           </div>
                         </CardContent>
@@ -445,6 +541,8 @@ export default function DriverDashboard() {
                     const trip = (booking as any).trips;
                     const passenger = (booking as any).profiles;
                     const tripDateTime = trip ? formatDateTime(trip.departure_time) : null;
+                    const rating = ratings[booking.passenger_id];
+                    const reviewed = reviewedKeys.has(`${booking.trip_id}:${booking.passenger_id}`);
                     
                     return (
                       <Card key={booking.id} className="border-border">
@@ -452,8 +550,19 @@ export default function DriverDashboard() {
                           <div className="flex justify-between items-start mb-3">
                             <div>
                               <p className="font-medium">{passenger?.full_name}</p>
+                              <RatingBadge
+                                average={rating?.passenger_average_score}
+                                count={rating?.passenger_review_count}
+                                className="text-xs"
+                              />
                               <p className="text-sm text-muted-foreground">
                                 {booking.seats_requested} seat{booking.seats_requested > 1 ? 's' : ''}
+                                {booking.instant_booked && (
+                                  <span className="inline-flex items-center ml-2">
+                                    <Zap className="h-3 w-3 mr-1" />
+                                    Instant booking
+                                  </span>
+                                )}
                               </p>
                             </div>
                             <Badge className={getBookingStatusColor(booking.status)}>
@@ -470,6 +579,14 @@ export default function DriverDashboard() {
                                   <MapPin className="h-3 w-3 text-muted-foreground" />
                                   <span>{trip.start_location} → {trip.destination}</span>
                                 </div>
+                                {(booking.pickup_name || booking.dropoff_name) && (
+                                  <div className="text-sm text-muted-foreground">
+                                    {booking.pickup_name && `Pickup: ${booking.pickup_name}`}
+                                    {booking.pickup_name && booking.dropoff_name && ' · '}
+                                    {booking.dropoff_name && `Drop-off: ${booking.dropoff_name}`}
+                                  </div>
+                                )}
+                                {booking.status === 'pending' && <PickupDetourNote booking={booking} />}
                                 {tripDateTime && (
                                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                                     <Clock className="h-3 w-3" />
@@ -500,6 +617,33 @@ export default function DriverDashboard() {
                             </div>
                           )}
 
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openConversation(booking.trip_id, booking.passenger_id)}
+                          className="w-full mb-2"
+                        >
+                          <MessageSquare className="h-3 w-3 mr-1" />
+                          Message Passenger
+                        </Button>
+
+                        {booking.status === 'accepted' && trip?.status === 'completed' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setReviewTarget({
+                              tripId: booking.trip_id,
+                              passengerId: booking.passenger_id,
+                              name: passenger?.full_name || 'Passenger'
+                            })}
+                            className="w-full mb-2"
+                            disabled={reviewed}
+                          >
+                            <Star className="h-3 w-3 mr-1" />
+                            {reviewed ? 'Passenger Reviewed' : 'Rate Passenger'}
+                          </Button>
+                        )}
+
                         {booking.status === 'pending' && (
                           <div className="flex gap-2">
                             <Button
@@ -532,6 +676,28 @@ export default function DriverDashboard() {
           </Card>
         </div>
       </div>
+
+      <CancelTripDialog
+        trip={cancellingTrip}
+        passengerCount={cancellingTrip ? acceptedPassengers(cancellingTrip.id) : 0}
+        onOpenChange={(open) => !open && setCancellingTrip(null)}
+        onCancelled={() => {
+          fetchTrips();
+          fetchBookings();
+        }}
+      />
+
+      {reviewTarget && (
+        <ReviewDialog
+          open={!!reviewTarget}
+          onOpenChange={(open) => !open && setReviewTarget(null)}
+          tripId={reviewTarget.tripId}
+          revieweeId={reviewTarget.passengerId}
+          revieweeName={reviewTarget.name}
+          revieweeRole="passenger"
+          onSubmitted={fetchReviewedKeys}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { EnhancedMapComponent } from '@/components/map/EnhancedMapComponent';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -6,7 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { supabase } from '@/integrations/supabase/client';
-import { Trip, Profile, DriverLocation } from '@/types';
+import { Trip, Profile, DriverLocation, MapViewport, RideRequest } from '@/types';
 import { 
   MapPin, 
   Clock, 
@@ -14,9 +14,18 @@ import {
   Search,
   Filter,
   Car,
-  IndianRupee
+  IndianRupee,
+  Hand
 } from 'lucide-react';
 import { formatINR } from '@/lib/utils';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { NEARBY_RADIUS_OPTIONS_KM, fetchNearbyTrips } from '@/lib/nearby-trips';
+import { formatDistance } from '@/lib/trip-routes';
+import { NearbyRideRequestDetails, describeWindow, fetchNearbyRideRequests } from '@/lib/ride-requests';
+import { useAuth } from '@/contexts/AuthContext';
+import { RideOfferDialog } from '@/components/ride-requests/RideOfferDialog';
+
+type SearchArea = 'nearby' | 'viewport';
 
 export default function Map() {
   const [trips, setTrips] = useState<Trip[]>([]);
@@ -27,7 +36,15 @@ export default function Map() {
   const [loading, setLoading] = useState(true);
   const [contactModalOpen, setContactModalOpen] = useState(false);
   const [userCenter, setUserCenter] = useState<[number, number] | null>(null);
+  const [searchArea, setSearchArea] = useState<SearchArea>('nearby');
+  const [radiusKm, setRadiusKm] = useState(10);
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
+  const [distances, setDistances] = useState<Record<string, number>>({});
+  const [rideRequests, setRideRequests] = useState<NearbyRideRequestDetails[]>([]);
+  const [offering, setOffering] = useState<RideRequest | null>(null);
   const navigate = useNavigate();
+  const { profile } = useAuth();
+  const isDriver = profile?.role === 'driver';
 
   useEffect(() => {
     if (!navigator.geolocation) return;
@@ -38,9 +55,63 @@ export default function Map() {
     );
   }, []);
 
+  // Without a location fix "near me" has no centre, so fall back to the map area
+  const area: SearchArea = searchArea === 'nearby' && !userCenter ? 'viewport' : searchArea;
+
+  const fetchTrips = async () => {
+    const options = area === 'nearby' && userCenter
+      ? { center: userCenter, radiusKm }
+      : viewport
+        ? { viewport }
+        : null;
+    if (!options) return;
+
+    try {
+      // Drivers also see passengers asking for a ride in the same area
+      if (isDriver) {
+        fetchNearbyRideRequests(options)
+          .then(setRideRequests)
+          .catch(error => console.error('Error fetching ride requests:', error));
+      }
+
+      const nearby = await fetchNearbyTrips(options);
+      const { data, error } = nearby.length === 0
+        ? { data: [], error: null }
+        : await supabase
+            .from('trips')
+            .select(`
+              *,
+              profiles:driver_id (
+                full_name,
+                phone
+              )
+            `)
+            .in('id', nearby.map(item => item.trip_id));
+      if (error) throw error;
+
+      const byId = Object.fromEntries(nearby.map(item => [item.trip_id, item.distance_meters]));
+      setDistances(byId);
+      setTrips((data || []).sort((a, b) => byId[a.id] - byId[b.id]));
+    } catch (error) {
+      console.error('Error fetching nearby trips:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Live updates re-run whatever query is current without resubscribing
+  const fetchTripsRef = useRef(fetchTrips);
+  fetchTripsRef.current = fetchTrips;
+
+  // Panning only matters when searching the visible area
+  const activeViewport = area === 'viewport' ? viewport : null;
+
   useEffect(() => {
+    setLoading(true);
     fetchTrips();
-    
+  }, [area, radiusKm, userCenter, activeViewport, isDriver]);
+
+  useEffect(() => {
     // Subscribe to real-time trip updates
     const tripChannel = supabase
       .channel('trips-updates')
@@ -52,7 +123,7 @@ export default function Map() {
           table: 'trips'
         },
         () => {
-          fetchTrips();
+          fetchTripsRef.current();
         }
       )
       .subscribe();
@@ -62,26 +133,6 @@ export default function Map() {
     };
   }, []);
 
-  const fetchTrips = async () => {
-    setLoading(true);
-    const { data } = await supabase
-      .from('trips')
-      .select(`
-        *,
-        profiles:driver_id (
-          full_name,
-          phone
-        )
-      `)
-      .in('status', ['scheduled', 'active'])
-      .order('departure_time', { ascending: true });
-    
-    if (data) {
-      setTrips(data);
-    }
-    setLoading(false);
-  };
-
   const filteredTrips = trips.filter(trip =>
     trip.start_location.toLowerCase().includes(searchQuery.toLowerCase()) ||
     trip.destination.toLowerCase().includes(searchQuery.toLowerCase())
@@ -127,10 +178,45 @@ export default function Map() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant={area === 'nearby' ? 'default' : 'outline'}
+                    disabled={!userCenter}
+                    onClick={() => setSearchArea('nearby')}
+                    className="flex-1"
+                  >
+                    Near me
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={area === 'viewport' ? 'default' : 'outline'}
+                    onClick={() => setSearchArea('viewport')}
+                    className="flex-1"
+                  >
+                    Map area
+                  </Button>
+                </div>
+
+                {area === 'nearby' && (
+                  <Select value={String(radiusKm)} onValueChange={(value) => setRadiusKm(Number(value))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {NEARBY_RADIUS_OPTIONS_KM.map(km => (
+                        <SelectItem key={km} value={String(km)}>
+                          Departing within {km} km
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
                 <div className="relative">
                   <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                   <Input
-                    placeholder="Search by location..."
+                    placeholder="Filter by location..."
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
                     className="pl-10"
@@ -165,11 +251,18 @@ export default function Map() {
                               <Badge className={getStatusColor(trip.status)}>
                                 {trip.status === 'active' ? 'Live' : 'Scheduled'}
                               </Badge>
-                              {trip.price_per_seat != null && (
-                                <div className="flex items-center text-sm font-medium text-primary">
-                                  {formatINR(Number(trip.price_per_seat))}
-                                </div>
-                              )}
+                              <div className="text-right">
+                                {trip.price_per_seat != null && (
+                                  <div className="text-sm font-medium text-primary">
+                                    {formatINR(Number(trip.price_per_seat))}
+                                  </div>
+                                )}
+                                {distances[trip.id] != null && (
+                                  <div className="text-xs text-muted-foreground">
+                                    {formatDistance(distances[trip.id])} away
+                                  </div>
+                                )}
+                              </div>
                             </div>
 
                             <div className="space-y-2">
@@ -217,6 +310,41 @@ export default function Map() {
                 </div>
               </CardContent>
             </Card>
+
+            {isDriver && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Hand className="h-5 w-5" />
+                    Ride Requests
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {rideRequests.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No open ride requests in this area</p>
+                  ) : (
+                    <div className="space-y-3 max-h-[400px] overflow-y-auto">
+                      {rideRequests.map((request) => (
+                        <div key={request.id} className="p-3 rounded-lg border border-border space-y-2">
+                          <div className="text-sm">
+                            <div className="font-medium">{request.start_location}</div>
+                            <div className="text-muted-foreground">to {request.destination}</div>
+                          </div>
+                          <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+                            <span>{describeWindow(request)}</span>
+                            <span>{request.seats} seat{request.seats !== 1 ? 's' : ''}</span>
+                            <span>{formatDistance(request.distance_meters)} away</span>
+                          </div>
+                          <Button size="sm" className="w-full" onClick={() => setOffering(request)}>
+                            Make Offer
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Map */}
@@ -226,7 +354,11 @@ export default function Map() {
                 <EnhancedMapComponent
                   className="h-full rounded-lg"
                   showDrivers={true}
+                  trips={trips}
                   selectedTrip={selectedTrip}
+                  rideRequests={isDriver ? rideRequests : undefined}
+                  onRideRequestClick={isDriver ? setOffering : undefined}
+                  onViewportChange={setViewport}
                   center={userCenter || [20.5937, 78.9629]} // Default to India
                   zoom={userCenter ? 13 : 5}
                 />
@@ -302,6 +434,12 @@ export default function Map() {
             </CardContent>
           </Card>
         )}
+
+        <RideOfferDialog
+          request={offering}
+          onOpenChange={(open) => !open && setOffering(null)}
+          onSubmitted={() => fetchTripsRef.current()}
+        />
       </div>
     </div>
   );
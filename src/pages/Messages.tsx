@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { MessageThread } from '@/components/messaging/MessageThread';
+import { supabase } from '@/integrations/supabase/client';
+import { MessageCircle, MapPin } from 'lucide-react';
+
+interface ConversationSummary {
+  id: string;
+  driver_id: string;
+  passenger_id: string;
+  last_message_at: string | null;
+  created_at: string;
+  trips: { start_location: string; destination: string } | null;
+  driver: { full_name: string } | null;
+  passenger: { full_name: string } | null;
+}
+
+export default function Messages() {
+  const { conversationId } = useParams<{ conversationId: string }>();
+  const { user } = useAuth();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [unreadByConversation, setUnreadByConversation] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchConversations = async () => {
+      const [{ data }, { data: unread }] = await Promise.all([
+        supabase
+          .from('conversations')
+          .select(`
+            id,
+            driver_id,
+            passenger_id,
+            last_message_at,
+            created_at,
+            trips(start_location, destination),
+            driver:profiles!conversations_driver_id_fkey(full_name),
+            passenger:profiles!conversations_passenger_id_fkey(full_name)
+          `)
+          .order('last_message_at', { ascending: false, nullsFirst: false }),
+        supabase
+          .from('messages')
+          .select('conversation_id')
+          .is('read_at', null)
+          .neq('sender_id', user.id)
+      ]);
+
+      if (data) {
+        setConversations(data as ConversationSummary[]);
+      }
+      setUnreadByConversation(
+        (unread || []).reduce((acc: Record<string, number>, row) => {
+          acc[row.conversation_id] = (acc[row.conversation_id] || 0) + 1;
+          return acc;
+        }, {})
+      );
+      setLoading(false);
+    };
+
+    fetchConversations();
+
+    const channel = supabase
+      .channel('conversation-list')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'messages' },
+        () => fetchConversations()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, conversationId]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">Messages</h1>
+          <p className="text-muted-foreground">
+            Coordinate pickups and trip details with your driver or passengers
+          </p>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MessageCircle className="h-5 w-5" />
+                Conversations
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 max-h-[600px] overflow-y-auto">
+              {loading ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                </div>
+              ) : conversations.length === 0 ? (
+                <div className="text-center py-8">
+                  <MessageCircle className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
+                  <p className="text-muted-foreground">No conversations yet</p>
+                </div>
+              ) : (
+                conversations.map((conversation) => {
+                  const other = user?.id === conversation.driver_id ? conversation.passenger : conversation.driver;
+                  const unread = unreadByConversation[conversation.id] || 0;
+
+                  return (
+                    <Link key={conversation.id} to={`/messages/${conversation.id}`}>
+                      <div
+                        className={`p-3 rounded-lg border transition-colors hover:bg-accent/50 ${
+                          conversation.id === conversationId ? 'border-primary bg-accent/30' : 'border-border'
+                        }`}
+                      >
+                        <div className="flex justify-between items-center">
+                          <span className="font-medium">{other?.full_name || 'Unknown'}</span>
+                          {unread > 0 && <Badge>{unread}</Badge>}
+                        </div>
+                        {conversation.trips && (
+                          <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                            <MapPin className="h-3 w-3" />
+                            <span className="truncate">
+                              {conversation.trips.start_location} → {conversation.trips.destination}
+                            </span>
+                          </div>
+                        )}
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {new Date(conversation.last_message_at || conversation.created_at).toLocaleString()}
+                        </div>
+                      </div>
+                    </Link>
+                  );
+                })
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="lg:col-span-2">
+            {conversationId ? (
+              <MessageThread conversationId={conversationId} />
+            ) : (
+              <Card>
+                <CardContent className="text-center py-16">
+                  <MessageCircle className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">Select a conversation to start chatting</p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,20 @@
 import { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { Trip, Booking } from '@/types';
 import { 
@@ -15,24 +25,57 @@ import {
   DollarSign,
   MessageSquare,
   Navigation,
-  Calendar
+  Calendar,
+  Star
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { startConversation } from '@/lib/messaging';
+import { fetchMyReviewKeys } from '@/lib/reviews';
+import { ReviewDialog } from '@/components/reviews/ReviewDialog';
+import { PickupCode } from '@/components/bookings/PickupCode';
+import { BookingPayment } from '@/components/bookings/BookingPayment';
+import { SavedSearchManager } from '@/components/search/SavedSearchManager';
+import { RideRequestManager } from '@/components/ride-requests/RideRequestManager';
+import { useLocationPublisher } from '@/hooks/use-location-publisher';
+import { useCancellationPolicies } from '@/hooks/use-cancellation-policies';
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  cancelBooking as cancelBookingRequest,
+  describeCancellationPolicy,
+  freeCancellationDeadline,
+  isLateCancellation
+} from '@/lib/cancellation';
 
 export default function PassengerDashboard() {
   const { profile, user } = useAuth();
+  const navigate = useNavigate();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [searchFrom, setSearchFrom] = useState('');
   const [searchTo, setSearchTo] = useState('');
   const [loading, setLoading] = useState(true);
-  const [isSharing, setIsSharing] = useState(false);
+  const locationPublisher = useLocationPublisher();
+  const [reviewedKeys, setReviewedKeys] = useState<Set<string>>(new Set());
+  const [reviewTarget, setReviewTarget] = useState<{ tripId: string; driverId: string; name: string } | null>(null);
+  // Accepted booking waiting for the passenger to confirm the cancellation
+  const [confirmingCancel, setConfirmingCancel] = useState<{ booking: Booking; trip: Trip } | null>(null);
+  const policies = useCancellationPolicies();
 
   useEffect(() => {
     if (profile) {
       fetchBookings();
+      fetchReviewedKeys();
     }
   }, [profile]);
 
+  const fetchReviewedKeys = async () => {
+    if (!profile) return;
+    try {
+      setReviewedKeys(await fetchMyReviewKeys(profile.user_id));
+    } catch (error) {
+      console.warn('Failed to load reviews:', error);
+    }
+  };
+
   const fetchBookings = async () => {
     if (!profile) return;
     
@@ -42,7 +85,8 @@ export default function PassengerDashboard() {
         *,
         trips(
           *,
-          profiles:driver_id(full_name, phone)
+          profiles:driver_id(full_name, phone),
+          trip_stops(position, name)
         )
       `)
       .eq('passenger_id', profile.user_id)
@@ -55,82 +99,43 @@ export default function PassengerDashboard() {
   };
 
   const cancelBooking = async (bookingId: string) => {
-    const { error } = await supabase
-      .from('bookings')
-      .update({ status: 'cancelled' })
-      .eq('id', bookingId);
-    
-    if (error) {
-      toast.error('Failed to cancel booking');
-    } else {
-      toast.success('Booking cancelled');
+    try {
+      const cancelled = await cancelBookingRequest(bookingId);
+      toast.success(cancelled.late_cancellation
+        ? 'Booking cancelled. This was recorded as a late cancellation.'
+        : 'Booking cancelled');
       fetchBookings();
+    } catch (error) {
+      toast.error(error.message || 'Failed to cancel booking');
     }
   };
 
-  const startLocationSharing = async () => {
-    if (!navigator.geolocation) {
-      toast.error('Geolocation is not supported by this browser');
-      return;
-    }
-    if (!window.isSecureContext) {
-      toast.error('Location sharing requires HTTPS. Please use a secure connection.');
-      return;
-    }
-    if (!user?.id) {
-      toast.error('Please sign in to share location');
-      return;
-    }
+  const confirmingTrip = confirmingCancel?.trip;
+  const confirmingPolicy = confirmingTrip
+    ? policies[confirmingTrip.cancellation_policy || DEFAULT_CANCELLATION_POLICY]
+    : undefined;
 
-    setIsSharing(true);
-    
-    const updateLocation = async (position: GeolocationPosition) => {
-      const { latitude, longitude } = position.coords;
-      try {
-        const { error } = await supabase
-          .from('passenger_locations')
-          .insert({
-            passenger_id: user?.id,
-            latitude,
-            longitude,
-            heading: position.coords.heading,
-            speed: position.coords.speed,
-          });
-        if (error) throw error;
-      } catch (err) {
-        console.error('Failed to update location:', err);
-        toast.error('Failed to update location');
-        setIsSharing(false);
-      }
-    };
-
-    const watchId = navigator.geolocation.watchPosition(
-      updateLocation,
-      (error) => {
-        console.error('Geolocation error:', error);
-        toast.error('Failed to get location');
-        setIsSharing(false);
-      },
-      {
-        enableHighAccuracy: true,
-        timeout: 10000,
-        maximumAge: 1000
-      }
-    );
-
-    toast.success('Location sharing started');
-    
-    // Store watch ID to stop later if needed
-    (window as any).locationWatchId = watchId;
+  const openConversation = async (tripId: string) => {
+    try {
+      const conversationId = await startConversation(tripId);
+      navigate(`/messages/${conversationId}`);
+    } catch (error) {
+      toast.error(error.message || 'Could not open conversation');
+    }
   };
 
-  const stopLocationSharing = () => {
-    if ((window as any).locationWatchId) {
-      navigator.geolocation.clearWatch((window as any).locationWatchId);
-      delete (window as any).locationWatchId;
+  const toggleLocationSharing = async () => {
+    try {
+      if (locationPublisher.sharing) {
+        await locationPublisher.stop();
+        toast.success('Location sharing stopped');
+      } else {
+        await locationPublisher.start();
+        toast.success('Location sharing started');
+      }
+    } catch (error) {
+      toast.error(error.message || 'Could not share location');
     }
-    setIsSharing(false);
-    toast.success('Location sharing stopped');
   };
 
   const handleSearch = () => {
@@ -202,11 +207,11 @@ export default function PassengerDashboard() {
           
           <div className="flex gap-3">
             <Button
-              variant={isSharing ? "destructive" : "success"}
-              onClick={isSharing ? stopLocationSharing : startLocationSharing}
+              variant={locationPublisher.sharing ? "destructive" : "success"}
+              onClick={toggleLocationSharing}
             >
               <Navigation className="h-4 w-4 mr-2" />
-              {isSharing ? 'Stop Sharing' : 'Share Location'}
+              {locationPublisher.sharing ? 'Stop Sharing' : 'Share Location'}
             </Button>
             
             <Link to="/map">
@@ -317,6 +322,10 @@ export default function PassengerDashboard() {
           </Card>
         </div>
 
+        {profile && <SavedSearchManager passengerId={profile.user_id} />}
+
+        {profile && <RideRequestManager passengerId={profile.user_id} />}
+
         {/* My Bookings */}
         <Card>
           <CardHeader>
@@ -346,6 +355,15 @@ export default function PassengerDashboard() {
                   const trip = (booking as any).trips;
                   const driver = trip?.profiles;
                   const { date, time } = formatDateTime(trip?.departure_time || '');
+                  // Booking stop numbers index into start, stops in order, destination
+                  const routeNames: string[] = [
+                    trip?.start_location,
+                    ...[...(trip?.trip_stops || [])]
+                      .sort((a, b) => a.position - b.position)
+                      .map(stop => stop.name),
+                    trip?.destination
+                  ];
+                  const farePerSeat = booking.fare_per_seat ?? trip?.price_per_seat;
                   
                   return (
                     <Card key={booking.id} className="border-border">
@@ -360,22 +378,51 @@ export default function PassengerDashboard() {
                                 Trip {trip.status}
                               </Badge>
                             )}
+                            {booking.status === 'accepted' && booking.picked_up_at && trip?.status === 'active' && (
+                              <Badge variant="outline">On board</Badge>
+                            )}
+                            {booking.late_cancellation && (
+                              <Badge variant="outline">Late cancellation</Badge>
+                            )}
                           </div>
-                          {trip?.price_per_seat && (
+                          {farePerSeat && (
                             <div className="flex items-center text-lg font-semibold text-primary">
                               <DollarSign className="h-4 w-4" />
-                              {trip.price_per_seat * booking.seats_requested}
+                              {farePerSeat * booking.seats_requested}
                             </div>
                           )}
                         </div>
 
+                        {booking.status === 'accepted' && !booking.picked_up_at
+                          && (trip?.status === 'scheduled' || trip?.status === 'active') && (
+                          <PickupCode bookingId={booking.id} onPickedUp={fetchBookings} className="mb-4" />
+                        )}
+
+                        {!!farePerSeat && booking.status !== 'pending' && booking.status !== 'rejected' && (
+                          <BookingPayment
+                            bookingId={booking.id}
+                            amount={farePerSeat * booking.seats_requested}
+                            canPay={booking.status === 'accepted' && (trip?.status === 'scheduled' || trip?.status === 'active')}
+                            description={`${trip?.start_location} → ${trip?.destination}`}
+                            className="mb-4"
+                          />
+                        )}
+
+                        {trip?.status === 'cancelled' && trip.cancellation_reason && (
+                          <p className="mb-4 p-3 rounded-lg bg-muted/50 text-sm">
+                            <span className="font-medium">Driver's reason for cancelling:</span> {trip.cancellation_reason}
+                          </p>
+                        )}
+
                         <div className="grid md:grid-cols-2 gap-6">
                           <div className="space-y-3">
                             <div>
                               <h4 className="font-semibold mb-1">Route</h4>
                               <div className="flex items-center gap-2 text-sm">
                                 <MapPin className="h-4 w-4 text-muted-foreground" />
-                                <span>{trip?.start_location} → {trip?.destination}</span>
+                                <span>
+                                  {routeNames[booking.from_stop ?? 0]} → {routeNames[booking.to_stop ?? routeNames.length - 1]}
+                                </span>
                               </div>
                             </div>
 
@@ -414,7 +461,7 @@ export default function PassengerDashboard() {
                               </div>
                             )}
 
-                            <div className="flex gap-2 pt-2">
+                            <div className="flex flex-wrap gap-2 pt-2">
                               {booking.status === 'pending' && (
                                 <Button
                                   size="sm"
@@ -425,6 +472,14 @@ export default function PassengerDashboard() {
                                   Cancel Request
                                 </Button>
                               )}
+
+                              {booking.status === 'pending' && trip?.status === 'scheduled' && (
+                                <Link to={`/trip/${trip.id}`} className="flex-1">
+                                  <Button size="sm" variant="outline" className="w-full">
+                                    Change Request
+                                  </Button>
+                                </Link>
+                              )}
                               
                               {booking.status === 'accepted' && trip && (
                                 <Link to={`/trip/${trip.id}`} className="flex-1">
@@ -433,6 +488,46 @@ export default function PassengerDashboard() {
                                   </Button>
                                 </Link>
                               )}
+
+                              {trip && (booking.status === 'pending' || booking.status === 'accepted') && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => openConversation(trip.id)}
+                                  className="flex-1"
+                                >
+                                  <MessageSquare className="h-4 w-4 mr-1" />
+                                  Message Driver
+                                </Button>
+                              )}
+
+                              {booking.status === 'accepted' && trip?.status === 'completed' && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setReviewTarget({
+                                    tripId: trip.id,
+                                    driverId: trip.driver_id,
+                                    name: driver?.full_name || 'Driver'
+                                  })}
+                                  className="flex-1"
+                                  disabled={reviewedKeys.has(`${trip.id}:${trip.driver_id}`)}
+                                >
+                                  <Star className="h-4 w-4 mr-1" />
+                                  {reviewedKeys.has(`${trip.id}:${trip.driver_id}`) ? 'Driver Reviewed' : 'Rate Driver'}
+                                </Button>
+                              )}
+
+                              {booking.status === 'accepted' && trip?.status === 'scheduled' && (
+                                <Button
+                                  size="sm"
+                                  variant="destructive"
+                                  onClick={() => setConfirmingCancel({ booking, trip })}
+                                  className="flex-1"
+                                >
+                                  Cancel Booking
+                                </Button>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -445,6 +540,48 @@ export default function PassengerDashboard() {
           </CardContent>
         </Card>
       </div>
+
+      <AlertDialog open={!!confirmingCancel} onOpenChange={(open) => !open && setConfirmingCancel(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this booking?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmingPolicy && confirmingTrip && (
+                isLateCancellation(confirmingTrip.departure_time, confirmingPolicy)
+                  ? `Free cancellation ended ${freeCancellationDeadline(confirmingTrip.departure_time, confirmingPolicy).toLocaleString()}. ` +
+                    'Cancelling now will count as a late cancellation on your profile' +
+                    (confirmingTrip.price_per_seat
+                      ? ` and you'll get ${confirmingPolicy.late_refund_percent}% of any payment back.`
+                      : '.')
+                  : `${describeCancellationPolicy(confirmingPolicy)}, so you can still cancel without penalty` +
+                    (confirmingTrip.price_per_seat ? ' and get any payment back in full.' : '.')
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Booking</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (confirmingCancel) cancelBooking(confirmingCancel.booking.id);
+              }}
+            >
+              Cancel Booking
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {reviewTarget && (
+        <ReviewDialog
+          open={!!reviewTarget}
+          onOpenChange={(open) => !open && setReviewTarget(null)}
+          tripId={reviewTarget.tripId}
+          revieweeId={reviewTarget.driverId}
+          revieweeName={reviewTarget.name}
+          revieweeRole="driver"
+          onSubmitted={fetchReviewedKeys}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -5,18 +5,33 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { User, Mail, Phone, Car, Save } from 'lucide-react';
+import { User, Mail, Phone, Car, Save, Star, ShieldCheck } from 'lucide-react';
 import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { RatingBadge } from '@/components/reviews/RatingBadge';
+import { VehicleManager } from '@/components/vehicles/VehicleManager';
+import { InstantBookSettings } from '@/components/driver/InstantBookSettings';
+import { PhoneVerificationDialog } from '@/components/profile/PhoneVerificationDialog';
+import { useProfileRatings } from '@/hooks/use-profile-ratings';
+import { Review } from '@/types';
+
+interface ReceivedReview extends Review {
+  reviewer: { full_name: string } | null;
+}
 
 export default function Profile() {
-  const { profile, updateProfile } = useAuth();
+  const { profile, updateProfile, refreshProfile } = useAuth();
   const [loading, setLoading] = useState(false);
+  const [verifyingPhone, setVerifyingPhone] = useState(false);
   const [formData, setFormData] = useState({
     full_name: '',
     email: '',
     phone: '',
     role: 'passenger' as 'driver' | 'passenger'
   });
+  const [reviews, setReviews] = useState<ReceivedReview[]>([]);
+  const rating = useProfileRatings([profile?.user_id || ''])[profile?.user_id || ''];
 
   useEffect(() => {
     if (profile) {
@@ -29,6 +44,21 @@ export default function Profile() {
     }
   }, [profile]);
 
+  useEffect(() => {
+    if (!profile) return;
+
+    const fetchReviews = async () => {
+      const { data } = await supabase
+        .from('reviews')
+        .select('*, reviewer:profiles!reviews_reviewer_id_fkey(full_name)')
+        .eq('reviewee_id', profile.user_id)
+        .order('created_at', { ascending: false })
+        .limit(5);
+      setReviews((data || []) as ReceivedReview[]);
+    };
+    fetchReviews();
+  }, [profile]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -129,19 +159,37 @@ export default function Profile() {
                 {/* Phone */}
                 <div className="space-y-2">
                   <Label htmlFor="phone">Phone Number</Label>
-                  <div className="relative">
-                    <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="phone"
-                      type="tel"
-                      placeholder="Your phone number"
-                      value={formData.phone}
-                      onChange={(e) => handleInputChange('phone', e.target.value)}
-                      className="pl-10"
-                    />
+                  <div className="flex gap-2">
+                    <div className="relative flex-1">
+                      <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        id="phone"
+                        type="tel"
+                        placeholder="Your phone number"
+                        value={formData.phone}
+                        onChange={(e) => handleInputChange('phone', e.target.value)}
+                        className="pl-10"
+                      />
+                    </div>
+                    {profile.phone_verified_at && formData.phone === (profile.phone || '') ? (
+                      <Badge variant="secondary" className="self-center">
+                        <ShieldCheck className="h-3 w-3 mr-1" />
+                        Verified
+                      </Badge>
+                    ) : (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        disabled={!formData.phone}
+                        onClick={() => setVerifyingPhone(true)}
+                      >
+                        Verify
+                      </Button>
+                    )}
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    Phone number will be shared with trip participants when bookings are confirmed
+                    Phone number will be shared with trip participants when bookings are confirmed.
+                    Some drivers only accept instant bookings from verified numbers.
                   </p>
                 </div>
 
@@ -199,6 +247,24 @@ export default function Profile() {
                         <p className="text-muted-foreground">Current role</p>
                         <p className="font-medium capitalize">{profile.role}</p>
                       </div>
+                      <div>
+                        <p className="text-muted-foreground">Rating as driver</p>
+                        <RatingBadge
+                          average={rating?.driver_average_score}
+                          count={rating?.driver_review_count}
+                        />
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Rating as passenger</p>
+                        <RatingBadge
+                          average={rating?.passenger_average_score}
+                          count={rating?.passenger_review_count}
+                        />
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Late cancellations</p>
+                        <p className="font-medium">{profile.late_cancellations ?? 0}</p>
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
@@ -217,6 +283,65 @@ export default function Profile() {
             </CardContent>
           </Card>
 
+          {profile.role === 'driver' && <VehicleManager driverId={profile.user_id} />}
+
+          {profile.role === 'driver' && <InstantBookSettings driverId={profile.user_id} />}
+
+          <PhoneVerificationDialog
+            open={verifyingPhone}
+            onOpenChange={setVerifyingPhone}
+            phone={formData.phone}
+            onVerified={refreshProfile}
+          />
+
+          {/* Recent Reviews */}
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Star className="h-5 w-5" />
+                Recent Reviews
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {reviews.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Reviews from people you travel with will appear here
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {reviews.map((review) => (
+                    <div key={review.id} className="border-b border-border pb-4 last:border-0 last:pb-0">
+                      <div className="flex justify-between items-center mb-1">
+                        <span className="font-medium">{review.reviewer?.full_name || 'Anonymous'}</span>
+                        <div className="flex">
+                          {[1, 2, 3, 4, 5].map((star) => (
+                            <Star
+                              key={star}
+                              className={`h-3 w-3 ${star <= review.score ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'}`}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                      <p className="text-xs text-muted-foreground mb-2">
+                        As {review.reviewee_role} · {new Date(review.created_at).toLocaleDateString()}
+                      </p>
+                      {review.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mb-2">
+                          {review.tags.map((tag) => (
+                            <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                          ))}
+                        </div>
+                      )}
+                      {review.comment && (
+                        <p className="text-sm text-muted-foreground">"{review.comment}"</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Danger Zone */}
           <Card className="mt-8 border-destructive/20">
             <CardHeader>
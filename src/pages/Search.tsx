@@ -1,48 +1,71 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useSearchParams, Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { supabase } from '@/integrations/supabase/client';
-import { Trip } from '@/types';
+import { Trip, TripSearchResult, VehicleType } from '@/types';
 import { 
   Search as SearchIcon, 
-  MapPin, 
   Clock, 
   Users, 
   Filter,
   Calendar,
-  ArrowRight
+  ArrowRight,
+  ArrowUpDown,
+  BellPlus
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { formatINR } from '@/lib/utils';
+import { RatingBadge } from '@/components/reviews/RatingBadge';
+import { useProfileRatings } from '@/hooks/use-profile-ratings';
+import { LocationAutocomplete } from '@/components/map/LocationAutocomplete';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatDistance } from '@/lib/trip-routes';
+import { VEHICLE_TYPE_LABELS } from '@/lib/vehicles';
+import { SaveSearchDialog } from '@/components/search/SaveSearchDialog';
+import {
+  EMPTY_FILTERS,
+  TRIP_SORT_LABELS,
+  TripSearchFilters,
+  TripSort,
+  filtersFromParams,
+  filtersToParams,
+  searchTrips
+} from '@/lib/trip-search';
+
+const DETOUR_OPTIONS = [1000, 2000, 5000, 10000];
+const SEAT_OPTIONS = [1, 2, 3, 4];
+const RATING_OPTIONS = [3, 4, 4.5];
 
 export default function Search() {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const [searchParams, setSearchParams] = useSearchParams();
   const [trips, setTrips] = useState<Trip[]>([]);
+  const [results, setResults] = useState<Record<string, TripSearchResult>>({});
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  
-  const [searchQuery, setSearchQuery] = useState({
-    from: searchParams.get('from') || '',
-    to: searchParams.get('to') || '',
-    date: searchParams.get('date') || ''
-  });
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const ratings = useProfileRatings(trips.map(trip => trip.driver_id));
+
+  // What's in the URL has been searched; the form edits a draft until Search
+  const filters = useMemo(() => filtersFromParams(searchParams), [searchParams]);
+  const [draft, setDraft] = useState<TripSearchFilters>(filters);
 
   useEffect(() => {
-    if (searchQuery.from || searchQuery.to) {
-      searchTrips();
-    } else {
-      // Load all available trips if no search query
-      loadAllTrips();
-    }
-  }, []);
+    setDraft(filters);
+    loadPage(filters, null);
+  }, [filters]);
 
-  const searchTrips = async () => {
-    setLoading(true);
-    
-    let query = supabase
+  // The RPC returns ids in result order; trip rows come from the usual query
+  const fetchTripRows = async (page: TripSearchResult[]) => {
+    if (page.length === 0) return [];
+    const { data, error } = await supabase
       .from('trips')
       .select(`
         *,
@@ -52,83 +75,73 @@ export default function Search() {
           avatar_url
         )
       `)
-      .in('status', ['scheduled', 'active'])
-      .gt('available_seats', 0)
-      .order('departure_time', { ascending: true });
+      .in('id', page.map(row => row.trip_id));
+    if (error) throw error;
 
-    // Add filters based on search criteria
-    if (searchQuery.from) {
-      query = query.ilike('start_location', `%${searchQuery.from}%`);
-    }
-    
-    if (searchQuery.to) {
-      query = query.ilike('destination', `%${searchQuery.to}%`);
-    }
-    
-    if (searchQuery.date) {
-      const startOfDay = new Date(searchQuery.date);
-      const endOfDay = new Date(searchQuery.date);
-      endOfDay.setHours(23, 59, 59, 999);
-      
-      query = query
-        .gte('departure_time', startOfDay.toISOString())
-        .lte('departure_time', endOfDay.toISOString());
-    }
+    const position = Object.fromEntries(page.map((row, index) => [row.trip_id, index]));
+    return (data || []).sort((a, b) => position[a.id] - position[b.id]);
+  };
 
-    const { data, error } = await query;
-    
-    if (error) {
+  const loadPage = async (applied: TripSearchFilters, cursor: string | null) => {
+    if (cursor) setLoadingMore(true);
+    else setLoading(true);
+
+    try {
+      const page = await searchTrips(applied, cursor);
+      const rows = await fetchTripRows(page.results);
+      const byId = Object.fromEntries(page.results.map(row => [row.trip_id, row]));
+
+      setTrips(prev => cursor ? [...prev, ...rows] : rows);
+      setResults(prev => cursor ? { ...prev, ...byId } : byId);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
       console.error('Search error:', error);
-    } else {
-      setTrips(data || []);
+      toast.error(error.message || 'Search failed');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
     }
-    
-    setLoading(false);
   };
 
-  const loadAllTrips = async () => {
-    setLoading(true);
-    
-    const { data, error } = await supabase
-      .from('trips')
-      .select(`
-        *,
-        profiles:driver_id (
-          full_name,
-          phone,
-          avatar_url
-        )
-      `)
-      .in('status', ['scheduled', 'active'])
-      .gt('available_seats', 0)
-      .order('departure_time', { ascending: true })
-      .limit(20);
-
-    if (error) {
-      console.error('Load trips error:', error);
-    } else {
-      setTrips(data || []);
-    }
-    
-    setLoading(false);
+  const updateDraft = (updates: Partial<TripSearchFilters>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
   };
 
   const handleSearch = () => {
-    const params = new URLSearchParams();
-    if (searchQuery.from) params.set('from', searchQuery.from);
-    if (searchQuery.to) params.set('to', searchQuery.to);
-    if (searchQuery.date) params.set('date', searchQuery.date);
-    
-    setSearchParams(params);
-    searchTrips();
+    // Sorting by distance needs a pinned starting point
+    const sort = draft.sort === 'closest' && !draft.fromPlace ? 'soonest' : draft.sort;
+    setSearchParams(filtersToParams({ ...draft, sort }));
+  };
+
+  // Sort applies straight away to the current search, keeping other edits as a draft
+  const handleSortChange = (sort: TripSort) => {
+    updateDraft({ sort });
+    setSearchParams(filtersToParams({ ...filters, sort }));
+  };
+
+  const toggleVehicleType = (type: VehicleType, checked: boolean) => {
+    updateDraft({
+      vehicleTypes: checked
+        ? [...draft.vehicleTypes, type]
+        : draft.vehicleTypes.filter(existing => existing !== type)
+    });
   };
 
   const clearSearch = () => {
-    setSearchQuery({ from: '', to: '', date: '' });
+    setDraft(EMPTY_FILTERS);
     setSearchParams(new URLSearchParams());
-    loadAllTrips();
   };
 
+  const hasSearch = searchParams.toString() !== '';
+  const activeFilterCount = [
+    filters.maxPrice != null,
+    filters.minSeats > 1,
+    filters.timeFrom || filters.timeTo,
+    filters.vehicleTypes.length > 0,
+    filters.minRating != null,
+    filters.includeFull
+  ].filter(Boolean).length;
+
   const formatDateTime = (dateString: string) => {
     const date = new Date(dateString);
     const today = new Date();
@@ -179,31 +192,29 @@ export default function Search() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid md:grid-cols-4 gap-4">
+            <div className="grid md:grid-cols-2 lg:grid-cols-5 gap-4">
               <div className="space-y-2">
                 <label className="text-sm font-medium">From</label>
-                <div className="relative">
-                  <MapPin className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    placeholder="Starting location"
-                    value={searchQuery.from}
-                    onChange={(e) => setSearchQuery(prev => ({ ...prev, from: e.target.value }))}
-                    className="pl-10"
-                  />
-                </div>
+                <LocationAutocomplete
+                  placeholder="Starting location"
+                  pickerTitle="Where are you starting?"
+                  value={draft.from}
+                  place={draft.fromPlace}
+                  onTextChange={(text) => updateDraft({ from: text, fromPlace: null })}
+                  onPlaceChange={(place) => updateDraft({ from: place.name, fromPlace: place })}
+                />
               </div>
               
               <div className="space-y-2">
                 <label className="text-sm font-medium">To</label>
-                <div className="relative">
-                  <MapPin className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    placeholder="Destination"
-                    value={searchQuery.to}
-                    onChange={(e) => setSearchQuery(prev => ({ ...prev, to: e.target.value }))}
-                    className="pl-10"
-                  />
-                </div>
+                <LocationAutocomplete
+                  placeholder="Destination"
+                  pickerTitle="Where are you going?"
+                  value={draft.to}
+                  place={draft.toPlace}
+                  onTextChange={(text) => updateDraft({ to: text, toPlace: null })}
+                  onPlaceChange={(place) => updateDraft({ to: place.name, toPlace: place })}
+                />
               </div>
               
               <div className="space-y-2">
@@ -213,25 +224,170 @@ export default function Search() {
                   <Input
                     type="date"
                     min={new Date().toISOString().split('T')[0]}
-                    value={searchQuery.date}
-                    onChange={(e) => setSearchQuery(prev => ({ ...prev, date: e.target.value }))}
+                    value={draft.date}
+                    onChange={(e) => updateDraft({ date: e.target.value })}
                     className="pl-10"
                   />
                 </div>
               </div>
               
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Max detour</label>
+                <Select
+                  value={String(draft.detour)}
+                  onValueChange={(value) => updateDraft({ detour: Number(value) })}
+                  disabled={!draft.fromPlace || !draft.toPlace}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DETOUR_OPTIONS.map(meters => (
+                      <SelectItem key={meters} value={String(meters)}>
+                        Within {formatDistance(meters)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
               <div className="flex flex-col gap-2 justify-end">
                 <Button onClick={handleSearch} disabled={loading}>
                   <SearchIcon className="h-4 w-4 mr-2" />
                   {loading ? 'Searching...' : 'Search'}
                 </Button>
-                {(searchQuery.from || searchQuery.to || searchQuery.date) && (
+                {hasSearch && (
                   <Button variant="outline" onClick={clearSearch}>
                     Clear
                   </Button>
                 )}
               </div>
             </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={() => setShowFilters(prev => !prev)}>
+                  <Filter className="h-4 w-4 mr-2" />
+                  Filters
+                  {activeFilterCount > 0 && (
+                    <Badge variant="secondary" className="ml-2">{activeFilterCount}</Badge>
+                  )}
+                </Button>
+
+                {profile?.role === 'passenger' && (filters.from || filters.to) && (
+                  <Button variant="outline" size="sm" onClick={() => setSaveDialogOpen(true)}>
+                    <BellPlus className="h-4 w-4 mr-2" />
+                    Save Search
+                  </Button>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <ArrowUpDown className="h-4 w-4 text-muted-foreground" />
+                <Select value={filters.sort} onValueChange={(value) => handleSortChange(value as TripSort)}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TRIP_SORT_LABELS) as TripSort[]).map(sort => (
+                      <SelectItem key={sort} value={sort} disabled={sort === 'closest' && !filters.fromPlace}>
+                        {TRIP_SORT_LABELS[sort]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {showFilters && (
+              <div className="grid sm:grid-cols-2 lg:grid-cols-5 gap-4 mt-4 pt-4 border-t border-border">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Max price per seat</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Any"
+                    value={draft.maxPrice ?? ''}
+                    onChange={(e) => updateDraft({ maxPrice: e.target.value === '' ? null : Number(e.target.value) })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Seats needed</label>
+                  <Select value={String(draft.minSeats)} onValueChange={(value) => updateDraft({ minSeats: Number(value) })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SEAT_OPTIONS.map(seats => (
+                        <SelectItem key={seats} value={String(seats)}>
+                          {seats}{seats === SEAT_OPTIONS[SEAT_OPTIONS.length - 1] ? '+' : ''} seat{seats !== 1 ? 's' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <label className="flex items-center gap-2 text-sm pt-1">
+                    <Checkbox
+                      checked={draft.includeFull}
+                      onCheckedChange={(checked) => updateDraft({ includeFull: checked === true })}
+                    />
+                    Include full trips (waitlist)
+                  </label>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Departing between</label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={draft.timeFrom}
+                      onChange={(e) => updateDraft({ timeFrom: e.target.value })}
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      type="time"
+                      value={draft.timeTo}
+                      onChange={(e) => updateDraft({ timeTo: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Vehicle</label>
+                  <div className="flex flex-wrap gap-3 pt-2">
+                    {(Object.keys(VEHICLE_TYPE_LABELS) as VehicleType[]).map(type => (
+                      <label key={type} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={draft.vehicleTypes.includes(type)}
+                          onCheckedChange={(checked) => toggleVehicleType(type, checked === true)}
+                        />
+                        {VEHICLE_TYPE_LABELS[type]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Driver rating</label>
+                  <Select
+                    value={draft.minRating == null ? 'any' : String(draft.minRating)}
+                    onValueChange={(value) => updateDraft({ minRating: value === 'any' ? null : Number(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any rating</SelectItem>
+                      {RATING_OPTIONS.map(rating => (
+                        <SelectItem key={rating} value={String(rating)}>
+                          {rating}★ and up
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -248,7 +404,7 @@ export default function Search() {
                 <SearchIcon className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
                 <h3 className="text-lg font-semibold mb-2">No trips found</h3>
                 <p className="text-muted-foreground mb-4">
-                  {searchQuery.from || searchQuery.to 
+                  {hasSearch
                     ? "Try adjusting your search criteria or check back later" 
                     : "No trips are currently available"
                   }
@@ -271,17 +427,20 @@ export default function Search() {
             <div className="space-y-4">
               <div className="flex justify-between items-center">
                 <h2 className="text-xl font-semibold">
-                  {trips.length} trip{trips.length !== 1 ? 's' : ''} found
+                  Showing {trips.length} trip{trips.length !== 1 ? 's' : ''}
                 </h2>
-                <Button variant="outline" size="sm">
-                  <Filter className="h-4 w-4 mr-2" />
-                  Filters
-                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Sorted by {TRIP_SORT_LABELS[filters.sort].toLowerCase()}
+                </span>
               </div>
 
               {trips.map((trip) => {
                 const { date, time } = formatDateTime(trip.departure_time);
                 const driver = (trip as any).profiles;
+                const rating = ratings[trip.driver_id];
+                const match = results[trip.id];
+                // Only listed when the search asks for full trips too
+                const full = trip.available_seats < filters.minSeats;
                 
                 return (
                   <Card key={trip.id} className="hover:shadow-medium transition-shadow">
@@ -304,7 +463,10 @@ export default function Search() {
                         {driver && (
                           <div className="text-right">
                             <p className="font-medium">{driver.full_name}</p>
-                            <p className="text-sm text-muted-foreground">Driver</p>
+                            <RatingBadge
+                              average={rating?.driver_average_score}
+                              count={rating?.driver_review_count}
+                            />
                           </div>
                         )}
                       </div>
@@ -333,10 +495,23 @@ export default function Search() {
                             </div>
                             <div className="flex items-center gap-2">
                               <Users className="h-4 w-4 text-muted-foreground" />
-                              <span>{trip.available_seats} seat{trip.available_seats !== 1 ? 's' : ''} available</span>
+                              <span>
+                                {full
+                                  ? 'Full · waitlist open'
+                                  : `${trip.available_seats} seat${trip.available_seats !== 1 ? 's' : ''} available`}
+                              </span>
                             </div>
                           </div>
 
+                          {match?.pickup_distance_meters != null && (
+                            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                              <span>Pickup {formatDistance(match.pickup_distance_meters)} from your start</span>
+                              {match.dropoff_distance_meters != null && (
+                                <span>Drop-off {formatDistance(match.dropoff_distance_meters)} from your destination</span>
+                              )}
+                            </div>
+                          )}
+
                           {trip.description && (
                             <div>
                               <h4 className="font-semibold mb-1">Trip Notes</h4>
@@ -357,7 +532,7 @@ export default function Search() {
                           {user ? (
                             <Link to={`/trip/${trip.id}?book=true`} className="w-full">
                               <Button variant="hero" className="w-full">
-                                Book Now
+                                {full ? 'Join Waitlist' : 'Book Now'}
                               </Button>
                             </Link>
                           ) : (
@@ -373,10 +548,28 @@ export default function Search() {
                   </Card>
                 );
               })}
+
+              {nextCursor && (
+                <div className="flex justify-center pt-2">
+                  <Button
+                    variant="outline"
+                    disabled={loadingMore}
+                    onClick={() => loadPage(filters, nextCursor)}
+                  >
+                    {loadingMore ? 'Loading...' : 'Load more trips'}
+                  </Button>
+                </div>
+              )}
             </div>
           )}
         </div>
       </div>
+
+      <SaveSearchDialog
+        open={saveDialogOpen}
+        onOpenChange={setSaveDialogOpen}
+        filters={filters}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -7,9 +7,10 @@ import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { EnhancedMapComponent } from '@/components/map/EnhancedMapComponent';
 import { supabase } from '@/integrations/supabase/client';
-import { Trip, Booking } from '@/types';
+import { Trip, Booking, TripStop, Vehicle, GeocodedPlace } from '@/types';
 import { 
   MapPin, 
   Clock, 
@@ -19,10 +20,50 @@ import {
   MessageSquare,
   Navigation,
   ArrowLeft,
-  Star
+  Star,
+  Car,
+  Play,
+  CheckCircle,
+  UserCheck,
+  UserX,
+  Zap,
+  Route,
+  X
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatINR } from '@/lib/utils';
+import { startConversation } from '@/lib/messaging';
+import { fetchMyReviewKeys } from '@/lib/reviews';
+import { RatingBadge } from '@/components/reviews/RatingBadge';
+import { ReviewDialog } from '@/components/reviews/ReviewDialog';
+import { useProfileRatings } from '@/hooks/use-profile-ratings';
+import { VEHICLE_TYPE_LABELS, describeVehicle } from '@/lib/vehicles';
+import { markPassengerNoShow, transitionTrip } from '@/lib/trip-lifecycle';
+import { useLocationPublisher } from '@/hooks/use-location-publisher';
+import {
+  fetchTripLegSeats,
+  fetchTripStops,
+  segmentFare,
+  segmentSeatsFree,
+  tripRoutePoints
+} from '@/lib/trip-stops';
+import { WaitlistCard } from '@/components/waitlist/WaitlistCard';
+import { TripWaitlistPanel } from '@/components/waitlist/TripWaitlistPanel';
+import { instantBookApplies } from '@/lib/instant-book';
+import { BookingChangeDialog } from '@/components/bookings/BookingChangeDialog';
+import { BookingChangeHistory } from '@/components/bookings/BookingChangeHistory';
+import { PickupCode } from '@/components/bookings/PickupCode';
+import { PickupCodeDialog } from '@/components/bookings/PickupCodeDialog';
+import { BookingPayment } from '@/components/bookings/BookingPayment';
+import { LocationPickerDialog } from '@/components/map/LocationPickerDialog';
+import { PickupRoutePanel } from '@/components/trips/PickupRoutePanel';
+import { FareBreakdown } from '@/components/trips/FareBreakdown';
+import { usePickupPlan } from '@/hooks/use-pickup-plan';
+import { formatDetour } from '@/lib/pickup-route';
+import { useCancellationPolicies } from '@/hooks/use-cancellation-policies';
+import { DEFAULT_CANCELLATION_POLICY, describeCancellationPolicy, describeLateRefund } from '@/lib/cancellation';
+
+type BookingWithPassenger = Booking & { profiles?: { full_name: string; late_cancellations?: number } | null };
 
 export default function TripDetails() {
   const { id } = useParams<{ id: string }>();
@@ -32,16 +73,41 @@ export default function TripDetails() {
   
   const [trip, setTrip] = useState<Trip | null>(null);
   const [driver, setDriver] = useState<any>(null);
+  const [vehicle, setVehicle] = useState<Vehicle | null>(null);
+  const [stops, setStops] = useState<TripStop[]>([]);
+  const [legSeats, setLegSeats] = useState<number[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [existingBooking, setExistingBooking] = useState<Booking | null>(null);
+  // Whether the current passenger's request would be accepted straight away
+  const [instantBook, setInstantBook] = useState(false);
+  const [changingBooking, setChangingBooking] = useState(false);
+  const [pickingUp, setPickingUp] = useState<{ bookingId: string; name: string } | null>(null);
   const [loading, setLoading] = useState(true);
   const [bookingLoading, setBookingLoading] = useState(false);
+  const [transitioning, setTransitioning] = useState(false);
   const [showBookingForm, setShowBookingForm] = useState(searchParams.get('book') === 'true');
+  const [reviewedKeys, setReviewedKeys] = useState<Set<string>>(new Set());
+  const [reviewTarget, setReviewTarget] = useState<{ id: string; name: string; role: 'driver' | 'passenger' } | null>(null);
+  const ratings = useProfileRatings([trip?.driver_id || '', ...bookings.map(b => b.passenger_id)]);
+  const locationPublisher = useLocationPublisher();
   
   const [bookingForm, setBookingForm] = useState({
     seats: 1,
-    message: ''
+    message: '',
+    fromStop: 0,
+    // null means the trip's destination
+    toStop: null as number | null,
+    // Optional exact spots, anywhere near the chosen stops
+    pickup: null as GeocodedPlace | null,
+    dropoff: null as GeocodedPlace | null
   });
+  const policies = useCancellationPolicies();
+  const [pinPicker, setPinPicker] = useState<{ kind: 'pickup' | 'dropoff'; initialPlace: GeocodedPlace | null } | null>(null);
+  const pickupPlan = usePickupPlan(
+    trip && user?.id === trip.driver_id ? trip : null,
+    stops,
+    bookings as BookingWithPassenger[]
+  );
 
   useEffect(() => {
     if (id) {
@@ -49,25 +115,53 @@ export default function TripDetails() {
     }
   }, [id]);
 
+  const fetchExistingBooking = async () => {
+    if (!id || !user) return;
+    const { data } = await supabase
+      .from('bookings')
+      .select('*')
+      .eq('trip_id', id)
+      .eq('passenger_id', user.id)
+      .order('created_at', { ascending: false });
+    const existing = (data || []).find(b => b.status === 'pending' || b.status === 'accepted') || null;
+    setExistingBooking(existing);
+  };
+
   useEffect(() => {
-    const fetchExisting = async () => {
-      if (!id || !user) return;
-      const { data } = await supabase
-        .from('bookings')
-        .select('*')
-        .eq('trip_id', id)
-        .eq('passenger_id', user.id)
-        .order('created_at', { ascending: false });
-      const existing = (data || []).find(b => b.status === 'pending' || b.status === 'accepted') || null;
-      setExistingBooking(existing);
-    };
-    fetchExisting();
+    fetchExistingBooking();
   }, [id, user]);
 
-  const fetchTripDetails = async () => {
+  // Seats and stops on both sides move when a booking changes
+  const refreshBookings = () => {
+    fetchTripDetails(false);
+    fetchExistingBooking();
+  };
+
+  useEffect(() => {
+    if (!id || !user) return;
+    instantBookApplies(id, user.id)
+      .then(setInstantBook)
+      .catch((error) => console.warn('Failed to check instant booking:', error));
+  }, [id, user]);
+
+  const loadReviewedKeys = async () => {
+    if (!user) return;
+    try {
+      setReviewedKeys(await fetchMyReviewKeys(user.id));
+    } catch (error) {
+      console.warn('Failed to load reviews:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadReviewedKeys();
+  }, [user]);
+
+  // Refreshes after in-page changes skip the spinner so open cards stay mounted
+  const fetchTripDetails = async (showSpinner = true) => {
     if (!id) return;
     
-    setLoading(true);
+    if (showSpinner) setLoading(true);
     
     // Fetch trip details with driver info
     const { data: tripData, error: tripError } = await supabase
@@ -78,8 +172,10 @@ export default function TripDetails() {
           full_name,
           phone,
           avatar_url,
-          email
-        )
+          email,
+          late_cancellations
+        ),
+        vehicle:vehicle_id (*)
       `)
       .eq('id', id)
       .single();
@@ -93,6 +189,15 @@ export default function TripDetails() {
 
     setTrip(tripData);
     setDriver(tripData.profiles);
+    setVehicle(tripData.vehicle as Vehicle | null);
+
+    try {
+      const [tripStops, seats] = await Promise.all([fetchTripStops(id), fetchTripLegSeats(id)]);
+      setStops(tripStops);
+      setLegSeats(seats);
+    } catch (error) {
+      console.warn('Failed to load trip stops:', error);
+    }
 
     // Fetch bookings for this trip (if user is the driver)
     if (user && tripData.driver_id === user.id) {
@@ -103,7 +208,8 @@ export default function TripDetails() {
           profiles:passenger_id (
             full_name,
             phone,
-            email
+            email,
+            late_cancellations
           )
         `)
         .eq('trip_id', id)
@@ -130,41 +236,46 @@ export default function TripDetails() {
       return;
     }
 
-    if (bookingForm.seats > trip.available_seats) {
-      toast.error('Not enough seats available');
-      return;
-    }
-
     setBookingLoading(true);
 
+    const toStop = bookingForm.toStop ?? stops.length + 1;
+
     try {
-      const { error } = await supabase
+      // The database refuses requests for more seats than the segment has left,
+      // and accepts the request itself when the driver allows instant booking
+      const { data, error } = await supabase
         .from('bookings')
         .insert([{
           trip_id: trip.id,
           passenger_id: user.id,
           seats_requested: bookingForm.seats,
+          from_stop: bookingForm.fromStop,
+          to_stop: toStop,
           message: bookingForm.message || null,
+          pickup_name: bookingForm.pickup?.name ?? null,
+          pickup_lat: bookingForm.pickup?.lat ?? null,
+          pickup_lng: bookingForm.pickup?.lng ?? null,
+          dropoff_name: bookingForm.dropoff?.name ?? null,
+          dropoff_lat: bookingForm.dropoff?.lat ?? null,
+          dropoff_lng: bookingForm.dropoff?.lng ?? null,
           status: 'pending'
-        }]);
+        }])
+        .select()
+        .single();
 
       if (error) {
         throw error;
       }
 
-      toast.success('Booking request sent successfully!');
+      if (data.status === 'accepted') {
+        toast.success("You're booked! The driver has been notified.");
+        fetchTripDetails();
+      } else {
+        toast.success('Booking request sent successfully!');
+      }
       setShowBookingForm(false);
-      setBookingForm({ seats: 1, message: '' });
-      setExistingBooking({
-        id: 'temp',
-        trip_id: trip.id,
-        passenger_id: user.id,
-        seats_requested: bookingForm.seats,
-        status: 'pending',
-        message: bookingForm.message || undefined,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      } as Booking);
+      setBookingForm({ seats: 1, message: '', fromStop: 0, toStop: null, pickup: null, dropoff: null });
+      setExistingBooking(data as Booking);
     } catch (error: any) {
       toast.error(error.message || 'Failed to send booking request');
     } finally {
@@ -172,6 +283,46 @@ export default function TripDetails() {
     }
   };
 
+  // Runs a driver lifecycle action, then reloads so new timestamps show up
+  const runTransition = async (action: () => Promise<void>, successMessage: string) => {
+    setTransitioning(true);
+    try {
+      await action();
+      toast.success(successMessage);
+      await fetchTripDetails();
+    } catch (error) {
+      toast.error(error.message || 'Action failed');
+    } finally {
+      setTransitioning(false);
+    }
+  };
+
+  // Shares live position tagged with this trip, so it lands in the trip's trail
+  const toggleTripLocationSharing = async () => {
+    if (!trip) return;
+    try {
+      if (locationPublisher.sharing && locationPublisher.tripId === trip.id) {
+        await locationPublisher.stop();
+        toast.success('Location sharing stopped');
+      } else {
+        await locationPublisher.start(trip.id);
+        toast.success('Sharing your location for this trip');
+      }
+    } catch (error) {
+      toast.error(error.message || 'Could not share location');
+    }
+  };
+
+  const openConversation = async (passengerId?: string) => {
+    if (!trip) return;
+    try {
+      const conversationId = await startConversation(trip.id, passengerId);
+      navigate(`/messages/${conversationId}`);
+    } catch (error) {
+      toast.error(error.message || 'Could not open conversation');
+    }
+  };
+
   const formatDateTime = (dateString: string) => {
     const date = new Date(dateString);
     return {
@@ -210,6 +361,8 @@ export default function TripDetails() {
         return 'bg-destructive text-destructive-foreground';
       case 'cancelled':
         return 'bg-muted text-muted-foreground';
+      case 'no_show':
+        return 'bg-destructive/80 text-destructive-foreground';
       default:
         return 'bg-muted text-muted-foreground';
     }
@@ -240,7 +393,28 @@ export default function TripDetails() {
 
   const { date, time } = formatDateTime(trip.departure_time);
   const isDriver = user?.id === trip.driver_id;
-  const canBook = user && !isDriver && trip.status === 'scheduled' && trip.available_seats > 0 && !existingBooking;
+  const sharingThisTrip = locationPublisher.sharing && locationPublisher.tripId === trip.id;
+  // A trip full end to end may still have room between some of its stops
+  const routePoints = tripRoutePoints(trip, stops);
+  const lastStop = routePoints.length - 1;
+  const hasStops = stops.length > 0;
+  const bookingToStop = bookingForm.toStop ?? lastStop;
+  const mostSeatsFree = legSeats.length > 0 ? Math.max(...legSeats) : trip.available_seats;
+  const segmentSeats = legSeats.length > 0
+    ? segmentSeatsFree(legSeats, bookingForm.fromStop, bookingToStop)
+    : trip.available_seats;
+  const farePerSeat = segmentFare(trip, stops, bookingForm.fromStop, bookingToStop);
+  const describeSegment = (fromStop = 0, toStop = lastStop) =>
+    `${routePoints[fromStop]?.name} → ${routePoints[toStop]?.name}`;
+  // Open the pin picker on the stop the passenger boards or leaves at
+  const pinStartPlace = (kind: 'pickup' | 'dropoff'): GeocodedPlace | null => {
+    const point = routePoints[kind === 'pickup' ? bookingForm.fromStop : bookingToStop];
+    return point?.lat != null && point.lng != null
+      ? { name: point.name, lat: Number(point.lat), lng: Number(point.lng) }
+      : null;
+  };
+  const cancellationPolicy = policies[trip.cancellation_policy || DEFAULT_CANCELLATION_POLICY];
+  const canBook = user && !isDriver && trip.status === 'scheduled' && mostSeatsFree > 0 && !existingBooking;
 
   return (
     <div className="min-h-screen bg-background">
@@ -266,6 +440,12 @@ export default function TripDetails() {
                       <Badge className={getStatusColor(trip.status)}>
                         {trip.status}
                       </Badge>
+                      {instantBook && trip.status === 'scheduled' && (
+                        <Badge variant="secondary">
+                          <Zap className="h-3 w-3 mr-1" />
+                          Instant booking
+                        </Badge>
+                      )}
                       {trip.price_per_seat && (
                          <div className="flex items-center text-xl font-bold text-primary">
                            {formatINR(Number(trip.price_per_seat))}
@@ -276,7 +456,50 @@ export default function TripDetails() {
                       )}
                     </div>
                   </div>
+                  <div className="flex flex-wrap justify-end gap-2">
+                    {isDriver && trip.status === 'scheduled' && (
+                      <Button
+                        variant="success"
+                        disabled={transitioning}
+                        onClick={() => runTransition(() => transitionTrip(trip.id, 'active'), 'Trip started')}
+                      >
+                        <Play className="h-4 w-4 mr-2" />
+                        Start Trip
+                      </Button>
+                    )}
+                    {isDriver && trip.status === 'active' && (
+                      <Button
+                        variant="success"
+                        disabled={transitioning}
+                        onClick={() => runTransition(() => transitionTrip(trip.id, 'completed'), 'Trip completed')}
+                      >
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        Complete Trip
+                      </Button>
+                    )}
+                    {(isDriver || existingBooking?.status === 'accepted') && trip.status === 'active' && (
+                      <Button
+                        variant={sharingThisTrip ? 'destructive' : 'outline'}
+                        onClick={toggleTripLocationSharing}
+                      >
+                        <Navigation className="h-4 w-4 mr-2" />
+                        {sharingThisTrip ? 'Stop Sharing' : 'Share Live Location'}
+                      </Button>
+                    )}
+                  </div>
                 </div>
+                {(trip.started_at || trip.completed_at || trip.cancelled_at) && (
+                  <div className="flex flex-wrap gap-4 text-xs text-muted-foreground mt-2">
+                    {trip.started_at && <span>Started {new Date(trip.started_at).toLocaleString()}</span>}
+                    {trip.completed_at && <span>Completed {new Date(trip.completed_at).toLocaleString()}</span>}
+                    {trip.cancelled_at && <span>Cancelled {new Date(trip.cancelled_at).toLocaleString()}</span>}
+                  </div>
+                )}
+                {trip.status === 'cancelled' && trip.cancellation_reason && (
+                  <p className="mt-3 p-3 rounded-lg bg-muted/50 text-sm">
+                    <span className="font-medium">Reason for cancelling:</span> {trip.cancellation_reason}
+                  </p>
+                )}
               </CardHeader>
               <CardContent className="space-y-6">
                 {/* Route */}
@@ -290,6 +513,20 @@ export default function TripDetails() {
                         <p className="text-sm text-muted-foreground">{trip.start_location}</p>
                       </div>
                     </div>
+                    {stops.map((stop) => (
+                      <div key={stop.id} className="flex items-center gap-3 p-3 bg-muted/30 rounded-lg">
+                        <div className="w-4 h-4 rounded-full border-2 border-primary bg-background"></div>
+                        <div className="flex-1">
+                          <p className="font-medium">Stop {stop.position}</p>
+                          <p className="text-sm text-muted-foreground">{stop.name}</p>
+                        </div>
+                        {trip.price_per_seat != null && (
+                          <span className="text-sm text-muted-foreground">
+                            {formatINR(Number(stop.fare_from_start))} from start
+                          </span>
+                        )}
+                      </div>
+                    ))}
                     <div className="flex items-center gap-3 p-3 bg-muted/30 rounded-lg">
                       <div className="w-4 h-4 rounded-full bg-secondary"></div>
                       <div>
@@ -310,6 +547,12 @@ export default function TripDetails() {
                         <span className="font-medium">{time}</span>
                       </div>
                       <p className="text-sm text-muted-foreground">{date}</p>
+                      {cancellationPolicy && (
+                        <p className="text-sm text-muted-foreground">
+                          {cancellationPolicy.name} cancellation: {describeCancellationPolicy(cancellationPolicy).toLowerCase()}
+                          {trip.price_per_seat ? `, ${describeLateRefund(cancellationPolicy)}` : ''}
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -319,11 +562,46 @@ export default function TripDetails() {
                       <Users className="h-4 w-4 text-primary" />
                       <span className="font-medium">
                         {trip.available_seats} seat{trip.available_seats !== 1 ? 's' : ''} available
+                        {hasStops && ' end to end'}
                       </span>
                     </div>
+                    {hasStops && legSeats.length > 0 && (
+                      <div className="space-y-1 mt-2">
+                        {legSeats.map((seats, leg) => (
+                          <div key={leg} className="flex justify-between gap-2 text-sm text-muted-foreground">
+                            <span className="truncate">{routePoints[leg]?.name} → {routePoints[leg + 1]?.name}</span>
+                            <span className="shrink-0">{seats} free</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
 
+                {/* Vehicle */}
+                {vehicle && (
+                  <div>
+                    <h4 className="font-semibold mb-3">Vehicle</h4>
+                    <div className="flex items-center gap-3">
+                      {vehicle.photo_url ? (
+                        <img src={vehicle.photo_url} alt={describeVehicle(vehicle)} className="w-16 h-16 rounded-md object-cover" />
+                      ) : (
+                        <Car className="h-5 w-5 text-primary" />
+                      )}
+                      <div>
+                        <p className="font-medium">{describeVehicle(vehicle)}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {VEHICLE_TYPE_LABELS[vehicle.vehicle_type]}
+                          {/* Plate is only shared once the ride is confirmed */}
+                          {(isDriver || existingBooking?.status === 'accepted') && (
+                            <span className="font-mono"> · {vehicle.plate}</span>
+                          )}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 {/* Description */}
                 {trip.description && (
                   <div>
@@ -334,6 +612,8 @@ export default function TripDetails() {
               </CardContent>
             </Card>
 
+            <FareBreakdown tripId={trip.id} pricePerSeat={trip.price_per_seat} />
+
             {/* Map */}
             <Card>
               <CardHeader>
@@ -346,12 +626,22 @@ export default function TripDetails() {
                 <EnhancedMapComponent
                   className="h-96 rounded-b-lg"
                   selectedTrip={trip}
+                  stops={stops}
                   showDrivers={trip.status === 'active'}
+                  pickupPlan={isDriver ? pickupPlan.plan : null}
                   center={trip.start_lat && trip.start_lng ? [trip.start_lat, trip.start_lng] : undefined}
                 />
               </CardContent>
             </Card>
 
+            {isDriver && pickupPlan.plan && pickupPlan.plan.stops.some(stop => stop.kind !== 'stop') && (
+              <PickupRoutePanel
+                plan={pickupPlan.plan}
+                startName={trip.start_location}
+                destinationName={trip.destination}
+              />
+            )}
+
             {/* Driver's Bookings (only visible to driver) */}
             {isDriver && bookings.length > 0 && (
               <Card>
@@ -369,13 +659,51 @@ export default function TripDetails() {
                           <div className="flex justify-between items-start mb-3">
                             <div>
                               <p className="font-medium">{(booking as any).profiles?.full_name}</p>
+                              <RatingBadge
+                                average={ratings[booking.passenger_id]?.passenger_average_score}
+                                count={ratings[booking.passenger_id]?.passenger_review_count}
+                                className="text-xs"
+                              />
+                              {!!(booking as BookingWithPassenger).profiles?.late_cancellations && (
+                                <p className="text-xs text-muted-foreground">
+                                  {(booking as BookingWithPassenger).profiles.late_cancellations} late cancellation
+                                  {(booking as BookingWithPassenger).profiles.late_cancellations !== 1 ? 's' : ''}
+                                </p>
+                              )}
                               <p className="text-sm text-muted-foreground">
                                 {booking.seats_requested} seat{booking.seats_requested > 1 ? 's' : ''}
+                                {hasStops && ` · ${describeSegment(booking.from_stop, booking.to_stop)}`}
                               </p>
+                              {(booking.pickup_name || booking.dropoff_name) && (
+                                <p className="text-sm text-muted-foreground">
+                                  {booking.pickup_name && `Pickup: ${booking.pickup_name}`}
+                                  {booking.pickup_name && booking.dropoff_name && ' · '}
+                                  {booking.dropoff_name && `Drop-off: ${booking.dropoff_name}`}
+                                </p>
+                              )}
+                              {booking.status === 'pending' && pickupPlan.detours[booking.id] && (
+                                <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                                  <Route className="h-3 w-3" />
+                                  Detour if accepted: {formatDetour(pickupPlan.detours[booking.id])}
+                                </p>
+                              )}
+                            </div>
+                            <div className="flex flex-col items-end gap-1">
+                              <Badge className={getBookingStatusColor(booking.status)}>
+                                {booking.status === 'no_show' ? 'no-show' : booking.status}
+                              </Badge>
+                              {booking.instant_booked && (
+                                <span className="flex items-center text-xs text-muted-foreground">
+                                  <Zap className="h-3 w-3 mr-1" />
+                                  Instant
+                                </span>
+                              )}
+                              {booking.picked_up_at && (
+                                <span className="text-xs text-muted-foreground">
+                                  On board since {new Date(booking.picked_up_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                </span>
+                              )}
                             </div>
-                            <Badge className={getBookingStatusColor(booking.status)}>
-                              {booking.status}
-                            </Badge>
                           </div>
                           
                           {booking.message && (
@@ -390,6 +718,57 @@ export default function TripDetails() {
                               <span className="font-medium">Contact: {(booking as any).profiles.phone}</span>
                             </div>
                           )}
+
+                          <div className="flex flex-wrap gap-2">
+                            {trip.status === 'active' && booking.status === 'accepted' && !booking.picked_up_at && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="success"
+                                  disabled={transitioning}
+                                  onClick={() => setPickingUp({
+                                    bookingId: booking.id,
+                                    name: (booking as BookingWithPassenger).profiles?.full_name || 'Passenger'
+                                  })}
+                                >
+                                  <UserCheck className="h-3 w-3 mr-1" />
+                                  Picked Up
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="destructive"
+                                  disabled={transitioning}
+                                  onClick={() => runTransition(() => markPassengerNoShow(booking.id), 'Marked as no-show')}
+                                >
+                                  <UserX className="h-3 w-3 mr-1" />
+                                  No-show
+                                </Button>
+                              </>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => openConversation(booking.passenger_id)}
+                            >
+                              <MessageSquare className="h-3 w-3 mr-1" />
+                              Message
+                            </Button>
+                            {trip.status === 'completed' && booking.status === 'accepted' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={reviewedKeys.has(`${trip.id}:${booking.passenger_id}`)}
+                                onClick={() => setReviewTarget({
+                                  id: booking.passenger_id,
+                                  name: (booking as BookingWithPassenger).profiles?.full_name || 'Passenger',
+                                  role: 'passenger'
+                                })}
+                              >
+                                <Star className="h-3 w-3 mr-1" />
+                                {reviewedKeys.has(`${trip.id}:${booking.passenger_id}`) ? 'Reviewed' : 'Rate'}
+                              </Button>
+                            )}
+                          </div>
                         </CardContent>
                       </Card>
                     ))}
@@ -397,6 +776,18 @@ export default function TripDetails() {
                 </CardContent>
               </Card>
             )}
+
+            {isDriver && <TripWaitlistPanel tripId={trip.id} routePoints={routePoints} />}
+
+            {(isDriver || existingBooking) && (
+              <BookingChangeHistory
+                tripId={trip.id}
+                routePoints={routePoints}
+                isDriver={isDriver}
+                editable={trip.status === 'scheduled'}
+                onChanged={refreshBookings}
+              />
+            )}
           </div>
 
           {/* Sidebar */}
@@ -426,10 +817,32 @@ export default function TripDetails() {
                   <p className="text-sm text-muted-foreground mb-3">Verified Driver</p>
                   
                   <div className="flex justify-center mb-3">
-                    {[1, 2, 3, 4, 5].map((star) => (
-                      <Star key={star} className="h-4 w-4 text-yellow-400 fill-current" />
-                    ))}
+                    <RatingBadge
+                      average={ratings[trip.driver_id]?.driver_average_score}
+                      count={ratings[trip.driver_id]?.driver_review_count}
+                    />
                   </div>
+                  {driver?.late_cancellations > 0 && (
+                    <p className="text-xs text-muted-foreground mb-3">
+                      {driver.late_cancellations} late cancellation{driver.late_cancellations !== 1 ? 's' : ''}
+                    </p>
+                  )}
+
+                  {!isDriver && trip.status === 'completed' && existingBooking?.status === 'accepted' && (
+                    <Button
+                      size="sm"
+                      className="w-full mb-3"
+                      disabled={reviewedKeys.has(`${trip.id}:${trip.driver_id}`)}
+                      onClick={() => setReviewTarget({
+                        id: trip.driver_id,
+                        name: driver?.full_name || 'Driver',
+                        role: 'driver'
+                      })}
+                    >
+                      <Star className="h-4 w-4 mr-2" />
+                      {reviewedKeys.has(`${trip.id}:${trip.driver_id}`) ? 'Driver Reviewed' : 'Rate Driver'}
+                    </Button>
+                  )}
                   
                   {!isDriver && existingBooking?.status === 'accepted' && driver?.phone && (
                     <div className="flex items-center gap-2 text-sm mb-3 p-3 bg-muted/30 rounded-lg">
@@ -438,10 +851,15 @@ export default function TripDetails() {
                     </div>
                   )}
                   
-                  {user && trip.status === 'active' && (
-                    <Button variant="outline" size="sm" className="w-full">
-                      <Phone className="h-4 w-4 mr-2" />
-                      Contact Driver
+                  {user && !isDriver && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => openConversation()}
+                    >
+                      <MessageSquare className="h-4 w-4 mr-2" />
+                      Message Driver
                     </Button>
                   )}
                 </div>
@@ -458,25 +876,106 @@ export default function TripDetails() {
                   {!showBookingForm ? (
                     <div className="text-center space-y-4">
                       <div className="text-2xl font-bold text-primary">
-                        {trip.price_per_seat ? formatINR(Number(trip.price_per_seat) * bookingForm.seats) : 'Free'}
+                        {farePerSeat ? formatINR(farePerSeat * bookingForm.seats) : 'Free'}
                       </div>
+                      {hasStops && (
+                        <p className="text-sm text-muted-foreground">
+                          {describeSegment(bookingForm.fromStop, bookingToStop)}
+                        </p>
+                      )}
                       <Button 
                         onClick={() => setShowBookingForm(true)}
                         className="w-full"
                         variant="hero"
                       >
-                        Request to Join
+                        {instantBook ? 'Book Instantly' : 'Request to Join'}
                       </Button>
                     </div>
                   ) : (
                     <form onSubmit={handleBookingSubmit} className="space-y-4">
+                      {hasStops && (
+                        <div className="grid grid-cols-2 gap-2">
+                          <div>
+                            <Label>Get On At</Label>
+                            <Select
+                              value={bookingForm.fromStop.toString()}
+                              onValueChange={(value) => setBookingForm(prev => {
+                                const fromStop = parseInt(value);
+                                return {
+                                  ...prev,
+                                  fromStop,
+                                  toStop: prev.toStop != null && prev.toStop <= fromStop ? null : prev.toStop
+                                };
+                              })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {routePoints.slice(0, -1).map((point, index) => (
+                                  <SelectItem key={index} value={index.toString()}>{point.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label>Get Off At</Label>
+                            <Select
+                              value={bookingToStop.toString()}
+                              onValueChange={(value) => setBookingForm(prev => ({ ...prev, toStop: parseInt(value) }))}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {routePoints.map((point, index) => index > bookingForm.fromStop && (
+                                  <SelectItem key={index} value={index.toString()}>{point.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <p className="col-span-2 text-sm text-muted-foreground">
+                            {segmentSeats} seat{segmentSeats !== 1 ? 's' : ''} free on this part of the route
+                          </p>
+                        </div>
+                      )}
+
+                      <div className="space-y-2">
+                        <Label>Pickup and drop-off points (optional)</Label>
+                        {(['pickup', 'dropoff'] as const).map((kind) => (
+                          <div key={kind} className="flex gap-2">
+                            <Button
+                              type="button"
+                              variant="outline"
+                              className="flex-1 justify-start min-w-0"
+                              onClick={() => setPinPicker({ kind, initialPlace: bookingForm[kind] ?? pinStartPlace(kind) })}
+                            >
+                              <MapPin className="h-4 w-4 mr-2 shrink-0" />
+                              <span className="truncate">
+                                {bookingForm[kind]?.name || (kind === 'pickup' ? 'Drop a pickup pin' : 'Drop a drop-off pin')}
+                              </span>
+                            </Button>
+                            {bookingForm[kind] && (
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setBookingForm(prev => ({ ...prev, [kind]: null }))}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+
                       <div>
                         <Label htmlFor="seats">Number of Seats</Label>
                         <Input
                           id="seats"
                           type="number"
                           min="1"
-                          max={trip.available_seats}
+                          max={segmentSeats}
                           value={bookingForm.seats}
                           onChange={(e) => setBookingForm(prev => ({ 
                             ...prev, 
@@ -502,7 +1001,7 @@ export default function TripDetails() {
                       <div className="text-center py-3 bg-muted/30 rounded-lg">
                         <p className="text-sm text-muted-foreground">Total Cost</p>
                         <p className="text-xl font-bold text-primary">
-                          {trip.price_per_seat ? formatINR(Number(trip.price_per_seat) * bookingForm.seats) : 'Free'}
+                          {farePerSeat ? formatINR(farePerSeat * bookingForm.seats) : 'Free'}
                         </p>
                       </div>
 
@@ -517,11 +1016,11 @@ export default function TripDetails() {
                         </Button>
                         <Button
                           type="submit"
-                          disabled={bookingLoading}
+                          disabled={bookingLoading || segmentSeats < bookingForm.seats}
                           className="flex-1"
                           variant="hero"
                         >
-                          {bookingLoading ? 'Sending...' : 'Send Request'}
+                          {bookingLoading ? 'Sending...' : instantBook ? 'Book Now' : 'Send Request'}
                         </Button>
                       </div>
                     </form>
@@ -530,6 +1029,70 @@ export default function TripDetails() {
               </Card>
             )}
 
+            {/* Passenger's own booking */}
+            {!isDriver && existingBooking && (
+              <Card>
+                <CardHeader>
+                  <div className="flex justify-between items-center">
+                    <CardTitle>Your Booking</CardTitle>
+                    <Badge className={getBookingStatusColor(existingBooking.status)}>
+                      {existingBooking.status}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <p>
+                    {existingBooking.seats_requested} seat{existingBooking.seats_requested !== 1 ? 's' : ''}
+                    {hasStops && ` · ${describeSegment(existingBooking.from_stop, existingBooking.to_stop)}`}
+                  </p>
+                  {existingBooking.pickup_name && (
+                    <p className="text-muted-foreground">Pickup: {existingBooking.pickup_name}</p>
+                  )}
+                  {existingBooking.dropoff_name && (
+                    <p className="text-muted-foreground">Drop-off: {existingBooking.dropoff_name}</p>
+                  )}
+                  {existingBooking.message && (
+                    <p className="text-muted-foreground">"{existingBooking.message}"</p>
+                  )}
+                  {existingBooking.status === 'accepted' && existingBooking.picked_up_at && (
+                    <p className="text-muted-foreground">
+                      On board since {new Date(existingBooking.picked_up_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </p>
+                  )}
+                  {existingBooking.status === 'accepted' && !existingBooking.picked_up_at
+                    && (trip.status === 'scheduled' || trip.status === 'active') && (
+                    <PickupCode bookingId={existingBooking.id} onPickedUp={refreshBookings} />
+                  )}
+                  {existingBooking.status !== 'pending' && existingBooking.status !== 'rejected' && (
+                    <BookingPayment
+                      bookingId={existingBooking.id}
+                      amount={Number(existingBooking.fare_per_seat ?? trip.price_per_seat ?? 0) * existingBooking.seats_requested}
+                      canPay={existingBooking.status === 'accepted' && (trip.status === 'scheduled' || trip.status === 'active')}
+                      description={`${trip.start_location} → ${trip.destination}`}
+                    />
+                  )}
+                  {trip.status === 'scheduled' && (
+                    <Button variant="outline" className="w-full" onClick={() => setChangingBooking(true)}>
+                      Change Booking
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {user && !isDriver && trip.status === 'scheduled' && !existingBooking && (
+              <WaitlistCard
+                trip={trip}
+                passengerId={user.id}
+                routePoints={routePoints}
+                full={mostSeatsFree === 0}
+                onBooked={() => {
+                  fetchTripDetails();
+                  fetchExistingBooking();
+                }}
+              />
+            )}
+
             {/* Sign in to book */}
             {!user && (
               <Card>
@@ -547,6 +1110,42 @@ export default function TripDetails() {
           </div>
         </div>
       </div>
+
+      <LocationPickerDialog
+        open={pinPicker !== null}
+        onOpenChange={(open) => !open && setPinPicker(null)}
+        title={pinPicker?.kind === 'dropoff' ? 'Choose your drop-off point' : 'Choose your pickup point'}
+        initialPlace={pinPicker?.initialPlace}
+        onConfirm={(place) => {
+          if (pinPicker) setBookingForm(prev => ({ ...prev, [pinPicker.kind]: place }));
+        }}
+      />
+
+      <PickupCodeDialog
+        bookingId={pickingUp?.bookingId ?? null}
+        passengerName={pickingUp?.name || 'Passenger'}
+        onOpenChange={(open) => !open && setPickingUp(null)}
+        onPickedUp={refreshBookings}
+      />
+
+      <BookingChangeDialog
+        booking={changingBooking ? existingBooking : null}
+        onOpenChange={setChangingBooking}
+        routePoints={routePoints}
+        onChanged={refreshBookings}
+      />
+
+      {reviewTarget && (
+        <ReviewDialog
+          open={!!reviewTarget}
+          onOpenChange={(open) => !open && setReviewTarget(null)}
+          tripId={trip.id}
+          revieweeId={reviewTarget.id}
+          revieweeName={reviewTarget.name}
+          revieweeRole={reviewTarget.role}
+          onSubmitted={loadReviewedKeys}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,12 +1,16 @@
 export type UserRole = 'driver' | 'passenger';
 
+export type VehicleType = 'bike' | 'car' | 'auto';
+
 export interface Profile {
   id: string;
   user_id: string;
   email: string;
   full_name: string;
   phone?: string;
+  phone_verified_at?: string;
   avatar_url?: string;
+  late_cancellations?: number;
   role: UserRole;
   created_at: string;
   updated_at: string;
@@ -26,17 +30,60 @@ export interface Trip {
   price_per_seat?: number;
   status: 'scheduled' | 'active' | 'completed' | 'cancelled';
   description?: string;
+  vehicle_id?: string;
+  started_at?: string;
+  completed_at?: string;
+  cancelled_at?: string;
+  series_id?: string;
+  series_date?: string;
+  series_detached?: boolean;
+  // Unset follows the driver's instant booking default
+  instant_book?: boolean;
+  cancellation_policy?: string;
+  cancellation_reason?: string;
+  // Cancelled by the driver inside the free window with passengers aboard
+  late_cancellation?: boolean;
   created_at: string;
   updated_at: string;
 }
 
+// Intermediate stop; position 0 is the trip's start and n + 1 its destination
+export interface TripStop {
+  id: string;
+  trip_id: string;
+  position: number;
+  name: string;
+  lat: number;
+  lng: number;
+  fare_from_start: number;
+  created_at: string;
+}
+
 export interface Booking {
   id: string;
   trip_id: string;
   passenger_id: string;
   seats_requested: number;
-  status: 'pending' | 'accepted' | 'rejected' | 'cancelled';
+  status: 'pending' | 'accepted' | 'rejected' | 'cancelled' | 'no_show';
+  from_stop?: number;
+  to_stop?: number;
+  fare_per_seat?: number;
   message?: string;
+  // Exact points the passenger pinned, if any
+  pickup_name?: string;
+  pickup_lat?: number;
+  pickup_lng?: number;
+  dropoff_name?: string;
+  dropoff_lat?: number;
+  dropoff_lng?: number;
+  instant_booked?: boolean;
+  responded_at?: string;
+  picked_up_at?: string;
+  no_show_at?: string;
+  completed_at?: string;
+  cancelled_at?: string;
+  // Cancelled by the passenger after the trip's free cancellation window
+  late_cancellation?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -49,6 +96,7 @@ export interface DriverLocation {
   longitude: number;
   heading?: number;
   speed?: number;
+  recorded_at: string;
   updated_at: string;
 }
 
@@ -60,5 +108,338 @@ export interface PassengerLocation {
   longitude: number;
   heading?: number;
   speed?: number;
+  recorded_at: string;
+  updated_at: string;
+}
+
+export interface Conversation {
+  id: string;
+  trip_id: string;
+  booking_id?: string;
+  driver_id: string;
+  passenger_id: string;
+  last_message_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Message {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  body: string;
+  read_at?: string;
+  created_at: string;
+}
+
+export interface GeocodedPlace {
+  name: string;
+  placeName?: string;
+  lat: number;
+  lng: number;
+}
+
+export interface Review {
+  id: string;
+  trip_id?: string;
+  reviewer_id: string;
+  reviewee_id: string;
+  reviewee_role: UserRole;
+  score: number;
+  tags: string[];
+  comment?: string;
+  created_at: string;
+}
+
+export interface ProfileRating {
+  user_id: string;
+  review_count: number;
+  average_score: number | null;
+  driver_review_count: number;
+  driver_average_score: number | null;
+  passenger_review_count: number;
+  passenger_average_score: number | null;
+}
+
+export interface DriverStats {
+  completed_trips: number;
+  cancelled_trips: number;
+  cancellation_rate: number | null;
+  requests_received: number;
+  acceptance_rate: number | null;
+  median_response_minutes: number | null;
+  driving_since: string | null;
+}
+
+export interface Vehicle {
+  id: string;
+  driver_id: string;
+  make: string;
+  model: string;
+  colour?: string;
+  plate: string;
+  vehicle_type: VehicleType;
+  seat_capacity: number;
+  photo_url?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DrivingRoute {
+  coordinates: [number, number][]; // [lng, lat]
+  distance: number; // meters
+  duration: number; // seconds
+}
+
+export interface RouteMatch {
+  trip_id: string;
+  pickup_lat: number;
+  pickup_lng: number;
+  dropoff_lat: number;
+  dropoff_lng: number;
+  pickup_distance_meters: number;
+  dropoff_distance_meters: number;
+}
+
+export interface NearbyTrip {
+  trip_id: string;
+  distance_meters: number;
+}
+
+export interface MapViewport {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+  center: [number, number];
+}
+
+export interface TripSearchResult {
+  trip_id: string;
+  sort_value: number;
+  departure_time: string;
+  pickup_lat: number | null;
+  pickup_lng: number | null;
+  dropoff_lat: number | null;
+  dropoff_lng: number | null;
+  pickup_distance_meters: number | null;
+  dropoff_distance_meters: number | null;
+  driver_rating: number | null;
+}
+
+export interface SavedSearch {
+  id: string;
+  passenger_id: string;
+  name: string;
+  from_text: string | null;
+  to_text: string | null;
+  origin_lat: number | null;
+  origin_lng: number | null;
+  dest_lat: number | null;
+  dest_lng: number | null;
+  max_detour_meters: number;
+  date_from: string | null;
+  date_to: string | null;
+  max_price: number | null;
+  timezone: string;
+  email_alerts: boolean;
+  last_matched_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  trip_id: string | null;
+  saved_search_id: string | null;
+  send_email: boolean;
+  emailed_at: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface TripSeries {
+  id: string;
+  driver_id: string;
+  start_location: string;
+  destination: string;
+  start_lat?: number;
+  start_lng?: number;
+  dest_lat?: number;
+  dest_lng?: number;
+  departure_time: string; // HH:MM:SS in the series timezone
+  timezone: string;
+  days_of_week: number[]; // 0 = Sunday
+  starts_on: string;
+  ends_on: string;
+  skip_dates: string[];
+  available_seats: number;
+  price_per_seat?: number;
+  description?: string;
+  vehicle_id?: string;
+  status: 'active' | 'cancelled';
+  cancelled_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RideRequest {
+  id: string;
+  passenger_id: string;
+  start_location: string;
+  destination: string;
+  start_lat: number;
+  start_lng: number;
+  dest_lat: number;
+  dest_lng: number;
+  window_start: string;
+  window_end: string;
+  timezone: string;
+  seats: number;
+  max_price_per_seat?: number;
+  message?: string;
+  status: 'open' | 'matched' | 'cancelled' | 'expired';
+  trip_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RideOffer {
+  id: string;
+  request_id: string;
+  driver_id: string;
+  vehicle_id: string;
+  departure_time: string;
+  seats_offered: number;
+  price_per_seat?: number;
+  message?: string;
+  status: 'pending' | 'accepted' | 'declined' | 'withdrawn' | 'expired';
+  trip_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NearbyRideRequest {
+  request_id: string;
+  distance_meters: number;
+}
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'declined' | 'expired' | 'left';
+
+export interface WaitlistEntry {
+  id: string;
+  trip_id: string;
+  passenger_id: string;
+  seats_requested: number;
+  from_stop: number;
+  to_stop: number;
+  status: WaitlistStatus;
+  offered_at?: string;
+  offer_expires_at?: string;
+  booking_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InstantBookSettings {
+  driver_id: string;
+  enabled: boolean;
+  min_passenger_rating?: number;
+  require_verified_phone: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type BookingChangeStatus = 'applied' | 'pending' | 'approved' | 'declined' | 'withdrawn';
+
+export interface BookingChange {
+  id: string;
+  booking_id: string;
+  trip_id: string;
+  passenger_id: string;
+  status: BookingChangeStatus;
+  old_seats: number;
+  new_seats: number;
+  old_from_stop: number;
+  new_from_stop: number;
+  old_message?: string;
+  new_message?: string;
+  old_pickup_name?: string;
+  old_pickup_lat?: number;
+  old_pickup_lng?: number;
+  new_pickup_name?: string;
+  new_pickup_lat?: number;
+  new_pickup_lng?: number;
+  old_dropoff_name?: string;
+  old_dropoff_lat?: number;
+  old_dropoff_lng?: number;
+  new_dropoff_name?: string;
+  new_dropoff_lat?: number;
+  new_dropoff_lng?: number;
+  responded_at?: string;
+  created_at: string;
   updated_at: string;
-}
\ No newline at end of file
+}
+
+export interface CancellationPolicy {
+  id: string;
+  name: string;
+  free_cancellation_hours: number;
+  // Share of the payment refunded after the free window
+  late_refund_percent: number;
+  position: number;
+}
+
+export interface FareRate {
+  vehicle_type: VehicleType;
+  fuel_cost_per_km: number;
+  upkeep_cost_per_km: number;
+  cost_per_minute: number;
+  range_spread: number;
+  max_markup: number;
+}
+
+// Amounts in rupees. Saved per trip as the suggestion the driver priced against.
+export interface FareEstimate {
+  distance_km: number;
+  duration_minutes: number;
+  fuel_cost: number;
+  upkeep_cost: number;
+  time_cost: number;
+  toll_cost: number;
+  trip_cost: number;
+  // Seats offered plus the driver
+  people_sharing: number;
+  cost_per_seat: number;
+  suggested_min: number;
+  suggested_max: number;
+  price_cap: number;
+}
+
+export type PaymentStatus = 'created' | 'authorized' | 'captured' | 'refunded' | 'voided' | 'failed';
+
+export type PaymentProviderName = 'razorpay' | 'mock';
+
+// Amounts in rupees. due_amount is set once the booking is settled.
+export interface Payment {
+  id: string;
+  booking_id?: string;
+  passenger_id: string;
+  provider: PaymentProviderName;
+  provider_order_id?: string;
+  provider_payment_id?: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  due_amount?: number;
+  captured_amount: number;
+  refunded_amount: number;
+  failure_reason?: string;
+  settled_at?: string;
+  created_at: string;
+  updated_at: string;
+}
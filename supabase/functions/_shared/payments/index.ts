@@ -0,0 +1,28 @@
+import { createMockProvider } from "./mock.ts";
+import { PaymentProvider } from "./provider.ts";
+import { createRazorpayProvider } from "./razorpay.ts";
+
+export * from "./provider.ts";
+
+// PAYMENT_PROVIDER picks the gateway for new payments and webhooks; existing
+// payments keep the one they were made with. The local mock only works where
+// PAYMENT_PROVIDER is set to "mock", so it can never stand in for a real one.
+export function getPaymentProvider(name?: string): PaymentProvider {
+  const configured = Deno.env.get("PAYMENT_PROVIDER");
+  const providerName = name ?? configured;
+  if (!providerName) {
+    throw new Error("PAYMENT_PROVIDER is not set");
+  }
+
+  switch (providerName) {
+    case "razorpay":
+      return createRazorpayProvider();
+    case "mock":
+      if (configured !== "mock") {
+        throw new Error("The mock payment provider is not enabled");
+      }
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown payment provider: ${providerName}`);
+  }
+}
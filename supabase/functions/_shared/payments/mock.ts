@@ -0,0 +1,69 @@
+import {
+  hmacSha256Hex,
+  InvalidSignatureError,
+  PaymentEvent,
+  PaymentProvider,
+  signaturesMatch,
+} from "./provider.ts";
+
+// A gateway that never leaves the machine, for development and tests. The
+// order comes with a signed payment the browser's test checkout hands back,
+// and captures and refunds always succeed. Enabled with PAYMENT_PROVIDER=mock
+// and a MOCK_PAYMENT_SECRET of your own. Webhooks can be simulated with a
+// body signed by that secret:
+//   BODY='{"orderId":"mock_order_...","type":"failed","reason":"Declined"}'
+//   SIG=$(printf '%s' "$BODY" | openssl dgst -sha256 -hmac "$MOCK_PAYMENT_SECRET" | cut -d' ' -f2)
+//   curl -X POST "http://127.0.0.1:54321/functions/v1/payment-webhook" \
+//     -H "x-mock-signature: $SIG" -d "$BODY"
+
+const secret = () => {
+  const value = Deno.env.get("MOCK_PAYMENT_SECRET");
+  if (!value) throw new Error("MOCK_PAYMENT_SECRET is not set");
+  return value;
+};
+
+export function createMockProvider(): PaymentProvider {
+  return {
+    name: "mock",
+
+    async createOrder({ amount, currency, receipt }) {
+      const orderId = `mock_order_${crypto.randomUUID()}`;
+      const paymentId = `mock_pay_${crypto.randomUUID()}`;
+      console.log(`Mock order ${orderId} for ${amount} ${currency} (${receipt})`);
+      return {
+        orderId,
+        checkout: {
+          paymentId,
+          signature: await hmacSha256Hex(secret(), `${orderId}|${paymentId}`),
+        },
+      };
+    },
+
+    async verifyCheckout({ orderId, paymentId, signature }) {
+      const expected = await hmacSha256Hex(secret(), `${orderId}|${paymentId}`);
+      return signaturesMatch(expected, signature);
+    },
+
+    async capture({ paymentId, amount }) {
+      console.log(`Mock capture of ${amount} on ${paymentId}`);
+    },
+
+    async refund({ paymentId, amount }) {
+      console.log(`Mock refund of ${amount} on ${paymentId}`);
+    },
+
+    async release({ paymentId }) {
+      console.log(`Mock release of ${paymentId}`);
+    },
+
+    async parseWebhook(body, headers) {
+      const expected = await hmacSha256Hex(secret(), body);
+      if (!signaturesMatch(expected, headers.get("x-mock-signature") ?? "")) {
+        throw new InvalidSignatureError();
+      }
+
+      const event = JSON.parse(body) as PaymentEvent;
+      return event.orderId && event.type ? event : null;
+    },
+  };
+}
@@ -0,0 +1,69 @@
+// What the payment edge functions need from a gateway. Amounts are rupees;
+// each adapter converts to its gateway's units.
+
+export type PaymentProviderName = "razorpay" | "mock";
+
+export interface ProviderOrder {
+  orderId: string;
+  // Passed to the browser to open the gateway's checkout
+  checkout: Record<string, string>;
+}
+
+export interface CheckoutResult {
+  orderId: string;
+  paymentId: string;
+  signature: string;
+}
+
+export interface PaymentEvent {
+  orderId: string;
+  type: "authorized" | "captured" | "failed" | "refunded";
+  paymentId?: string;
+  // Captured amount, or the total refunded so far
+  amount?: number;
+  reason?: string;
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  createOrder(order: { amount: number; currency: string; receipt: string }): Promise<ProviderOrder>;
+  verifyCheckout(result: CheckoutResult): Promise<boolean>;
+  capture(payment: { paymentId: string; amount: number; currency: string }): Promise<void>;
+  refund(payment: { paymentId: string; amount: number }): Promise<void>;
+  // Drop a hold without charging anything
+  release(payment: { paymentId: string }): Promise<void>;
+  // Null for events payments do not care about; throws on a bad signature
+  parseWebhook(body: string, headers: Headers): Promise<PaymentEvent | null>;
+}
+
+export class InvalidSignatureError extends Error {
+  constructor() {
+    super("Invalid payment signature");
+    this.name = "InvalidSignatureError";
+  }
+}
+
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Compares every character so the time taken gives nothing away
+export function signaturesMatch(expected: string, actual: string): boolean {
+  if (expected.length !== actual.length) return false;
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+  }
+  return difference === 0;
+}
@@ -0,0 +1,101 @@
+import {
+  hmacSha256Hex,
+  InvalidSignatureError,
+  PaymentEvent,
+  PaymentProvider,
+  signaturesMatch,
+} from "./provider.ts";
+
+// Razorpay orders with manual capture, so the passenger's UPI, card or
+// netbanking payment is only held until the trip settles. Needs
+// RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET. Razorpay
+// refunds uncaptured payments on its own after the account's capture window,
+// so set that window to cover how far ahead trips are booked.
+
+const API_URL = "https://api.razorpay.com/v1";
+
+const toPaise = (amount: number) => Math.round(amount * 100);
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+}
+
+export function createRazorpayProvider(): PaymentProvider {
+  const keyId = requireEnv("RAZORPAY_KEY_ID");
+  const keySecret = requireEnv("RAZORPAY_KEY_SECRET");
+
+  async function request(path: string, body: Record<string, unknown>) {
+    const response = await fetch(`${API_URL}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Basic ${btoa(`${keyId}:${keySecret}`)}`,
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data?.error?.description ?? `Razorpay request failed (${response.status})`);
+    }
+    return data;
+  }
+
+  return {
+    name: "razorpay",
+
+    async createOrder({ amount, currency, receipt }) {
+      const order = await request("/orders", {
+        amount: toPaise(amount),
+        currency,
+        receipt,
+        payment_capture: false,
+      });
+      return { orderId: order.id, checkout: { keyId } };
+    },
+
+    async verifyCheckout({ orderId, paymentId, signature }) {
+      const expected = await hmacSha256Hex(keySecret, `${orderId}|${paymentId}`);
+      return signaturesMatch(expected, signature);
+    },
+
+    async capture({ paymentId, amount, currency }) {
+      await request(`/payments/${paymentId}/capture`, { amount: toPaise(amount), currency });
+    },
+
+    async refund({ paymentId, amount }) {
+      await request(`/payments/${paymentId}/refund`, { amount: toPaise(amount) });
+    },
+
+    async release() {
+      // Razorpay has no void; an uncaptured payment is refunded automatically
+    },
+
+    async parseWebhook(body, headers) {
+      const secret = requireEnv("RAZORPAY_WEBHOOK_SECRET");
+      const expected = await hmacSha256Hex(secret, body);
+      if (!signaturesMatch(expected, headers.get("x-razorpay-signature") ?? "")) {
+        throw new InvalidSignatureError();
+      }
+
+      const { event, payload } = JSON.parse(body);
+      const payment = payload?.payment?.entity;
+      if (!payment?.order_id) return null;
+
+      const base = { orderId: payment.order_id, paymentId: payment.id };
+      switch (event) {
+        case "payment.authorized":
+          return { ...base, type: "authorized" } as PaymentEvent;
+        case "payment.captured":
+          return { ...base, type: "captured", amount: payment.amount / 100 } as PaymentEvent;
+        case "payment.failed":
+          return { ...base, type: "failed", reason: payment.error_description } as PaymentEvent;
+        case "refund.processed":
+          return { ...base, type: "refunded", amount: payment.amount_refunded / 100 } as PaymentEvent;
+        default:
+          return null;
+      }
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPaymentProvider } from "../_shared/payments/index.ts";
+
+// Takes the result the gateway's checkout gave the browser. A signed result
+// marks the payment as held straight away instead of waiting for the webhook;
+// a dismissed or declined checkout marks it failed so the passenger can retry.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface ConfirmPaymentRequest {
+  paymentId: string;
+  providerPaymentId?: string;
+  signature?: string;
+  failed?: boolean;
+  reason?: string;
+}
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") ?? "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+);
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Sign in to pay" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+
+    const { paymentId, providerPaymentId, signature, failed, reason }: ConfirmPaymentRequest = await req.json();
+
+    const { data: payment, error: paymentError } = await supabase
+      .from("payments")
+      .select("*")
+      .eq("id", paymentId)
+      .eq("passenger_id", user.id)
+      .single();
+
+    if (paymentError || !payment?.provider_order_id) {
+      throw new Error("Payment not found");
+    }
+
+    let event: { type: "authorized" | "failed"; paymentId?: string; reason?: string };
+    if (failed) {
+      event = { type: "failed", reason: reason ?? "Checkout was not completed" };
+    } else {
+      const verified = await getPaymentProvider(payment.provider).verifyCheckout({
+        orderId: payment.provider_order_id,
+        paymentId: providerPaymentId ?? "",
+        signature: signature ?? "",
+      });
+      if (!verified) throw new Error("The payment could not be verified");
+      event = { type: "authorized", paymentId: providerPaymentId };
+    }
+
+    const { data: status, error: eventError } = await supabase.rpc("record_payment_event", {
+      p_provider: payment.provider,
+      p_order_id: payment.provider_order_id,
+      p_event: event.type,
+      p_provider_payment_id: event.paymentId,
+      p_reason: event.reason,
+    });
+    if (eventError) throw new Error(eventError.message);
+
+    return new Response(JSON.stringify({ status }), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  } catch (e) {
+    console.error("Error confirming payment:", e);
+    return new Response(
+      JSON.stringify({ error: e instanceof Error ? e.message : "Unknown error" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,86 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPaymentProvider } from "../_shared/payments/index.ts";
+
+// Starts a checkout for the signed-in passenger's accepted booking. The
+// database works out the amount; the gateway order is created here and its
+// checkout details returned for the browser to open.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface CreatePaymentRequest {
+  bookingId: string;
+}
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") ?? "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+);
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Sign in to pay" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+
+    const { bookingId }: CreatePaymentRequest = await req.json();
+    const provider = getPaymentProvider();
+
+    const { data: payment, error: openError } = await supabase.rpc("open_booking_payment", {
+      p_booking_id: bookingId,
+      p_passenger_id: user.id,
+      p_provider: provider.name,
+    });
+    if (openError) throw new Error(openError.message);
+
+    const order = await provider.createOrder({
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      receipt: payment.id,
+    });
+
+    const { error: updateError } = await supabase
+      .from("payments")
+      .update({ provider_order_id: order.orderId })
+      .eq("id", payment.id);
+    if (updateError) throw new Error(updateError.message);
+
+    return new Response(
+      JSON.stringify({
+        paymentId: payment.id,
+        provider: provider.name,
+        orderId: order.orderId,
+        amount: Number(payment.amount),
+        currency: payment.currency,
+        checkout: order.checkout,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  } catch (e) {
+    console.error("Error creating payment:", e);
+    return new Response(
+      JSON.stringify({ error: e instanceof Error ? e.message : "Unknown error" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,53 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Runs the same clean-up as the pg_cron job on demand, e.g. locally with
+//   supabase functions serve expire-stale-trips
+//   curl -X POST http://127.0.0.1:54321/functions/v1/expire-stale-trips \
+//     -H "Authorization: Bearer <anon key>"
+// TRIP_AUTO_COMPLETE_AFTER_MINUTES and LOCATION_RETENTION_MINUTES override the
+// database defaults for this run.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") ?? "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+);
+
+function minutesFromEnv(name: string): string | null {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? `${value} minutes` : null;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { data, error } = await supabase.rpc("expire_stale_trips", {
+      p_complete_after: minutesFromEnv("TRIP_AUTO_COMPLETE_AFTER_MINUTES"),
+      p_location_retention: minutesFromEnv("LOCATION_RETENTION_MINUTES"),
+    });
+    if (error) throw error;
+
+    console.log("Expired stale trips:", data);
+    return new Response(JSON.stringify(data), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  } catch (e) {
+    console.error("Expiry run failed:", e);
+    return new Response(
+      JSON.stringify({ error: e instanceof Error ? e.message : "Unknown error" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+});
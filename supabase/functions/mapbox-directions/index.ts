@@ -6,6 +6,7 @@ interface DirectionsRequest {
   toName?: string;
   fromCoord?: [number, number]; // [lng, lat]
   toCoord?: [number, number];   // [lng, lat]
+  waypoints?: [number, number][]; // [lng, lat], visited in order between from and to
   country?: string; // optional ISO country filter for geocoding
 }
 
@@ -27,8 +28,8 @@ async function geocode(name: string, country?: string) {
   return { lng, lat };
 }
 
-async function directions(from: [number, number], to: [number, number]) {
-  const coords = `${from[0]},${from[1]};${to[0]},${to[1]}`;
+async function directions(from: [number, number], to: [number, number], waypoints: [number, number][] = []) {
+  const coords = [from, ...waypoints, to].map(([lng, lat]) => `${lng},${lat}`).join(";");
   const url = new URL(`https://api.mapbox.com/directions/v5/mapbox/driving/${coords}`);
   url.searchParams.set("geometries", "geojson");
   url.searchParams.set("overview", "full");
@@ -39,7 +40,11 @@ async function directions(from: [number, number], to: [number, number]) {
   const data = await res.json();
   const route = data.routes?.[0];
   if (!route) throw new Error("No routes found");
-  return route.geometry.coordinates as [number, number][]; // [lng, lat][]
+  return {
+    coordinates: route.geometry.coordinates as [number, number][], // [lng, lat][]
+    distance: route.distance as number, // meters
+    duration: route.duration as number, // seconds
+  };
 }
 
 serve(async (req) => {
@@ -72,10 +77,19 @@ serve(async (req) => {
       );
     }
 
-    const coords = await directions(from, to); // [lng, lat][]
+    // Mapbox accepts at most 25 coordinates per request
+    const waypoints = body.waypoints ?? [];
+    if (waypoints.length > 23) {
+      return new Response(
+        JSON.stringify({ error: "Too many waypoints" }),
+        { status: 400, headers: { "content-type": "application/json" } }
+      );
+    }
+
+    const route = await directions(from, to, waypoints);
 
     return new Response(
-      JSON.stringify({ coordinates: coords }),
+      JSON.stringify(route),
       { headers: { "content-type": "application/json" } }
     );
   } catch (e: any) {
@@ -0,0 +1,95 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface GeocodeRequest {
+  query?: string;          // forward search / autocomplete
+  lat?: number;            // reverse lookup when query is absent
+  lng?: number;
+  country?: string;        // optional ISO country filter
+  limit?: number;
+  proximity?: [number, number]; // [lng, lat] bias for autocomplete
+}
+
+interface GeocodeResult {
+  name: string;
+  placeName: string;
+  lat: number;
+  lng: number;
+}
+
+interface MapboxFeature {
+  text?: string;
+  place_name: string;
+  center: [number, number]; // [lng, lat]
+}
+
+const MAPBOX_TOKEN = Deno.env.get("MAPBOX_PUBLIC_TOKEN");
+
+function toResult(feature: MapboxFeature): GeocodeResult {
+  const [lng, lat] = feature.center;
+  return {
+    name: feature.text || feature.place_name,
+    placeName: feature.place_name,
+    lat,
+    lng,
+  };
+}
+
+async function geocode(path: string, params: Record<string, string>) {
+  const url = new URL(`https://api.mapbox.com/geocoding/v5/mapbox.places/${path}.json`);
+  url.searchParams.set("access_token", MAPBOX_TOKEN || "");
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+
+  const res = await fetch(url.toString());
+  if (!res.ok) throw new Error(`Geocoding failed: ${res.status}`);
+  const data = await res.json();
+  return ((data.features || []) as MapboxFeature[]).map(toResult);
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...corsHeaders },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!MAPBOX_TOKEN) {
+    return json({ error: "Missing MAPBOX_PUBLIC_TOKEN secret" }, 400);
+  }
+
+  try {
+    const body = (await req.json()) as GeocodeRequest;
+    const limit = String(Math.min(Math.max(body.limit ?? 5, 1), 10));
+
+    if (body.query && body.query.trim()) {
+      const params: Record<string, string> = { autocomplete: "true", limit };
+      if (body.country) params.country = body.country;
+      if (body.proximity) params.proximity = `${body.proximity[0]},${body.proximity[1]}`;
+
+      const results = await geocode(encodeURIComponent(body.query.trim()), params);
+      return json({ results });
+    }
+
+    if (typeof body.lat === "number" && typeof body.lng === "number") {
+      // Mapbox only accepts `limit` on reverse lookups together with a single
+      // `types` filter, so take the most specific feature instead
+      const results = await geocode(`${body.lng},${body.lat}`, {});
+      return json({ results: results.slice(0, 1) });
+    }
+
+    return json({ error: "Provide a query or lat/lng" }, 400);
+  } catch (e) {
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+});
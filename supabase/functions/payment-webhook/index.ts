@@ -0,0 +1,54 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPaymentProvider, InvalidSignatureError } from "../_shared/payments/index.ts";
+
+// The gateway's events: payments held, captured, failed and refunded. Point
+// the configured gateway (PAYMENT_PROVIDER) at /functions/v1/payment-webhook.
+// Events are signed, record_payment_event only applies them to payments made
+// through that gateway and ignores repeats and stale ones, so redeliveries
+// are harmless.
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") ?? "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+);
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  try {
+    const provider = getPaymentProvider();
+    const body = await req.text();
+    const event = await provider.parseWebhook(body, req.headers);
+
+    if (event) {
+      const { data: status, error } = await supabase.rpc("record_payment_event", {
+        p_provider: provider.name,
+        p_order_id: event.orderId,
+        p_event: event.type,
+        p_provider_payment_id: event.paymentId,
+        p_amount: event.amount,
+        p_reason: event.reason,
+      });
+      if (error) throw new Error(error.message);
+      console.log(`Payment event ${event.type} for ${event.orderId}:`, status);
+    }
+
+    return new Response(JSON.stringify({ received: true }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (e) {
+    console.error("Payment webhook failed:", e);
+    // Anything but a bad signature is worth the gateway retrying
+    return new Response(
+      JSON.stringify({ error: e instanceof Error ? e.message : "Unknown error" }),
+      {
+        status: e instanceof InvalidSignatureError ? 401 : 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+});
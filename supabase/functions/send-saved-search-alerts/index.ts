@@ -0,0 +1,144 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+
+// Emails the saved-search matches the notify_saved_search_matches trigger
+// queued for a new trip. Notifications are claimed by setting emailed_at
+// before anything is sent, so overlapping calls for the same trip never
+// email anyone twice; a failed send is unclaimed for the next call to retry.
+// Only the trip's driver can ask for its alerts to go out.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface SavedSearchAlertRequest {
+  tripId: string;
+}
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") ?? "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+);
+
+// Trip and search details are typed by other users
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Sign in to send alerts" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+
+    const { tripId }: SavedSearchAlertRequest = await req.json();
+
+    const { data: trip, error: tripError } = await supabase
+      .from('trips')
+      .select('*, driver:profiles!trips_driver_id_fkey(full_name)')
+      .eq('id', tripId)
+      .single();
+
+    if (tripError || !trip || trip.driver_id !== user.id) {
+      throw new Error('Trip not found');
+    }
+
+    const { data: pending, error: pendingError } = await supabase
+      .from('notifications')
+      .update({ emailed_at: new Date().toISOString() })
+      .eq('trip_id', tripId)
+      .eq('send_email', true)
+      .is('emailed_at', null)
+      .select(`
+        id,
+        saved_search:saved_searches(name),
+        recipient:profiles!notifications_user_id_fkey(full_name, email)
+      `);
+
+    if (pendingError) throw pendingError;
+
+    const origin = Deno.env.get("SITE_URL") ?? "";
+    const route = `${escapeHtml(trip.start_location)} → ${escapeHtml(trip.destination)}`;
+    const sent: string[] = [];
+    const failed: string[] = [];
+
+    for (const notification of pending ?? []) {
+      if (!notification.recipient?.email) continue;
+
+      try {
+        await resend.emails.send({
+          from: "TripConnect <noreply@resend.dev>",
+          to: [notification.recipient.email],
+          subject: `New trip: ${trip.start_location} → ${trip.destination} - TripConnect`,
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+              <h1 style="color: #2563eb;">A trip matches your saved search</h1>
+              <p>Hi ${escapeHtml(notification.recipient.full_name ?? '')},</p>
+              <p>A new trip was just posted that matches "${escapeHtml(notification.saved_search?.name ?? 'your saved search')}":</p>
+
+              <div style="background: #f8fafc; padding: 20px; border-radius: 8px; margin: 20px 0;">
+                <h3>Trip Details:</h3>
+                <p><strong>Route:</strong> ${route}</p>
+                <p><strong>Departure:</strong> ${new Date(trip.departure_time).toLocaleString()}</p>
+                <p><strong>Seats Available:</strong> ${trip.available_seats}</p>
+                ${trip.price_per_seat ? `<p><strong>Price per Seat:</strong> ₹${trip.price_per_seat}</p>` : ''}
+                ${trip.driver?.full_name ? `<p><strong>Driver:</strong> ${escapeHtml(trip.driver.full_name)}</p>` : ''}
+              </div>
+
+              ${origin ? `<p><a href="${origin}/trip/${trip.id}">View the trip</a> and request a seat before it fills up.</p>` : '<p>Log into TripConnect to request a seat before it fills up.</p>'}
+              <p>You can turn off these emails from your saved searches on the dashboard.</p>
+              <p>Best regards,<br>TripConnect Team</p>
+            </div>
+          `,
+        });
+        sent.push(notification.id);
+      } catch (error) {
+        console.error(`Failed to email notification ${notification.id}:`, error);
+        failed.push(notification.id);
+      }
+    }
+
+    if (failed.length > 0) {
+      const { error: releaseError } = await supabase
+        .from('notifications')
+        .update({ emailed_at: null })
+        .in('id', failed);
+      if (releaseError) throw releaseError;
+    }
+
+    console.log(`Sent ${sent.length} saved-search alerts for trip ${tripId}`);
+    return new Response(JSON.stringify({ success: true, sent: sent.length }), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+
+  } catch (error) {
+    console.error("Error sending saved-search alerts:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,102 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPaymentProvider } from "../_shared/payments/index.ts";
+
+// Brings settled bookings' payments in line with what the database says is
+// owed: holds are captured or released, anything taken above that refunded.
+// Runs every 5 minutes through pg_cron, or on demand with
+//   curl -X POST http://127.0.0.1:54321/functions/v1/settle-payments \
+//     -H "Authorization: Bearer <service role key>"
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") ?? "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+);
+
+const roundRupees = (amount: number) => Math.round(amount * 100) / 100;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { data: payments, error } = await supabase.rpc("claim_payment_settlements");
+    if (error) throw error;
+
+    let settled = 0;
+    let failed = 0;
+
+    for (const payment of payments ?? []) {
+      const due = Number(payment.due_amount);
+      let status = payment.status;
+      let captured = Number(payment.captured_amount);
+      let refunded = Number(payment.refunded_amount);
+
+      try {
+        const provider = getPaymentProvider(payment.provider);
+        const paymentId = payment.provider_payment_id;
+        if (!paymentId) throw new Error("Payment has no gateway payment id");
+
+        if (status === "authorized") {
+          if (due > 0) {
+            // Gateways capture the whole hold; the difference is refunded below
+            await provider.capture({ paymentId, amount: Number(payment.amount), currency: payment.currency });
+            captured = Number(payment.amount);
+            status = "captured";
+          } else {
+            await provider.release({ paymentId });
+            status = "voided";
+          }
+        }
+
+        const excess = roundRupees(captured - refunded - due);
+        if (status !== "voided" && excess > 0) {
+          await provider.refund({ paymentId, amount: excess });
+          refunded = roundRupees(refunded + excess);
+          status = "refunded";
+        }
+
+        const { error: recordError } = await supabase.rpc("record_payment_settlement", {
+          p_payment_id: payment.id,
+          p_status: status,
+          p_captured_amount: captured,
+          p_refunded_amount: refunded,
+        });
+        if (recordError) throw new Error(recordError.message);
+        settled++;
+      } catch (e) {
+        console.error(`Settling payment ${payment.id} failed:`, e);
+        failed++;
+        // Keeps a capture that went through, so the retry only refunds
+        await supabase.rpc("record_payment_settlement", {
+          p_payment_id: payment.id,
+          p_status: status,
+          p_captured_amount: captured,
+          p_refunded_amount: refunded,
+          p_error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    }
+
+    console.log(`Settled ${settled} payments, ${failed} failed`);
+    return new Response(JSON.stringify({ settled, failed }), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  } catch (e) {
+    console.error("Settlement run failed:", e);
+    return new Response(
+      JSON.stringify({ error: e instanceof Error ? e.message : "Unknown error" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+});
@@ -0,0 +1,122 @@
+-- Keep trips.available_seats in step with accepted bookings.
+-- A booking holds seats only while it is accepted: seats are reserved when it
+-- becomes accepted and given back when it is cancelled or rejected. The trip
+-- row is locked for the duration of the change so two concurrent accepts can
+-- never take the same seat. Since seats now follow the status, only the
+-- driver may accept or reject a request.
+ALTER TABLE public.trips
+  ADD CONSTRAINT trips_available_seats_non_negative CHECK (available_seats >= 0);
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_seats_requested_positive CHECK (seats_requested > 0);
+
+CREATE OR REPLACE FUNCTION public.manage_booking_seats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  seats_held INTEGER := 0;
+  seats_needed INTEGER := 0;
+  seat_delta INTEGER;
+  remaining INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.trip_id <> OLD.trip_id THEN
+    RAISE EXCEPTION 'A booking cannot be moved to another trip';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'accepted' THEN
+    seats_held := OLD.seats_requested;
+  END IF;
+  IF NEW.status = 'accepted' THEN
+    seats_needed := NEW.seats_requested;
+  END IF;
+  seat_delta := seats_needed - seats_held;
+
+  -- Serialises every seat change on this trip
+  SELECT available_seats INTO remaining
+  FROM trips
+  WHERE id = NEW.trip_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+
+  IF seat_delta > remaining THEN
+    RAISE EXCEPTION 'Not enough seats available'
+      USING ERRCODE = 'check_violation',
+            DETAIL = format('%s seat(s) requested, %s left', seat_delta, remaining);
+  END IF;
+
+  -- Refuse requests that could never be accepted
+  IF NEW.status = 'pending' AND NEW.seats_requested > remaining
+     AND (TG_OP = 'INSERT' OR NEW.seats_requested <> OLD.seats_requested OR OLD.status <> 'pending') THEN
+    RAISE EXCEPTION 'Not enough seats available'
+      USING ERRCODE = 'check_violation',
+            DETAIL = format('%s seat(s) requested, %s left', NEW.seats_requested, remaining);
+  END IF;
+
+  IF seat_delta <> 0 THEN
+    UPDATE trips
+    SET available_seats = available_seats - seat_delta
+    WHERE id = NEW.trip_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER manage_booking_seats
+BEFORE INSERT OR UPDATE OF status, seats_requested ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.manage_booking_seats();
+
+-- Who may move a booking where. Drivers answer requests, either side can
+-- cancel. Server-side code (no auth.uid()) is trusted. Named to run before
+-- manage_booking_seats, so seats are never taken for a refused move.
+CREATE OR REPLACE FUNCTION public.enforce_booking_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  caller UUID := auth.uid();
+  by_driver BOOLEAN;
+BEGIN
+  by_driver := caller IS NULL OR caller = (SELECT driver_id FROM trips WHERE id = NEW.trip_id);
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' AND NOT by_driver THEN
+      RAISE EXCEPTION 'New bookings start as pending requests'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'pending' AND NEW.status IN ('accepted', 'rejected') THEN
+    IF NOT by_driver THEN
+      RAISE EXCEPTION 'Only the driver can answer a booking request'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF OLD.status IN ('pending', 'accepted') AND NEW.status = 'cancelled' THEN
+    NULL;
+  ELSE
+    RAISE EXCEPTION 'A % booking cannot become %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_booking_transition
+BEFORE INSERT OR UPDATE OF status ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_booking_transition();
@@ -0,0 +1,177 @@
+-- In-app messaging between a driver and one passenger about a trip.
+-- There is at most one conversation per (trip, passenger); it is linked to the
+-- passenger's booking when one exists.
+CREATE TABLE public.conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+  driver_id UUID NOT NULL REFERENCES public.profiles(user_id),
+  passenger_id UUID NOT NULL REFERENCES public.profiles(user_id),
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT conversations_trip_passenger_key UNIQUE (trip_id, passenger_id)
+);
+
+CREATE TABLE public.messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES public.profiles(user_id),
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) > 0 AND char_length(body) <= 2000),
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_conversations_driver_id ON public.conversations(driver_id);
+CREATE INDEX idx_conversations_passenger_id ON public.conversations(passenger_id);
+CREATE INDEX idx_messages_conversation_id_created_at ON public.messages(conversation_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+-- Conversations are created through start_conversation() only
+CREATE POLICY "Participants can view their conversations"
+ON public.conversations
+FOR SELECT
+USING (auth.uid() = driver_id OR auth.uid() = passenger_id);
+
+CREATE POLICY "Participants can view messages"
+ON public.messages
+FOR SELECT
+USING (
+  conversation_id IN (
+    SELECT conversations.id
+    FROM conversations
+    WHERE auth.uid() = conversations.driver_id
+    OR auth.uid() = conversations.passenger_id
+  )
+);
+
+CREATE POLICY "Participants can send messages"
+ON public.messages
+FOR INSERT
+WITH CHECK (
+  auth.uid() = sender_id
+  AND conversation_id IN (
+    SELECT conversations.id
+    FROM conversations
+    WHERE auth.uid() = conversations.driver_id
+    OR auth.uid() = conversations.passenger_id
+  )
+);
+
+CREATE TRIGGER update_conversations_updated_at
+BEFORE UPDATE ON public.conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Returns the conversation for a trip, creating it on first use.
+-- Passengers may message the driver of any trip they can see; drivers may
+-- only start a conversation with someone who has booked their trip.
+CREATE OR REPLACE FUNCTION public.start_conversation(p_trip_id UUID, p_passenger_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  caller UUID := auth.uid();
+  trip_driver UUID;
+  target_passenger UUID;
+  latest_booking UUID;
+  conversation UUID;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to send messages';
+  END IF;
+
+  SELECT driver_id INTO trip_driver FROM trips WHERE id = p_trip_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+
+  IF caller = trip_driver THEN
+    IF p_passenger_id IS NULL THEN
+      RAISE EXCEPTION 'A passenger is required';
+    END IF;
+    target_passenger := p_passenger_id;
+  ELSE
+    target_passenger := caller;
+  END IF;
+
+  SELECT id INTO latest_booking
+  FROM bookings
+  WHERE trip_id = p_trip_id AND passenger_id = target_passenger
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF caller = trip_driver AND latest_booking IS NULL THEN
+    RAISE EXCEPTION 'This passenger has not booked your trip';
+  END IF;
+
+  INSERT INTO conversations (trip_id, booking_id, driver_id, passenger_id)
+  VALUES (p_trip_id, latest_booking, trip_driver, target_passenger)
+  ON CONFLICT (trip_id, passenger_id)
+  DO UPDATE SET booking_id = COALESCE(EXCLUDED.booking_id, conversations.booking_id)
+  RETURNING id INTO conversation;
+
+  RETURN conversation;
+END;
+$function$;
+
+-- Marks everything the other participant sent as read
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_conversation_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  UPDATE messages
+  SET read_at = now()
+  WHERE conversation_id = p_conversation_id
+  AND sender_id <> auth.uid()
+  AND read_at IS NULL
+  AND EXISTS (
+    SELECT 1 FROM conversations
+    WHERE conversations.id = p_conversation_id
+    AND auth.uid() IN (conversations.driver_id, conversations.passenger_id)
+  );
+$function$;
+
+CREATE OR REPLACE FUNCTION public.unread_message_count()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $function$
+  SELECT count(*)::INTEGER
+  FROM messages
+  JOIN conversations ON conversations.id = messages.conversation_id
+  WHERE auth.uid() IN (conversations.driver_id, conversations.passenger_id)
+  AND messages.sender_id <> auth.uid()
+  AND messages.read_at IS NULL;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.touch_conversation_last_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  UPDATE conversations
+  SET last_message_at = NEW.created_at
+  WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER touch_conversation_last_message
+AFTER INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_conversation_last_message();
+
+-- Enable realtime for live threads and unread counts
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversations;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
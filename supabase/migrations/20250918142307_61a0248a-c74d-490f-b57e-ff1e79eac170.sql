@@ -0,0 +1,124 @@
+-- Two-way reviews after a completed trip: passengers rate the driver and the
+-- driver rates each passenger. Reviews outlive the trip they were left on.
+CREATE TABLE public.reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL,
+  reviewer_id UUID NOT NULL REFERENCES public.profiles(user_id),
+  reviewee_id UUID NOT NULL REFERENCES public.profiles(user_id),
+  reviewee_role user_role NOT NULL,
+  score SMALLINT NOT NULL CHECK (score BETWEEN 1 AND 5),
+  tags TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(tags) <= 10),
+  comment TEXT CHECK (char_length(comment) <= 1000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT reviews_trip_reviewer_reviewee_key UNIQUE (trip_id, reviewer_id, reviewee_id),
+  CONSTRAINT reviews_not_self CHECK (reviewer_id <> reviewee_id)
+);
+
+CREATE INDEX idx_reviews_reviewee_id ON public.reviews(reviewee_id);
+CREATE INDEX idx_reviews_reviewer_id ON public.reviews(reviewer_id);
+
+-- Enable RLS
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view reviews"
+ON public.reviews
+FOR SELECT
+USING (true);
+
+-- Eligibility is enforced by the validate_review trigger
+CREATE POLICY "Users can create their own reviews"
+ON public.reviews
+FOR INSERT
+WITH CHECK (auth.uid() = reviewer_id);
+
+-- Trips drop out of the public policy once completed or cancelled; keep them
+-- visible to the people who took part so history and reviews still work.
+-- SECURITY DEFINER avoids recursing into the bookings policy, which reads trips.
+CREATE OR REPLACE FUNCTION public.is_trip_passenger(p_trip_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM bookings
+    WHERE trip_id = p_trip_id
+    AND passenger_id = auth.uid()
+  );
+$function$;
+
+CREATE POLICY "Participants can view their trips"
+ON public.trips
+FOR SELECT
+USING (auth.uid() = driver_id OR public.is_trip_passenger(id));
+
+-- A review is allowed between the driver and a passenger whose booking was
+-- accepted, once the trip is completed
+CREATE OR REPLACE FUNCTION public.can_review(p_trip_id UUID, p_reviewer_id UUID, p_reviewee_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM trips
+    WHERE trips.id = p_trip_id
+    AND trips.status = 'completed'
+    AND p_reviewer_id <> p_reviewee_id
+    AND (
+      (trips.driver_id = p_reviewer_id AND EXISTS (
+        SELECT 1 FROM bookings
+        WHERE bookings.trip_id = trips.id
+        AND bookings.passenger_id = p_reviewee_id
+        AND bookings.status = 'accepted'
+      ))
+      OR (trips.driver_id = p_reviewee_id AND EXISTS (
+        SELECT 1 FROM bookings
+        WHERE bookings.trip_id = trips.id
+        AND bookings.passenger_id = p_reviewer_id
+        AND bookings.status = 'accepted'
+      ))
+    )
+  );
+$function$;
+
+CREATE OR REPLACE FUNCTION public.validate_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NOT public.can_review(NEW.trip_id, NEW.reviewer_id, NEW.reviewee_id) THEN
+    RAISE EXCEPTION 'You can only review people you travelled with on a completed trip'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.reviewee_role := CASE
+    WHEN NEW.reviewee_id = (SELECT driver_id FROM trips WHERE id = NEW.trip_id) THEN 'driver'::user_role
+    ELSE 'passenger'::user_role
+  END;
+  RETURN NEW;
+END;
+$function$;
+
+-- Insert only: ON DELETE SET NULL on trip_id must not re-run the check
+CREATE TRIGGER validate_review
+BEFORE INSERT ON public.reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_review();
+
+-- Per-user aggregates, overall and split by the role they were reviewed in
+CREATE OR REPLACE VIEW public.profile_ratings AS
+SELECT
+  reviewee_id AS user_id,
+  count(*)::INTEGER AS review_count,
+  round(avg(score), 2) AS average_score,
+  (count(*) FILTER (WHERE reviewee_role = 'driver'))::INTEGER AS driver_review_count,
+  round(avg(score) FILTER (WHERE reviewee_role = 'driver'), 2) AS driver_average_score,
+  (count(*) FILTER (WHERE reviewee_role = 'passenger'))::INTEGER AS passenger_review_count,
+  round(avg(score) FILTER (WHERE reviewee_role = 'passenger'), 2) AS passenger_average_score
+FROM public.reviews
+GROUP BY reviewee_id;
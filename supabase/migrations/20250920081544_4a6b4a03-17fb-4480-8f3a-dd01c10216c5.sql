@@ -0,0 +1,79 @@
+-- Record when a driver answers a booking request so response times can be measured
+ALTER TABLE public.bookings ADD COLUMN responded_at TIMESTAMP WITH TIME ZONE;
+
+-- Best available approximation for requests answered before this column existed
+UPDATE public.bookings
+SET responded_at = updated_at
+WHERE status IN ('accepted', 'rejected');
+
+CREATE OR REPLACE FUNCTION public.set_booking_responded_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF OLD.status = 'pending' AND NEW.status IN ('accepted', 'rejected') AND NEW.responded_at IS NULL THEN
+    NEW.responded_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_booking_responded_at
+BEFORE UPDATE OF status ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.set_booking_responded_at();
+
+-- Public track record for a driver. Runs as definer because finished trips and
+-- other people's bookings are hidden by RLS; only aggregates are returned.
+CREATE OR REPLACE FUNCTION public.driver_stats(p_driver_id UUID)
+RETURNS TABLE (
+  completed_trips INTEGER,
+  cancelled_trips INTEGER,
+  cancellation_rate NUMERIC,
+  requests_received INTEGER,
+  acceptance_rate NUMERIC,
+  median_response_minutes NUMERIC,
+  driving_since TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  WITH trip_counts AS (
+    SELECT
+      count(*) FILTER (WHERE status = 'completed')::INTEGER AS completed,
+      count(*) FILTER (WHERE status = 'cancelled')::INTEGER AS cancelled,
+      min(created_at) AS first_trip_at
+    FROM trips
+    WHERE driver_id = p_driver_id
+  ),
+  request_counts AS (
+    SELECT
+      count(*)::INTEGER AS received,
+      -- Accepted requests may later be cancelled, so count everything not rejected
+      count(*) FILTER (
+        WHERE bookings.responded_at IS NOT NULL AND bookings.status <> 'rejected'
+      )::INTEGER AS accepted,
+      count(*) FILTER (WHERE bookings.responded_at IS NOT NULL)::INTEGER AS answered,
+      percentile_cont(0.5) WITHIN GROUP (
+        ORDER BY extract(epoch FROM bookings.responded_at - bookings.created_at)
+      ) FILTER (WHERE bookings.responded_at IS NOT NULL) AS median_response_seconds
+    FROM bookings
+    JOIN trips ON trips.id = bookings.trip_id
+    WHERE trips.driver_id = p_driver_id
+  )
+  SELECT
+    trip_counts.completed,
+    trip_counts.cancelled,
+    CASE WHEN trip_counts.completed + trip_counts.cancelled > 0
+      THEN round(trip_counts.cancelled::NUMERIC / (trip_counts.completed + trip_counts.cancelled), 4)
+    END,
+    request_counts.received,
+    CASE WHEN request_counts.answered > 0
+      THEN round(request_counts.accepted::NUMERIC / request_counts.answered, 4)
+    END,
+    round((request_counts.median_response_seconds / 60)::NUMERIC, 1),
+    COALESCE(trip_counts.first_trip_at, (SELECT created_at FROM profiles WHERE user_id = p_driver_id))
+  FROM trip_counts, request_counts;
+$function$;
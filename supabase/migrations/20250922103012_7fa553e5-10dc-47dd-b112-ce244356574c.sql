@@ -0,0 +1,112 @@
+-- Vehicles a driver can offer trips in
+CREATE TYPE vehicle_type AS ENUM ('bike', 'car', 'auto');
+
+CREATE TABLE public.vehicles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  driver_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  make TEXT NOT NULL,
+  model TEXT NOT NULL,
+  colour TEXT,
+  plate TEXT NOT NULL,
+  vehicle_type vehicle_type NOT NULL DEFAULT 'car',
+  seat_capacity INTEGER NOT NULL CHECK (seat_capacity BETWEEN 1 AND 12),
+  photo_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX vehicles_driver_plate_key ON public.vehicles(driver_id, upper(plate));
+
+ALTER TABLE public.trips
+ADD COLUMN vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_trips_vehicle_id ON public.trips(vehicle_id);
+
+-- Enable RLS
+ALTER TABLE public.vehicles ENABLE ROW LEVEL SECURITY;
+
+-- Passengers need to recognise the vehicle at pickup
+CREATE POLICY "Anyone can view vehicles" ON public.vehicles FOR SELECT USING (true);
+CREATE POLICY "Drivers can add their own vehicles" ON public.vehicles FOR INSERT WITH CHECK (auth.uid() = driver_id);
+CREATE POLICY "Drivers can update their own vehicles" ON public.vehicles FOR UPDATE USING (auth.uid() = driver_id);
+CREATE POLICY "Drivers can delete their own vehicles" ON public.vehicles FOR DELETE USING (auth.uid() = driver_id);
+
+CREATE TRIGGER update_vehicles_updated_at
+BEFORE UPDATE ON public.vehicles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- New trips must name one of the driver's vehicles, and a trip can never offer
+-- more seats (free plus already accepted) than that vehicle has
+CREATE OR REPLACE FUNCTION public.check_trip_vehicle()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  vehicle RECORD;
+  seats_held INTEGER := 0;
+BEGIN
+  -- Seat bookkeeping from manage_booking_seats() runs before the booking row
+  -- changes, so the held count would be stale; it keeps its own invariants
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.vehicle_id IS NULL THEN
+    IF TG_OP = 'INSERT' THEN
+      RAISE EXCEPTION 'Choose a vehicle for this trip' USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT driver_id, seat_capacity INTO vehicle FROM vehicles WHERE id = NEW.vehicle_id;
+  IF NOT FOUND OR vehicle.driver_id <> NEW.driver_id THEN
+    RAISE EXCEPTION 'Vehicle not found' USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(sum(seats_requested), 0) INTO seats_held
+    FROM bookings
+    WHERE trip_id = NEW.id AND status = 'accepted';
+  END IF;
+
+  IF NEW.available_seats + seats_held > vehicle.seat_capacity THEN
+    RAISE EXCEPTION 'This vehicle only has % seats', vehicle.seat_capacity
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_trip_vehicle
+BEFORE INSERT OR UPDATE OF vehicle_id, available_seats ON public.trips
+FOR EACH ROW
+EXECUTE FUNCTION public.check_trip_vehicle();
+
+-- Public bucket for vehicle photos, one folder per driver
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('vehicle-photos', 'vehicle-photos', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view vehicle photos"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'vehicle-photos');
+
+CREATE POLICY "Drivers can upload their own vehicle photos"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'vehicle-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Drivers can update their own vehicle photos"
+ON storage.objects
+FOR UPDATE
+USING (bucket_id = 'vehicle-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Drivers can delete their own vehicle photos"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'vehicle-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
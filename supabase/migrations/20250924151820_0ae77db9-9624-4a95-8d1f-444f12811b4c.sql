@@ -0,0 +1,214 @@
+-- Explicit trip lifecycle.
+-- Trips move scheduled -> active -> completed, or scheduled -> cancelled.
+-- While a trip is active the driver marks each accepted passenger as picked
+-- up or as a no-show. Every move is validated and timestamped in the database
+-- regardless of which client or function makes it.
+ALTER TYPE booking_status ADD VALUE IF NOT EXISTS 'no_show';
+
+ALTER TABLE public.trips
+  ADD COLUMN started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.bookings
+  ADD COLUMN picked_up_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN no_show_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE;
+
+-- Backfill what we can for trips that already finished
+UPDATE public.trips SET completed_at = updated_at WHERE status = 'completed';
+UPDATE public.trips SET cancelled_at = updated_at WHERE status = 'cancelled';
+UPDATE public.bookings SET cancelled_at = updated_at WHERE status = 'cancelled';
+
+CREATE OR REPLACE FUNCTION public.enforce_trip_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'scheduled' AND NEW.status IN ('active', 'cancelled'))
+    OR (OLD.status = 'active' AND NEW.status = 'completed')
+  ) THEN
+    RAISE EXCEPTION 'A % trip cannot become %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  CASE NEW.status
+    WHEN 'active' THEN NEW.started_at := now();
+    WHEN 'completed' THEN NEW.completed_at := now();
+    WHEN 'cancelled' THEN NEW.cancelled_at := now();
+    ELSE NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_trip_transition
+BEFORE UPDATE OF status ON public.trips
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_trip_transition();
+
+-- Carries a trip's new state over to its bookings. Runs after the trip row is
+-- written because cancelling bookings hands seats back to that same row.
+CREATE OR REPLACE FUNCTION public.apply_trip_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    UPDATE bookings
+    SET completed_at = NEW.completed_at
+    WHERE trip_id = NEW.id AND status = 'accepted';
+  ELSIF NEW.status = 'cancelled' THEN
+    UPDATE bookings
+    SET status = 'cancelled'
+    WHERE trip_id = NEW.id AND status IN ('pending', 'accepted');
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER apply_trip_transition
+AFTER UPDATE OF status ON public.trips
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_trip_transition();
+
+-- Who may move a booking where, now with the trip's lifecycle: drivers also
+-- record no-shows, and passengers can only withdraw before the trip starts.
+-- Server-side code (no auth.uid()) is trusted.
+CREATE OR REPLACE FUNCTION public.enforce_booking_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  caller UUID := auth.uid();
+  trip RECORD;
+  by_driver BOOLEAN;
+BEGIN
+  SELECT driver_id, status INTO trip FROM trips WHERE id = NEW.trip_id;
+  by_driver := caller IS NULL OR caller = trip.driver_id;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' AND NOT by_driver THEN
+      RAISE EXCEPTION 'New bookings start as pending requests'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'pending' AND NEW.status IN ('accepted', 'rejected') THEN
+    IF NOT by_driver THEN
+      RAISE EXCEPTION 'Only the driver can answer a booking request'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF OLD.status = 'pending' AND NEW.status = 'cancelled' THEN
+    NULL;
+  ELSIF OLD.status = 'accepted' AND NEW.status = 'cancelled' THEN
+    IF trip.status NOT IN ('scheduled', 'cancelled') THEN
+      RAISE EXCEPTION 'Bookings cannot be cancelled once the trip has started'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF OLD.status = 'accepted' AND NEW.status = 'no_show' THEN
+    IF NOT by_driver THEN
+      RAISE EXCEPTION 'Only the driver can mark a no-show'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF trip.status <> 'active' OR OLD.picked_up_at IS NOT NULL THEN
+      RAISE EXCEPTION 'No-shows can only be recorded for passengers not yet picked up on an active trip'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'A % booking cannot become %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    NEW.cancelled_at := now();
+  ELSIF NEW.status = 'no_show' THEN
+    NEW.no_show_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Driver actions. Each returns nothing and raises on an illegal move.
+CREATE OR REPLACE FUNCTION public.transition_trip(p_trip_id UUID, p_status trip_status)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  UPDATE trips
+  SET status = p_status
+  WHERE id = p_trip_id AND driver_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.mark_passenger_picked_up(p_booking_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  UPDATE bookings
+  SET picked_up_at = now()
+  FROM trips
+  WHERE bookings.id = p_booking_id
+  AND trips.id = bookings.trip_id
+  AND trips.driver_id = auth.uid()
+  AND trips.status = 'active'
+  AND bookings.status = 'accepted'
+  AND bookings.picked_up_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only accepted passengers on an active trip can be picked up';
+  END IF;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.mark_passenger_no_show(p_booking_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  -- enforce_booking_transition validates the move and stamps no_show_at
+  UPDATE bookings
+  SET status = 'no_show'
+  FROM trips
+  WHERE bookings.id = p_booking_id
+  AND trips.id = bookings.trip_id
+  AND trips.driver_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+END;
+$function$;
@@ -0,0 +1,106 @@
+-- Periodic clean-up so trips don't stay live after drivers stop using the app.
+-- Runs every 15 minutes through pg_cron, and can be triggered on demand
+-- through the expire-stale-trips edge function.
+--
+-- How long after departure a trip is auto-completed defaults to 6 hours and
+-- can be changed per database:
+--   ALTER DATABASE postgres SET app.trip_auto_complete_after = '4 hours';
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Only requests answered by a driver count towards response-time stats;
+-- requests closed by the system are left without responded_at
+CREATE OR REPLACE FUNCTION public.set_booking_responded_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF OLD.status = 'pending' AND NEW.status IN ('accepted', 'rejected')
+     AND NEW.responded_at IS NULL AND auth.uid() IS NOT NULL THEN
+    NEW.responded_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.expire_stale_trips(
+  p_complete_after INTERVAL DEFAULT NULL,
+  p_location_retention INTERVAL DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  complete_after INTERVAL := COALESCE(
+    p_complete_after,
+    NULLIF(current_setting('app.trip_auto_complete_after', true), '')::INTERVAL,
+    INTERVAL '6 hours'
+  );
+  location_retention INTERVAL := COALESCE(p_location_retention, INTERVAL '1 day');
+  rejected_count INTEGER;
+  started_count INTEGER;
+  completed_count INTEGER;
+  driver_locations_count INTEGER;
+  passenger_locations_count INTEGER;
+BEGIN
+  -- Nobody can join a trip that has already left
+  UPDATE bookings
+  SET status = 'rejected'
+  FROM trips
+  WHERE trips.id = bookings.trip_id
+  AND bookings.status = 'pending'
+  AND trips.departure_time <= now();
+  GET DIAGNOSTICS rejected_count = ROW_COUNT;
+
+  -- Trips the driver never started go through active so every transition
+  -- and timestamp stays consistent with the lifecycle rules
+  UPDATE trips
+  SET status = 'active'
+  WHERE status = 'scheduled'
+  AND departure_time <= now() - complete_after;
+  GET DIAGNOSTICS started_count = ROW_COUNT;
+
+  UPDATE trips
+  SET status = 'completed'
+  WHERE status = 'active'
+  AND departure_time <= now() - complete_after;
+  GET DIAGNOSTICS completed_count = ROW_COUNT;
+
+  -- Positions tied to finished or deleted trips, and untied ones gone stale
+  DELETE FROM driver_locations
+  WHERE (trip_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM trips
+      WHERE trips.id = driver_locations.trip_id
+      AND trips.status IN ('scheduled', 'active')
+    ))
+  OR (trip_id IS NULL AND updated_at < now() - location_retention);
+  GET DIAGNOSTICS driver_locations_count = ROW_COUNT;
+
+  DELETE FROM passenger_locations
+  WHERE (trip_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM trips
+      WHERE trips.id = passenger_locations.trip_id
+      AND trips.status IN ('scheduled', 'active')
+    ))
+  OR (trip_id IS NULL AND updated_at < now() - location_retention);
+  GET DIAGNOSTICS passenger_locations_count = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'rejected_bookings', rejected_count,
+    'auto_started_trips', started_count,
+    'completed_trips', completed_count,
+    'deleted_driver_locations', driver_locations_count,
+    'deleted_passenger_locations', passenger_locations_count
+  );
+END;
+$function$;
+
+-- Maintenance is for the scheduler and service role only
+REVOKE EXECUTE ON FUNCTION public.expire_stale_trips(INTERVAL, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-stale-trips',
+  '*/15 * * * *',
+  $$SELECT public.expire_stale_trips()$$
+);
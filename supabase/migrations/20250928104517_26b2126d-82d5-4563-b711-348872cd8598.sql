@@ -0,0 +1,139 @@
+-- Live positions are one row per user, overwritten on every GPS fix, so map
+-- loads scale with the number of people sharing rather than with history.
+-- Points recorded while tied to a trip are copied into a separate trail that
+-- is thinned and capped per person per trip, for replaying a trip later.
+CREATE TABLE public.location_breadcrumbs (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  latitude NUMERIC NOT NULL,
+  longitude NUMERIC NOT NULL,
+  heading NUMERIC,
+  speed NUMERIC,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_location_breadcrumbs_trip_user ON public.location_breadcrumbs(trip_id, user_id, id);
+
+-- Keep whatever trip history the old append-only tables already hold
+INSERT INTO public.location_breadcrumbs (trip_id, user_id, latitude, longitude, heading, speed, recorded_at)
+SELECT l.trip_id, l.driver_id, l.latitude, l.longitude, l.heading, l.speed, l.updated_at
+FROM public.driver_locations l
+JOIN public.trips ON trips.id = l.trip_id
+UNION ALL
+SELECT l.trip_id, l.passenger_id, l.latitude, l.longitude, l.heading, l.speed, l.updated_at
+FROM public.passenger_locations l
+JOIN public.trips ON trips.id = l.trip_id
+ORDER BY 7;
+
+-- Collapse to the latest row per user
+DELETE FROM public.driver_locations a
+USING public.driver_locations b
+WHERE a.driver_id = b.driver_id
+AND (a.updated_at, a.id) < (b.updated_at, b.id);
+
+DELETE FROM public.passenger_locations a
+USING public.passenger_locations b
+WHERE a.passenger_id = b.passenger_id
+AND (a.updated_at, a.id) < (b.updated_at, b.id);
+
+ALTER TABLE public.driver_locations
+ADD CONSTRAINT driver_locations_driver_id_key UNIQUE (driver_id);
+
+ALTER TABLE public.passenger_locations
+ADD CONSTRAINT passenger_locations_passenger_id_key UNIQUE (passenger_id);
+
+-- Covered by the unique constraint
+DROP INDEX IF EXISTS public.idx_passenger_locations_passenger_id;
+
+-- Upserts go through the update path, so stamp it server-side like passengers
+CREATE TRIGGER update_driver_locations_updated_at
+BEFORE UPDATE ON public.driver_locations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stopping sharing removes the marker from everyone's map
+CREATE POLICY "Drivers can delete their own location" ON public.driver_locations FOR DELETE USING (auth.uid() = driver_id);
+
+CREATE POLICY "Passengers can delete their own location"
+ON public.passenger_locations
+FOR DELETE
+USING (auth.uid() = passenger_id);
+
+-- Enable RLS
+ALTER TABLE public.location_breadcrumbs ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below. Everyone sees their own trail, drivers
+-- see everyone on their trip, and passengers see the driver they rode with.
+CREATE POLICY "Trip participants can view breadcrumbs"
+ON public.location_breadcrumbs
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1 FROM trips
+    WHERE trips.id = location_breadcrumbs.trip_id
+    AND (
+      trips.driver_id = auth.uid()
+      OR (trips.driver_id = location_breadcrumbs.user_id AND public.is_trip_passenger(trips.id))
+    )
+  )
+);
+
+-- Shared by both position tables; the trigger argument names the user column.
+-- At most one point every 10 seconds and the latest 1000 points are kept per
+-- person per trip, which covers several hours of driving.
+CREATE OR REPLACE FUNCTION public.record_location_breadcrumb()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  mover UUID := (to_jsonb(NEW) ->> TG_ARGV[0])::UUID;
+  last_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NEW.trip_id IS NULL OR NOT EXISTS (SELECT 1 FROM trips WHERE id = NEW.trip_id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT recorded_at INTO last_at
+  FROM location_breadcrumbs
+  WHERE trip_id = NEW.trip_id AND user_id = mover
+  ORDER BY id DESC
+  LIMIT 1;
+
+  IF last_at IS NOT NULL AND NEW.updated_at < last_at + INTERVAL '10 seconds' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO location_breadcrumbs (trip_id, user_id, latitude, longitude, heading, speed, recorded_at)
+  VALUES (NEW.trip_id, mover, NEW.latitude, NEW.longitude, NEW.heading, NEW.speed, NEW.updated_at);
+
+  DELETE FROM location_breadcrumbs
+  WHERE trip_id = NEW.trip_id
+  AND user_id = mover
+  AND id <= (
+    SELECT id FROM location_breadcrumbs
+    WHERE trip_id = NEW.trip_id AND user_id = mover
+    ORDER BY id DESC
+    OFFSET 1000
+    LIMIT 1
+  );
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER record_driver_location_breadcrumb
+AFTER INSERT OR UPDATE ON public.driver_locations
+FOR EACH ROW
+EXECUTE FUNCTION public.record_location_breadcrumb('driver_id');
+
+CREATE TRIGGER record_passenger_location_breadcrumb
+AFTER INSERT OR UPDATE ON public.passenger_locations
+FOR EACH ROW
+EXECUTE FUNCTION public.record_location_breadcrumb('passenger_id');
+
+-- The map applies passenger position changes as they arrive, like drivers'
+ALTER PUBLICATION supabase_realtime ADD TABLE public.passenger_locations;
@@ -0,0 +1,51 @@
+-- Positions can be queued on the device while offline and sent later, so the
+-- time of the GPS fix is stored separately from when the row was written.
+-- Trails are built from the fix time so replayed points land where they belong.
+ALTER TABLE public.driver_locations ADD COLUMN recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+ALTER TABLE public.passenger_locations ADD COLUMN recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+UPDATE public.driver_locations SET recorded_at = updated_at;
+UPDATE public.passenger_locations SET recorded_at = updated_at;
+
+CREATE OR REPLACE FUNCTION public.record_location_breadcrumb()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  mover UUID := (to_jsonb(NEW) ->> TG_ARGV[0])::UUID;
+  last_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NEW.trip_id IS NULL OR NOT EXISTS (SELECT 1 FROM trips WHERE id = NEW.trip_id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT recorded_at INTO last_at
+  FROM location_breadcrumbs
+  WHERE trip_id = NEW.trip_id AND user_id = mover
+  ORDER BY id DESC
+  LIMIT 1;
+
+  -- Also drops fixes older than the trail's head, e.g. a stale queue
+  IF last_at IS NOT NULL AND NEW.recorded_at < last_at + INTERVAL '10 seconds' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO location_breadcrumbs (trip_id, user_id, latitude, longitude, heading, speed, recorded_at)
+  VALUES (NEW.trip_id, mover, NEW.latitude, NEW.longitude, NEW.heading, NEW.speed, NEW.recorded_at);
+
+  DELETE FROM location_breadcrumbs
+  WHERE trip_id = NEW.trip_id
+  AND user_id = mover
+  AND id <= (
+    SELECT id FROM location_breadcrumbs
+    WHERE trip_id = NEW.trip_id AND user_id = mover
+    ORDER BY id DESC
+    OFFSET 1000
+    LIMIT 1
+  );
+
+  RETURN NEW;
+END;
+$function$;
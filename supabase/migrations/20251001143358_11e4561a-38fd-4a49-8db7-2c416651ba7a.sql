@@ -0,0 +1,202 @@
+-- Route geometry per trip so riders along the way can find it, not just riders
+-- whose town name matches the start or destination. Every trip with
+-- coordinates gets a straight line between its endpoints; the driver's client
+-- then replaces it with the driving route from mapbox-directions.
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+CREATE TABLE public.trip_routes (
+  trip_id UUID NOT NULL PRIMARY KEY REFERENCES public.trips(id) ON DELETE CASCADE,
+  geom extensions.geography(LineString, 4326) NOT NULL,
+  source TEXT NOT NULL DEFAULT 'straight_line' CHECK (source IN ('straight_line', 'directions')),
+  distance_meters NUMERIC,
+  duration_seconds NUMERIC,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_trip_routes_geom ON public.trip_routes USING GIST (geom);
+
+-- Enable RLS
+ALTER TABLE public.trip_routes ENABLE ROW LEVEL SECURITY;
+
+-- Written only through sync_trip_route() and save_trip_route()
+CREATE POLICY "Anyone can view trip routes" ON public.trip_routes FOR SELECT USING (true);
+
+CREATE TRIGGER update_trip_routes_updated_at
+BEFORE UPDATE ON public.trip_routes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keeps a route for every trip with coordinates. Moving an endpoint discards
+-- the driving route, which no longer matches, until the client saves a new one.
+CREATE OR REPLACE FUNCTION public.sync_trip_route()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $function$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.start_lat IS NOT DISTINCT FROM OLD.start_lat
+     AND NEW.start_lng IS NOT DISTINCT FROM OLD.start_lng
+     AND NEW.dest_lat IS NOT DISTINCT FROM OLD.dest_lat
+     AND NEW.dest_lng IS NOT DISTINCT FROM OLD.dest_lng THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.start_lat IS NULL OR NEW.start_lng IS NULL OR NEW.dest_lat IS NULL OR NEW.dest_lng IS NULL THEN
+    DELETE FROM trip_routes WHERE trip_id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO trip_routes (trip_id, geom, source, distance_meters, duration_seconds)
+  VALUES (
+    NEW.id,
+    ST_MakeLine(
+      ST_SetSRID(ST_MakePoint(NEW.start_lng, NEW.start_lat), 4326),
+      ST_SetSRID(ST_MakePoint(NEW.dest_lng, NEW.dest_lat), 4326)
+    )::geography,
+    'straight_line',
+    NULL,
+    NULL
+  )
+  ON CONFLICT (trip_id) DO UPDATE
+  SET geom = EXCLUDED.geom,
+      source = EXCLUDED.source,
+      distance_meters = NULL,
+      duration_seconds = NULL;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_trip_route
+AFTER INSERT OR UPDATE OF start_lat, start_lng, dest_lat, dest_lng ON public.trips
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_trip_route();
+
+INSERT INTO public.trip_routes (trip_id, geom)
+SELECT
+  id,
+  extensions.ST_MakeLine(
+    extensions.ST_SetSRID(extensions.ST_MakePoint(start_lng, start_lat), 4326),
+    extensions.ST_SetSRID(extensions.ST_MakePoint(dest_lng, dest_lat), 4326)
+  )::extensions.geography
+FROM public.trips
+WHERE start_lat IS NOT NULL AND start_lng IS NOT NULL
+AND dest_lat IS NOT NULL AND dest_lng IS NOT NULL;
+
+-- Stores the driving route for a trip. p_coordinates is the [lng, lat] array
+-- returned by mapbox-directions; it is simplified to roughly 20 m so long
+-- routes stay small.
+CREATE OR REPLACE FUNCTION public.save_trip_route(
+  p_trip_id UUID,
+  p_coordinates JSONB,
+  p_distance_meters NUMERIC DEFAULT NULL,
+  p_duration_seconds NUMERIC DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $function$
+DECLARE
+  line geometry;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM trips WHERE id = p_trip_id AND driver_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+
+  IF jsonb_typeof(p_coordinates) <> 'array' OR jsonb_array_length(p_coordinates) < 2 THEN
+    RAISE EXCEPTION 'A route needs at least two points' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT ST_MakeLine(
+    array_agg(ST_SetSRID(ST_MakePoint((point ->> 0)::FLOAT8, (point ->> 1)::FLOAT8), 4326) ORDER BY position)
+  )
+  INTO line
+  FROM jsonb_array_elements(p_coordinates) WITH ORDINALITY AS points(point, position);
+
+  INSERT INTO trip_routes (trip_id, geom, source, distance_meters, duration_seconds)
+  VALUES (p_trip_id, ST_Simplify(line, 0.0002)::geography, 'directions', p_distance_meters, p_duration_seconds)
+  ON CONFLICT (trip_id) DO UPDATE
+  SET geom = EXCLUDED.geom,
+      source = EXCLUDED.source,
+      distance_meters = EXCLUDED.distance_meters,
+      duration_seconds = EXCLUDED.duration_seconds;
+END;
+$function$;
+
+-- Trips whose route passes within p_max_detour_meters of both the rider's
+-- origin and destination, reaching the origin first. The pickup and drop-off
+-- are the closest points on the route. Runs as the caller so trip visibility
+-- follows the trips policies.
+CREATE OR REPLACE FUNCTION public.search_trips_along_route(
+  p_origin_lat DOUBLE PRECISION,
+  p_origin_lng DOUBLE PRECISION,
+  p_dest_lat DOUBLE PRECISION,
+  p_dest_lng DOUBLE PRECISION,
+  p_max_detour_meters DOUBLE PRECISION DEFAULT 2000,
+  p_departs_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_departs_before TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  trip_id UUID,
+  pickup_lat DOUBLE PRECISION,
+  pickup_lng DOUBLE PRECISION,
+  dropoff_lat DOUBLE PRECISION,
+  dropoff_lng DOUBLE PRECISION,
+  pickup_distance_meters DOUBLE PRECISION,
+  dropoff_distance_meters DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $function$
+  WITH rider AS (
+    SELECT
+      ST_SetSRID(ST_MakePoint(p_origin_lng, p_origin_lat), 4326) AS origin,
+      ST_SetSRID(ST_MakePoint(p_dest_lng, p_dest_lat), 4326) AS dest
+  ),
+  nearby AS (
+    SELECT
+      trips.id,
+      trips.departure_time,
+      trip_routes.geom::geometry AS line,
+      rider.origin,
+      rider.dest
+    FROM trips
+    JOIN trip_routes ON trip_routes.trip_id = trips.id
+    CROSS JOIN rider
+    WHERE trips.status IN ('scheduled', 'active')
+    AND trips.available_seats > 0
+    AND (p_departs_after IS NULL OR trips.departure_time >= p_departs_after)
+    AND (p_departs_before IS NULL OR trips.departure_time < p_departs_before)
+    AND ST_DWithin(trip_routes.geom, rider.origin::geography, p_max_detour_meters)
+    AND ST_DWithin(trip_routes.geom, rider.dest::geography, p_max_detour_meters)
+  ),
+  located AS (
+    SELECT
+      nearby.*,
+      ST_LineLocatePoint(line, origin) AS pickup_fraction,
+      ST_LineLocatePoint(line, dest) AS dropoff_fraction
+    FROM nearby
+  ),
+  matched AS (
+    SELECT
+      located.*,
+      ST_LineInterpolatePoint(line, pickup_fraction) AS pickup,
+      ST_LineInterpolatePoint(line, dropoff_fraction) AS dropoff
+    FROM located
+    WHERE pickup_fraction < dropoff_fraction
+  )
+  SELECT
+    id,
+    ST_Y(pickup),
+    ST_X(pickup),
+    ST_Y(dropoff),
+    ST_X(dropoff),
+    ST_Distance(pickup::geography, origin::geography),
+    ST_Distance(dropoff::geography, dest::geography)
+  FROM matched
+  ORDER BY departure_time;
+$function$;
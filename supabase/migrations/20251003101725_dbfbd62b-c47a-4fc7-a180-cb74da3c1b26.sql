@@ -0,0 +1,49 @@
+-- Server-side lookup for the live map: trips starting within a radius of a
+-- point, or inside the visible map area, closest first. Backed by a spatial
+-- index on each trip's start point so it stays fast as trips grow.
+CREATE OR REPLACE FUNCTION public.geo_point(p_lat NUMERIC, p_lng NUMERIC)
+RETURNS extensions.geography
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $function$
+  SELECT extensions.ST_SetSRID(extensions.ST_MakePoint(p_lng, p_lat), 4326)::extensions.geography;
+$function$;
+
+CREATE INDEX idx_trips_start_point ON public.trips USING GIST (public.geo_point(start_lat, start_lng))
+WHERE start_lat IS NOT NULL AND start_lng IS NOT NULL;
+
+-- Pass p_radius_meters for "near me", or the four bounds for the visible map
+-- area; p_lat/p_lng is where distances are measured from in both cases
+CREATE OR REPLACE FUNCTION public.nearby_trips(
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_radius_meters DOUBLE PRECISION DEFAULT NULL,
+  p_south DOUBLE PRECISION DEFAULT NULL,
+  p_west DOUBLE PRECISION DEFAULT NULL,
+  p_north DOUBLE PRECISION DEFAULT NULL,
+  p_east DOUBLE PRECISION DEFAULT NULL,
+  p_limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  trip_id UUID,
+  distance_meters DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $function$
+  SELECT
+    trips.id,
+    ST_Distance(geo_point(trips.start_lat, trips.start_lng), geo_point(p_lat::NUMERIC, p_lng::NUMERIC))
+  FROM trips
+  WHERE trips.status IN ('scheduled', 'active')
+  AND trips.start_lat IS NOT NULL
+  AND trips.start_lng IS NOT NULL
+  AND (p_radius_meters IS NULL
+    OR ST_DWithin(geo_point(trips.start_lat, trips.start_lng), geo_point(p_lat::NUMERIC, p_lng::NUMERIC), p_radius_meters))
+  AND (p_south IS NULL OR p_west IS NULL OR p_north IS NULL OR p_east IS NULL
+    OR geo_point(trips.start_lat, trips.start_lng) && ST_MakeEnvelope(p_west, p_south, p_east, p_north, 4326)::geography)
+  ORDER BY 2, trips.departure_time
+  LIMIT LEAST(GREATEST(p_limit, 1), 500);
+$function$;
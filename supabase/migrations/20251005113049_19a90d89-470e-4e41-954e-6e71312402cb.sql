@@ -0,0 +1,126 @@
+-- One entry point for /search: text or route-corridor matching plus filters,
+-- a choice of sort order and keyset pagination. Each row carries its
+-- sort_value so the client can pass the last row back as the cursor; ties
+-- are broken by departure time and id so pages never overlap or skip.
+CREATE OR REPLACE FUNCTION public.search_trips(
+  p_from_text TEXT DEFAULT NULL,
+  p_to_text TEXT DEFAULT NULL,
+  p_origin_lat DOUBLE PRECISION DEFAULT NULL,
+  p_origin_lng DOUBLE PRECISION DEFAULT NULL,
+  p_dest_lat DOUBLE PRECISION DEFAULT NULL,
+  p_dest_lng DOUBLE PRECISION DEFAULT NULL,
+  p_max_detour_meters DOUBLE PRECISION DEFAULT 2000,
+  p_departs_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_departs_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_time_from TIME DEFAULT NULL,
+  p_time_to TIME DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata',
+  p_max_price NUMERIC DEFAULT NULL,
+  p_min_seats INTEGER DEFAULT 1,
+  p_vehicle_types vehicle_type[] DEFAULT NULL,
+  p_min_driver_rating NUMERIC DEFAULT NULL,
+  p_sort TEXT DEFAULT 'soonest',
+  p_after_value NUMERIC DEFAULT NULL,
+  p_after_departure TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  trip_id UUID,
+  sort_value NUMERIC,
+  departure_time TIMESTAMP WITH TIME ZONE,
+  pickup_lat DOUBLE PRECISION,
+  pickup_lng DOUBLE PRECISION,
+  dropoff_lat DOUBLE PRECISION,
+  dropoff_lng DOUBLE PRECISION,
+  pickup_distance_meters DOUBLE PRECISION,
+  dropoff_distance_meters DOUBLE PRECISION,
+  driver_rating NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $function$
+DECLARE
+  along_route BOOLEAN := p_origin_lat IS NOT NULL AND p_origin_lng IS NOT NULL
+    AND p_dest_lat IS NOT NULL AND p_dest_lng IS NOT NULL;
+BEGIN
+  IF p_sort NOT IN ('soonest', 'cheapest', 'closest', 'best_rated') THEN
+    RAISE EXCEPTION 'Unknown sort order %', p_sort USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_sort = 'closest' AND (p_origin_lat IS NULL OR p_origin_lng IS NULL) THEN
+    RAISE EXCEPTION 'Choose a starting point to sort by distance' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN QUERY
+  WITH route_matches AS (
+    SELECT * FROM search_trips_along_route(
+      p_origin_lat, p_origin_lng, p_dest_lat, p_dest_lng,
+      p_max_detour_meters, p_departs_after, p_departs_before
+    )
+    WHERE along_route
+  ),
+  candidates AS (
+    SELECT
+      trips.id,
+      trips.departure_time,
+      trips.price_per_seat,
+      route_matches.pickup_lat,
+      route_matches.pickup_lng,
+      route_matches.dropoff_lat,
+      route_matches.dropoff_lng,
+      CASE
+        WHEN along_route THEN route_matches.pickup_distance_meters
+        WHEN p_origin_lat IS NOT NULL AND p_origin_lng IS NOT NULL
+          THEN ST_Distance(geo_point(trips.start_lat, trips.start_lng), geo_point(p_origin_lat::NUMERIC, p_origin_lng::NUMERIC))
+      END AS pickup_distance,
+      route_matches.dropoff_distance_meters AS dropoff_distance,
+      profile_ratings.driver_average_score AS rating
+    FROM trips
+    LEFT JOIN route_matches ON route_matches.trip_id = trips.id
+    LEFT JOIN vehicles ON vehicles.id = trips.vehicle_id
+    LEFT JOIN profile_ratings ON profile_ratings.user_id = trips.driver_id
+    WHERE trips.status IN ('scheduled', 'active')
+    AND trips.available_seats >= GREATEST(COALESCE(p_min_seats, 1), 1)
+    AND (NOT along_route OR route_matches.trip_id IS NOT NULL)
+    AND (along_route OR p_from_text IS NULL OR trips.start_location ILIKE '%' || p_from_text || '%')
+    AND (along_route OR p_to_text IS NULL OR trips.destination ILIKE '%' || p_to_text || '%')
+    AND (p_departs_after IS NULL OR trips.departure_time >= p_departs_after)
+    AND (p_departs_before IS NULL OR trips.departure_time < p_departs_before)
+    AND (p_time_from IS NULL OR (trips.departure_time AT TIME ZONE p_timezone)::TIME >= p_time_from)
+    AND (p_time_to IS NULL OR (trips.departure_time AT TIME ZONE p_timezone)::TIME <= p_time_to)
+    AND (p_max_price IS NULL OR COALESCE(trips.price_per_seat, 0) <= p_max_price)
+    AND (p_vehicle_types IS NULL OR vehicles.vehicle_type = ANY (p_vehicle_types))
+    AND (p_min_driver_rating IS NULL OR profile_ratings.driver_average_score >= p_min_driver_rating)
+  ),
+  keyed AS (
+    SELECT
+      candidates.*,
+      -- Always ascending: best ratings get the most negative key, unrated last
+      CASE p_sort
+        WHEN 'cheapest' THEN COALESCE(candidates.price_per_seat, 0)
+        WHEN 'closest' THEN round(candidates.pickup_distance::NUMERIC, 3)
+        WHEN 'best_rated' THEN -COALESCE(candidates.rating, 0)
+        ELSE extract(epoch FROM candidates.departure_time)::NUMERIC
+      END AS key
+    FROM candidates
+  )
+  SELECT
+    keyed.id,
+    keyed.key,
+    keyed.departure_time,
+    keyed.pickup_lat,
+    keyed.pickup_lng,
+    keyed.dropoff_lat,
+    keyed.dropoff_lng,
+    keyed.pickup_distance,
+    keyed.dropoff_distance,
+    keyed.rating
+  FROM keyed
+  WHERE p_after_id IS NULL
+  OR (keyed.key, keyed.departure_time, keyed.id) > (p_after_value, p_after_departure, p_after_id)
+  ORDER BY keyed.key, keyed.departure_time, keyed.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$function$;
@@ -0,0 +1,204 @@
+-- Saved searches and in-app notifications. When a trip is posted, every saved
+-- search it satisfies produces a notification for the passenger who saved it.
+-- Notifications flagged send_email are then delivered by the
+-- send-saved-search-alerts edge function, which the driver's client calls
+-- right after posting the trip (the database itself makes no HTTP calls).
+CREATE TABLE public.saved_searches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  passenger_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  from_text TEXT,
+  to_text TEXT,
+  origin_lat DOUBLE PRECISION,
+  origin_lng DOUBLE PRECISION,
+  dest_lat DOUBLE PRECISION,
+  dest_lng DOUBLE PRECISION,
+  max_detour_meters DOUBLE PRECISION NOT NULL DEFAULT 2000 CHECK (max_detour_meters > 0),
+  date_from DATE,
+  date_to DATE,
+  max_price NUMERIC CHECK (max_price >= 0),
+  -- Dates are compared in the passenger's own calendar
+  timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+  email_alerts BOOLEAN NOT NULL DEFAULT true,
+  last_matched_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT saved_searches_has_route CHECK (
+    from_text IS NOT NULL OR to_text IS NOT NULL OR origin_lat IS NOT NULL OR dest_lat IS NOT NULL
+  ),
+  CONSTRAINT saved_searches_origin_pair CHECK ((origin_lat IS NULL) = (origin_lng IS NULL)),
+  CONSTRAINT saved_searches_dest_pair CHECK ((dest_lat IS NULL) = (dest_lng IS NULL)),
+  CONSTRAINT saved_searches_date_range CHECK (date_to IS NULL OR date_from IS NULL OR date_to >= date_from)
+);
+
+CREATE INDEX idx_saved_searches_passenger_id ON public.saved_searches(passenger_id);
+
+-- Generic per-user inbox. type is 'saved_search_match' for now.
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  trip_id UUID REFERENCES public.trips(id) ON DELETE CASCADE,
+  saved_search_id UUID REFERENCES public.saved_searches(id) ON DELETE SET NULL,
+  send_email BOOLEAN NOT NULL DEFAULT false,
+  emailed_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_pending_email ON public.notifications(trip_id)
+WHERE send_email AND emailed_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved searches"
+ON public.saved_searches
+FOR SELECT
+USING (auth.uid() = passenger_id);
+
+CREATE POLICY "Users can create their own saved searches"
+ON public.saved_searches
+FOR INSERT
+WITH CHECK (auth.uid() = passenger_id);
+
+CREATE POLICY "Users can update their own saved searches"
+ON public.saved_searches
+FOR UPDATE
+USING (auth.uid() = passenger_id);
+
+CREATE POLICY "Users can delete their own saved searches"
+ON public.saved_searches
+FOR DELETE
+USING (auth.uid() = passenger_id);
+
+-- Notifications are only ever created by the database
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+ON public.notifications
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_saved_searches_updated_at
+BEFORE UPDATE ON public.saved_searches
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every new trip is checked against every saved search, so keep the list short
+CREATE OR REPLACE FUNCTION public.limit_saved_searches()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF (SELECT count(*) FROM saved_searches WHERE passenger_id = NEW.passenger_id) >= 20 THEN
+    RAISE EXCEPTION 'You can keep up to 20 saved searches'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER limit_saved_searches
+BEFORE INSERT ON public.saved_searches
+FOR EACH ROW
+EXECUTE FUNCTION public.limit_saved_searches();
+
+-- Same rules as search_trips: with both points saved the trip must pass near
+-- the origin and then the destination, otherwise the place names are matched.
+-- A brand new trip only has its straight-line route, so that is what is used.
+CREATE OR REPLACE FUNCTION public.saved_search_matches_trip(s public.saved_searches, t public.trips)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $function$
+  SELECT
+    (s.date_from IS NULL OR (t.departure_time AT TIME ZONE s.timezone)::DATE >= s.date_from)
+    AND (s.date_to IS NULL OR (t.departure_time AT TIME ZONE s.timezone)::DATE <= s.date_to)
+    AND (s.max_price IS NULL OR COALESCE(t.price_per_seat, 0) <= s.max_price)
+    AND CASE
+      WHEN s.origin_lat IS NOT NULL AND s.dest_lat IS NOT NULL
+        AND t.start_lat IS NOT NULL AND t.start_lng IS NOT NULL
+        AND t.dest_lat IS NOT NULL AND t.dest_lng IS NOT NULL THEN (
+        SELECT
+          ST_DWithin(line::geography, origin::geography, s.max_detour_meters)
+          AND ST_DWithin(line::geography, dest::geography, s.max_detour_meters)
+          AND ST_LineLocatePoint(line, origin) < ST_LineLocatePoint(line, dest)
+        FROM (
+          SELECT
+            ST_MakeLine(
+              ST_SetSRID(ST_MakePoint(t.start_lng, t.start_lat), 4326),
+              ST_SetSRID(ST_MakePoint(t.dest_lng, t.dest_lat), 4326)
+            ) AS line,
+            ST_SetSRID(ST_MakePoint(s.origin_lng, s.origin_lat), 4326) AS origin,
+            ST_SetSRID(ST_MakePoint(s.dest_lng, s.dest_lat), 4326) AS dest
+        ) AS geo
+      )
+      ELSE (s.from_text IS NULL OR t.start_location ILIKE '%' || s.from_text || '%')
+        AND (s.to_text IS NULL OR t.destination ILIKE '%' || s.to_text || '%')
+    END;
+$function$;
+
+-- One notification per passenger per trip, however many of their searches match
+CREATE OR REPLACE FUNCTION public.notify_saved_search_matches()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.status <> 'scheduled' OR NEW.available_seats <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  WITH matches AS (
+    SELECT DISTINCT ON (s.passenger_id) s.*
+    FROM saved_searches s
+    WHERE s.passenger_id <> NEW.driver_id
+    AND (s.date_to IS NULL OR s.date_to >= (now() AT TIME ZONE s.timezone)::DATE)
+    AND saved_search_matches_trip(s, NEW)
+    ORDER BY s.passenger_id, s.email_alerts DESC, s.created_at
+  ),
+  touched AS (
+    UPDATE saved_searches
+    SET last_matched_at = now()
+    FROM matches
+    WHERE saved_searches.id = matches.id
+  )
+  INSERT INTO notifications (user_id, type, title, body, trip_id, saved_search_id, send_email)
+  SELECT
+    matches.passenger_id,
+    'saved_search_match',
+    'New trip: ' || NEW.start_location || ' → ' || NEW.destination,
+    'Departs ' || to_char(NEW.departure_time AT TIME ZONE matches.timezone, 'Dy DD Mon, HH24:MI')
+      || ' · matches "' || matches.name || '"',
+    NEW.id,
+    matches.id,
+    matches.email_alerts
+  FROM matches;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER notify_saved_search_matches
+AFTER INSERT ON public.trips
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_saved_search_matches();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,388 @@
+-- Recurring trips. A series holds the route, the weekly schedule and the trip
+-- details; concrete trips rows are generated from it a couple of weeks ahead
+-- (daily through pg_cron) so they can be searched and booked like any other.
+--
+-- Each occurrence remembers its series and date. Editing the series rewrites
+-- every upcoming occurrence the driver hasn't edited on its own; editing an
+-- occurrence detaches it from later series edits. Deleting an occurrence
+-- records its date as skipped so it isn't generated again.
+--
+-- How far ahead trips are generated defaults to 14 days:
+--   ALTER DATABASE postgres SET app.trip_series_days_ahead = '21';
+CREATE TABLE public.trip_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  driver_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  start_location TEXT NOT NULL,
+  destination TEXT NOT NULL,
+  start_lat NUMERIC,
+  start_lng NUMERIC,
+  dest_lat NUMERIC,
+  dest_lng NUMERIC,
+  -- Wall-clock departure in the driver's timezone, so DST doesn't shift it
+  departure_time TIME NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+  -- 0 = Sunday ... 6 = Saturday, as extract(dow) and Date.getDay()
+  days_of_week SMALLINT[] NOT NULL,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  skip_dates DATE[] NOT NULL DEFAULT '{}',
+  available_seats INTEGER NOT NULL CHECK (available_seats > 0),
+  price_per_seat NUMERIC,
+  description TEXT,
+  vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT trip_series_days_valid CHECK (
+    cardinality(days_of_week) > 0 AND days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]
+  ),
+  CONSTRAINT trip_series_date_range CHECK (ends_on >= starts_on AND ends_on <= starts_on + 366)
+);
+
+CREATE INDEX idx_trip_series_driver_id ON public.trip_series(driver_id);
+
+ALTER TABLE public.trips
+  ADD COLUMN series_id UUID REFERENCES public.trip_series(id) ON DELETE SET NULL,
+  ADD COLUMN series_date DATE,
+  ADD COLUMN series_detached BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX trips_series_id_series_date_key ON public.trips(series_id, series_date);
+
+-- Enable RLS
+ALTER TABLE public.trip_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Drivers can view their own trip series"
+ON public.trip_series
+FOR SELECT
+USING (auth.uid() = driver_id);
+
+CREATE POLICY "Drivers can create their own trip series"
+ON public.trip_series
+FOR INSERT
+WITH CHECK (auth.uid() = driver_id);
+
+-- Series are cancelled rather than deleted so past occurrences keep their link
+CREATE POLICY "Drivers can update their own trip series"
+ON public.trip_series
+FOR UPDATE
+USING (auth.uid() = driver_id);
+
+CREATE TRIGGER update_trip_series_updated_at
+BEFORE UPDATE ON public.trip_series
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Occurrences are written by triggers that skip check_trip_vehicle, so the
+-- vehicle is checked once here instead
+CREATE OR REPLACE FUNCTION public.validate_trip_series()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  vehicle RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This series has been cancelled' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    NEW.cancelled_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF NEW.vehicle_id IS NULL THEN
+    RAISE EXCEPTION 'Choose a vehicle for this trip' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT driver_id, seat_capacity INTO vehicle FROM vehicles WHERE id = NEW.vehicle_id;
+  IF NOT FOUND OR vehicle.driver_id <> NEW.driver_id THEN
+    RAISE EXCEPTION 'Vehicle not found' USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF NEW.available_seats > vehicle.seat_capacity THEN
+    RAISE EXCEPTION 'This vehicle only has % seats', vehicle.seat_capacity
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.skip_dates := ARRAY(SELECT DISTINCT unnest(NEW.skip_dates) ORDER BY 1);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER validate_trip_series
+BEFORE INSERT OR UPDATE ON public.trip_series
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_trip_series();
+
+CREATE OR REPLACE FUNCTION public.trip_series_runs_on(s public.trip_series, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT p_date BETWEEN s.starts_on AND s.ends_on
+    AND extract(dow FROM p_date)::SMALLINT = ANY (s.days_of_week)
+    AND NOT p_date = ANY (s.skip_dates);
+$function$;
+
+-- Creates the missing occurrences of active series up to the horizon. Dates
+-- that already have a trip, in any state, are left alone. New occurrences
+-- reuse the driving route saved for an earlier one where there is one.
+CREATE OR REPLACE FUNCTION public.generate_series_trips(
+  p_series_id UUID DEFAULT NULL,
+  p_days_ahead INTEGER DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  days_ahead INTEGER := COALESCE(
+    p_days_ahead,
+    NULLIF(current_setting('app.trip_series_days_ahead', true), '')::INTEGER,
+    14
+  );
+  new_trip_ids UUID[];
+BEGIN
+  WITH occurrences AS (
+    SELECT s.*, day::DATE AS occurs_on
+    FROM trip_series s
+    CROSS JOIN LATERAL generate_series(
+      GREATEST(s.starts_on, (now() AT TIME ZONE s.timezone)::DATE),
+      LEAST(s.ends_on, (now() AT TIME ZONE s.timezone)::DATE + days_ahead),
+      INTERVAL '1 day'
+    ) AS day
+    WHERE s.status = 'active'
+    AND (p_series_id IS NULL OR s.id = p_series_id)
+    AND trip_series_runs_on(s, day::DATE)
+  ),
+  inserted AS (
+    INSERT INTO trips (
+      driver_id, start_location, destination, start_lat, start_lng, dest_lat, dest_lng,
+      departure_time, available_seats, price_per_seat, description, vehicle_id,
+      series_id, series_date
+    )
+    SELECT
+      driver_id, start_location, destination, start_lat, start_lng, dest_lat, dest_lng,
+      (occurs_on + departure_time) AT TIME ZONE timezone,
+      available_seats, price_per_seat, description, vehicle_id,
+      id, occurs_on
+    FROM occurrences
+    WHERE (occurs_on + departure_time) AT TIME ZONE timezone > now()
+    ON CONFLICT (series_id, series_date) DO NOTHING
+    RETURNING trips.id
+  )
+  SELECT array_agg(id) INTO new_trip_ids FROM inserted;
+
+  IF new_trip_ids IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  -- sync_trip_route has given every new trip a straight line by now
+  UPDATE trip_routes
+  SET geom = saved.geom,
+      source = saved.source,
+      distance_meters = saved.distance_meters,
+      duration_seconds = saved.duration_seconds
+  FROM trips
+  JOIN LATERAL (
+    SELECT route.*
+    FROM trips AS sibling
+    JOIN trip_routes AS route ON route.trip_id = sibling.id
+    WHERE sibling.series_id = trips.series_id
+    AND NOT sibling.series_detached
+    AND route.source = 'directions'
+    ORDER BY route.updated_at DESC
+    LIMIT 1
+  ) AS saved ON true
+  WHERE trips.id = ANY (new_trip_ids)
+  AND trip_routes.trip_id = trips.id;
+
+  RETURN cardinality(new_trip_ids);
+END;
+$function$;
+
+-- Generation runs from the series triggers and the scheduler only
+REVOKE EXECUTE ON FUNCTION public.generate_series_trips(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.generate_new_series_trips()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  PERFORM generate_series_trips(NEW.id);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER generate_new_series_trips
+AFTER INSERT ON public.trip_series
+FOR EACH ROW
+EXECUTE FUNCTION public.generate_new_series_trips();
+
+-- Pushes a series edit down to its upcoming occurrences; trips that already
+-- left stay as they were. Dates that drop out of the schedule are removed,
+-- or cancelled if anyone has asked to join.
+CREATE OR REPLACE FUNCTION public.apply_trip_series_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    -- apply_trip_transition takes care of the passengers
+    UPDATE trips
+    SET status = 'cancelled'
+    WHERE series_id = NEW.id AND status = 'scheduled';
+    RETURN NEW;
+  END IF;
+
+  UPDATE trips
+  SET status = 'cancelled'
+  WHERE series_id = NEW.id
+  AND status = 'scheduled'
+  AND departure_time > now()
+  AND NOT trip_series_runs_on(NEW, series_date)
+  AND EXISTS (SELECT 1 FROM bookings WHERE bookings.trip_id = trips.id);
+
+  DELETE FROM trips
+  WHERE series_id = NEW.id
+  AND status = 'scheduled'
+  AND departure_time > now()
+  AND NOT trip_series_runs_on(NEW, series_date);
+
+  UPDATE trips
+  SET start_location = NEW.start_location,
+      destination = NEW.destination,
+      start_lat = NEW.start_lat,
+      start_lng = NEW.start_lng,
+      dest_lat = NEW.dest_lat,
+      dest_lng = NEW.dest_lng,
+      departure_time = (series_date + NEW.departure_time) AT TIME ZONE NEW.timezone,
+      -- Seats already taken by accepted passengers stay taken
+      available_seats = GREATEST(NEW.available_seats - COALESCE((
+        SELECT sum(seats_requested) FROM bookings
+        WHERE bookings.trip_id = trips.id AND bookings.status = 'accepted'
+      ), 0), 0),
+      price_per_seat = NEW.price_per_seat,
+      description = NEW.description,
+      vehicle_id = NEW.vehicle_id
+  WHERE series_id = NEW.id
+  AND status = 'scheduled'
+  AND departure_time > now()
+  AND NOT series_detached;
+
+  PERFORM generate_series_trips(NEW.id);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER apply_trip_series_change
+AFTER UPDATE ON public.trip_series
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_trip_series_change();
+
+-- A driver editing one occurrence directly (not through the series trigger)
+-- takes it out of later series edits
+CREATE OR REPLACE FUNCTION public.detach_series_occurrence()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF NEW.series_id IS NOT NULL AND pg_trigger_depth() = 1 THEN
+    NEW.series_detached := true;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER detach_series_occurrence
+BEFORE UPDATE OF start_location, destination, start_lat, start_lng, dest_lat, dest_lng,
+  departure_time, price_per_seat, description, vehicle_id ON public.trips
+FOR EACH ROW
+EXECUTE FUNCTION public.detach_series_occurrence();
+
+CREATE OR REPLACE FUNCTION public.skip_deleted_series_occurrence()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF OLD.series_id IS NOT NULL AND pg_trigger_depth() = 1 THEN
+    UPDATE trip_series
+    SET skip_dates = array_append(skip_dates, OLD.series_date)
+    WHERE id = OLD.series_id
+    AND status = 'active'
+    AND NOT OLD.series_date = ANY (skip_dates);
+  END IF;
+  RETURN OLD;
+END;
+$function$;
+
+CREATE TRIGGER skip_deleted_series_occurrence
+AFTER DELETE ON public.trips
+FOR EACH ROW
+EXECUTE FUNCTION public.skip_deleted_series_occurrence();
+
+-- A commuter series would otherwise alert the same passenger once per day
+CREATE OR REPLACE FUNCTION public.notify_saved_search_matches()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.status <> 'scheduled' OR NEW.available_seats <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  WITH matches AS (
+    SELECT DISTINCT ON (s.passenger_id) s.*
+    FROM saved_searches s
+    WHERE s.passenger_id <> NEW.driver_id
+    AND (s.date_to IS NULL OR s.date_to >= (now() AT TIME ZONE s.timezone)::DATE)
+    AND saved_search_matches_trip(s, NEW)
+    AND NOT (NEW.series_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM notifications
+      JOIN trips ON trips.id = notifications.trip_id
+      WHERE notifications.user_id = s.passenger_id
+      AND notifications.type = 'saved_search_match'
+      AND trips.series_id = NEW.series_id
+    ))
+    ORDER BY s.passenger_id, s.email_alerts DESC, s.created_at
+  ),
+  touched AS (
+    UPDATE saved_searches
+    SET last_matched_at = now()
+    FROM matches
+    WHERE saved_searches.id = matches.id
+  )
+  INSERT INTO notifications (user_id, type, title, body, trip_id, saved_search_id, send_email)
+  SELECT
+    matches.passenger_id,
+    'saved_search_match',
+    'New trip: ' || NEW.start_location || ' → ' || NEW.destination,
+    'Departs ' || to_char(NEW.departure_time AT TIME ZONE matches.timezone, 'Dy DD Mon, HH24:MI')
+      || CASE WHEN NEW.series_id IS NOT NULL THEN ' and repeats' ELSE '' END
+      || ' · matches "' || matches.name || '"',
+    NEW.id,
+    matches.id,
+    matches.email_alerts
+  FROM matches;
+
+  RETURN NEW;
+END;
+$function$;
+
+SELECT cron.schedule(
+  'generate-series-trips',
+  '15 0 * * *',
+  $$SELECT public.generate_series_trips()$$
+);
@@ -0,0 +1,341 @@
+-- Multi-stop trips. A trip may pass through up to 10 ordered intermediate
+-- stops. Stops are numbered along the route: 0 is the trip's start, 1..n the
+-- intermediate stops and n + 1 the destination. Leg i runs from stop i to
+-- stop i + 1, and a booking from stop a to stop b holds its seats on legs
+-- a..b-1 only, so a seat freed at a stop can be sold again for the rest of
+-- the route.
+--
+-- trips.available_seats keeps its meaning for a trip without stops and
+-- becomes the seats free on the busiest leg otherwise, i.e. what can still be
+-- booked end to end. What the driver offers is available_seats plus the
+-- seats held on that leg.
+CREATE TABLE public.trip_stops (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL CHECK (position BETWEEN 1 AND 10),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 200),
+  lat NUMERIC NOT NULL,
+  lng NUMERIC NOT NULL,
+  -- Price per seat from the trip's start to this stop
+  fare_from_start NUMERIC NOT NULL DEFAULT 0 CHECK (fare_from_start >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (trip_id, position)
+);
+
+-- Enable RLS
+ALTER TABLE public.trip_stops ENABLE ROW LEVEL SECURITY;
+
+-- Written only through set_trip_stops()
+CREATE POLICY "Anyone can view trip stops" ON public.trip_stops FOR SELECT USING (true);
+
+-- to_stop is filled in with the destination's number when left out.
+-- fare_per_seat is the segment's price when the booking was made, so later
+-- price changes do not alter what the passenger agreed to.
+ALTER TABLE public.bookings
+  ADD COLUMN from_stop SMALLINT NOT NULL DEFAULT 0 CHECK (from_stop >= 0),
+  ADD COLUMN to_stop SMALLINT,
+  ADD COLUMN fare_per_seat NUMERIC CHECK (fare_per_seat >= 0),
+  ADD CONSTRAINT bookings_stop_order CHECK (to_stop IS NULL OR to_stop > from_stop);
+
+UPDATE public.bookings
+SET to_stop = 1,
+    fare_per_seat = trips.price_per_seat
+FROM public.trips
+WHERE trips.id = bookings.trip_id;
+
+-- Price per seat between two stops; NULL for a free trip
+CREATE OR REPLACE FUNCTION public.trip_segment_fare(p_trip_id UUID, p_from_stop INTEGER, p_to_stop INTEGER)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $function$
+  WITH fares AS (
+    SELECT 0 AS stop, 0::NUMERIC AS fare
+    UNION ALL
+    SELECT position, fare_from_start FROM trip_stops WHERE trip_id = p_trip_id
+    UNION ALL
+    SELECT (SELECT count(*) FROM trip_stops WHERE trip_id = p_trip_id)::INTEGER + 1, price_per_seat
+    FROM trips
+    WHERE id = p_trip_id
+  )
+  SELECT CASE
+    WHEN (SELECT price_per_seat FROM trips WHERE id = p_trip_id) IS NULL THEN NULL
+    ELSE GREATEST(
+      (SELECT fare FROM fares WHERE stop = p_to_stop) - (SELECT fare FROM fares WHERE stop = p_from_stop),
+      0
+    )
+  END;
+$function$;
+
+-- Seats held by accepted bookings on every leg of a trip, optionally leaving
+-- one booking out
+CREATE OR REPLACE FUNCTION public.trip_leg_holds(p_trip_id UUID, p_exclude_booking UUID DEFAULT NULL)
+RETURNS TABLE (leg INTEGER, seats_held INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT legs.leg, COALESCE(sum(b.seats_requested), 0)::INTEGER
+  FROM generate_series(0, (SELECT count(*) FROM trip_stops WHERE trip_id = p_trip_id)::INTEGER) AS legs(leg)
+  LEFT JOIN bookings b
+    ON b.trip_id = p_trip_id
+    AND b.status = 'accepted'
+    AND b.id IS DISTINCT FROM p_exclude_booking
+    AND legs.leg >= b.from_stop
+    AND legs.leg < b.to_stop
+  GROUP BY legs.leg
+  ORDER BY legs.leg;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.trip_leg_holds(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Seats still free on each leg, for the booking form
+CREATE OR REPLACE FUNCTION public.trip_leg_seats(p_trip_id UUID)
+RETURNS TABLE (leg INTEGER, seats_free INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT holds.leg, (t.available_seats + max(holds.seats_held) OVER () - holds.seats_held)::INTEGER
+  FROM trip_leg_holds(p_trip_id) AS holds
+  CROSS JOIN trips t
+  WHERE t.id = p_trip_id
+  ORDER BY holds.leg;
+$function$;
+
+-- Replaces a trip's stops. p_stops is an ordered array of
+-- {name, lat, lng, fare_from_start}. Passengers' bookings refer to stops by
+-- number, so the list is frozen once anyone has booked.
+CREATE OR REPLACE FUNCTION public.set_trip_stops(p_trip_id UUID, p_stops JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  trip RECORD;
+  current_stops JSONB;
+BEGIN
+  SELECT * INTO trip FROM trips WHERE id = p_trip_id AND driver_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+
+  IF jsonb_typeof(p_stops) <> 'array' THEN
+    RAISE EXCEPTION 'Stops must be a list' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'name', name, 'lat', lat, 'lng', lng, 'fare_from_start', fare_from_start
+  ) ORDER BY position), '[]'::JSONB)
+  INTO current_stops
+  FROM trip_stops
+  WHERE trip_id = p_trip_id;
+
+  IF current_stops = (
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'name', s->>'name',
+      'lat', (s->>'lat')::NUMERIC,
+      'lng', (s->>'lng')::NUMERIC,
+      'fare_from_start', COALESCE((s->>'fare_from_start')::NUMERIC, 0)
+    ) ORDER BY ord), '[]'::JSONB)
+    FROM jsonb_array_elements(p_stops) WITH ORDINALITY AS e(s, ord)
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF jsonb_array_length(p_stops) > 0 AND trip.series_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Recurring trips cannot have intermediate stops' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE trip_id = p_trip_id AND status IN ('pending', 'accepted')
+  ) THEN
+    RAISE EXCEPTION 'Stops cannot be changed once passengers have booked'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  DELETE FROM trip_stops WHERE trip_id = p_trip_id;
+
+  INSERT INTO trip_stops (trip_id, position, name, lat, lng, fare_from_start)
+  SELECT
+    p_trip_id,
+    ord,
+    s->>'name',
+    (s->>'lat')::NUMERIC,
+    (s->>'lng')::NUMERIC,
+    COALESCE((s->>'fare_from_start')::NUMERIC, 0)
+  FROM jsonb_array_elements(p_stops) WITH ORDINALITY AS e(s, ord);
+
+  IF EXISTS (
+    SELECT 1 FROM trip_stops s
+    WHERE s.trip_id = p_trip_id
+    AND (
+      s.fare_from_start > COALESCE(trip.price_per_seat, 0)
+      OR s.fare_from_start < (
+        SELECT COALESCE(max(p.fare_from_start), 0) FROM trip_stops p
+        WHERE p.trip_id = p_trip_id AND p.position < s.position
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Stop prices must rise along the route and stay within the full fare'
+      USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$function$;
+
+-- Runs before manage_booking_seats(), which relies on to_stop being set
+CREATE OR REPLACE FUNCTION public.check_booking_segment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  last_stop INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.from_stop <> OLD.from_stop OR NEW.to_stop IS DISTINCT FROM OLD.to_stop THEN
+      RAISE EXCEPTION 'A booking''s stops cannot be changed; cancel it and book again'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  last_stop := (SELECT count(*) FROM trip_stops WHERE trip_id = NEW.trip_id) + 1;
+  NEW.to_stop := COALESCE(NEW.to_stop, last_stop);
+
+  IF NEW.to_stop > last_stop OR NEW.from_stop >= NEW.to_stop THEN
+    RAISE EXCEPTION 'Choose where you get on before where you get off'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.fare_per_seat := trip_segment_fare(NEW.trip_id, NEW.from_stop, NEW.to_stop);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_booking_segment
+BEFORE INSERT OR UPDATE OF from_stop, to_stop ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.check_booking_segment();
+
+-- Same bookkeeping as before, worked out per leg: a booking fits when every
+-- leg it covers has room, and available_seats follows the busiest leg.
+CREATE OR REPLACE FUNCTION public.manage_booking_seats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  remaining INTEGER;
+  offered INTEGER;
+  leg_free INTEGER;
+  new_available INTEGER;
+  newly_held BOOLEAN;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.trip_id <> OLD.trip_id THEN
+    RAISE EXCEPTION 'A booking cannot be moved to another trip';
+  END IF;
+
+  -- Serialises every seat change on this trip
+  SELECT available_seats INTO remaining
+  FROM trips
+  WHERE id = NEW.trip_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+
+  -- The booking row has not changed yet, so its old hold is still counted
+  SELECT remaining + COALESCE(max(seats_held), 0) INTO offered
+  FROM trip_leg_holds(NEW.trip_id);
+
+  SELECT offered - COALESCE(max(seats_held), 0) INTO leg_free
+  FROM trip_leg_holds(NEW.trip_id, NEW.id)
+  WHERE leg >= NEW.from_stop AND leg < NEW.to_stop;
+
+  newly_held := NEW.status = 'accepted'
+    AND (TG_OP = 'INSERT' OR OLD.status <> 'accepted' OR NEW.seats_requested > OLD.seats_requested);
+
+  IF newly_held AND NEW.seats_requested > leg_free THEN
+    RAISE EXCEPTION 'Not enough seats available'
+      USING ERRCODE = 'check_violation',
+            DETAIL = format('%s seat(s) requested, %s left', NEW.seats_requested, leg_free);
+  END IF;
+
+  -- Refuse requests that could never be accepted
+  IF NEW.status = 'pending' AND NEW.seats_requested > leg_free
+     AND (TG_OP = 'INSERT' OR NEW.seats_requested <> OLD.seats_requested OR OLD.status <> 'pending') THEN
+    RAISE EXCEPTION 'Not enough seats available'
+      USING ERRCODE = 'check_violation',
+            DETAIL = format('%s seat(s) requested, %s left', NEW.seats_requested, leg_free);
+  END IF;
+
+  SELECT offered - COALESCE(max(
+    seats_held + CASE
+      WHEN NEW.status = 'accepted' AND leg >= NEW.from_stop AND leg < NEW.to_stop THEN NEW.seats_requested
+      ELSE 0
+    END
+  ), 0)
+  INTO new_available
+  FROM trip_leg_holds(NEW.trip_id, NEW.id);
+
+  IF new_available <> remaining THEN
+    UPDATE trips
+    SET available_seats = new_available
+    WHERE id = NEW.trip_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Capacity is checked against the busiest leg rather than every accepted seat
+CREATE OR REPLACE FUNCTION public.check_trip_vehicle()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  vehicle RECORD;
+  seats_held INTEGER := 0;
+BEGIN
+  -- Seat bookkeeping from manage_booking_seats() runs before the booking row
+  -- changes, so the held count would be stale; it keeps its own invariants
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.vehicle_id IS NULL THEN
+    IF TG_OP = 'INSERT' THEN
+      RAISE EXCEPTION 'Choose a vehicle for this trip' USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT driver_id, seat_capacity INTO vehicle FROM vehicles WHERE id = NEW.vehicle_id;
+  IF NOT FOUND OR vehicle.driver_id <> NEW.driver_id THEN
+    RAISE EXCEPTION 'Vehicle not found' USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(max(holds.seats_held), 0) INTO seats_held
+    FROM trip_leg_holds(NEW.id) AS holds;
+  END IF;
+
+  IF NEW.available_seats + seats_held > vehicle.seat_capacity THEN
+    RAISE EXCEPTION 'This vehicle only has % seats', vehicle.seat_capacity
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,480 @@
+-- Ride requests. A passenger posts the ride they want (route, departure
+-- window, seats, budget); drivers browse open requests near them and make
+-- offers. When the passenger accepts an offer it becomes an ordinary trip
+-- with the passenger's booking already accepted, and every other offer on
+-- the request is declined.
+--
+-- Accepting goes through accept_ride_offer(), which creates the booking on
+-- the driver's behalf. Booking rules trust such writes while the
+-- transaction-local app.system_change setting is on; clients cannot set it.
+CREATE TABLE public.ride_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  passenger_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  start_location TEXT NOT NULL,
+  destination TEXT NOT NULL,
+  start_lat NUMERIC NOT NULL,
+  start_lng NUMERIC NOT NULL,
+  dest_lat NUMERIC NOT NULL,
+  dest_lng NUMERIC NOT NULL,
+  -- The passenger wants to leave somewhere in this window
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  window_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+  seats INTEGER NOT NULL DEFAULT 1 CHECK (seats BETWEEN 1 AND 8),
+  max_price_per_seat NUMERIC CHECK (max_price_per_seat >= 0),
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'matched', 'cancelled', 'expired')),
+  trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT ride_requests_window_valid CHECK (
+    window_end > window_start AND window_end <= window_start + INTERVAL '24 hours'
+  )
+);
+
+CREATE INDEX idx_ride_requests_passenger_id ON public.ride_requests(passenger_id, created_at DESC);
+CREATE INDEX idx_ride_requests_open_start_point ON public.ride_requests USING GIST (public.geo_point(start_lat, start_lng))
+WHERE status = 'open';
+
+CREATE TABLE public.ride_offers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.ride_requests(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  departure_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- Seats the trip will offer in total; the passenger's come out of these
+  seats_offered INTEGER NOT NULL CHECK (seats_offered > 0),
+  price_per_seat NUMERIC CHECK (price_per_seat >= 0),
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'withdrawn', 'expired')),
+  trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ride_offers_request_id ON public.ride_offers(request_id);
+CREATE INDEX idx_ride_offers_driver_id ON public.ride_offers(driver_id, created_at DESC);
+-- One live offer per driver per request
+CREATE UNIQUE INDEX ride_offers_pending_driver_key ON public.ride_offers(request_id, driver_id)
+WHERE status = 'pending';
+
+-- Enable RLS
+ALTER TABLE public.ride_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ride_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own ride requests"
+ON public.ride_requests
+FOR SELECT
+USING (auth.uid() = passenger_id);
+
+CREATE POLICY "Drivers can view ride requests"
+ON public.ride_requests
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'driver'));
+
+CREATE POLICY "Users can create their own ride requests"
+ON public.ride_requests
+FOR INSERT
+WITH CHECK (auth.uid() = passenger_id);
+
+-- Requests are cancelled rather than deleted so offers keep their history
+CREATE POLICY "Users can update their own ride requests"
+ON public.ride_requests
+FOR UPDATE
+USING (auth.uid() = passenger_id);
+
+CREATE POLICY "Users can view offers they made or received"
+ON public.ride_offers
+FOR SELECT
+USING (
+  auth.uid() = driver_id
+  OR auth.uid() IN (SELECT passenger_id FROM public.ride_requests WHERE ride_requests.id = ride_offers.request_id)
+);
+
+CREATE POLICY "Drivers can create their own ride offers"
+ON public.ride_offers
+FOR INSERT
+WITH CHECK (auth.uid() = driver_id);
+
+CREATE POLICY "Users can update offers they made or received"
+ON public.ride_offers
+FOR UPDATE
+USING (
+  auth.uid() = driver_id
+  OR auth.uid() IN (SELECT passenger_id FROM public.ride_requests WHERE ride_requests.id = ride_offers.request_id)
+);
+
+CREATE TRIGGER update_ride_requests_updated_at
+BEFORE UPDATE ON public.ride_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_ride_offers_updated_at
+BEFORE UPDATE ON public.ride_offers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Writes made by the database itself: no signed-in caller, another trigger,
+-- or a function that switched on app.system_change for its transaction
+CREATE OR REPLACE FUNCTION public.is_system_change()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $function$
+  SELECT auth.uid() IS NULL
+    OR pg_trigger_depth() > 1
+    OR COALESCE(current_setting('app.system_change', true), '') = 'on';
+$function$;
+
+-- Passengers may only edit an open request or cancel it; matching and
+-- expiry are left to the database
+CREATE OR REPLACE FUNCTION public.validate_ride_request()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'open' THEN
+      RAISE EXCEPTION 'New ride requests start open' USING ERRCODE = 'check_violation';
+    END IF;
+    IF NEW.window_end <= now() THEN
+      RAISE EXCEPTION 'The departure window must end in the future' USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF is_system_change() THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status <> 'open' THEN
+    RAISE EXCEPTION 'This ride request is closed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status NOT IN ('open', 'cancelled') OR NEW.trip_id IS DISTINCT FROM OLD.trip_id THEN
+    RAISE EXCEPTION 'Ride requests are matched by accepting an offer' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER validate_ride_request
+BEFORE INSERT OR UPDATE ON public.ride_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_ride_request();
+
+-- An offer must fit the request: a departure inside its window, a vehicle
+-- the driver owns with room for the passenger's seats
+CREATE OR REPLACE FUNCTION public.validate_ride_offer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  request RECORD;
+  vehicle RECORD;
+  caller UUID := auth.uid();
+BEGIN
+  SELECT * INTO request FROM ride_requests WHERE id = NEW.request_id;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF is_system_change() OR NEW.status = OLD.status THEN
+      RETURN NEW;
+    END IF;
+    IF OLD.status = 'pending' AND NEW.status = 'withdrawn' AND caller = OLD.driver_id THEN
+      RETURN NEW;
+    END IF;
+    IF OLD.status = 'pending' AND NEW.status = 'declined' AND caller = request.passenger_id THEN
+      RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'A % offer cannot become %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status <> 'pending' THEN
+    RAISE EXCEPTION 'New offers start as pending' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF request.status <> 'open' OR request.window_end <= now() THEN
+    RAISE EXCEPTION 'This ride request is no longer open' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF request.passenger_id = NEW.driver_id THEN
+    RAISE EXCEPTION 'You cannot offer a ride on your own request' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE user_id = NEW.driver_id AND role = 'driver') THEN
+    RAISE EXCEPTION 'Only drivers can offer rides' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.departure_time < request.window_start OR NEW.departure_time > request.window_end
+     OR NEW.departure_time <= now() THEN
+    RAISE EXCEPTION 'Departure must be within the passenger''s window'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT driver_id, seat_capacity INTO vehicle FROM vehicles WHERE id = NEW.vehicle_id;
+  IF NOT FOUND OR vehicle.driver_id <> NEW.driver_id THEN
+    RAISE EXCEPTION 'Vehicle not found' USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF NEW.seats_offered < request.seats OR NEW.seats_offered > vehicle.seat_capacity THEN
+    RAISE EXCEPTION 'Offer between % and % seats', request.seats, vehicle.seat_capacity
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER validate_ride_offer
+BEFORE INSERT OR UPDATE ON public.ride_offers
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_ride_offer();
+
+CREATE OR REPLACE FUNCTION public.notify_ride_offer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  request RECORD;
+BEGIN
+  SELECT * INTO request FROM ride_requests WHERE id = NEW.request_id;
+
+  INSERT INTO notifications (user_id, type, title, body)
+  VALUES (
+    request.passenger_id,
+    'ride_offer',
+    'New offer: ' || request.start_location || ' → ' || request.destination,
+    'Departs ' || to_char(NEW.departure_time AT TIME ZONE request.timezone, 'Dy DD Mon, HH24:MI')
+      || CASE WHEN NEW.price_per_seat IS NULL THEN ' · free' ELSE ' · ₹' || NEW.price_per_seat || ' per seat' END
+  );
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER notify_ride_offer
+AFTER INSERT ON public.ride_offers
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_ride_offer();
+
+-- Once a request closes its remaining offers close with it
+CREATE OR REPLACE FUNCTION public.close_ride_request_offers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.status = OLD.status OR NEW.status = 'open' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE ride_offers
+  SET status = CASE WHEN NEW.status = 'expired' THEN 'expired' ELSE 'declined' END
+  WHERE request_id = NEW.id AND status = 'pending';
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER close_ride_request_offers
+AFTER UPDATE OF status ON public.ride_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.close_ride_request_offers();
+
+-- Booking rules trust system changes as well as the driver
+CREATE OR REPLACE FUNCTION public.enforce_booking_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  caller UUID := auth.uid();
+  trip RECORD;
+  by_driver BOOLEAN;
+BEGIN
+  SELECT driver_id, status INTO trip FROM trips WHERE id = NEW.trip_id;
+  by_driver := caller IS NULL OR caller = trip.driver_id
+    OR COALESCE(current_setting('app.system_change', true), '') = 'on';
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' AND NOT by_driver THEN
+      RAISE EXCEPTION 'New bookings start as pending requests'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'pending' AND NEW.status IN ('accepted', 'rejected') THEN
+    IF NOT by_driver THEN
+      RAISE EXCEPTION 'Only the driver can answer a booking request'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF OLD.status = 'pending' AND NEW.status = 'cancelled' THEN
+    NULL;
+  ELSIF OLD.status = 'accepted' AND NEW.status = 'cancelled' THEN
+    IF trip.status NOT IN ('scheduled', 'cancelled') THEN
+      RAISE EXCEPTION 'Bookings cannot be cancelled once the trip has started'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF OLD.status = 'accepted' AND NEW.status = 'no_show' THEN
+    IF NOT by_driver THEN
+      RAISE EXCEPTION 'Only the driver can mark a no-show'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF trip.status <> 'active' OR OLD.picked_up_at IS NOT NULL THEN
+      RAISE EXCEPTION 'No-shows can only be recorded for passengers not yet picked up on an active trip'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'A % booking cannot become %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    NEW.cancelled_at := now();
+  ELSIF NEW.status = 'no_show' THEN
+    NEW.no_show_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Turns an offer into a trip with the passenger already on board. Returns
+-- the new trip's id.
+CREATE OR REPLACE FUNCTION public.accept_ride_offer(p_offer_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  offer RECORD;
+  request RECORD;
+  new_trip_id UUID;
+BEGIN
+  SELECT * INTO offer FROM ride_offers WHERE id = p_offer_id FOR UPDATE;
+  IF FOUND THEN
+    SELECT * INTO request FROM ride_requests WHERE id = offer.request_id FOR UPDATE;
+  END IF;
+  IF NOT FOUND OR request.passenger_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  IF request.status <> 'open' THEN
+    RAISE EXCEPTION 'This ride request is no longer open' USING ERRCODE = 'check_violation';
+  END IF;
+  IF offer.status <> 'pending' OR offer.departure_time <= now() THEN
+    RAISE EXCEPTION 'This offer is no longer available' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.system_change', 'on', true);
+
+  INSERT INTO trips (
+    driver_id, start_location, destination, start_lat, start_lng, dest_lat, dest_lng,
+    departure_time, available_seats, price_per_seat, description, vehicle_id
+  )
+  VALUES (
+    offer.driver_id, request.start_location, request.destination,
+    request.start_lat, request.start_lng, request.dest_lat, request.dest_lng,
+    offer.departure_time, offer.seats_offered, offer.price_per_seat, offer.message, offer.vehicle_id
+  )
+  RETURNING id INTO new_trip_id;
+
+  INSERT INTO bookings (trip_id, passenger_id, seats_requested, message, status)
+  VALUES (new_trip_id, request.passenger_id, request.seats, request.message, 'accepted');
+
+  UPDATE ride_offers SET status = 'accepted', trip_id = new_trip_id WHERE id = offer.id;
+  UPDATE ride_requests SET status = 'matched', trip_id = new_trip_id WHERE id = request.id;
+
+  INSERT INTO notifications (user_id, type, title, body, trip_id)
+  VALUES (
+    offer.driver_id,
+    'ride_offer_accepted',
+    'Offer accepted: ' || request.start_location || ' → ' || request.destination,
+    'Your trip is posted with ' || request.seats || ' seat(s) booked',
+    new_trip_id
+  );
+
+  PERFORM set_config('app.system_change', '', true);
+
+  RETURN new_trip_id;
+END;
+$function$;
+
+-- Open requests starting within a radius of a point, or inside the visible
+-- map area, closest first; the same parameters as nearby_trips()
+CREATE OR REPLACE FUNCTION public.nearby_ride_requests(
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_radius_meters DOUBLE PRECISION DEFAULT NULL,
+  p_south DOUBLE PRECISION DEFAULT NULL,
+  p_west DOUBLE PRECISION DEFAULT NULL,
+  p_north DOUBLE PRECISION DEFAULT NULL,
+  p_east DOUBLE PRECISION DEFAULT NULL,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  request_id UUID,
+  distance_meters DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $function$
+  SELECT
+    r.id,
+    ST_Distance(geo_point(r.start_lat, r.start_lng), geo_point(p_lat::NUMERIC, p_lng::NUMERIC))
+  FROM ride_requests r
+  WHERE r.status = 'open'
+  AND r.window_end > now()
+  AND (p_radius_meters IS NULL
+    OR ST_DWithin(geo_point(r.start_lat, r.start_lng), geo_point(p_lat::NUMERIC, p_lng::NUMERIC), p_radius_meters))
+  AND (p_south IS NULL OR p_west IS NULL OR p_north IS NULL OR p_east IS NULL
+    OR geo_point(r.start_lat, r.start_lng) && ST_MakeEnvelope(p_west, p_south, p_east, p_north, 4326)::geography)
+  ORDER BY 2, r.window_start
+  LIMIT LEAST(GREATEST(p_limit, 1), 500);
+$function$;
+
+-- Requests whose window has passed, and offers that would leave in the past
+CREATE OR REPLACE FUNCTION public.expire_ride_requests()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  UPDATE ride_requests
+  SET status = 'expired'
+  WHERE status = 'open' AND window_end <= now();
+
+  UPDATE ride_offers
+  SET status = 'expired'
+  WHERE status = 'pending' AND departure_time <= now();
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_ride_requests() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-ride-requests',
+  '*/15 * * * *',
+  $$SELECT public.expire_ride_requests()$$
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ride_requests;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ride_offers;
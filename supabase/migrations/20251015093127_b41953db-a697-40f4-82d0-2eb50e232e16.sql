@@ -0,0 +1,596 @@
+-- Waitlists for full trips. Passengers queue on a trip that has no room for
+-- them. Whenever seats come free (an accepted booking is cancelled or cut
+-- down, or the driver raises capacity) the queue is walked in joining order
+-- and the first passenger whose seats fit is offered them. People asking for
+-- more seats than came free keep their place. Pending requests hold no
+-- seats, so rejecting one frees nothing.
+--
+-- An offer holds its seats like an accepted booking until the passenger
+-- claims it, passes, or it runs out, after which the next person in line is
+-- offered them.
+CREATE TABLE public.trip_waitlist (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  passenger_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  seats_requested INTEGER NOT NULL DEFAULT 1 CHECK (seats_requested BETWEEN 1 AND 8),
+  -- Same stop numbering as bookings; to_stop is filled in when left out
+  from_stop SMALLINT NOT NULL DEFAULT 0 CHECK (from_stop >= 0),
+  to_stop SMALLINT,
+  status TEXT NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'offered', 'booked', 'declined', 'expired', 'left')),
+  offered_at TIMESTAMP WITH TIME ZONE,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT trip_waitlist_stop_order CHECK (to_stop IS NULL OR to_stop > from_stop)
+);
+
+-- One place in line per passenger per trip
+CREATE UNIQUE INDEX trip_waitlist_active_passenger_key ON public.trip_waitlist(trip_id, passenger_id)
+WHERE status IN ('waiting', 'offered');
+CREATE INDEX idx_trip_waitlist_queue ON public.trip_waitlist(trip_id, created_at)
+WHERE status = 'waiting';
+CREATE INDEX idx_trip_waitlist_offer_expiry ON public.trip_waitlist(offer_expires_at)
+WHERE status = 'offered';
+CREATE INDEX idx_trip_waitlist_passenger_id ON public.trip_waitlist(passenger_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.trip_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Passengers can view their waitlist entries" ON public.trip_waitlist
+FOR SELECT USING (auth.uid() = passenger_id);
+
+CREATE POLICY "Drivers can view the waitlist for their trips" ON public.trip_waitlist
+FOR SELECT USING (auth.uid() IN (SELECT trips.driver_id FROM trips WHERE trips.id = trip_waitlist.trip_id));
+
+CREATE POLICY "Passengers can join waitlists" ON public.trip_waitlist
+FOR INSERT WITH CHECK (auth.uid() = passenger_id);
+
+CREATE POLICY "Passengers can update their waitlist entries" ON public.trip_waitlist
+FOR UPDATE USING (auth.uid() = passenger_id);
+
+CREATE TRIGGER update_trip_waitlist_updated_at
+BEFORE UPDATE ON public.trip_waitlist
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Outstanding waitlist offers hold seats just like accepted bookings.
+-- p_exclude_booking may name either a booking or a waitlist entry.
+CREATE OR REPLACE FUNCTION public.trip_leg_holds(p_trip_id UUID, p_exclude_booking UUID DEFAULT NULL)
+RETURNS TABLE (leg INTEGER, seats_held INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT legs.leg, COALESCE(sum(holds.seats), 0)::INTEGER
+  FROM generate_series(0, (SELECT count(*) FROM trip_stops WHERE trip_id = p_trip_id)::INTEGER) AS legs(leg)
+  LEFT JOIN (
+    SELECT id, from_stop, to_stop, seats_requested AS seats
+    FROM bookings
+    WHERE trip_id = p_trip_id AND status = 'accepted'
+    UNION ALL
+    SELECT id, from_stop, to_stop, seats_requested
+    FROM trip_waitlist
+    WHERE trip_id = p_trip_id AND status = 'offered'
+  ) AS holds
+    ON holds.id IS DISTINCT FROM p_exclude_booking
+    AND legs.leg >= holds.from_stop
+    AND legs.leg < holds.to_stop
+  GROUP BY legs.leg
+  ORDER BY legs.leg;
+$function$;
+
+-- Passengers can only queue for seats that are not there, and may only leave
+-- the line or pass on an offer; offering and booking are left to the database
+CREATE OR REPLACE FUNCTION public.check_waitlist_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  trip RECORD;
+  last_stop INTEGER;
+  seats_free INTEGER;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT driver_id, status, departure_time INTO trip FROM trips WHERE id = NEW.trip_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Trip not found';
+    END IF;
+
+    IF NEW.status <> 'waiting' THEN
+      RAISE EXCEPTION 'New waitlist entries start waiting' USING ERRCODE = 'check_violation';
+    END IF;
+    IF trip.driver_id = NEW.passenger_id THEN
+      RAISE EXCEPTION 'You cannot join the waitlist for your own trip' USING ERRCODE = 'check_violation';
+    END IF;
+    IF trip.status <> 'scheduled' OR trip.departure_time <= now() THEN
+      RAISE EXCEPTION 'This trip is no longer taking bookings' USING ERRCODE = 'check_violation';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM bookings
+      WHERE trip_id = NEW.trip_id AND passenger_id = NEW.passenger_id AND status IN ('pending', 'accepted')
+    ) THEN
+      RAISE EXCEPTION 'You already have a booking on this trip' USING ERRCODE = 'check_violation';
+    END IF;
+
+    last_stop := (SELECT count(*) FROM trip_stops WHERE trip_id = NEW.trip_id) + 1;
+    NEW.to_stop := COALESCE(NEW.to_stop, last_stop);
+    IF NEW.to_stop > last_stop OR NEW.from_stop >= NEW.to_stop THEN
+      RAISE EXCEPTION 'Choose where you get on before where you get off'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT min(legs.seats_free) INTO seats_free
+    FROM trip_leg_seats(NEW.trip_id) AS legs
+    WHERE legs.leg >= NEW.from_stop AND legs.leg < NEW.to_stop;
+
+    IF NEW.seats_requested <= seats_free THEN
+      RAISE EXCEPTION 'There are enough seats free; book them instead'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.offered_at := NULL;
+    NEW.offer_expires_at := NULL;
+    NEW.booking_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.trip_id <> OLD.trip_id OR NEW.passenger_id <> OLD.passenger_id
+     OR NEW.seats_requested <> OLD.seats_requested
+     OR NEW.from_stop <> OLD.from_stop OR NEW.to_stop IS DISTINCT FROM OLD.to_stop THEN
+    RAISE EXCEPTION 'A waitlist entry cannot be changed; leave and join again'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF is_system_change() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.offered_at IS DISTINCT FROM OLD.offered_at
+     OR NEW.offer_expires_at IS DISTINCT FROM OLD.offer_expires_at
+     OR NEW.booking_id IS DISTINCT FROM OLD.booking_id THEN
+    RAISE EXCEPTION 'Waitlist offers are made by the trip itself' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status <> OLD.status AND NOT (
+    (OLD.status = 'waiting' AND NEW.status = 'left')
+    OR (OLD.status = 'offered' AND NEW.status = 'declined')
+  ) THEN
+    RAISE EXCEPTION 'A % waitlist entry cannot become %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_waitlist_entry
+BEFORE INSERT OR UPDATE ON public.trip_waitlist
+FOR EACH ROW
+EXECUTE FUNCTION public.check_waitlist_entry();
+
+-- Keeps trips.available_seats in step as offers are made and released; the
+-- same bookkeeping manage_booking_seats() does for bookings
+CREATE OR REPLACE FUNCTION public.manage_waitlist_seats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  remaining INTEGER;
+  offered INTEGER;
+  leg_free INTEGER;
+  new_available INTEGER;
+BEGIN
+  IF (OLD.status = 'offered') = (NEW.status = 'offered') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT available_seats INTO remaining
+  FROM trips
+  WHERE id = NEW.trip_id
+  FOR UPDATE;
+
+  SELECT remaining + COALESCE(max(seats_held), 0) INTO offered
+  FROM trip_leg_holds(NEW.trip_id);
+
+  IF NEW.status = 'offered' THEN
+    SELECT offered - COALESCE(max(seats_held), 0) INTO leg_free
+    FROM trip_leg_holds(NEW.trip_id, NEW.id)
+    WHERE leg >= NEW.from_stop AND leg < NEW.to_stop;
+
+    IF NEW.seats_requested > leg_free THEN
+      RAISE EXCEPTION 'Not enough seats available'
+        USING ERRCODE = 'check_violation',
+              DETAIL = format('%s seat(s) requested, %s left', NEW.seats_requested, leg_free);
+    END IF;
+  END IF;
+
+  SELECT offered - COALESCE(max(
+    seats_held + CASE
+      WHEN NEW.status = 'offered' AND leg >= NEW.from_stop AND leg < NEW.to_stop THEN NEW.seats_requested
+      ELSE 0
+    END
+  ), 0)
+  INTO new_available
+  FROM trip_leg_holds(NEW.trip_id, NEW.id);
+
+  IF new_available <> remaining THEN
+    UPDATE trips
+    SET available_seats = new_available
+    WHERE id = NEW.trip_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER manage_waitlist_seats
+BEFORE UPDATE OF status ON public.trip_waitlist
+FOR EACH ROW
+EXECUTE FUNCTION public.manage_waitlist_seats();
+
+-- Walks a trip's queue in joining order and offers free seats to everyone
+-- they fit. Offers last 30 minutes, or until departure if that is sooner.
+CREATE OR REPLACE FUNCTION public.offer_waitlist_seats(p_trip_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  trip RECORD;
+  entry RECORD;
+  seats_free INTEGER;
+BEGIN
+  SELECT * INTO trip FROM trips WHERE id = p_trip_id FOR UPDATE;
+  IF NOT FOUND OR trip.status <> 'scheduled' OR trip.departure_time <= now() THEN
+    RETURN;
+  END IF;
+
+  FOR entry IN
+    SELECT * FROM trip_waitlist
+    WHERE trip_id = p_trip_id AND status = 'waiting'
+    ORDER BY created_at, id
+  LOOP
+    SELECT min(legs.seats_free) INTO seats_free
+    FROM trip_leg_seats(p_trip_id) AS legs
+    WHERE legs.leg >= entry.from_stop AND legs.leg < entry.to_stop;
+
+    CONTINUE WHEN seats_free IS NULL OR seats_free < entry.seats_requested;
+
+    UPDATE trip_waitlist
+    SET status = 'offered',
+        offered_at = now(),
+        offer_expires_at = LEAST(now() + INTERVAL '30 minutes', trip.departure_time)
+    WHERE id = entry.id;
+
+    INSERT INTO notifications (user_id, type, title, body, trip_id)
+    VALUES (
+      entry.passenger_id,
+      'waitlist_offer',
+      'A seat opened up: ' || trip.start_location || ' → ' || trip.destination,
+      entry.seats_requested || ' seat(s) are held for you for 30 minutes. Claim them on the trip page.',
+      trip.id
+    );
+  END LOOP;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.offer_waitlist_seats(UUID) FROM PUBLIC, anon, authenticated;
+
+-- An accepted booking that is cancelled or cut down hands its seats to the queue
+CREATE OR REPLACE FUNCTION public.offer_released_booking_seats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  PERFORM offer_waitlist_seats(NEW.trip_id);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER offer_released_booking_seats
+AFTER UPDATE OF status, seats_requested ON public.bookings
+FOR EACH ROW
+WHEN (OLD.status = 'accepted' AND (NEW.status <> 'accepted' OR NEW.seats_requested < OLD.seats_requested))
+EXECUTE FUNCTION public.offer_released_booking_seats();
+
+-- So does the driver raising capacity. Seat bookkeeping from other triggers
+-- also writes available_seats, but those callers offer seats themselves.
+CREATE OR REPLACE FUNCTION public.offer_added_trip_seats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF pg_trigger_depth() = 1 THEN
+    PERFORM offer_waitlist_seats(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER offer_added_trip_seats
+AFTER UPDATE OF available_seats ON public.trips
+FOR EACH ROW
+WHEN (NEW.available_seats > OLD.available_seats)
+EXECUTE FUNCTION public.offer_added_trip_seats();
+
+-- Seats a passenger passed on, or let run out, go to the next in line
+CREATE OR REPLACE FUNCTION public.offer_returned_waitlist_seats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  PERFORM offer_waitlist_seats(NEW.trip_id);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER offer_returned_waitlist_seats
+AFTER UPDATE OF status ON public.trip_waitlist
+FOR EACH ROW
+WHEN (OLD.status = 'offered' AND NEW.status IN ('declined', 'expired'))
+EXECUTE FUNCTION public.offer_returned_waitlist_seats();
+
+-- Turns a waitlist offer into an accepted booking. The seats were already
+-- held for the passenger, so the driver is told rather than asked. Returns
+-- the new booking's id.
+CREATE OR REPLACE FUNCTION public.claim_waitlist_offer(p_entry_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  entry RECORD;
+  trip RECORD;
+  new_booking_id UUID;
+BEGIN
+  SELECT * INTO entry FROM trip_waitlist WHERE id = p_entry_id AND passenger_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Waitlist entry not found';
+  END IF;
+
+  IF entry.status <> 'offered' OR entry.offer_expires_at <= now() THEN
+    RAISE EXCEPTION 'This offer has expired' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO trip FROM trips WHERE id = entry.trip_id;
+
+  PERFORM set_config('app.system_change', 'on', true);
+
+  -- Release the hold first so the booking can take the same seats
+  UPDATE trip_waitlist SET status = 'booked' WHERE id = entry.id;
+
+  INSERT INTO bookings (trip_id, passenger_id, seats_requested, from_stop, to_stop, status)
+  VALUES (entry.trip_id, entry.passenger_id, entry.seats_requested, entry.from_stop, entry.to_stop, 'accepted')
+  RETURNING id INTO new_booking_id;
+
+  UPDATE trip_waitlist SET booking_id = new_booking_id WHERE id = entry.id;
+
+  INSERT INTO notifications (user_id, type, title, body, trip_id)
+  VALUES (
+    trip.driver_id,
+    'waitlist_booked',
+    'Booked from the waitlist: ' || trip.start_location || ' → ' || trip.destination,
+    entry.seats_requested || ' seat(s) were taken by the next passenger in line',
+    trip.id
+  );
+
+  PERFORM set_config('app.system_change', '', true);
+
+  RETURN new_booking_id;
+END;
+$function$;
+
+-- The caller's place in line, counting from 1; NULL once they are no longer waiting
+CREATE OR REPLACE FUNCTION public.waitlist_position(p_entry_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT (
+    SELECT count(*) FROM trip_waitlist ahead
+    WHERE ahead.trip_id = mine.trip_id
+    AND ahead.status = 'waiting'
+    AND (ahead.created_at, ahead.id) < (mine.created_at, mine.id)
+  )::INTEGER + 1
+  FROM trip_waitlist mine
+  WHERE mine.id = p_entry_id
+  AND mine.passenger_id = auth.uid()
+  AND mine.status = 'waiting';
+$function$;
+
+-- Lapsed offers move down the line; queues on trips that have left or been
+-- cancelled are closed
+CREATE OR REPLACE FUNCTION public.expire_waitlist_offers()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  UPDATE trip_waitlist w
+  SET status = 'expired'
+  FROM trips
+  WHERE trips.id = w.trip_id
+  AND w.status IN ('waiting', 'offered')
+  AND (trips.status <> 'scheduled' OR trips.departure_time <= now());
+
+  WITH lapsed AS (
+    UPDATE trip_waitlist
+    SET status = 'expired'
+    WHERE status = 'offered' AND offer_expires_at <= now()
+    RETURNING passenger_id, trip_id
+  )
+  INSERT INTO notifications (user_id, type, title, body, trip_id)
+  SELECT
+    lapsed.passenger_id,
+    'waitlist_offer_expired',
+    'Waitlist offer expired: ' || trips.start_location || ' → ' || trips.destination,
+    'The seats held for you were offered to the next passenger in line',
+    trips.id
+  FROM lapsed
+  JOIN trips ON trips.id = lapsed.trip_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_waitlist_offers() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-waitlist-offers',
+  '* * * * *',
+  $$SELECT public.expire_waitlist_offers()$$
+);
+
+-- Search can now list full trips so passengers can queue for them. Adding a
+-- parameter changes the signature, so the old function is replaced outright.
+DROP FUNCTION public.search_trips(
+  TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TIME, TIME, TEXT,
+  NUMERIC, INTEGER, vehicle_type[], NUMERIC, TEXT, NUMERIC, TIMESTAMP WITH TIME ZONE, UUID, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION public.search_trips(
+  p_from_text TEXT DEFAULT NULL,
+  p_to_text TEXT DEFAULT NULL,
+  p_origin_lat DOUBLE PRECISION DEFAULT NULL,
+  p_origin_lng DOUBLE PRECISION DEFAULT NULL,
+  p_dest_lat DOUBLE PRECISION DEFAULT NULL,
+  p_dest_lng DOUBLE PRECISION DEFAULT NULL,
+  p_max_detour_meters DOUBLE PRECISION DEFAULT 2000,
+  p_departs_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_departs_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_time_from TIME DEFAULT NULL,
+  p_time_to TIME DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata',
+  p_max_price NUMERIC DEFAULT NULL,
+  p_min_seats INTEGER DEFAULT 1,
+  p_vehicle_types vehicle_type[] DEFAULT NULL,
+  p_min_driver_rating NUMERIC DEFAULT NULL,
+  p_sort TEXT DEFAULT 'soonest',
+  p_after_value NUMERIC DEFAULT NULL,
+  p_after_departure TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  -- Also return scheduled trips without enough seats, which have a waitlist
+  p_include_full BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  trip_id UUID,
+  sort_value NUMERIC,
+  departure_time TIMESTAMP WITH TIME ZONE,
+  pickup_lat DOUBLE PRECISION,
+  pickup_lng DOUBLE PRECISION,
+  dropoff_lat DOUBLE PRECISION,
+  dropoff_lng DOUBLE PRECISION,
+  pickup_distance_meters DOUBLE PRECISION,
+  dropoff_distance_meters DOUBLE PRECISION,
+  driver_rating NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $function$
+DECLARE
+  along_route BOOLEAN := p_origin_lat IS NOT NULL AND p_origin_lng IS NOT NULL
+    AND p_dest_lat IS NOT NULL AND p_dest_lng IS NOT NULL;
+BEGIN
+  IF p_sort NOT IN ('soonest', 'cheapest', 'closest', 'best_rated') THEN
+    RAISE EXCEPTION 'Unknown sort order %', p_sort USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_sort = 'closest' AND (p_origin_lat IS NULL OR p_origin_lng IS NULL) THEN
+    RAISE EXCEPTION 'Choose a starting point to sort by distance' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN QUERY
+  WITH route_matches AS (
+    SELECT * FROM search_trips_along_route(
+      p_origin_lat, p_origin_lng, p_dest_lat, p_dest_lng,
+      p_max_detour_meters, p_departs_after, p_departs_before
+    )
+    WHERE along_route
+  ),
+  candidates AS (
+    SELECT
+      trips.id,
+      trips.departure_time,
+      trips.price_per_seat,
+      route_matches.pickup_lat,
+      route_matches.pickup_lng,
+      route_matches.dropoff_lat,
+      route_matches.dropoff_lng,
+      CASE
+        WHEN along_route THEN route_matches.pickup_distance_meters
+        WHEN p_origin_lat IS NOT NULL AND p_origin_lng IS NOT NULL
+          THEN ST_Distance(geo_point(trips.start_lat, trips.start_lng), geo_point(p_origin_lat::NUMERIC, p_origin_lng::NUMERIC))
+      END AS pickup_distance,
+      route_matches.dropoff_distance_meters AS dropoff_distance,
+      profile_ratings.driver_average_score AS rating
+    FROM trips
+    LEFT JOIN route_matches ON route_matches.trip_id = trips.id
+    LEFT JOIN vehicles ON vehicles.id = trips.vehicle_id
+    LEFT JOIN profile_ratings ON profile_ratings.user_id = trips.driver_id
+    WHERE trips.status IN ('scheduled', 'active')
+    AND (
+      trips.available_seats >= GREATEST(COALESCE(p_min_seats, 1), 1)
+      OR (p_include_full AND trips.status = 'scheduled' AND trips.departure_time > now())
+    )
+    AND (NOT along_route OR route_matches.trip_id IS NOT NULL)
+    AND (along_route OR p_from_text IS NULL OR trips.start_location ILIKE '%' || p_from_text || '%')
+    AND (along_route OR p_to_text IS NULL OR trips.destination ILIKE '%' || p_to_text || '%')
+    AND (p_departs_after IS NULL OR trips.departure_time >= p_departs_after)
+    AND (p_departs_before IS NULL OR trips.departure_time < p_departs_before)
+    AND (p_time_from IS NULL OR (trips.departure_time AT TIME ZONE p_timezone)::TIME >= p_time_from)
+    AND (p_time_to IS NULL OR (trips.departure_time AT TIME ZONE p_timezone)::TIME <= p_time_to)
+    AND (p_max_price IS NULL OR COALESCE(trips.price_per_seat, 0) <= p_max_price)
+    AND (p_vehicle_types IS NULL OR vehicles.vehicle_type = ANY (p_vehicle_types))
+    AND (p_min_driver_rating IS NULL OR profile_ratings.driver_average_score >= p_min_driver_rating)
+  ),
+  keyed AS (
+    SELECT
+      candidates.*,
+      -- Always ascending: best ratings get the most negative key, unrated last
+      CASE p_sort
+        WHEN 'cheapest' THEN COALESCE(candidates.price_per_seat, 0)
+        WHEN 'closest' THEN round(candidates.pickup_distance::NUMERIC, 3)
+        WHEN 'best_rated' THEN -COALESCE(candidates.rating, 0)
+        ELSE extract(epoch FROM candidates.departure_time)::NUMERIC
+      END AS key
+    FROM candidates
+  )
+  SELECT
+    keyed.id,
+    keyed.key,
+    keyed.departure_time,
+    keyed.pickup_lat,
+    keyed.pickup_lng,
+    keyed.dropoff_lat,
+    keyed.dropoff_lng,
+    keyed.pickup_distance,
+    keyed.dropoff_distance,
+    keyed.rating
+  FROM keyed
+  WHERE p_after_id IS NULL
+  OR (keyed.key, keyed.departure_time, keyed.id) > (p_after_value, p_after_departure, p_after_id)
+  ORDER BY keyed.key, keyed.departure_time, keyed.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$function$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.trip_waitlist;
@@ -0,0 +1,253 @@
+-- Instant booking. Drivers can let booking requests from passengers they
+-- trust skip the manual accept step, either for all their trips or trip by
+-- trip. Trust is a minimum passenger rating and/or a verified phone number.
+-- Matching requests are accepted as they are inserted, so seats are reserved
+-- by manage_booking_seats like any other accept, and the driver is notified.
+
+-- Phone numbers are verified through Supabase Auth's SMS one-time codes and
+-- copied onto the profile by sync_phone_verification
+ALTER TABLE public.profiles ADD COLUMN phone_verified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.protect_phone_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF is_system_change() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.phone_verified_at := NULL;
+  ELSIF NEW.phone IS DISTINCT FROM OLD.phone THEN
+    -- A new number has to be verified again
+    NEW.phone_verified_at := NULL;
+  ELSIF NEW.phone_verified_at IS DISTINCT FROM OLD.phone_verified_at THEN
+    RAISE EXCEPTION 'Phone numbers are verified with a one-time code'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER protect_phone_verification
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_phone_verification();
+
+-- Copies the caller's confirmed Auth phone onto their profile. Returns false
+-- when Auth has no confirmed number for them.
+CREATE OR REPLACE FUNCTION public.sync_phone_verification()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  auth_user RECORD;
+BEGIN
+  SELECT phone, phone_confirmed_at INTO auth_user FROM auth.users WHERE id = auth.uid();
+
+  IF NOT FOUND OR auth_user.phone IS NULL OR auth_user.phone = '' OR auth_user.phone_confirmed_at IS NULL THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_config('app.system_change', 'on', true);
+
+  UPDATE profiles
+  SET phone = '+' || ltrim(auth_user.phone, '+'),
+      phone_verified_at = auth_user.phone_confirmed_at
+  WHERE user_id = auth.uid();
+
+  PERFORM set_config('app.system_change', '', true);
+
+  RETURN true;
+END;
+$function$;
+
+-- A driver's default for all their trips
+CREATE TABLE public.instant_book_settings (
+  driver_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  -- Passengers without any rating never meet a threshold
+  min_passenger_rating NUMERIC(2,1) CHECK (min_passenger_rating BETWEEN 1 AND 5),
+  require_verified_phone BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.instant_book_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Drivers can view their instant booking settings"
+ON public.instant_book_settings
+FOR SELECT
+USING (auth.uid() = driver_id);
+
+CREATE POLICY "Drivers can create their instant booking settings"
+ON public.instant_book_settings
+FOR INSERT
+WITH CHECK (auth.uid() = driver_id);
+
+CREATE POLICY "Drivers can update their instant booking settings"
+ON public.instant_book_settings
+FOR UPDATE
+USING (auth.uid() = driver_id);
+
+CREATE TRIGGER update_instant_book_settings_updated_at
+BEFORE UPDATE ON public.instant_book_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- NULL follows the driver's default
+ALTER TABLE public.trips ADD COLUMN instant_book BOOLEAN;
+
+ALTER TABLE public.bookings ADD COLUMN instant_booked BOOLEAN NOT NULL DEFAULT false;
+
+-- Whether a request from this passenger on this trip would be accepted
+-- straight away. The thresholds live with the driver's settings even when
+-- instant booking is only switched on for the one trip.
+CREATE OR REPLACE FUNCTION public.instant_book_applies(p_trip_id UUID, p_passenger_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT COALESCE(trips.instant_book, settings.enabled, false)
+    AND trips.status = 'scheduled'
+    AND trips.driver_id <> p_passenger_id
+    AND (
+      settings.min_passenger_rating IS NULL
+      OR COALESCE((
+        SELECT passenger_average_score FROM profile_ratings WHERE user_id = p_passenger_id
+      ), 0) >= settings.min_passenger_rating
+    )
+    AND (
+      NOT COALESCE(settings.require_verified_phone, false)
+      OR EXISTS (
+        SELECT 1 FROM profiles
+        WHERE user_id = p_passenger_id AND phone_verified_at IS NOT NULL
+      )
+    )
+  FROM trips
+  LEFT JOIN instant_book_settings settings ON settings.driver_id = trips.driver_id
+  WHERE trips.id = p_trip_id;
+$function$;
+
+-- Named to run after enforce_booking_transition has checked the request as a
+-- passenger's and before manage_booking_seats reserves the seats
+CREATE OR REPLACE FUNCTION public.instant_book()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.status = 'pending' AND NOT is_system_change()
+     AND instant_book_applies(NEW.trip_id, NEW.passenger_id) THEN
+    NEW.status := 'accepted';
+    NEW.instant_booked := true;
+  ELSE
+    NEW.instant_booked := false;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER instant_book
+BEFORE INSERT ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.instant_book();
+
+CREATE OR REPLACE FUNCTION public.notify_instant_booking()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  trip RECORD;
+  passenger_name TEXT;
+BEGIN
+  SELECT * INTO trip FROM trips WHERE id = NEW.trip_id;
+  SELECT full_name INTO passenger_name FROM profiles WHERE user_id = NEW.passenger_id;
+
+  INSERT INTO notifications (user_id, type, title, body, trip_id)
+  VALUES (
+    trip.driver_id,
+    'booking_instant',
+    'Instant booking: ' || trip.start_location || ' → ' || trip.destination,
+    COALESCE(passenger_name, 'A passenger') || ' booked ' || NEW.seats_requested || ' seat(s)',
+    trip.id
+  );
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER notify_instant_booking
+AFTER INSERT ON public.bookings
+FOR EACH ROW
+WHEN (NEW.instant_booked)
+EXECUTE FUNCTION public.notify_instant_booking();
+
+REVOKE EXECUTE ON FUNCTION public.notify_instant_booking() FROM PUBLIC, anon, authenticated;
+
+-- Instant bookings were never answered by the driver, so they say nothing
+-- about how quickly or how often the driver accepts requests
+CREATE OR REPLACE FUNCTION public.driver_stats(p_driver_id UUID)
+RETURNS TABLE (
+  completed_trips INTEGER,
+  cancelled_trips INTEGER,
+  cancellation_rate NUMERIC,
+  requests_received INTEGER,
+  acceptance_rate NUMERIC,
+  median_response_minutes NUMERIC,
+  driving_since TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  WITH trip_counts AS (
+    SELECT
+      count(*) FILTER (WHERE status = 'completed')::INTEGER AS completed,
+      count(*) FILTER (WHERE status = 'cancelled')::INTEGER AS cancelled,
+      min(created_at) AS first_trip_at
+    FROM trips
+    WHERE driver_id = p_driver_id
+  ),
+  request_counts AS (
+    SELECT
+      count(*)::INTEGER AS received,
+      -- Accepted requests may later be cancelled, so count everything not rejected
+      count(*) FILTER (
+        WHERE bookings.responded_at IS NOT NULL AND bookings.status <> 'rejected'
+      )::INTEGER AS accepted,
+      count(*) FILTER (WHERE bookings.responded_at IS NOT NULL)::INTEGER AS answered,
+      percentile_cont(0.5) WITHIN GROUP (
+        ORDER BY extract(epoch FROM bookings.responded_at - bookings.created_at)
+      ) FILTER (WHERE bookings.responded_at IS NOT NULL) AS median_response_seconds
+    FROM bookings
+    JOIN trips ON trips.id = bookings.trip_id
+    WHERE trips.driver_id = p_driver_id
+    AND NOT bookings.instant_booked
+  )
+  SELECT
+    trip_counts.completed,
+    trip_counts.cancelled,
+    CASE WHEN trip_counts.completed + trip_counts.cancelled > 0
+      THEN round(trip_counts.cancelled::NUMERIC / (trip_counts.completed + trip_counts.cancelled), 4)
+    END,
+    request_counts.received,
+    CASE WHEN request_counts.answered > 0
+      THEN round(request_counts.accepted::NUMERIC / request_counts.answered, 4)
+    END,
+    round((request_counts.median_response_seconds / 60)::NUMERIC, 1),
+    COALESCE(trip_counts.first_trip_at, (SELECT created_at FROM profiles WHERE user_id = p_driver_id))
+  FROM trip_counts, request_counts;
+$function$;
@@ -0,0 +1,407 @@
+-- Booking changes. Passengers can change the seats, pickup stop or message
+-- on a pending or accepted booking instead of cancelling and booking again.
+-- Changes apply straight away, except more seats on an accepted booking,
+-- which go back to the driver for approval. Every change is kept so both
+-- sides can see the booking's history.
+CREATE TABLE public.booking_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  passenger_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  status TEXT NOT NULL
+    CHECK (status IN ('applied', 'pending', 'approved', 'declined', 'withdrawn')),
+  old_seats INTEGER NOT NULL,
+  new_seats INTEGER NOT NULL,
+  old_from_stop SMALLINT NOT NULL,
+  new_from_stop SMALLINT NOT NULL,
+  old_message TEXT,
+  new_message TEXT,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- At most one change waiting for the driver per booking
+CREATE UNIQUE INDEX booking_changes_pending_key ON public.booking_changes(booking_id)
+WHERE status = 'pending';
+
+CREATE INDEX idx_booking_changes_trip ON public.booking_changes(trip_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.booking_changes ENABLE ROW LEVEL SECURITY;
+
+-- Written only through the functions below
+CREATE POLICY "Passengers can view changes to their bookings" ON public.booking_changes
+FOR SELECT USING (auth.uid() = passenger_id);
+
+CREATE POLICY "Drivers can view booking changes on their trips" ON public.booking_changes
+FOR SELECT USING (auth.uid() IN (SELECT trips.driver_id FROM trips WHERE trips.id = booking_changes.trip_id));
+
+CREATE TRIGGER update_booking_changes_updated_at
+BEFORE UPDATE ON public.booking_changes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stops may now change, but only through the booking change functions
+CREATE OR REPLACE FUNCTION public.check_booking_segment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  last_stop INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.from_stop = OLD.from_stop AND NEW.to_stop IS NOT DISTINCT FROM OLD.to_stop THEN
+      RETURN NEW;
+    END IF;
+    IF NOT is_system_change() THEN
+      RAISE EXCEPTION 'Request a booking change to move your stops'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  last_stop := (SELECT count(*) FROM trip_stops WHERE trip_id = NEW.trip_id) + 1;
+  NEW.to_stop := COALESCE(NEW.to_stop, last_stop);
+
+  IF NEW.to_stop > last_stop OR NEW.from_stop >= NEW.to_stop THEN
+    RAISE EXCEPTION 'Choose where you get on before where you get off'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.fare_per_seat := trip_segment_fare(NEW.trip_id, NEW.from_stop, NEW.to_stop);
+  RETURN NEW;
+END;
+$function$;
+
+-- Seats and message used to be editable directly, which let a passenger take
+-- extra seats on an accepted booking without asking
+CREATE OR REPLACE FUNCTION public.guard_booking_edits()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF (NEW.seats_requested <> OLD.seats_requested OR NEW.message IS DISTINCT FROM OLD.message)
+     AND NOT is_system_change() THEN
+    RAISE EXCEPTION 'Request a booking change to edit a booking'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER guard_booking_edits
+BEFORE UPDATE OF seats_requested, message ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_booking_edits();
+
+-- A moved pickup covers different legs, so it is checked like extra seats
+CREATE OR REPLACE FUNCTION public.manage_booking_seats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  remaining INTEGER;
+  offered INTEGER;
+  leg_free INTEGER;
+  new_available INTEGER;
+  newly_held BOOLEAN;
+  segment_changed BOOLEAN;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.trip_id <> OLD.trip_id THEN
+    RAISE EXCEPTION 'A booking cannot be moved to another trip';
+  END IF;
+
+  -- Serialises every seat change on this trip
+  SELECT available_seats INTO remaining
+  FROM trips
+  WHERE id = NEW.trip_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+
+  -- The booking row has not changed yet, so its old hold is still counted
+  SELECT remaining + COALESCE(max(seats_held), 0) INTO offered
+  FROM trip_leg_holds(NEW.trip_id);
+
+  SELECT offered - COALESCE(max(seats_held), 0) INTO leg_free
+  FROM trip_leg_holds(NEW.trip_id, NEW.id)
+  WHERE leg >= NEW.from_stop AND leg < NEW.to_stop;
+
+  segment_changed := TG_OP = 'UPDATE'
+    AND (NEW.from_stop <> OLD.from_stop OR NEW.to_stop <> OLD.to_stop);
+
+  newly_held := NEW.status = 'accepted'
+    AND (TG_OP = 'INSERT' OR OLD.status <> 'accepted' OR NEW.seats_requested > OLD.seats_requested
+         OR NEW.from_stop < OLD.from_stop OR NEW.to_stop > OLD.to_stop);
+
+  IF newly_held AND NEW.seats_requested > leg_free THEN
+    RAISE EXCEPTION 'Not enough seats available'
+      USING ERRCODE = 'check_violation',
+            DETAIL = format('%s seat(s) requested, %s left', NEW.seats_requested, leg_free);
+  END IF;
+
+  -- Refuse requests that could never be accepted
+  IF NEW.status = 'pending' AND NEW.seats_requested > leg_free
+     AND (TG_OP = 'INSERT' OR NEW.seats_requested <> OLD.seats_requested OR OLD.status <> 'pending' OR segment_changed) THEN
+    RAISE EXCEPTION 'Not enough seats available'
+      USING ERRCODE = 'check_violation',
+            DETAIL = format('%s seat(s) requested, %s left', NEW.seats_requested, leg_free);
+  END IF;
+
+  SELECT offered - COALESCE(max(
+    seats_held + CASE
+      WHEN NEW.status = 'accepted' AND leg >= NEW.from_stop AND leg < NEW.to_stop THEN NEW.seats_requested
+      ELSE 0
+    END
+  ), 0)
+  INTO new_available
+  FROM trip_leg_holds(NEW.trip_id, NEW.id);
+
+  IF new_available <> remaining THEN
+    UPDATE trips
+    SET available_seats = new_available
+    WHERE id = NEW.trip_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER manage_booking_seats ON public.bookings;
+CREATE TRIGGER manage_booking_seats
+BEFORE INSERT OR UPDATE OF status, seats_requested, from_stop, to_stop ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.manage_booking_seats();
+
+-- A later pickup frees the legs before it for the waitlist
+DROP TRIGGER offer_released_booking_seats ON public.bookings;
+CREATE TRIGGER offer_released_booking_seats
+AFTER UPDATE OF status, seats_requested, from_stop, to_stop ON public.bookings
+FOR EACH ROW
+WHEN (OLD.status = 'accepted' AND (
+  NEW.status <> 'accepted'
+  OR NEW.seats_requested < OLD.seats_requested
+  OR NEW.from_stop > OLD.from_stop
+  OR NEW.to_stop < OLD.to_stop
+))
+EXECUTE FUNCTION public.offer_released_booking_seats();
+
+-- Applies a change to its booking on the passenger's or driver's behalf
+CREATE OR REPLACE FUNCTION public.apply_booking_change(p_change public.booking_changes)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  PERFORM set_config('app.system_change', 'on', true);
+
+  UPDATE bookings
+  SET seats_requested = p_change.new_seats,
+      from_stop = p_change.new_from_stop,
+      message = p_change.new_message
+  WHERE id = p_change.booking_id;
+
+  PERFORM set_config('app.system_change', '', true);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_booking_change(public.booking_changes) FROM PUBLIC, anon, authenticated;
+
+-- Called by the passenger. Returns the change's status: 'applied' when it
+-- took effect, 'pending' when the driver has to approve it first. A new
+-- request replaces one still waiting for the driver.
+CREATE OR REPLACE FUNCTION public.request_booking_change(
+  p_booking_id UUID,
+  p_seats INTEGER,
+  p_from_stop INTEGER,
+  p_message TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  booking RECORD;
+  trip RECORD;
+  change booking_changes;
+  needs_approval BOOLEAN;
+BEGIN
+  SELECT * INTO booking FROM bookings WHERE id = p_booking_id AND passenger_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF booking.status NOT IN ('pending', 'accepted') THEN
+    RAISE EXCEPTION 'Only pending or accepted bookings can be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO trip FROM trips WHERE id = booking.trip_id;
+  IF trip.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'Bookings can only be changed before the trip starts'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  change.id := gen_random_uuid();
+  change.booking_id := booking.id;
+  change.trip_id := booking.trip_id;
+  change.passenger_id := booking.passenger_id;
+  change.old_seats := booking.seats_requested;
+  change.new_seats := COALESCE(p_seats, booking.seats_requested);
+  change.old_from_stop := booking.from_stop;
+  change.new_from_stop := COALESCE(p_from_stop, booking.from_stop);
+  change.old_message := booking.message;
+  change.new_message := NULLIF(btrim(p_message), '');
+  change.created_at := now();
+  change.updated_at := now();
+
+  IF change.new_seats = change.old_seats
+     AND change.new_from_stop = change.old_from_stop
+     AND change.new_message IS NOT DISTINCT FROM change.old_message THEN
+    RAISE EXCEPTION 'Nothing to change' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE booking_changes
+  SET status = 'withdrawn'
+  WHERE booking_id = booking.id AND status = 'pending';
+
+  needs_approval := booking.status = 'accepted' AND change.new_seats > change.old_seats;
+
+  IF needs_approval THEN
+    change.status := 'pending';
+    INSERT INTO booking_changes SELECT change.*;
+
+    INSERT INTO notifications (user_id, type, title, body, trip_id)
+    VALUES (
+      trip.driver_id,
+      'booking_change_requested',
+      'More seats requested: ' || trip.start_location || ' → ' || trip.destination,
+      'A passenger would like ' || change.new_seats || ' seat(s) instead of ' || change.old_seats,
+      trip.id
+    );
+
+    RETURN change.status;
+  END IF;
+
+  -- Seat and stop checks run as the booking is updated
+  PERFORM apply_booking_change(change);
+
+  change.status := 'applied';
+  INSERT INTO booking_changes SELECT change.*;
+
+  IF booking.status = 'accepted' THEN
+    INSERT INTO notifications (user_id, type, title, body, trip_id)
+    VALUES (
+      trip.driver_id,
+      'booking_changed',
+      'Booking changed: ' || trip.start_location || ' → ' || trip.destination,
+      'A passenger updated their booking',
+      trip.id
+    );
+  END IF;
+
+  RETURN change.status;
+END;
+$function$;
+
+-- Called by the driver
+CREATE OR REPLACE FUNCTION public.respond_to_booking_change(p_change_id UUID, p_approve BOOLEAN)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  change booking_changes;
+  trip RECORD;
+BEGIN
+  SELECT * INTO change FROM booking_changes WHERE id = p_change_id FOR UPDATE;
+  SELECT * INTO trip FROM trips WHERE id = change.trip_id;
+
+  IF NOT FOUND OR trip.driver_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Booking change not found';
+  END IF;
+
+  IF change.status <> 'pending' THEN
+    RAISE EXCEPTION 'This change has already been answered'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_approve THEN
+    IF trip.status <> 'scheduled' THEN
+      RAISE EXCEPTION 'Bookings can only be changed before the trip starts'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    PERFORM apply_booking_change(change);
+  END IF;
+
+  UPDATE booking_changes
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'declined' END,
+      responded_at = now()
+  WHERE id = change.id;
+
+  INSERT INTO notifications (user_id, type, title, body, trip_id)
+  VALUES (
+    change.passenger_id,
+    CASE WHEN p_approve THEN 'booking_change_approved' ELSE 'booking_change_declined' END,
+    CASE WHEN p_approve THEN 'Booking change approved: ' ELSE 'Booking change declined: ' END
+      || trip.start_location || ' → ' || trip.destination,
+    CASE WHEN p_approve
+      THEN 'You now have ' || change.new_seats || ' seat(s)'
+      ELSE 'Your booking stays at ' || change.old_seats || ' seat(s)'
+    END,
+    trip.id
+  );
+END;
+$function$;
+
+-- Called by the passenger to take back a change still waiting for the driver
+CREATE OR REPLACE FUNCTION public.withdraw_booking_change(p_change_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  UPDATE booking_changes
+  SET status = 'withdrawn'
+  WHERE id = p_change_id
+  AND passenger_id = auth.uid()
+  AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking change not found';
+  END IF;
+END;
+$function$;
+
+-- Nothing is left to approve once a booking is cancelled or turned down
+CREATE OR REPLACE FUNCTION public.withdraw_booking_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  UPDATE booking_changes
+  SET status = 'withdrawn'
+  WHERE booking_id = NEW.id AND status = 'pending';
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER withdraw_booking_changes
+AFTER UPDATE OF status ON public.bookings
+FOR EACH ROW
+WHEN (NEW.status NOT IN ('pending', 'accepted'))
+EXECUTE FUNCTION public.withdraw_booking_changes();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.booking_changes;
@@ -0,0 +1,47 @@
+-- Pickup and drop-off pins. Passengers can mark exactly where they want to be
+-- picked up and dropped off instead of describing it in their message. The
+-- driver's app orders the pins into a route; nothing here depends on them.
+ALTER TABLE public.bookings
+  ADD COLUMN pickup_name TEXT,
+  ADD COLUMN pickup_lat NUMERIC(9,6),
+  ADD COLUMN pickup_lng NUMERIC(9,6),
+  ADD COLUMN dropoff_name TEXT,
+  ADD COLUMN dropoff_lat NUMERIC(9,6),
+  ADD COLUMN dropoff_lng NUMERIC(9,6),
+  ADD CONSTRAINT bookings_pickup_pin_check CHECK ((pickup_lat IS NULL) = (pickup_lng IS NULL)),
+  ADD CONSTRAINT bookings_dropoff_pin_check CHECK ((dropoff_lat IS NULL) = (dropoff_lng IS NULL));
+
+-- Pins are set when booking. Moving them later would change a route the
+-- driver may already have planned around.
+CREATE OR REPLACE FUNCTION public.guard_booking_edits()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF is_system_change() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.seats_requested <> OLD.seats_requested OR NEW.message IS DISTINCT FROM OLD.message THEN
+    RAISE EXCEPTION 'Request a booking change to edit a booking'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.pickup_lat IS DISTINCT FROM OLD.pickup_lat OR NEW.pickup_lng IS DISTINCT FROM OLD.pickup_lng
+     OR NEW.pickup_name IS DISTINCT FROM OLD.pickup_name
+     OR NEW.dropoff_lat IS DISTINCT FROM OLD.dropoff_lat OR NEW.dropoff_lng IS DISTINCT FROM OLD.dropoff_lng
+     OR NEW.dropoff_name IS DISTINCT FROM OLD.dropoff_name THEN
+    RAISE EXCEPTION 'Pickup and drop-off points cannot be moved after booking'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER guard_booking_edits ON public.bookings;
+CREATE TRIGGER guard_booking_edits
+BEFORE UPDATE OF seats_requested, message, pickup_name, pickup_lat, pickup_lng,
+  dropoff_name, dropoff_lat, dropoff_lng ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_booking_edits();
@@ -0,0 +1,156 @@
+-- Pickup codes. Every accepted booking gets a 4-digit code that only its
+-- passenger can see. The driver enters it to mark the passenger as picked up,
+-- so a passenger is only ever on board when they were really met.
+
+CREATE TABLE public.booking_pickup_codes (
+  booking_id UUID NOT NULL PRIMARY KEY REFERENCES public.bookings(id) ON DELETE CASCADE,
+  code TEXT NOT NULL CHECK (code ~ '^[0-9]{4}$'),
+  -- Wrong guesses lock the code for a while so it cannot be tried through
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.booking_pickup_codes ENABLE ROW LEVEL SECURITY;
+
+-- Drivers never read codes, they only check one through mark_passenger_picked_up
+CREATE POLICY "Passengers can view their pickup codes"
+ON public.booking_pickup_codes
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE bookings.id = booking_pickup_codes.booking_id
+    AND bookings.passenger_id = auth.uid()
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.create_pickup_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  INSERT INTO booking_pickup_codes (booking_id, code)
+  VALUES (NEW.id, lpad(floor(random() * 10000)::INTEGER::TEXT, 4, '0'))
+  ON CONFLICT (booking_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER create_pickup_code
+AFTER INSERT OR UPDATE OF status ON public.bookings
+FOR EACH ROW
+WHEN (NEW.status = 'accepted' AND NEW.picked_up_at IS NULL)
+EXECUTE FUNCTION public.create_pickup_code();
+
+REVOKE EXECUTE ON FUNCTION public.create_pickup_code() FROM PUBLIC, anon, authenticated;
+
+-- Codes for passengers already booked and waiting to be picked up
+INSERT INTO public.booking_pickup_codes (booking_id, code)
+SELECT id, lpad(floor(random() * 10000)::INTEGER::TEXT, 4, '0')
+FROM public.bookings
+WHERE status = 'accepted' AND picked_up_at IS NULL;
+
+-- Picking up now takes the passenger's code. Returns false for a wrong code
+-- instead of raising, so the failed attempt is still counted.
+DROP FUNCTION public.mark_passenger_picked_up(UUID);
+
+CREATE OR REPLACE FUNCTION public.mark_passenger_picked_up(p_booking_id UUID, p_code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  pickup RECORD;
+BEGIN
+  PERFORM 1
+  FROM bookings
+  JOIN trips ON trips.id = bookings.trip_id
+  WHERE bookings.id = p_booking_id
+  AND trips.driver_id = auth.uid()
+  AND trips.status = 'active'
+  AND bookings.status = 'accepted'
+  AND bookings.picked_up_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only accepted passengers on an active trip can be picked up';
+  END IF;
+
+  SELECT * INTO pickup FROM booking_pickup_codes WHERE booking_id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This booking has no pickup code';
+  END IF;
+
+  IF pickup.failed_attempts >= 5 THEN
+    IF pickup.last_failed_at > now() - INTERVAL '10 minutes' THEN
+      RAISE EXCEPTION 'Too many wrong codes. Try again in a few minutes'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    pickup.failed_attempts := 0;
+  END IF;
+
+  IF pickup.code <> btrim(p_code) THEN
+    UPDATE booking_pickup_codes
+    SET failed_attempts = pickup.failed_attempts + 1,
+        last_failed_at = now()
+    WHERE booking_id = p_booking_id;
+    RETURN false;
+  END IF;
+
+  PERFORM set_config('app.system_change', 'on', true);
+
+  UPDATE bookings SET picked_up_at = now() WHERE id = p_booking_id;
+
+  PERFORM set_config('app.system_change', '', true);
+
+  DELETE FROM booking_pickup_codes WHERE booking_id = p_booking_id;
+
+  RETURN true;
+END;
+$function$;
+
+-- Drivers can update their trips' bookings to answer requests, so the pickup
+-- time is guarded here too
+CREATE OR REPLACE FUNCTION public.guard_booking_edits()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF is_system_change() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.seats_requested <> OLD.seats_requested OR NEW.message IS DISTINCT FROM OLD.message THEN
+    RAISE EXCEPTION 'Request a booking change to edit a booking'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.pickup_lat IS DISTINCT FROM OLD.pickup_lat OR NEW.pickup_lng IS DISTINCT FROM OLD.pickup_lng
+     OR NEW.pickup_name IS DISTINCT FROM OLD.pickup_name
+     OR NEW.dropoff_lat IS DISTINCT FROM OLD.dropoff_lat OR NEW.dropoff_lng IS DISTINCT FROM OLD.dropoff_lng
+     OR NEW.dropoff_name IS DISTINCT FROM OLD.dropoff_name THEN
+    RAISE EXCEPTION 'Pickup and drop-off points cannot be moved after booking'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.picked_up_at IS DISTINCT FROM OLD.picked_up_at THEN
+    RAISE EXCEPTION 'Passengers are picked up with their pickup code'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER guard_booking_edits ON public.bookings;
+CREATE TRIGGER guard_booking_edits
+BEFORE UPDATE OF seats_requested, message, pickup_name, pickup_lat, pickup_lng,
+  dropoff_name, dropoff_lat, dropoff_lng, picked_up_at ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_booking_edits();
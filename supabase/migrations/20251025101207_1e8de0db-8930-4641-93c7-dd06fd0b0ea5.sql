@@ -0,0 +1,253 @@
+-- Cancellation policies. Each trip has a policy with a free cancellation
+-- window; accepted passengers who cancel after it, and drivers who cancel a
+-- trip with accepted passengers after it, are flagged as late cancellations
+-- and counted on their profile. Trips with accepted passengers can no longer
+-- be deleted, only cancelled with a reason that every passenger is sent.
+
+-- Edited by admins; drivers choose one per trip
+CREATE TABLE public.cancellation_policies (
+  id TEXT NOT NULL PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- Cancelling is free until this many hours before departure
+  free_cancellation_hours INTEGER NOT NULL CHECK (free_cancellation_hours >= 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.cancellation_policies (id, name, free_cancellation_hours, position) VALUES
+  ('flexible', 'Flexible', 2, 1),
+  ('moderate', 'Moderate', 12, 2),
+  ('strict', 'Strict', 24, 3);
+
+-- Enable RLS
+ALTER TABLE public.cancellation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view cancellation policies"
+ON public.cancellation_policies
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_cancellation_policies_updated_at
+BEFORE UPDATE ON public.cancellation_policies
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.trips
+  ADD COLUMN cancellation_policy TEXT NOT NULL DEFAULT 'moderate' REFERENCES public.cancellation_policies(id),
+  ADD COLUMN cancellation_reason TEXT CHECK (char_length(cancellation_reason) <= 500),
+  ADD COLUMN late_cancellation BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.bookings ADD COLUMN late_cancellation BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.profiles ADD COLUMN late_cancellations INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.protect_late_cancellations()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF is_system_change() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.late_cancellations := 0;
+  ELSIF NEW.late_cancellations <> OLD.late_cancellations THEN
+    RAISE EXCEPTION 'Late cancellations are counted automatically'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER protect_late_cancellations
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_late_cancellations();
+
+-- Whether cancelling now is past the trip's free cancellation window
+CREATE OR REPLACE FUNCTION public.cancellation_is_late(p_trip_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT now() > trips.departure_time - make_interval(hours => policies.free_cancellation_hours)
+  FROM trips
+  JOIN cancellation_policies policies ON policies.id = trips.cancellation_policy
+  WHERE trips.id = p_trip_id;
+$function$;
+
+-- Named to run after enforce_booking_transition has validated the move. Only
+-- the passenger's own cancellation counts: bookings cancelled along with
+-- their trip are the driver's doing.
+CREATE OR REPLACE FUNCTION public.flag_late_booking_cancellation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  NEW.late_cancellation := CASE
+    WHEN NEW.status = OLD.status THEN OLD.late_cancellation
+    ELSE COALESCE(
+      OLD.status = 'accepted'
+      AND NEW.status = 'cancelled'
+      AND auth.uid() = NEW.passenger_id
+      AND cancellation_is_late(NEW.trip_id),
+      false
+    )
+  END;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER flag_late_booking_cancellation
+BEFORE UPDATE OF status, late_cancellation ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.flag_late_booking_cancellation();
+
+-- Runs after enforce_trip_transition and before apply_trip_transition
+-- cancels the bookings, so accepted passengers are still there to see
+CREATE OR REPLACE FUNCTION public.flag_late_trip_cancellation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  NEW.late_cancellation := CASE
+    WHEN NEW.status = OLD.status THEN OLD.late_cancellation
+    ELSE COALESCE(
+      NEW.status = 'cancelled'
+      AND auth.uid() = NEW.driver_id
+      AND EXISTS (SELECT 1 FROM bookings WHERE trip_id = NEW.id AND status = 'accepted')
+      AND cancellation_is_late(NEW.id),
+      false
+    )
+  END;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER flag_late_trip_cancellation
+BEFORE UPDATE OF status, late_cancellation ON public.trips
+FOR EACH ROW
+EXECUTE FUNCTION public.flag_late_trip_cancellation();
+
+-- Shared by bookings (the passenger) and trips (the driver)
+CREATE OR REPLACE FUNCTION public.count_late_cancellation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  UPDATE profiles
+  SET late_cancellations = late_cancellations + 1
+  WHERE user_id = CASE TG_TABLE_NAME WHEN 'bookings' THEN NEW.passenger_id ELSE NEW.driver_id END;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER count_late_cancellation
+AFTER UPDATE OF status, late_cancellation ON public.bookings
+FOR EACH ROW
+WHEN (NEW.late_cancellation AND NOT OLD.late_cancellation)
+EXECUTE FUNCTION public.count_late_cancellation();
+
+CREATE TRIGGER count_late_cancellation
+AFTER UPDATE OF status, late_cancellation ON public.trips
+FOR EACH ROW
+WHEN (NEW.late_cancellation AND NOT OLD.late_cancellation)
+EXECUTE FUNCTION public.count_late_cancellation();
+
+REVOKE EXECUTE ON FUNCTION public.count_late_cancellation() FROM PUBLIC, anon, authenticated;
+
+-- Named to run before apply_trip_transition, while the passengers' bookings
+-- are still pending or accepted
+CREATE OR REPLACE FUNCTION public.announce_trip_cancellation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  INSERT INTO notifications (user_id, type, title, body, trip_id)
+  SELECT DISTINCT
+    bookings.passenger_id,
+    'trip_cancelled',
+    'Trip cancelled: ' || NEW.start_location || ' → ' || NEW.destination,
+    COALESCE('The driver cancelled this trip: ' || NEW.cancellation_reason, 'The driver cancelled this trip'),
+    NEW.id
+  FROM bookings
+  WHERE bookings.trip_id = NEW.id
+  AND bookings.status IN ('pending', 'accepted');
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER announce_trip_cancellation
+AFTER UPDATE OF status ON public.trips
+FOR EACH ROW
+WHEN (NEW.status = 'cancelled' AND OLD.status <> 'cancelled')
+EXECUTE FUNCTION public.announce_trip_cancellation();
+
+REVOKE EXECUTE ON FUNCTION public.announce_trip_cancellation() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.cancel_trip(p_trip_id UUID, p_reason TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF btrim(COALESCE(p_reason, '')) = '' THEN
+    RAISE EXCEPTION 'Tell your passengers why the trip is cancelled'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- enforce_trip_transition validates the move
+  UPDATE trips
+  SET status = 'cancelled',
+      cancellation_reason = btrim(p_reason)
+  WHERE id = p_trip_id AND driver_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+END;
+$function$;
+
+-- Passengers with a confirmed seat on an upcoming trip are owed an
+-- explanation. Deletes that cascade from removing an account are not the
+-- driver's and pass through.
+CREATE OR REPLACE FUNCTION public.prevent_booked_trip_deletion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF auth.uid() = OLD.driver_id
+     AND OLD.status = 'scheduled'
+     AND EXISTS (SELECT 1 FROM bookings WHERE trip_id = OLD.id AND status = 'accepted') THEN
+    RAISE EXCEPTION 'This trip has accepted passengers. Cancel it with a reason instead'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN OLD;
+END;
+$function$;
+
+CREATE TRIGGER prevent_booked_trip_deletion
+BEFORE DELETE ON public.trips
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_booked_trip_deletion();
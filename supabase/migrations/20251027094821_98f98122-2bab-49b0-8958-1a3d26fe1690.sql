@@ -0,0 +1,80 @@
+-- Fare suggestions. A trip's running cost is worked out from its driving
+-- distance and time plus any tolls, then shared between everyone in the
+-- vehicle, driver included. Drivers are shown a range around that share and
+-- warned above a cap. Rates are per vehicle type and edited by admins.
+
+CREATE TABLE public.fare_rates (
+  vehicle_type vehicle_type NOT NULL PRIMARY KEY,
+  fuel_cost_per_km NUMERIC(6,2) NOT NULL CHECK (fuel_cost_per_km >= 0),
+  -- Tyres, servicing and depreciation
+  upkeep_cost_per_km NUMERIC(6,2) NOT NULL CHECK (upkeep_cost_per_km >= 0),
+  -- Extra fuel in traffic, so slow routes cost a little more
+  cost_per_minute NUMERIC(6,2) NOT NULL DEFAULT 0 CHECK (cost_per_minute >= 0),
+  -- The suggested range is the cost share plus or minus this fraction
+  range_spread NUMERIC(3,2) NOT NULL DEFAULT 0.2 CHECK (range_spread BETWEEN 0 AND 1),
+  -- Prices above the cost share times this look like profiteering
+  max_markup NUMERIC(4,2) NOT NULL DEFAULT 1.5 CHECK (max_markup >= 1),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.fare_rates (vehicle_type, fuel_cost_per_km, upkeep_cost_per_km, cost_per_minute) VALUES
+  ('car', 7.50, 2.00, 0.50),
+  ('auto', 4.00, 1.20, 0.30),
+  ('bike', 2.50, 0.80, 0.20);
+
+-- Enable RLS
+ALTER TABLE public.fare_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view fare rates"
+ON public.fare_rates
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_fare_rates_updated_at
+BEFORE UPDATE ON public.fare_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The estimate each trip was priced against, kept so passengers see the
+-- same breakdown the driver did even after rates change
+CREATE TABLE public.trip_fare_estimates (
+  trip_id UUID NOT NULL PRIMARY KEY REFERENCES public.trips(id) ON DELETE CASCADE,
+  distance_km NUMERIC(8,1) NOT NULL CHECK (distance_km >= 0),
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes >= 0),
+  fuel_cost NUMERIC(10,2) NOT NULL,
+  upkeep_cost NUMERIC(10,2) NOT NULL,
+  time_cost NUMERIC(10,2) NOT NULL,
+  toll_cost NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (toll_cost >= 0),
+  trip_cost NUMERIC(10,2) NOT NULL,
+  people_sharing INTEGER NOT NULL CHECK (people_sharing >= 2),
+  cost_per_seat NUMERIC(10,2) NOT NULL,
+  suggested_min NUMERIC(10,2) NOT NULL,
+  suggested_max NUMERIC(10,2) NOT NULL,
+  price_cap NUMERIC(10,2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.trip_fare_estimates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view trip fare estimates"
+ON public.trip_fare_estimates
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Drivers can save their trips' fare estimates"
+ON public.trip_fare_estimates
+FOR INSERT
+WITH CHECK (EXISTS (SELECT 1 FROM public.trips WHERE trips.id = trip_id AND trips.driver_id = auth.uid()));
+
+CREATE POLICY "Drivers can update their trips' fare estimates"
+ON public.trip_fare_estimates
+FOR UPDATE
+USING (EXISTS (SELECT 1 FROM public.trips WHERE trips.id = trip_id AND trips.driver_id = auth.uid()));
+
+CREATE TRIGGER update_trip_fare_estimates_updated_at
+BEFORE UPDATE ON public.trip_fare_estimates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
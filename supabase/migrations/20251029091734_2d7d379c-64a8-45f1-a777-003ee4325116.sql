@@ -0,0 +1,348 @@
+-- Payments. Passengers pay for an accepted booking through a payment gateway;
+-- the money is only held (authorized) until the booking is settled. Completed
+-- trips and no-shows are charged, cancellations are refunded under the trip's
+-- cancellation policy. The database decides what is owed, the edge functions
+-- talk to the gateway: create-payment and confirm-payment for checkout,
+-- payment-webhook for the gateway's events and settle-payments to capture
+-- and refund.
+
+-- Share of the paid amount passengers get back when they cancel late.
+-- Cancelling in the free window, or the driver cancelling, refunds in full.
+ALTER TABLE public.cancellation_policies
+  ADD COLUMN late_refund_percent INTEGER NOT NULL DEFAULT 50 CHECK (late_refund_percent BETWEEN 0 AND 100);
+
+UPDATE public.cancellation_policies SET late_refund_percent = 75 WHERE id = 'flexible';
+UPDATE public.cancellation_policies SET late_refund_percent = 50 WHERE id = 'moderate';
+UPDATE public.cancellation_policies SET late_refund_percent = 25 WHERE id = 'strict';
+
+-- created: waiting for the passenger at checkout. authorized: money held.
+-- captured: money taken. refunded: some or all of it given back. voided:
+-- never paid, or the hold released without charging.
+CREATE TYPE payment_status AS ENUM ('created', 'authorized', 'captured', 'refunded', 'voided', 'failed');
+
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Kept when the booking goes, it is still a record of money moved
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+  passenger_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('razorpay', 'mock')),
+  provider_order_id TEXT UNIQUE,
+  provider_payment_id TEXT,
+  -- Rupees, as everywhere else; adapters convert to the gateway's units
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'INR',
+  status payment_status NOT NULL DEFAULT 'created',
+  -- What the passenger finally owes, set once the booking is settled
+  due_amount NUMERIC(10,2) CHECK (due_amount >= 0),
+  captured_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  refunded_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  failure_reason TEXT,
+  -- Claimed by a settle-payments run, so two runs never capture twice
+  settling_at TIMESTAMP WITH TIME ZONE,
+  settled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payments_booking ON public.payments (booking_id, created_at DESC);
+CREATE INDEX idx_payments_unsettled ON public.payments (updated_at)
+  WHERE due_amount IS NOT NULL AND settled_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the payment edge functions, through the functions below
+CREATE POLICY "Passengers can view their payments"
+ON public.payments
+FOR SELECT
+USING (auth.uid() = passenger_id);
+
+CREATE POLICY "Drivers can view payments for their trips"
+ON public.payments
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.bookings
+    JOIN public.trips ON trips.id = bookings.trip_id
+    WHERE bookings.id = payments.booking_id
+    AND trips.driver_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_payments_updated_at
+BEFORE UPDATE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Starts a checkout for an accepted booking on a trip that has not finished.
+-- The amount comes from the booking's own fare, never from the client.
+-- Earlier checkouts that were never paid are voided.
+CREATE OR REPLACE FUNCTION public.open_booking_payment(p_booking_id UUID, p_passenger_id UUID, p_provider TEXT)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  booking RECORD;
+  total NUMERIC;
+  payment payments;
+BEGIN
+  SELECT bookings.*, trips.status AS trip_status, trips.price_per_seat
+  INTO booking
+  FROM bookings
+  JOIN trips ON trips.id = bookings.trip_id
+  WHERE bookings.id = p_booking_id AND bookings.passenger_id = p_passenger_id
+  FOR UPDATE OF bookings;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF booking.status <> 'accepted' OR booking.trip_status NOT IN ('scheduled', 'active') THEN
+    RAISE EXCEPTION 'Only accepted bookings on upcoming trips can be paid for'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  total := round(COALESCE(booking.fare_per_seat, booking.price_per_seat, 0) * booking.seats_requested, 2);
+  IF total <= 0 THEN
+    RAISE EXCEPTION 'This ride is free, there is nothing to pay'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM payments
+    WHERE booking_id = p_booking_id AND status IN ('authorized', 'captured')
+  ) THEN
+    RAISE EXCEPTION 'This booking is already paid for'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE payments
+  SET status = 'voided', due_amount = 0, settled_at = now()
+  WHERE booking_id = p_booking_id AND status = 'created';
+
+  INSERT INTO payments (booking_id, passenger_id, provider, amount)
+  VALUES (p_booking_id, p_passenger_id, p_provider, total)
+  RETURNING * INTO payment;
+
+  RETURN payment;
+END;
+$function$;
+
+-- Applies a checkout result or a gateway webhook. Gateways retry and reorder
+-- events, so each one only ever moves a payment forward. Money that arrives
+-- for a booking that was already settled is owed back in full.
+CREATE OR REPLACE FUNCTION public.record_payment_event(
+  p_order_id TEXT,
+  p_event TEXT,
+  p_provider_payment_id TEXT DEFAULT NULL,
+  p_amount NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS payment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  payment payments;
+BEGIN
+  SELECT * INTO payment FROM payments WHERE provider_order_id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No payment for order %', p_order_id;
+  END IF;
+
+  IF p_event = 'authorized' AND payment.status IN ('created', 'failed', 'voided') THEN
+    UPDATE payments
+    SET status = 'authorized',
+        provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+        failure_reason = NULL,
+        settled_at = NULL
+    WHERE id = payment.id
+    RETURNING * INTO payment;
+  ELSIF p_event = 'captured' AND payment.status IN ('created', 'failed', 'voided', 'authorized') THEN
+    UPDATE payments
+    SET status = 'captured',
+        provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+        captured_amount = COALESCE(p_amount, amount),
+        failure_reason = NULL,
+        settled_at = NULL
+    WHERE id = payment.id
+    RETURNING * INTO payment;
+  ELSIF p_event = 'failed' AND payment.status = 'created' THEN
+    UPDATE payments
+    SET status = 'failed', failure_reason = p_reason
+    WHERE id = payment.id
+    RETURNING * INTO payment;
+  ELSIF p_event = 'refunded' AND payment.status IN ('captured', 'refunded') THEN
+    UPDATE payments
+    SET status = 'refunded',
+        refunded_amount = GREATEST(refunded_amount, COALESCE(p_amount, 0))
+    WHERE id = payment.id
+    RETURNING * INTO payment;
+  END IF;
+
+  -- Paid for a checkout that was voided when the booking ended
+  IF payment.status IN ('authorized', 'captured') AND payment.due_amount IS NULL THEN
+    IF payment.booking_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM bookings
+      WHERE id = payment.booking_id AND status = 'accepted' AND completed_at IS NULL
+    ) THEN
+      UPDATE payments SET due_amount = 0 WHERE id = payment.id;
+    END IF;
+  END IF;
+
+  RETURN payment.status;
+END;
+$function$;
+
+-- Works out what each held payment is owed once its booking is done with.
+-- Runs after flag_late_booking_cancellation has decided whether a
+-- cancellation was late.
+CREATE OR REPLACE FUNCTION public.settle_booking_payments()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  total NUMERIC;
+  keep_percent INTEGER;
+BEGIN
+  IF NEW.status = 'accepted' AND NEW.completed_at IS NOT NULL AND OLD.completed_at IS NULL THEN
+    -- Seats given up after paying are not charged for
+    SELECT COALESCE(NEW.fare_per_seat, trips.price_per_seat, 0) * NEW.seats_requested
+    INTO total
+    FROM trips
+    WHERE trips.id = NEW.trip_id;
+  ELSIF NEW.status = 'no_show' AND OLD.status <> 'no_show' THEN
+    total := NULL;
+    keep_percent := 100;
+  ELSIF NEW.status IN ('cancelled', 'rejected') AND OLD.status NOT IN ('cancelled', 'rejected') THEN
+    keep_percent := 0;
+    IF NEW.late_cancellation THEN
+      SELECT 100 - policies.late_refund_percent
+      INTO keep_percent
+      FROM trips
+      JOIN cancellation_policies policies ON policies.id = trips.cancellation_policy
+      WHERE trips.id = NEW.trip_id;
+    END IF;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  UPDATE payments
+  SET status = 'voided', due_amount = 0, settled_at = now()
+  WHERE booking_id = NEW.id AND status = 'created';
+
+  UPDATE payments
+  SET due_amount = CASE
+    WHEN total IS NOT NULL THEN LEAST(amount, round(total, 2))
+    ELSE round(amount * COALESCE(keep_percent, 0) / 100, 2)
+  END
+  WHERE booking_id = NEW.id
+  AND status IN ('authorized', 'captured')
+  AND due_amount IS NULL;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER settle_booking_payments
+AFTER UPDATE OF status, completed_at ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.settle_booking_payments();
+
+REVOKE EXECUTE ON FUNCTION public.settle_booking_payments() FROM PUBLIC, anon, authenticated;
+
+-- Hands a settle-payments run the payments it should capture or refund.
+-- A claim left by a run that died is picked up again after ten minutes.
+CREATE OR REPLACE FUNCTION public.claim_payment_settlements(p_limit INTEGER DEFAULT 25)
+RETURNS SETOF public.payments
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  UPDATE payments
+  SET settling_at = now()
+  WHERE id IN (
+    SELECT id FROM payments
+    WHERE due_amount IS NOT NULL
+    AND settled_at IS NULL
+    AND status IN ('authorized', 'captured', 'refunded')
+    AND (settling_at IS NULL OR settling_at < now() - INTERVAL '10 minutes')
+    ORDER BY updated_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$function$;
+
+-- Records what settle-payments did at the gateway. With an error the steps
+-- that did go through are kept and the claim dropped, so the next run
+-- carries on from there.
+CREATE OR REPLACE FUNCTION public.record_payment_settlement(
+  p_payment_id UUID,
+  p_status payment_status,
+  p_captured_amount NUMERIC,
+  p_refunded_amount NUMERIC,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF p_error IS NOT NULL THEN
+    UPDATE payments
+    SET status = p_status,
+        captured_amount = p_captured_amount,
+        refunded_amount = p_refunded_amount,
+        failure_reason = p_error,
+        settling_at = NULL
+    WHERE id = p_payment_id;
+    RETURN;
+  END IF;
+
+  UPDATE payments
+  SET status = p_status,
+      captured_amount = p_captured_amount,
+      refunded_amount = p_refunded_amount,
+      failure_reason = NULL,
+      settling_at = NULL,
+      settled_at = now()
+  WHERE id = p_payment_id;
+END;
+$function$;
+
+-- Gateway bookkeeping is for the payment edge functions (service role) only
+REVOKE EXECUTE ON FUNCTION public.open_booking_payment(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_payment_event(TEXT, TEXT, TEXT, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_payment_settlements(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_payment_settlement(UUID, payment_status, NUMERIC, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.payments;
+
+-- Captures and refunds need the gateway, so the job calls the settle-payments
+-- edge function. It reads the project URL and service role key from Vault:
+--   SELECT vault.create_secret('https://<project>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'settle-payments',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/settle-payments',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
@@ -0,0 +1,77 @@
+-- Payment events are only taken from the gateway the payment was made with.
+-- Before, a webhook could name any provider and a payment made through one
+-- gateway could be moved along by events signed for another.
+DROP FUNCTION public.record_payment_event(TEXT, TEXT, TEXT, NUMERIC, TEXT);
+
+CREATE OR REPLACE FUNCTION public.record_payment_event(
+  p_provider TEXT,
+  p_order_id TEXT,
+  p_event TEXT,
+  p_provider_payment_id TEXT DEFAULT NULL,
+  p_amount NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS payment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  payment payments;
+BEGIN
+  SELECT * INTO payment FROM payments WHERE provider_order_id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No payment for order %', p_order_id;
+  END IF;
+
+  IF payment.provider <> p_provider THEN
+    RAISE EXCEPTION 'Order % was not made through %', p_order_id, p_provider
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_event = 'authorized' AND payment.status IN ('created', 'failed', 'voided') THEN
+    UPDATE payments
+    SET status = 'authorized',
+        provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+        failure_reason = NULL,
+        settled_at = NULL
+    WHERE id = payment.id
+    RETURNING * INTO payment;
+  ELSIF p_event = 'captured' AND payment.status IN ('created', 'failed', 'voided', 'authorized') THEN
+    UPDATE payments
+    SET status = 'captured',
+        provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+        captured_amount = COALESCE(p_amount, amount),
+        failure_reason = NULL,
+        settled_at = NULL
+    WHERE id = payment.id
+    RETURNING * INTO payment;
+  ELSIF p_event = 'failed' AND payment.status = 'created' THEN
+    UPDATE payments
+    SET status = 'failed', failure_reason = p_reason
+    WHERE id = payment.id
+    RETURNING * INTO payment;
+  ELSIF p_event = 'refunded' AND payment.status IN ('captured', 'refunded') THEN
+    UPDATE payments
+    SET status = 'refunded',
+        refunded_amount = GREATEST(refunded_amount, COALESCE(p_amount, 0))
+    WHERE id = payment.id
+    RETURNING * INTO payment;
+  END IF;
+
+  -- Paid for a checkout that was voided when the booking ended
+  IF payment.status IN ('authorized', 'captured') AND payment.due_amount IS NULL THEN
+    IF payment.booking_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM bookings
+      WHERE id = payment.booking_id AND status = 'accepted' AND completed_at IS NULL
+    ) THEN
+      UPDATE payments SET due_amount = 0 WHERE id = payment.id;
+    END IF;
+  END IF;
+
+  RETURN payment.status;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_event(TEXT, TEXT, TEXT, TEXT, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,48 @@
+-- A booking's fare, completion and instant-booking flag are the database's
+-- own bookkeeping, and payments are worked out from the fare. Passengers
+-- could write them directly, e.g. to pay for their seats at a rupee each.
+CREATE OR REPLACE FUNCTION public.guard_booking_edits()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF is_system_change() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.seats_requested <> OLD.seats_requested OR NEW.message IS DISTINCT FROM OLD.message THEN
+    RAISE EXCEPTION 'Request a booking change to edit a booking'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.pickup_lat IS DISTINCT FROM OLD.pickup_lat OR NEW.pickup_lng IS DISTINCT FROM OLD.pickup_lng
+     OR NEW.pickup_name IS DISTINCT FROM OLD.pickup_name
+     OR NEW.dropoff_lat IS DISTINCT FROM OLD.dropoff_lat OR NEW.dropoff_lng IS DISTINCT FROM OLD.dropoff_lng
+     OR NEW.dropoff_name IS DISTINCT FROM OLD.dropoff_name THEN
+    RAISE EXCEPTION 'Pickup and drop-off points cannot be moved after booking'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.picked_up_at IS DISTINCT FROM OLD.picked_up_at THEN
+    RAISE EXCEPTION 'Passengers are picked up with their pickup code'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.fare_per_seat IS DISTINCT FROM OLD.fare_per_seat
+     OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+     OR NEW.instant_booked IS DISTINCT FROM OLD.instant_booked THEN
+    RAISE EXCEPTION 'A booking''s fare and completion are set by the trip'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER guard_booking_edits ON public.bookings;
+CREATE TRIGGER guard_booking_edits
+BEFORE UPDATE OF seats_requested, message, pickup_name, pickup_lat, pickup_lng,
+  dropoff_name, dropoff_lat, dropoff_lng, picked_up_at,
+  fare_per_seat, completed_at, instant_booked ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_booking_edits();
@@ -0,0 +1,97 @@
+-- A payment is for the seats and stops booked when it was made. Taking more
+-- seats or getting on earlier afterwards would ride on the old amount, so
+-- once money is held such changes are refused; the passenger can cancel and
+-- book again. Changes that cost the same or less go through as before.
+
+-- What the passenger has paid for the booking and not yet settled, or NULL
+CREATE OR REPLACE FUNCTION public.booking_paid_amount(p_booking_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT max(amount) FROM payments
+  WHERE booking_id = p_booking_id
+  AND status IN ('authorized', 'captured')
+  AND due_amount IS NULL;
+$function$;
+REVOKE EXECUTE ON FUNCTION public.booking_paid_amount(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Named to run after check_booking_segment has priced the new stops
+CREATE OR REPLACE FUNCTION public.guard_paid_booking_total()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  paid NUMERIC;
+  total NUMERIC;
+BEGIN
+  IF NEW.seats_requested = OLD.seats_requested
+     AND NEW.from_stop = OLD.from_stop
+     AND NEW.to_stop IS NOT DISTINCT FROM OLD.to_stop THEN
+    RETURN NEW;
+  END IF;
+
+  paid := booking_paid_amount(NEW.id);
+  IF paid IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT round(COALESCE(NEW.fare_per_seat, trips.price_per_seat, 0) * NEW.seats_requested, 2)
+  INTO total
+  FROM trips
+  WHERE trips.id = NEW.trip_id;
+
+  IF total > paid THEN
+    RAISE EXCEPTION 'This booking is already paid for; cancel it and book again to add seats or stops'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER guard_paid_booking_total
+BEFORE UPDATE OF seats_requested, from_stop, to_stop ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_paid_booking_total();
+
+REVOKE EXECUTE ON FUNCTION public.guard_paid_booking_total() FROM PUBLIC, anon, authenticated;
+
+-- Turned away when it is asked for rather than when the driver approves it
+CREATE OR REPLACE FUNCTION public.check_booking_change_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  booking RECORD;
+  paid NUMERIC;
+BEGIN
+  paid := booking_paid_amount(NEW.booking_id);
+  IF paid IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO booking FROM bookings WHERE id = NEW.booking_id;
+
+  IF round(COALESCE(trip_segment_fare(NEW.trip_id, NEW.new_from_stop, booking.to_stop), 0) * NEW.new_seats, 2) > paid THEN
+    RAISE EXCEPTION 'This booking is already paid for; cancel it and book again to add seats or stops'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_booking_change_payment
+BEFORE INSERT ON public.booking_changes
+FOR EACH ROW
+WHEN (NEW.status = 'pending')
+EXECUTE FUNCTION public.check_booking_change_payment();
+
+REVOKE EXECUTE ON FUNCTION public.check_booking_change_payment() FROM PUBLIC, anon, authenticated;
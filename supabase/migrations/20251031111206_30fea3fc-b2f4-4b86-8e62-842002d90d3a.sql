@@ -0,0 +1,56 @@
+-- Completion used to charge every accepted booking, including trips that
+-- were closed by expire_stale_trips without ever starting. Only passengers
+-- the driver actually picked up (with their pickup code) are charged now;
+-- anyone else's hold is released in full.
+CREATE OR REPLACE FUNCTION public.settle_booking_payments()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  total NUMERIC;
+  keep_percent INTEGER;
+BEGIN
+  IF NEW.status = 'accepted' AND NEW.completed_at IS NOT NULL AND OLD.completed_at IS NULL THEN
+    IF NEW.picked_up_at IS NULL THEN
+      total := 0;
+    ELSE
+      -- Seats given up after paying are not charged for
+      SELECT COALESCE(NEW.fare_per_seat, trips.price_per_seat, 0) * NEW.seats_requested
+      INTO total
+      FROM trips
+      WHERE trips.id = NEW.trip_id;
+    END IF;
+  ELSIF NEW.status = 'no_show' AND OLD.status <> 'no_show' THEN
+    total := NULL;
+    keep_percent := 100;
+  ELSIF NEW.status IN ('cancelled', 'rejected') AND OLD.status NOT IN ('cancelled', 'rejected') THEN
+    keep_percent := 0;
+    IF NEW.late_cancellation THEN
+      SELECT 100 - policies.late_refund_percent
+      INTO keep_percent
+      FROM trips
+      JOIN cancellation_policies policies ON policies.id = trips.cancellation_policy
+      WHERE trips.id = NEW.trip_id;
+    END IF;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  UPDATE payments
+  SET status = 'voided', due_amount = 0, settled_at = now()
+  WHERE booking_id = NEW.id AND status = 'created';
+
+  UPDATE payments
+  SET due_amount = CASE
+    WHEN total IS NOT NULL THEN LEAST(amount, round(total, 2))
+    ELSE round(amount * COALESCE(keep_percent, 0) / 100, 2)
+  END
+  WHERE booking_id = NEW.id
+  AND status IN ('authorized', 'captured')
+  AND due_amount IS NULL;
+
+  RETURN NEW;
+END;
+$function$;
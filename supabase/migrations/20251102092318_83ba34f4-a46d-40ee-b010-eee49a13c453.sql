@@ -0,0 +1,73 @@
+-- Drivers and passengers may only move an offer's status along; the rest of
+-- an offer is fixed once made. Before, any update that left the status alone
+-- went through, so a driver could rewrite the price or departure of an offer
+-- the passenger was about to accept.
+CREATE OR REPLACE FUNCTION public.validate_ride_offer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  request RECORD;
+  vehicle RECORD;
+  caller UUID := auth.uid();
+BEGIN
+  SELECT * INTO request FROM ride_requests WHERE id = NEW.request_id;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF is_system_change() THEN
+      RETURN NEW;
+    END IF;
+    IF to_jsonb(NEW) - ARRAY['status', 'updated_at'] <> to_jsonb(OLD) - ARRAY['status', 'updated_at'] THEN
+      RAISE EXCEPTION 'An offer cannot be edited; withdraw it and make a new one'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF NEW.status = OLD.status THEN
+      RETURN NEW;
+    END IF;
+    IF OLD.status = 'pending' AND NEW.status = 'withdrawn' AND caller = OLD.driver_id THEN
+      RETURN NEW;
+    END IF;
+    IF OLD.status = 'pending' AND NEW.status = 'declined' AND caller = request.passenger_id THEN
+      RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'A % offer cannot become %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status <> 'pending' THEN
+    RAISE EXCEPTION 'New offers start as pending' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF request.status <> 'open' OR request.window_end <= now() THEN
+    RAISE EXCEPTION 'This ride request is no longer open' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF request.passenger_id = NEW.driver_id THEN
+    RAISE EXCEPTION 'You cannot offer a ride on your own request' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE user_id = NEW.driver_id AND role = 'driver') THEN
+    RAISE EXCEPTION 'Only drivers can offer rides' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.departure_time < request.window_start OR NEW.departure_time > request.window_end
+     OR NEW.departure_time <= now() THEN
+    RAISE EXCEPTION 'Departure must be within the passenger''s window'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT driver_id, seat_capacity INTO vehicle FROM vehicles WHERE id = NEW.vehicle_id;
+  IF NOT FOUND OR vehicle.driver_id <> NEW.driver_id THEN
+    RAISE EXCEPTION 'Vehicle not found' USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF NEW.seats_offered < request.seats OR NEW.seats_offered > vehicle.seat_capacity THEN
+    RAISE EXCEPTION 'Offer between % and % seats', request.seats, vehicle.seat_capacity
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,87 @@
+-- The daily run inserts every series' trips in one statement, so a single
+-- series whose vehicle was since removed or swapped for a smaller one failed
+-- the vehicle check and stopped trips being generated for everyone. Such
+-- series are now skipped until the driver fixes them.
+CREATE OR REPLACE FUNCTION public.generate_series_trips(
+  p_series_id UUID DEFAULT NULL,
+  p_days_ahead INTEGER DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  days_ahead INTEGER := COALESCE(
+    p_days_ahead,
+    NULLIF(current_setting('app.trip_series_days_ahead', true), '')::INTEGER,
+    14
+  );
+  new_trip_ids UUID[];
+BEGIN
+  WITH occurrences AS (
+    SELECT s.*, day::DATE AS occurs_on
+    FROM trip_series s
+    CROSS JOIN LATERAL generate_series(
+      GREATEST(s.starts_on, (now() AT TIME ZONE s.timezone)::DATE),
+      LEAST(s.ends_on, (now() AT TIME ZONE s.timezone)::DATE + days_ahead),
+      INTERVAL '1 day'
+    ) AS day
+    WHERE s.status = 'active'
+    AND (p_series_id IS NULL OR s.id = p_series_id)
+    AND trip_series_runs_on(s, day::DATE)
+    AND EXISTS (
+      SELECT 1 FROM vehicles v
+      WHERE v.id = s.vehicle_id
+      AND v.driver_id = s.driver_id
+      AND v.seat_capacity >= s.available_seats
+    )
+  ),
+  inserted AS (
+    INSERT INTO trips (
+      driver_id, start_location, destination, start_lat, start_lng, dest_lat, dest_lng,
+      departure_time, available_seats, price_per_seat, description, vehicle_id,
+      series_id, series_date
+    )
+    SELECT
+      driver_id, start_location, destination, start_lat, start_lng, dest_lat, dest_lng,
+      (occurs_on + departure_time) AT TIME ZONE timezone,
+      available_seats, price_per_seat, description, vehicle_id,
+      id, occurs_on
+    FROM occurrences
+    WHERE (occurs_on + departure_time) AT TIME ZONE timezone > now()
+    ON CONFLICT (series_id, series_date) DO NOTHING
+    RETURNING trips.id
+  )
+  SELECT array_agg(id) INTO new_trip_ids FROM inserted;
+
+  IF new_trip_ids IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  -- sync_trip_route has given every new trip a straight line by now
+  UPDATE trip_routes
+  SET geom = saved.geom,
+      source = saved.source,
+      distance_meters = saved.distance_meters,
+      duration_seconds = saved.duration_seconds
+  FROM trips
+  JOIN LATERAL (
+    SELECT route.*
+    FROM trips AS sibling
+    JOIN trip_routes AS route ON route.trip_id = sibling.id
+    WHERE sibling.series_id = trips.series_id
+    AND NOT sibling.series_detached
+    AND route.source = 'directions'
+    ORDER BY route.updated_at DESC
+    LIMIT 1
+  ) AS saved ON true
+  WHERE trips.id = ANY (new_trip_ids)
+  AND trip_routes.trip_id = trips.id;
+
+  RETURN cardinality(new_trip_ids);
+END;
+$function$;
+
+-- Generation runs from the series triggers and the scheduler only
+REVOKE EXECUTE ON FUNCTION public.generate_series_trips(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
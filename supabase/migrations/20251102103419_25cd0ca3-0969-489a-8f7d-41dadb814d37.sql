@@ -0,0 +1,27 @@
+-- Passengers book under the trip's cancellation policy, and their refunds
+-- follow it. Once anyone is accepted, the driver can no longer swap it for
+-- a stricter one.
+CREATE OR REPLACE FUNCTION public.freeze_cancellation_policy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.cancellation_policy IS DISTINCT FROM OLD.cancellation_policy
+     AND NOT is_system_change()
+     AND EXISTS (SELECT 1 FROM bookings WHERE trip_id = NEW.id AND status = 'accepted') THEN
+    RAISE EXCEPTION 'The cancellation policy cannot change once passengers are booked'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER freeze_cancellation_policy
+BEFORE UPDATE OF cancellation_policy ON public.trips
+FOR EACH ROW
+EXECUTE FUNCTION public.freeze_cancellation_policy();
+
+REVOKE EXECUTE ON FUNCTION public.freeze_cancellation_policy() FROM PUBLIC, anon, authenticated;
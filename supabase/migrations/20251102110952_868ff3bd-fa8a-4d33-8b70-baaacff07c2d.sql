@@ -0,0 +1,99 @@
+-- Fare estimates were written by the driver's browser, so the breakdown
+-- passengers see could say anything. They are now worked out here from the
+-- trip's saved route, its vehicle type's rates and the seats it offers, the
+-- same way the create-trip form previews them. Only the toll amount, which
+-- the driver knows and we do not, comes from the client.
+DROP POLICY "Drivers can save their trips' fare estimates" ON public.trip_fare_estimates;
+DROP POLICY "Drivers can update their trips' fare estimates" ON public.trip_fare_estimates;
+
+CREATE OR REPLACE FUNCTION public.save_trip_fare_estimate(p_trip_id UUID, p_toll_cost NUMERIC DEFAULT 0)
+RETURNS public.trip_fare_estimates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  trip RECORD;
+  rate fare_rates;
+  route trip_routes;
+  seats INTEGER;
+  km NUMERIC;
+  minutes INTEGER;
+  tolls NUMERIC := COALESCE(p_toll_cost, 0);
+  running_cost NUMERIC;
+  sharing INTEGER;
+  share NUMERIC;
+  estimate trip_fare_estimates;
+BEGIN
+  SELECT trips.*, vehicles.vehicle_type INTO trip
+  FROM trips
+  JOIN vehicles ON vehicles.id = trips.vehicle_id
+  WHERE trips.id = p_trip_id AND trips.driver_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+
+  IF tolls < 0 THEN
+    RAISE EXCEPTION 'Tolls cannot be negative' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO rate FROM fare_rates WHERE vehicle_type = trip.vehicle_type;
+  SELECT * INTO route FROM trip_routes WHERE trip_id = p_trip_id;
+
+  IF rate.vehicle_type IS NULL OR route.distance_meters IS NULL OR route.duration_seconds IS NULL THEN
+    RAISE EXCEPTION 'This trip has no driving route to price'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Seats offered, whether or not they are booked yet
+  seats := trip.available_seats + COALESCE((SELECT max(seats_held) FROM trip_leg_holds(p_trip_id)), 0);
+
+  -- Cost sharing, not a taxi fare: split between every seat and the driver's
+  km := route.distance_meters / 1000;
+  minutes := round(route.duration_seconds / 60);
+  running_cost := km * rate.fuel_cost_per_km
+    + km * rate.upkeep_cost_per_km
+    + minutes * rate.cost_per_minute
+    + tolls;
+  sharing := GREATEST(seats, 1) + 1;
+  share := running_cost / sharing;
+
+  INSERT INTO trip_fare_estimates (
+    trip_id, distance_km, duration_minutes, fuel_cost, upkeep_cost, time_cost, toll_cost,
+    trip_cost, people_sharing, cost_per_seat, suggested_min, suggested_max, price_cap
+  )
+  VALUES (
+    p_trip_id,
+    round(km, 1),
+    minutes,
+    round(km * rate.fuel_cost_per_km),
+    round(km * rate.upkeep_cost_per_km),
+    round(minutes * rate.cost_per_minute),
+    tolls,
+    round(running_cost),
+    sharing,
+    round(share),
+    -- Whole ₹5 steps read better than exact shares
+    GREATEST(round(share * (1 - rate.range_spread) / 5) * 5, 5),
+    GREATEST(round(share * (1 + rate.range_spread) / 5) * 5, 5),
+    GREATEST(ceil(share * rate.max_markup / 5) * 5, 5)
+  )
+  ON CONFLICT (trip_id) DO UPDATE
+  SET distance_km = EXCLUDED.distance_km,
+      duration_minutes = EXCLUDED.duration_minutes,
+      fuel_cost = EXCLUDED.fuel_cost,
+      upkeep_cost = EXCLUDED.upkeep_cost,
+      time_cost = EXCLUDED.time_cost,
+      toll_cost = EXCLUDED.toll_cost,
+      trip_cost = EXCLUDED.trip_cost,
+      people_sharing = EXCLUDED.people_sharing,
+      cost_per_seat = EXCLUDED.cost_per_seat,
+      suggested_min = EXCLUDED.suggested_min,
+      suggested_max = EXCLUDED.suggested_max,
+      price_cap = EXCLUDED.price_cap
+  RETURNING * INTO estimate;
+
+  RETURN estimate;
+END;
+$function$;
@@ -0,0 +1,52 @@
+-- Offers are held for 30 minutes or until the trip leaves, whichever comes
+-- first, but the notification always said 30 minutes. It now gives the time
+-- the passenger actually has.
+CREATE OR REPLACE FUNCTION public.offer_waitlist_seats(p_trip_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  trip RECORD;
+  entry RECORD;
+  seats_free INTEGER;
+  expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO trip FROM trips WHERE id = p_trip_id FOR UPDATE;
+  IF NOT FOUND OR trip.status <> 'scheduled' OR trip.departure_time <= now() THEN
+    RETURN;
+  END IF;
+
+  FOR entry IN
+    SELECT * FROM trip_waitlist
+    WHERE trip_id = p_trip_id AND status = 'waiting'
+    ORDER BY created_at, id
+  LOOP
+    SELECT min(legs.seats_free) INTO seats_free
+    FROM trip_leg_seats(p_trip_id) AS legs
+    WHERE legs.leg >= entry.from_stop AND legs.leg < entry.to_stop;
+
+    CONTINUE WHEN seats_free IS NULL OR seats_free < entry.seats_requested;
+
+    UPDATE trip_waitlist
+    SET status = 'offered',
+        offered_at = now(),
+        offer_expires_at = LEAST(now() + INTERVAL '30 minutes', trip.departure_time)
+    WHERE id = entry.id
+    RETURNING offer_expires_at INTO expires_at;
+
+    INSERT INTO notifications (user_id, type, title, body, trip_id)
+    VALUES (
+      entry.passenger_id,
+      'waitlist_offer',
+      'A seat opened up: ' || trip.start_location || ' → ' || trip.destination,
+      entry.seats_requested || ' seat(s) are held for you for '
+        || ceil(extract(EPOCH FROM expires_at - now()) / 60)::INTEGER || ' minute(s). Claim them on the trip page.',
+      trip.id
+    );
+  END LOOP;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.offer_waitlist_seats(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,63 @@
+-- Passengers could open a conversation with the driver of any trip, however
+-- old. Asking about a ride now needs the trip to still be upcoming or under
+-- way, unless the passenger has booked it or already has a conversation.
+CREATE OR REPLACE FUNCTION public.start_conversation(p_trip_id UUID, p_passenger_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  caller UUID := auth.uid();
+  trip_driver UUID;
+  trip_state trip_status;
+  target_passenger UUID;
+  latest_booking UUID;
+  conversation UUID;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to send messages';
+  END IF;
+
+  SELECT driver_id, status INTO trip_driver, trip_state FROM trips WHERE id = p_trip_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+
+  IF caller = trip_driver THEN
+    IF p_passenger_id IS NULL THEN
+      RAISE EXCEPTION 'A passenger is required';
+    END IF;
+    target_passenger := p_passenger_id;
+  ELSE
+    target_passenger := caller;
+  END IF;
+
+  SELECT id INTO latest_booking
+  FROM bookings
+  WHERE trip_id = p_trip_id AND passenger_id = target_passenger
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF caller = trip_driver AND latest_booking IS NULL THEN
+    RAISE EXCEPTION 'This passenger has not booked your trip';
+  END IF;
+
+  IF caller <> trip_driver AND latest_booking IS NULL
+     AND trip_state NOT IN ('scheduled', 'active')
+     AND NOT EXISTS (
+       SELECT 1 FROM conversations WHERE trip_id = p_trip_id AND passenger_id = target_passenger
+     ) THEN
+    RAISE EXCEPTION 'This trip is no longer taking passengers'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO conversations (trip_id, booking_id, driver_id, passenger_id)
+  VALUES (p_trip_id, latest_booking, trip_driver, target_passenger)
+  ON CONFLICT (trip_id, passenger_id)
+  DO UPDATE SET booking_id = COALESCE(EXCLUDED.booking_id, conversations.booking_id)
+  RETURNING id INTO conversation;
+
+  RETURN conversation;
+END;
+$function$;
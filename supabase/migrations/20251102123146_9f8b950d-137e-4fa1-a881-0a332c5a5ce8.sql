@@ -0,0 +1,49 @@
+-- A live location could name any trip, and its breadcrumbs were then kept on
+-- that trip's trail for the driver and passengers to see. Only the trip's
+-- driver and its accepted passengers leave breadcrumbs now.
+CREATE OR REPLACE FUNCTION public.record_location_breadcrumb()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  mover UUID := (to_jsonb(NEW) ->> TG_ARGV[0])::UUID;
+  last_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NEW.trip_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM trips WHERE id = NEW.trip_id AND driver_id = mover
+    UNION ALL
+    SELECT 1 FROM bookings WHERE trip_id = NEW.trip_id AND passenger_id = mover AND status = 'accepted'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT recorded_at INTO last_at
+  FROM location_breadcrumbs
+  WHERE trip_id = NEW.trip_id AND user_id = mover
+  ORDER BY id DESC
+  LIMIT 1;
+
+  -- Also drops fixes older than the trail's head, e.g. a stale queue
+  IF last_at IS NOT NULL AND NEW.recorded_at < last_at + INTERVAL '10 seconds' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO location_breadcrumbs (trip_id, user_id, latitude, longitude, heading, speed, recorded_at)
+  VALUES (NEW.trip_id, mover, NEW.latitude, NEW.longitude, NEW.heading, NEW.speed, NEW.recorded_at);
+
+  DELETE FROM location_breadcrumbs
+  WHERE trip_id = NEW.trip_id
+  AND user_id = mover
+  AND id <= (
+    SELECT id FROM location_breadcrumbs
+    WHERE trip_id = NEW.trip_id AND user_id = mover
+    ORDER BY id DESC
+    OFFSET 1000
+    LIMIT 1
+  );
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,25 @@
+-- Users could update any column of their own notifications, e.g. clear
+-- emailed_at to have an alert emailed again or point one at another trip.
+-- Marking a notification read is the only change they can make now.
+CREATE OR REPLACE FUNCTION public.guard_notification_edits()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF is_system_change() THEN
+    RETURN NEW;
+  END IF;
+
+  IF to_jsonb(NEW) - 'read_at' <> to_jsonb(OLD) - 'read_at' THEN
+    RAISE EXCEPTION 'Notifications can only be marked as read'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER guard_notification_edits
+BEFORE UPDATE ON public.notifications
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_notification_edits();
@@ -0,0 +1,279 @@
+-- Passengers can move their pickup and drop-off pins through a booking
+-- change instead of being refused outright. On a pending booking the move
+-- applies straight away; on an accepted one it goes to the driver, like
+-- extra seats, since it changes a route they may have planned around.
+ALTER TABLE public.booking_changes
+  ADD COLUMN old_pickup_name TEXT,
+  ADD COLUMN old_pickup_lat NUMERIC(9,6),
+  ADD COLUMN old_pickup_lng NUMERIC(9,6),
+  ADD COLUMN new_pickup_name TEXT,
+  ADD COLUMN new_pickup_lat NUMERIC(9,6),
+  ADD COLUMN new_pickup_lng NUMERIC(9,6),
+  ADD COLUMN old_dropoff_name TEXT,
+  ADD COLUMN old_dropoff_lat NUMERIC(9,6),
+  ADD COLUMN old_dropoff_lng NUMERIC(9,6),
+  ADD COLUMN new_dropoff_name TEXT,
+  ADD COLUMN new_dropoff_lat NUMERIC(9,6),
+  ADD COLUMN new_dropoff_lng NUMERIC(9,6);
+
+-- Earlier changes left the pins alone
+UPDATE public.booking_changes
+SET old_pickup_name = bookings.pickup_name,
+    old_pickup_lat = bookings.pickup_lat,
+    old_pickup_lng = bookings.pickup_lng,
+    new_pickup_name = bookings.pickup_name,
+    new_pickup_lat = bookings.pickup_lat,
+    new_pickup_lng = bookings.pickup_lng,
+    old_dropoff_name = bookings.dropoff_name,
+    old_dropoff_lat = bookings.dropoff_lat,
+    old_dropoff_lng = bookings.dropoff_lng,
+    new_dropoff_name = bookings.dropoff_name,
+    new_dropoff_lat = bookings.dropoff_lat,
+    new_dropoff_lng = bookings.dropoff_lng
+FROM public.bookings
+WHERE bookings.id = booking_changes.booking_id;
+
+CREATE OR REPLACE FUNCTION public.apply_booking_change(p_change public.booking_changes)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  PERFORM set_config('app.system_change', 'on', true);
+
+  UPDATE bookings
+  SET seats_requested = p_change.new_seats,
+      from_stop = p_change.new_from_stop,
+      message = p_change.new_message,
+      pickup_name = p_change.new_pickup_name,
+      pickup_lat = p_change.new_pickup_lat,
+      pickup_lng = p_change.new_pickup_lng,
+      dropoff_name = p_change.new_dropoff_name,
+      dropoff_lat = p_change.new_dropoff_lat,
+      dropoff_lng = p_change.new_dropoff_lng
+  WHERE id = p_change.booking_id;
+
+  PERFORM set_config('app.system_change', '', true);
+END;
+$function$;
+
+-- Taking the pins changes the signature, so the old function is replaced outright
+DROP FUNCTION public.request_booking_change(UUID, INTEGER, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.request_booking_change(
+  p_booking_id UUID,
+  p_seats INTEGER,
+  p_from_stop INTEGER,
+  p_message TEXT,
+  p_pickup_name TEXT DEFAULT NULL,
+  p_pickup_lat NUMERIC DEFAULT NULL,
+  p_pickup_lng NUMERIC DEFAULT NULL,
+  p_dropoff_name TEXT DEFAULT NULL,
+  p_dropoff_lat NUMERIC DEFAULT NULL,
+  p_dropoff_lng NUMERIC DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  booking RECORD;
+  trip RECORD;
+  change booking_changes;
+  needs_approval BOOLEAN;
+  pins_moved BOOLEAN;
+BEGIN
+  SELECT * INTO booking FROM bookings WHERE id = p_booking_id AND passenger_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF booking.status NOT IN ('pending', 'accepted') THEN
+    RAISE EXCEPTION 'Only pending or accepted bookings can be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO trip FROM trips WHERE id = booking.trip_id;
+  IF trip.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'Bookings can only be changed before the trip starts'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  change.id := gen_random_uuid();
+  change.booking_id := booking.id;
+  change.trip_id := booking.trip_id;
+  change.passenger_id := booking.passenger_id;
+  change.old_seats := booking.seats_requested;
+  change.new_seats := COALESCE(p_seats, booking.seats_requested);
+  change.old_from_stop := booking.from_stop;
+  change.new_from_stop := COALESCE(p_from_stop, booking.from_stop);
+  change.old_message := booking.message;
+  change.new_message := NULLIF(btrim(p_message), '');
+  -- Pins are sent as they should end up, so leaving one out removes it
+  change.old_pickup_name := booking.pickup_name;
+  change.old_pickup_lat := booking.pickup_lat;
+  change.old_pickup_lng := booking.pickup_lng;
+  change.new_pickup_name := NULLIF(btrim(p_pickup_name), '');
+  change.new_pickup_lat := round(p_pickup_lat, 6);
+  change.new_pickup_lng := round(p_pickup_lng, 6);
+  change.old_dropoff_name := booking.dropoff_name;
+  change.old_dropoff_lat := booking.dropoff_lat;
+  change.old_dropoff_lng := booking.dropoff_lng;
+  change.new_dropoff_name := NULLIF(btrim(p_dropoff_name), '');
+  change.new_dropoff_lat := round(p_dropoff_lat, 6);
+  change.new_dropoff_lng := round(p_dropoff_lng, 6);
+  change.created_at := now();
+  change.updated_at := now();
+
+  pins_moved := (change.new_pickup_name, change.new_pickup_lat, change.new_pickup_lng,
+                 change.new_dropoff_name, change.new_dropoff_lat, change.new_dropoff_lng)
+    IS DISTINCT FROM (NULLIF(change.old_pickup_name, ''), change.old_pickup_lat, change.old_pickup_lng,
+                      NULLIF(change.old_dropoff_name, ''), change.old_dropoff_lat, change.old_dropoff_lng);
+
+  IF change.new_seats = change.old_seats
+     AND change.new_from_stop = change.old_from_stop
+     AND change.new_message IS NOT DISTINCT FROM change.old_message
+     AND NOT pins_moved THEN
+    RAISE EXCEPTION 'Nothing to change' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE booking_changes
+  SET status = 'withdrawn'
+  WHERE booking_id = booking.id AND status = 'pending';
+
+  -- Moved pins change a route the driver may already have planned around
+  needs_approval := booking.status = 'accepted' AND (change.new_seats > change.old_seats OR pins_moved);
+
+  IF needs_approval THEN
+    change.status := 'pending';
+    INSERT INTO booking_changes SELECT change.*;
+
+    INSERT INTO notifications (user_id, type, title, body, trip_id)
+    VALUES (
+      trip.driver_id,
+      'booking_change_requested',
+      CASE WHEN change.new_seats > change.old_seats THEN 'More seats requested: ' ELSE 'Booking change requested: ' END
+        || trip.start_location || ' → ' || trip.destination,
+      CASE WHEN change.new_seats > change.old_seats
+        THEN 'A passenger would like ' || change.new_seats || ' seat(s) instead of ' || change.old_seats
+        ELSE 'A passenger would like to move their pickup or drop-off point'
+      END,
+      trip.id
+    );
+
+    RETURN change.status;
+  END IF;
+
+  -- Seat and stop checks run as the booking is updated
+  PERFORM apply_booking_change(change);
+
+  change.status := 'applied';
+  INSERT INTO booking_changes SELECT change.*;
+
+  IF booking.status = 'accepted' THEN
+    INSERT INTO notifications (user_id, type, title, body, trip_id)
+    VALUES (
+      trip.driver_id,
+      'booking_changed',
+      'Booking changed: ' || trip.start_location || ' → ' || trip.destination,
+      'A passenger updated their booking',
+      trip.id
+    );
+  END IF;
+
+  RETURN change.status;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_booking_change(p_change_id UUID, p_approve BOOLEAN)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  change booking_changes;
+  trip RECORD;
+BEGIN
+  SELECT * INTO change FROM booking_changes WHERE id = p_change_id FOR UPDATE;
+  SELECT * INTO trip FROM trips WHERE id = change.trip_id;
+
+  IF NOT FOUND OR trip.driver_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Booking change not found';
+  END IF;
+
+  IF change.status <> 'pending' THEN
+    RAISE EXCEPTION 'This change has already been answered'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_approve THEN
+    IF trip.status <> 'scheduled' THEN
+      RAISE EXCEPTION 'Bookings can only be changed before the trip starts'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    PERFORM apply_booking_change(change);
+  END IF;
+
+  UPDATE booking_changes
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'declined' END,
+      responded_at = now()
+  WHERE id = change.id;
+
+  INSERT INTO notifications (user_id, type, title, body, trip_id)
+  VALUES (
+    change.passenger_id,
+    CASE WHEN p_approve THEN 'booking_change_approved' ELSE 'booking_change_declined' END,
+    CASE WHEN p_approve THEN 'Booking change approved: ' ELSE 'Booking change declined: ' END
+      || trip.start_location || ' → ' || trip.destination,
+    CASE
+      WHEN change.new_seats <> change.old_seats AND p_approve THEN 'You now have ' || change.new_seats || ' seat(s)'
+      WHEN change.new_seats <> change.old_seats THEN 'Your booking stays at ' || change.old_seats || ' seat(s)'
+      WHEN p_approve THEN 'Your new pickup and drop-off points are confirmed'
+      ELSE 'Your pickup and drop-off points stay as they were'
+    END,
+    trip.id
+  );
+END;
+$function$;
+
+-- Pins move through the functions above, like seats and stops
+CREATE OR REPLACE FUNCTION public.guard_booking_edits()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+  IF is_system_change() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.seats_requested <> OLD.seats_requested OR NEW.message IS DISTINCT FROM OLD.message THEN
+    RAISE EXCEPTION 'Request a booking change to edit a booking'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.pickup_lat IS DISTINCT FROM OLD.pickup_lat OR NEW.pickup_lng IS DISTINCT FROM OLD.pickup_lng
+     OR NEW.pickup_name IS DISTINCT FROM OLD.pickup_name
+     OR NEW.dropoff_lat IS DISTINCT FROM OLD.dropoff_lat OR NEW.dropoff_lng IS DISTINCT FROM OLD.dropoff_lng
+     OR NEW.dropoff_name IS DISTINCT FROM OLD.dropoff_name THEN
+    RAISE EXCEPTION 'Request a booking change to move your pickup or drop-off point'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.picked_up_at IS DISTINCT FROM OLD.picked_up_at THEN
+    RAISE EXCEPTION 'Passengers are picked up with their pickup code'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.fare_per_seat IS DISTINCT FROM OLD.fare_per_seat
+     OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+     OR NEW.instant_booked IS DISTINCT FROM OLD.instant_booked THEN
+    RAISE EXCEPTION 'A booking''s fare and completion are set by the trip'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;